@@ -183,6 +183,8 @@ contract FundGovernance is OwnableUpgradeable, UUPSUpgradeable, ReentrancyGuardU
         votingPeriod = _votingPeriod;
         quorumPercentage = _quorumPercentage;
         proposalThreshold = _proposalThreshold;
+
+        emit VotingParametersUpdated(_votingPeriod, _quorumPercentage, _proposalThreshold);
     }
 
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
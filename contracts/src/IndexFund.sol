@@ -9,6 +9,7 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@uniswap/v3-periphery/contracts/interfaces/ISwapRouter.sol";
 import "./interfaces/IIndexFund.sol";
+import "./utils/PermitTransfers.sol";
 
 /// @title IndexFund - Multi-token index fund implementing ERC-4626
 /// @dev UUPS upgradeable, requires price oracle for production use
@@ -153,6 +154,36 @@ contract IndexFund is ERC4626Upgradeable, OwnableUpgradeable, UUPSUpgradeable, P
         shares = super.deposit(assets, receiver);
     }
 
+    /// @notice Deposit with an EIP-2612 permit on the asset instead of a prior approve
+    /// @param deadline Permit expiry (unix seconds)
+    function depositWithPermit(uint256 assets, address receiver, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external
+        returns (uint256)
+    {
+        PermitTransfers.permit(IERC20(asset()), assets, deadline, v, r, s);
+        return deposit(assets, receiver);
+    }
+
+    /// @notice Deposit pulling the asset through Permit2, for assets without EIP-2612
+    /// @param permitData Permit2 transfer the caller signed, with this vault as spender
+    /// @param signature The caller's signature over `permitData`
+    function depositWithPermit2(
+        uint256 assets,
+        address receiver,
+        IPermit2.PermitTransferFrom calldata permitData,
+        bytes calldata signature
+    ) external whenNotPaused returns (uint256 shares) {
+        uint256 maxAssets = maxDeposit(receiver);
+        if (assets > maxAssets) revert ERC4626ExceededMaxDeposit(receiver, assets, maxAssets);
+
+        // Priced before the transfer, as deposit() does
+        shares = previewDeposit(assets);
+        PermitTransfers.pullWithPermit2(IERC20(asset()), assets, permitData, signature);
+        _mint(receiver, shares);
+
+        emit Deposit(msg.sender, receiver, assets, shares);
+    }
+
     function mint(uint256 shares, address receiver) public virtual override whenNotPaused returns (uint256 assets) {
         assets = super.mint(shares, receiver);
     }
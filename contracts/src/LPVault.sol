@@ -7,6 +7,7 @@ import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./utils/PermitTransfers.sol";
 
 /// @title LPVault - Liquidity Provider Vault for Token Lending
 /// @notice LPs deposit tokens (e.g., WBTC) to earn yield from leveraged token borrowers
@@ -107,6 +108,37 @@ contract LPVault is ERC4626Upgradeable, OwnableUpgradeable, UUPSUpgradeable, Pau
         return super.deposit(assets, receiver);
     }
 
+    /// @notice Deposit with an EIP-2612 permit on the asset instead of a prior approve
+    /// @param deadline Permit expiry (unix seconds)
+    function depositWithPermit(uint256 assets, address receiver, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external
+        returns (uint256)
+    {
+        PermitTransfers.permit(IERC20(asset()), assets, deadline, v, r, s);
+        return deposit(assets, receiver);
+    }
+
+    /// @notice Deposit pulling the asset through Permit2, for assets without EIP-2612
+    /// @param permitData Permit2 transfer the caller signed, with this vault as spender
+    /// @param signature The caller's signature over `permitData`
+    function depositWithPermit2(
+        uint256 assets,
+        address receiver,
+        IPermit2.PermitTransferFrom calldata permitData,
+        bytes calldata signature
+    ) external whenNotPaused returns (uint256 shares) {
+        _accrueInterest();
+        uint256 maxAssets = maxDeposit(receiver);
+        if (assets > maxAssets) revert ERC4626ExceededMaxDeposit(receiver, assets, maxAssets);
+
+        // Priced before the transfer, as deposit() does
+        shares = previewDeposit(assets);
+        PermitTransfers.pullWithPermit2(IERC20(asset()), assets, permitData, signature);
+        _mint(receiver, shares);
+
+        emit Deposit(msg.sender, receiver, assets, shares);
+    }
+
     /// @notice Override withdraw to accrue interest and check liquidity
     function withdraw(uint256 assets, address receiver, address owner) public override whenNotPaused returns (uint256) {
         _accrueInterest();
@@ -10,6 +10,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@uniswap/v3-periphery/contracts/interfaces/ISwapRouter.sol";
 import "./interfaces/IChainlinkAggregator.sol";
 import "./utils/ReentrancyGuardUpgradeable.sol";
+import "./utils/PermitTransfers.sol";
 import "./LPVault.sol";
 
 /// @title LeveragedShortToken - 2x Daily Leveraged Short Token
@@ -158,6 +159,44 @@ contract LeveragedShortToken is
         // Transfer stable from user
         stableToken.safeTransferFrom(msg.sender, address(this), stableAmount);
 
+        shares = _mintFor(stableAmount);
+    }
+
+    /// @notice Mint with an EIP-2612 permit on the stable instead of a prior approve
+    /// @param stableAmount Amount of stable (USDC) to deposit
+    /// @param deadline Permit expiry (unix seconds)
+    /// @return shares Amount of leveraged token shares minted
+    function mintWithPermit(uint256 stableAmount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external
+        nonReentrant
+        whenNotPaused
+        returns (uint256 shares)
+    {
+        require(stableAmount > 0, "Zero amount");
+
+        PermitTransfers.permit(stableToken, stableAmount, deadline, v, r, s);
+        stableToken.safeTransferFrom(msg.sender, address(this), stableAmount);
+        shares = _mintFor(stableAmount);
+    }
+
+    /// @notice Mint pulling the stable through Permit2, for stables without EIP-2612
+    /// @param stableAmount Amount of stable (USDC) to deposit
+    /// @param permitData Permit2 transfer the caller signed, with this contract as spender
+    /// @param signature The caller's signature over `permitData`
+    /// @return shares Amount of leveraged token shares minted
+    function mintWithPermit2(
+        uint256 stableAmount,
+        IPermit2.PermitTransferFrom calldata permitData,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused returns (uint256 shares) {
+        require(stableAmount > 0, "Zero amount");
+
+        PermitTransfers.pullWithPermit2(stableToken, stableAmount, permitData, signature);
+        shares = _mintFor(stableAmount);
+    }
+
+    /// @dev Mints shares against `stableAmount` the contract has already received
+    function _mintFor(uint256 stableAmount) internal returns (uint256 shares) {
         // Calculate shares based on current NAV
         uint256 currentNav = getCurrentNav();
         shares = (stableAmount * PRECISION) / currentNav;
@@ -39,6 +39,7 @@ interface IFundGovernance {
     event VoteCast(address indexed voter, uint256 indexed proposalId, bool support, uint256 weight);
     event ProposalExecuted(uint256 indexed proposalId);
     event ProposalCancelled(uint256 indexed proposalId);
+    event VotingParametersUpdated(uint256 votingPeriod, uint256 quorumPercentage, uint256 proposalThreshold);
 
     function propose(address targetFund, ProposalType proposalType, bytes calldata proposalData)
         external
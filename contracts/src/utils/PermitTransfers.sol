@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "../interfaces/IPermit2.sol";
+
+/// @title PermitTransfers - Signature approvals for deposits
+/// @dev Lets a deposit approve and pull the caller's tokens in the same transaction, either with
+/// the token's own EIP-2612 permit or through Permit2 for tokens without one.
+library PermitTransfers {
+    /// @notice Canonical Permit2 deployment
+    IPermit2 internal constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+    /// @notice Apply an EIP-2612 permit from msg.sender to this contract
+    /// @dev Anyone can submit a permit seen in the mempool first, which burns its nonce. The
+    /// allowance it set is still there, so the permit only has to have landed, not be ours.
+    function permit(IERC20 token, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(address(token)).permit(msg.sender, address(this), amount, deadline, v, r, s) {}
+        catch {
+            require(token.allowance(msg.sender, address(this)) >= amount, "Permit failed");
+        }
+    }
+
+    /// @notice Pull `amount` of `token` from msg.sender to this contract with a Permit2 signature
+    function pullWithPermit2(
+        IERC20 token,
+        uint256 amount,
+        IPermit2.PermitTransferFrom calldata permitData,
+        bytes calldata signature
+    ) internal {
+        require(permitData.permitted.token == address(token), "Wrong permit token");
+        PERMIT2.permitTransferFrom(
+            permitData,
+            IPermit2.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            msg.sender,
+            signature
+        );
+    }
+}
@@ -208,4 +208,22 @@ contract FundGovernanceTest is Test {
         // Check status
         assertEq(uint8(governance.getProposalStatus(proposalId)), uint8(IFundGovernance.ProposalStatus.Cancelled));
     }
+
+    function testUpdateVotingParameters() public {
+        vm.expectEmit(address(governance));
+        emit IFundGovernance.VotingParametersUpdated(7 days, 2000, 50 * 10 ** 18);
+
+        vm.prank(owner);
+        governance.updateVotingParameters(7 days, 2000, 50 * 10 ** 18);
+
+        assertEq(governance.votingPeriod(), 7 days);
+        assertEq(governance.quorumPercentage(), 2000);
+        assertEq(governance.proposalThreshold(), 50 * 10 ** 18);
+    }
+
+    function test_RevertWhen_UpdateVotingParametersNotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert();
+        governance.updateVotingParameters(7 days, 2000, 50 * 10 ** 18);
+    }
 }
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "../src/IndexFund.sol";
+import "../src/LPVault.sol";
+import "../src/LeveragedLongToken.sol";
+import "../src/LeveragedShortToken.sol";
+import "../src/interfaces/IIndexFund.sol";
+import "../src/utils/PermitTransfers.sol";
+import "./helpers/TestHelpers.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @notice depositWithPermit / mintWithPermit (EIP-2612) and their Permit2 variants
+contract PermitDepositsTest is Test {
+    LPVault public vault;
+    LPVault public wethVault;
+    LeveragedLongToken public longToken;
+    LeveragedShortToken public shortToken;
+    IndexFund public fund;
+
+    MockUSDC public usdc;
+    MockERC20 public weth;
+    MockChainlinkOracle public oracle;
+    MockUniswapRouter public swapRouter;
+
+    uint256 constant USER_KEY = 0xA11CE;
+    address public user;
+    address public lp = address(0x1);
+
+    bytes32 constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    function setUp() public {
+        user = vm.addr(USER_KEY);
+
+        usdc = new MockUSDC();
+        weth = new MockERC20("Wrapped ETH", "WETH");
+        oracle = new MockChainlinkOracle(int256(2000 * 1e8), 8);
+        swapRouter = new MockUniswapRouter(address(usdc), address(weth), 2000 * 1e6, 6, 18);
+
+        vault = LPVault(
+            address(
+                new ERC1967Proxy(
+                    address(new LPVault()),
+                    abi.encodeWithSelector(LPVault.initialize.selector, address(usdc), "LP USDC Vault", "lpUSDC", 500)
+                )
+            )
+        );
+        wethVault = LPVault(
+            address(
+                new ERC1967Proxy(
+                    address(new LPVault()),
+                    abi.encodeWithSelector(LPVault.initialize.selector, address(weth), "LP WETH Vault", "lpWETH", 500)
+                )
+            )
+        );
+
+        longToken = LeveragedLongToken(
+            address(
+                new ERC1967Proxy(
+                    address(new LeveragedLongToken()),
+                    abi.encodeWithSelector(
+                        LeveragedLongToken.initialize.selector,
+                        "ETH 2x Daily Long",
+                        "ETH2X",
+                        address(vault),
+                        address(weth),
+                        address(swapRouter),
+                        address(oracle),
+                        uint24(3000),
+                        20000
+                    )
+                )
+            )
+        );
+        vault.authorizeBorrower(address(longToken));
+
+        shortToken = LeveragedShortToken(
+            address(
+                new ERC1967Proxy(
+                    address(new LeveragedShortToken()),
+                    abi.encodeWithSelector(
+                        LeveragedShortToken.initialize.selector,
+                        "ETH 2x Daily Short",
+                        "ETH-2X",
+                        address(wethVault),
+                        address(usdc),
+                        address(swapRouter),
+                        address(oracle),
+                        uint24(3000),
+                        20000
+                    )
+                )
+            )
+        );
+        wethVault.authorizeBorrower(address(shortToken));
+
+        IIndexFund.TokenAllocation[] memory allocations = new IIndexFund.TokenAllocation[](1);
+        allocations[0] = IIndexFund.TokenAllocation({token: address(weth), targetPercentage: 10000});
+        fund = IndexFund(
+            address(
+                new ERC1967Proxy(
+                    address(new IndexFund()),
+                    abi.encodeWithSelector(
+                        IndexFund.initialize.selector,
+                        "Test Index Fund",
+                        "TIF",
+                        address(usdc),
+                        allocations,
+                        200,
+                        address(new MockSwapRouter()),
+                        address(0xBEEF)
+                    )
+                )
+            )
+        );
+
+        // Liquidity for the leveraged tokens to borrow
+        usdc.mint(lp, 1000000 * 1e6);
+        weth.mint(lp, 1000 ether);
+        vm.startPrank(lp);
+        usdc.approve(address(vault), type(uint256).max);
+        vault.deposit(1000000 * 1e6, lp);
+        weth.approve(address(wethVault), type(uint256).max);
+        wethVault.deposit(1000 ether, lp);
+        vm.stopPrank();
+
+        usdc.mint(user, 100000 * 1e6);
+
+        vm.etch(address(PermitTransfers.PERMIT2), address(new MockPermit2()).code);
+    }
+
+    function _signPermit(address spender, uint256 value, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        bytes32 structHash = keccak256(abi.encode(PERMIT_TYPEHASH, user, spender, value, usdc.nonces(user), deadline));
+        return vm.sign(USER_KEY, keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash)));
+    }
+
+    function _permit2(address token, uint256 amount, uint256 nonce)
+        internal
+        view
+        returns (IPermit2.PermitTransferFrom memory)
+    {
+        return IPermit2.PermitTransferFrom({
+            permitted: IPermit2.TokenPermissions({token: token, amount: amount}),
+            nonce: nonce,
+            deadline: block.timestamp + 30 minutes
+        });
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    //                    EIP-2612
+    // ═══════════════════════════════════════════════════════════════
+
+    function testVaultDepositWithPermit() public {
+        uint256 amount = 10000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(vault), amount, deadline);
+        uint256 expected = vault.previewDeposit(amount);
+
+        vm.prank(user);
+        uint256 shares = vault.depositWithPermit(amount, user, deadline, v, r, s);
+
+        assertEq(shares, expected);
+        assertEq(vault.balanceOf(user), expected);
+        assertEq(usdc.allowance(user, address(vault)), 0);
+    }
+
+    function testDepositWithPermitSurvivesFrontRunPermit() public {
+        uint256 amount = 10000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(vault), amount, deadline);
+
+        // Someone submits the signature from the mempool first
+        usdc.permit(user, address(vault), amount, deadline, v, r, s);
+
+        vm.prank(user);
+        uint256 shares = vault.depositWithPermit(amount, user, deadline, v, r, s);
+        assertGt(shares, 0);
+    }
+
+    function testDepositWithPermitRevertsAfterDeadline() public {
+        uint256 amount = 10000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(vault), amount, deadline);
+
+        vm.warp(deadline + 1);
+        vm.prank(user);
+        vm.expectRevert("Permit failed");
+        vault.depositWithPermit(amount, user, deadline, v, r, s);
+    }
+
+    function testDepositWithPermitRejectsPermitForAnotherSpender() public {
+        uint256 amount = 10000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(fund), amount, deadline);
+
+        vm.prank(user);
+        vm.expectRevert("Permit failed");
+        vault.depositWithPermit(amount, user, deadline, v, r, s);
+    }
+
+    function testFundDepositWithPermit() public {
+        uint256 amount = 5000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(fund), amount, deadline);
+
+        vm.prank(user);
+        uint256 shares = fund.depositWithPermit(amount, user, deadline, v, r, s);
+
+        assertEq(fund.balanceOf(user), shares);
+        assertEq(usdc.balanceOf(address(fund)), amount);
+    }
+
+    function testLongMintWithPermitMatchesMint() public {
+        uint256 amount = 1000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        uint256 expected = (amount * 1e18) / longToken.getCurrentNav();
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(longToken), amount, deadline);
+
+        vm.prank(user);
+        uint256 shares = longToken.mintWithPermit(amount, deadline, v, r, s);
+
+        assertEq(shares, expected);
+        assertEq(longToken.balanceOf(user), expected);
+        assertEq(longToken.totalBorrowed(), amount);
+    }
+
+    function testShortMintWithPermit() public {
+        uint256 amount = 1000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(shortToken), amount, deadline);
+
+        vm.prank(user);
+        uint256 shares = shortToken.mintWithPermit(amount, deadline, v, r, s);
+
+        assertGt(shares, 0);
+        assertEq(shortToken.balanceOf(user), shares);
+    }
+
+    function testMintWithPermitBlockedWhenPaused() public {
+        uint256 amount = 1000 * 1e6;
+        uint256 deadline = block.timestamp + 30 minutes;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(address(longToken), amount, deadline);
+        longToken.pause();
+
+        vm.prank(user);
+        vm.expectRevert();
+        longToken.mintWithPermit(amount, deadline, v, r, s);
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    //                    PERMIT2
+    // ═══════════════════════════════════════════════════════════════
+
+    function testVaultDepositWithPermit2() public {
+        uint256 amount = 10000 * 1e6;
+        uint256 expected = vault.previewDeposit(amount);
+        vm.startPrank(user);
+        usdc.approve(address(PermitTransfers.PERMIT2), type(uint256).max);
+
+        uint256 shares = vault.depositWithPermit2(amount, user, _permit2(address(usdc), amount, 1), "");
+        vm.stopPrank();
+
+        assertEq(shares, expected);
+        assertEq(vault.balanceOf(user), expected);
+        // Nothing was approved to the vault itself
+        assertEq(usdc.allowance(user, address(vault)), 0);
+    }
+
+    function testFundDepositWithPermit2() public {
+        uint256 amount = 5000 * 1e6;
+        vm.startPrank(user);
+        usdc.approve(address(PermitTransfers.PERMIT2), type(uint256).max);
+
+        uint256 shares = fund.depositWithPermit2(amount, user, _permit2(address(usdc), amount, 1), "");
+        vm.stopPrank();
+
+        assertEq(fund.balanceOf(user), shares);
+        assertEq(usdc.balanceOf(address(fund)), amount);
+    }
+
+    function testLongMintWithPermit2() public {
+        uint256 amount = 1000 * 1e6;
+        uint256 expected = (amount * 1e18) / longToken.getCurrentNav();
+        vm.startPrank(user);
+        usdc.approve(address(PermitTransfers.PERMIT2), type(uint256).max);
+
+        uint256 shares = longToken.mintWithPermit2(amount, _permit2(address(usdc), amount, 1), "");
+        vm.stopPrank();
+
+        assertEq(shares, expected);
+    }
+
+    function testPermit2RejectsPermitForAnotherToken() public {
+        vm.startPrank(user);
+        usdc.approve(address(PermitTransfers.PERMIT2), type(uint256).max);
+
+        vm.expectRevert("Wrong permit token");
+        vault.depositWithPermit2(1000 * 1e6, user, _permit2(address(weth), 1000 * 1e6, 1), "");
+        vm.stopPrank();
+    }
+
+    function testPermit2NonceCannotBeReused() public {
+        uint256 amount = 1000 * 1e6;
+        vm.startPrank(user);
+        usdc.approve(address(PermitTransfers.PERMIT2), type(uint256).max);
+        vault.depositWithPermit2(amount, user, _permit2(address(usdc), amount, 7), "");
+
+        vm.expectRevert("InvalidNonce");
+        vault.depositWithPermit2(amount, user, _permit2(address(usdc), amount, 7), "");
+        vm.stopPrank();
+    }
+}
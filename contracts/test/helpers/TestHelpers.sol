@@ -2,6 +2,8 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "../../src/interfaces/IPermit2.sol";
 
 contract MockERC20 is ERC20 {
     uint8 private _decimals;
@@ -24,8 +26,9 @@ contract MockERC20 is ERC20 {
     }
 }
 
-contract MockUSDC is ERC20 {
-    constructor() ERC20("USD Coin", "USDC") {
+/// @notice USDC stand-in; supports EIP-2612 permit like the real token
+contract MockUSDC is ERC20Permit {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {
         _mint(msg.sender, 1000000 * 10 ** 6);
     }
 
@@ -158,3 +161,24 @@ contract MockChainlinkOracle {
         return 1;
     }
 }
+
+/// @notice Stand-in for Permit2, etched at its canonical address
+/// @dev Enforces the deadline, nonce reuse and amount cap and moves the tokens; signatures are
+/// not verified, so tests cover the deposit side of the integration only
+contract MockPermit2 {
+    mapping(address => mapping(uint256 => bool)) public nonceUsed;
+
+    function permitTransferFrom(
+        IPermit2.PermitTransferFrom calldata permit,
+        IPermit2.SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata
+    ) external {
+        require(block.timestamp <= permit.deadline, "SignatureExpired");
+        require(transferDetails.requestedAmount <= permit.permitted.amount, "InvalidAmount");
+        require(!nonceUsed[owner][permit.nonce], "InvalidNonce");
+        nonceUsed[owner][permit.nonce] = true;
+
+        IERC20(permit.permitted.token).transferFrom(owner, transferDetails.to, transferDetails.requestedAmount);
+    }
+}
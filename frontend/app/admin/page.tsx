@@ -1,9 +1,6 @@
 "use client";
 
-import { useEffect } from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
-import { parseAbi } from "viem";
-import toast from "react-hot-toast";
+import { useAccount, useReadContract } from "wagmi";
 import {
   Shield,
   AlertTriangle,
@@ -16,15 +13,18 @@ import {
 } from "lucide-react";
 import { TransactionButton } from "@/components/shared/TransactionButton";
 import { StatCard } from "@/components/shared";
-import { CONTRACTS } from "@/lib/contracts";
+import { AlertPanel } from "@/components/admin";
 import { LP_VAULT_ABI, LEVERAGED_LONG_TOKEN_ABI, INDEX_FUND_ABI } from "@/lib/abis";
+import { formatAmount, UNITS } from "@/lib/amounts";
 import {
   useLPVaultStats,
   useETH2XStats,
   useIndexFundStats,
   formatTokenAmount,
   formatPercent,
-  parseError,
+  useDeployment,
+  useTransaction,
+  useSimulation,
 } from "@/hooks";
 
 function StatusIndicator({ isActive, label }: { isActive: boolean; label: string }) {
@@ -43,33 +43,37 @@ function StatusIndicator({ isActive, label }: { isActive: boolean; label: string
 }
 
 export default function AdminPage() {
+  const { chainId, contracts } = useDeployment();
   const { address, isConnected } = useAccount();
 
   // Check ownership for each contract
   const { data: lpVaultOwner } = useReadContract({
-    address: CONTRACTS.LP_VAULT_LONG as `0x${string}`,
-    abi: parseAbi(["function owner() view returns (address)"]),
+    address: contracts.LP_VAULT_LONG as `0x${string}`,
+    abi: LP_VAULT_ABI,
+    chainId,
     functionName: "owner",
   });
 
   const { data: eth2xOwner } = useReadContract({
-    address: CONTRACTS.ETH2X_LONG as `0x${string}`,
-    abi: parseAbi(["function owner() view returns (address)"]),
+    address: contracts.ETH2X_LONG as `0x${string}`,
+    abi: LEVERAGED_LONG_TOKEN_ABI,
+    chainId,
     functionName: "owner",
   });
 
   const { data: indexFundOwner } = useReadContract({
-    address: CONTRACTS.INDEX_FUND as `0x${string}`,
-    abi: parseAbi(["function owner() view returns (address)"]),
+    address: contracts.INDEX_FUND as `0x${string}`,
+    abi: INDEX_FUND_ABI,
+    chainId,
     functionName: "owner",
   });
 
   const isLPVaultOwner =
-    lpVaultOwner && address && lpVaultOwner.toString().toLowerCase() === address.toLowerCase();
+    lpVaultOwner && address && lpVaultOwner.toLowerCase() === address.toLowerCase();
   const isETH2XOwner =
-    eth2xOwner && address && eth2xOwner.toString().toLowerCase() === address.toLowerCase();
+    eth2xOwner && address && eth2xOwner.toLowerCase() === address.toLowerCase();
   const isIndexFundOwner =
-    indexFundOwner && address && indexFundOwner.toString().toLowerCase() === address.toLowerCase();
+    indexFundOwner && address && indexFundOwner.toLowerCase() === address.toLowerCase();
   const isAnyOwner = isLPVaultOwner || isETH2XOwner || isIndexFundOwner;
 
   // Contract stats
@@ -77,239 +81,113 @@ export default function AdminPage() {
   const eth2xStats = useETH2XStats();
   const indexFundStats = useIndexFundStats();
 
-  // LP Vault Pause/Unpause
-  const {
-    writeContract: pauseLPVault,
-    isPending: isPausingLP,
-    data: pauseLPHash,
-    error: pauseLPError,
-  } = useWriteContract();
-
-  const { isLoading: isPauseLPConfirming, isSuccess: isPauseLPSuccess, error: pauseLPReceiptError } = useWaitForTransactionReceipt({
-    hash: pauseLPHash,
-  });
-
-  const {
-    writeContract: unpauseLPVault,
-    isPending: isUnpausingLP,
-    data: unpauseLPHash,
-    error: unpauseLPError,
-  } = useWriteContract();
-
-  const { isLoading: isUnpauseLPConfirming, isSuccess: isUnpauseLPSuccess, error: unpauseLPReceiptError } = useWaitForTransactionReceipt({
-    hash: unpauseLPHash,
-  });
-
-  // ETH2X Pause/Unpause
-  const {
-    writeContract: pauseETH2X,
-    isPending: isPausingETH2X,
-    data: pauseETH2XHash,
-    error: pauseETH2XError,
-  } = useWriteContract();
-
-  const { isLoading: isPauseETH2XConfirming, isSuccess: isPauseETH2XSuccess, error: pauseETH2XReceiptError } = useWaitForTransactionReceipt({
-    hash: pauseETH2XHash,
-  });
-
-  const {
-    writeContract: unpauseETH2X,
-    isPending: isUnpausingETH2X,
-    data: unpauseETH2XHash,
-    error: unpauseETH2XError,
-  } = useWriteContract();
-
-  const { isLoading: isUnpauseETH2XConfirming, isSuccess: isUnpauseETH2XSuccess, error: unpauseETH2XReceiptError } = useWaitForTransactionReceipt({
-    hash: unpauseETH2XHash,
-  });
-
-  // ETH2X Rebalance
-  const {
-    writeContract: rebalanceETH2X,
-    isPending: isRebalancingETH2X,
-    data: rebalanceETH2XHash,
-    error: rebalanceETH2XError,
-  } = useWriteContract();
-
-  const { isLoading: isRebalanceETH2XConfirming, isSuccess: isRebalanceETH2XSuccess, error: rebalanceETH2XReceiptError } = useWaitForTransactionReceipt({
-    hash: rebalanceETH2XHash,
-  });
-
-  // Index Fund Rebalance
-  const {
-    writeContract: rebalanceIndex,
-    isPending: isRebalancingIndex,
-    data: rebalanceIndexHash,
-    error: rebalanceIndexError,
-  } = useWriteContract();
-
-  const { isLoading: isRebalanceIndexConfirming, isSuccess: isRebalanceIndexSuccess, error: rebalanceIndexReceiptError } = useWaitForTransactionReceipt({
-    hash: rebalanceIndexHash,
-  });
-
-  // Index Fund Collect Fees
-  const {
-    writeContract: collectFees,
-    isPending: isCollecting,
-    data: collectHash,
-    error: collectError,
-  } = useWriteContract();
-
-  const { isLoading: isCollectConfirming, isSuccess: isCollectSuccess, error: collectReceiptError } = useWaitForTransactionReceipt({
-    hash: collectHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (pauseLPError) toast.error(parseError(pauseLPError), { duration: 5000 });
-  }, [pauseLPError]);
-
-  useEffect(() => {
-    if (pauseLPReceiptError) toast.error(parseError(pauseLPReceiptError), { duration: 5000 });
-  }, [pauseLPReceiptError]);
-
-  useEffect(() => {
-    if (unpauseLPError) toast.error(parseError(unpauseLPError), { duration: 5000 });
-  }, [unpauseLPError]);
-
-  useEffect(() => {
-    if (unpauseLPReceiptError) toast.error(parseError(unpauseLPReceiptError), { duration: 5000 });
-  }, [unpauseLPReceiptError]);
-
-  useEffect(() => {
-    if (pauseETH2XError) toast.error(parseError(pauseETH2XError), { duration: 5000 });
-  }, [pauseETH2XError]);
-
-  useEffect(() => {
-    if (pauseETH2XReceiptError) toast.error(parseError(pauseETH2XReceiptError), { duration: 5000 });
-  }, [pauseETH2XReceiptError]);
-
-  useEffect(() => {
-    if (unpauseETH2XError) toast.error(parseError(unpauseETH2XError), { duration: 5000 });
-  }, [unpauseETH2XError]);
-
-  useEffect(() => {
-    if (unpauseETH2XReceiptError) toast.error(parseError(unpauseETH2XReceiptError), { duration: 5000 });
-  }, [unpauseETH2XReceiptError]);
-
-  useEffect(() => {
-    if (rebalanceETH2XError) toast.error(parseError(rebalanceETH2XError), { duration: 5000 });
-  }, [rebalanceETH2XError]);
-
-  useEffect(() => {
-    if (rebalanceETH2XReceiptError) toast.error(parseError(rebalanceETH2XReceiptError), { duration: 5000 });
-  }, [rebalanceETH2XReceiptError]);
-
-  useEffect(() => {
-    if (rebalanceIndexError) toast.error(parseError(rebalanceIndexError), { duration: 5000 });
-  }, [rebalanceIndexError]);
-
-  useEffect(() => {
-    if (rebalanceIndexReceiptError) toast.error(parseError(rebalanceIndexReceiptError), { duration: 5000 });
-  }, [rebalanceIndexReceiptError]);
-
-  useEffect(() => {
-    if (collectError) toast.error(parseError(collectError), { duration: 5000 });
-  }, [collectError]);
-
-  useEffect(() => {
-    if (collectReceiptError) toast.error(parseError(collectReceiptError), { duration: 5000 });
-  }, [collectReceiptError]);
-
-  // Handle success
-  useEffect(() => {
-    if (isPauseLPSuccess) toast.success("LP Vault paused!");
-  }, [isPauseLPSuccess]);
-
-  useEffect(() => {
-    if (isUnpauseLPSuccess) toast.success("LP Vault unpaused!");
-  }, [isUnpauseLPSuccess]);
-
-  useEffect(() => {
-    if (isPauseETH2XSuccess) toast.success("ETH2X paused!");
-  }, [isPauseETH2XSuccess]);
-
-  useEffect(() => {
-    if (isUnpauseETH2XSuccess) toast.success("ETH2X unpaused!");
-  }, [isUnpauseETH2XSuccess]);
-
-  useEffect(() => {
-    if (isRebalanceETH2XSuccess) toast.success("ETH2X rebalanced!");
-  }, [isRebalanceETH2XSuccess]);
-
-  useEffect(() => {
-    if (isRebalanceIndexSuccess) toast.success("Index Fund rebalanced!");
-  }, [isRebalanceIndexSuccess]);
-
-  useEffect(() => {
-    if (isCollectSuccess) toast.success("Fees collected!");
-  }, [isCollectSuccess]);
+  const pauseLPTx = useTransaction();
+  const unpauseLPTx = useTransaction();
+  const pauseETH2XTx = useTransaction();
+  const unpauseETH2XTx = useTransaction();
+  const rebalanceETH2XTx = useTransaction();
+  const rebalanceIndexTx = useTransaction();
+  const collectTx = useTransaction();
+
+  // Contract calls - the visible action on each row is dry-run before the wallet opens
+  const pauseLPCall = {
+    address: contracts.LP_VAULT_LONG as `0x${string}`,
+    abi: LP_VAULT_ABI,
+    chainId,
+    functionName: "pause",
+  } as const;
+
+  const unpauseLPCall = {
+    address: contracts.LP_VAULT_LONG as `0x${string}`,
+    abi: LP_VAULT_ABI,
+    chainId,
+    functionName: "unpause",
+  } as const;
+
+  const pauseETH2XCall = {
+    address: contracts.ETH2X_LONG as `0x${string}`,
+    abi: LEVERAGED_LONG_TOKEN_ABI,
+    chainId,
+    functionName: "pause",
+  } as const;
+
+  const unpauseETH2XCall = {
+    address: contracts.ETH2X_LONG as `0x${string}`,
+    abi: LEVERAGED_LONG_TOKEN_ABI,
+    chainId,
+    functionName: "unpause",
+  } as const;
+
+  const rebalanceETH2XCall = {
+    address: contracts.ETH2X_LONG as `0x${string}`,
+    abi: LEVERAGED_LONG_TOKEN_ABI,
+    chainId,
+    functionName: "rebalance",
+  } as const;
+
+  const rebalanceIndexCall = {
+    address: contracts.INDEX_FUND as `0x${string}`,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "rebalance",
+    // Swap calldata is built off-chain (see script/Rebalance.s.sol); an empty batch skips every swap
+    args: [[]],
+  } as const;
+
+  const collectCall = {
+    address: contracts.INDEX_FUND as `0x${string}`,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "collectFees",
+  } as const;
+
+  const pauseLPPreflight = useSimulation(isLPVaultOwner && !lpVaultStats.paused ? pauseLPCall : undefined);
+  const unpauseLPPreflight = useSimulation(isLPVaultOwner && lpVaultStats.paused ? unpauseLPCall : undefined);
+  const pauseETH2XPreflight = useSimulation(isETH2XOwner && !eth2xStats.paused ? pauseETH2XCall : undefined);
+  const unpauseETH2XPreflight = useSimulation(isETH2XOwner && eth2xStats.paused ? unpauseETH2XCall : undefined);
+  const rebalanceETH2XPreflight = useSimulation(isETH2XOwner ? rebalanceETH2XCall : undefined);
+  const rebalanceIndexPreflight = useSimulation(isIndexFundOwner ? rebalanceIndexCall : undefined);
+  const collectPreflight = useSimulation(isIndexFundOwner ? collectCall : undefined);
 
   // Handlers
   const handlePauseLPVault = () => {
-    pauseLPVault({
-      address: CONTRACTS.LP_VAULT_LONG as `0x${string}`,
-      abi: parseAbi(LP_VAULT_ABI),
-      functionName: "pause",
-    });
+    pauseLPTx.send(pauseLPCall, { label: "Pause LP Vault", successMessage: "LP Vault paused!" });
   };
 
   const handleUnpauseLPVault = () => {
-    unpauseLPVault({
-      address: CONTRACTS.LP_VAULT_LONG as `0x${string}`,
-      abi: parseAbi(LP_VAULT_ABI),
-      functionName: "unpause",
-    });
+    unpauseLPTx.send(unpauseLPCall, { label: "Unpause LP Vault", successMessage: "LP Vault unpaused!" });
   };
 
   const handlePauseETH2X = () => {
-    pauseETH2X({
-      address: CONTRACTS.ETH2X_LONG as `0x${string}`,
-      abi: parseAbi(LEVERAGED_LONG_TOKEN_ABI),
-      functionName: "pause",
-    });
+    pauseETH2XTx.send(pauseETH2XCall, { label: "Pause ETH2X", successMessage: "ETH2X paused!" });
   };
 
   const handleUnpauseETH2X = () => {
-    unpauseETH2X({
-      address: CONTRACTS.ETH2X_LONG as `0x${string}`,
-      abi: parseAbi(LEVERAGED_LONG_TOKEN_ABI),
-      functionName: "unpause",
-    });
+    unpauseETH2XTx.send(unpauseETH2XCall, { label: "Unpause ETH2X", successMessage: "ETH2X unpaused!" });
   };
 
   const handleRebalanceETH2X = () => {
-    rebalanceETH2X({
-      address: CONTRACTS.ETH2X_LONG as `0x${string}`,
-      abi: parseAbi(LEVERAGED_LONG_TOKEN_ABI),
-      functionName: "rebalance",
-    });
+    rebalanceETH2XTx.send(rebalanceETH2XCall, { label: "Rebalance ETH2X", successMessage: "ETH2X rebalanced!" });
   };
 
   const handleRebalanceIndex = () => {
-    rebalanceIndex({
-      address: CONTRACTS.INDEX_FUND as `0x${string}`,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "rebalance",
-    });
+    rebalanceIndexTx.send(rebalanceIndexCall, { label: "Rebalance Index Fund", successMessage: "Index Fund rebalanced!" });
   };
 
   const handleCollectFees = () => {
-    collectFees({
-      address: CONTRACTS.INDEX_FUND as `0x${string}`,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "collectFees",
-    });
+    collectTx.send(collectCall, { label: "Collect fees", successMessage: "Fees collected!" });
   };
 
-  // Check system health
+  // Check system health; both ratios are in basis points
   const utilizationHealthy =
     lpVaultStats.utilizationRate === undefined ||
-    Number(lpVaultStats.utilizationRate) < 9000; // < 90%
+    lpVaultStats.utilizationRate < BigInt(9000); // < 90%
   const leverageHealthy =
     eth2xStats.leverageRatio === undefined ||
-    (Number(eth2xStats.leverageRatio) / 1e18 >= 1.8 &&
-      Number(eth2xStats.leverageRatio) / 1e18 <= 2.2);
+    (eth2xStats.leverageRatio >= BigInt(18000) && eth2xStats.leverageRatio <= BigInt(22000));
+  const leverageLabel = eth2xStats.leverageRatio
+    ? `${formatAmount(eth2xStats.leverageRatio, UNITS.BPS.decimals, { maxDecimals: 2, minDecimals: 2 })}x`
+    : "N/A";
 
   if (!isConnected) {
     return (
@@ -393,15 +271,14 @@ export default function AdminPage() {
           />
           <StatCard
             title="ETH2X Leverage"
-            value={
-              eth2xStats.leverageRatio
-                ? `${(Number(eth2xStats.leverageRatio) / 1e18).toFixed(2)}x`
-                : "N/A"
-            }
+            value={leverageLabel}
             subtitle={leverageHealthy ? "Within range" : "Needs attention"}
             isLoading={eth2xStats.isLoading}
           />
         </div>
+        <div className="mt-4">
+          <AlertPanel />
+        </div>
       </section>
 
       {/* LP Vault Controls */}
@@ -417,14 +294,15 @@ export default function AdminPage() {
                 </div>
                 <p className="mt-1 text-sm text-foreground-muted">
                   Utilization: {formatPercent(lpVaultStats.utilizationRate)} |
-                  TVL: {formatTokenAmount(lpVaultStats.totalAssets)} WETH
+                  TVL: {formatTokenAmount(lpVaultStats.totalAssets, lpVaultStats.assetDecimals, 2)} USDC
                 </p>
               </div>
               <div className="flex gap-3">
                 {lpVaultStats.paused ? (
                   <TransactionButton
                     onClick={handleUnpauseLPVault}
-                    isLoading={isUnpausingLP || isUnpauseLPConfirming}
+                    isLoading={unpauseLPTx.isLoading}
+                    error={unpauseLPPreflight.error}
                     loadingText="Unpausing..."
                   >
                     <Play className="h-4 w-4" />
@@ -433,7 +311,8 @@ export default function AdminPage() {
                 ) : (
                   <TransactionButton
                     onClick={handlePauseLPVault}
-                    isLoading={isPausingLP || isPauseLPConfirming}
+                    isLoading={pauseLPTx.isLoading}
+                    error={pauseLPPreflight.error}
                     loadingText="Pausing..."
                     variant="secondary"
                   >
@@ -461,9 +340,7 @@ export default function AdminPage() {
                 </div>
                 <p className="mt-1 text-sm text-foreground-muted">
                   Leverage:{" "}
-                  {eth2xStats.leverageRatio
-                    ? `${(Number(eth2xStats.leverageRatio) / 1e18).toFixed(2)}x`
-                    : "N/A"}{" "}
+                  {leverageLabel}{" "}
                   | Supply: {formatTokenAmount(eth2xStats.totalSupply)} ETH2X
                 </p>
               </div>
@@ -471,7 +348,8 @@ export default function AdminPage() {
                 {eth2xStats.paused ? (
                   <TransactionButton
                     onClick={handleUnpauseETH2X}
-                    isLoading={isUnpausingETH2X || isUnpauseETH2XConfirming}
+                    isLoading={unpauseETH2XTx.isLoading}
+                    error={unpauseETH2XPreflight.error}
                     loadingText="Unpausing..."
                   >
                     <Play className="h-4 w-4" />
@@ -480,7 +358,8 @@ export default function AdminPage() {
                 ) : (
                   <TransactionButton
                     onClick={handlePauseETH2X}
-                    isLoading={isPausingETH2X || isPauseETH2XConfirming}
+                    isLoading={pauseETH2XTx.isLoading}
+                    error={pauseETH2XPreflight.error}
                     loadingText="Pausing..."
                     variant="secondary"
                   >
@@ -502,7 +381,8 @@ export default function AdminPage() {
                 </div>
                 <TransactionButton
                   onClick={handleRebalanceETH2X}
-                  isLoading={isRebalancingETH2X || isRebalanceETH2XConfirming}
+                  isLoading={rebalanceETH2XTx.isLoading}
+                  error={rebalanceETH2XPreflight.error}
                   loadingText="Rebalancing..."
                   variant="secondary"
                 >
@@ -530,7 +410,8 @@ export default function AdminPage() {
               </div>
               <TransactionButton
                 onClick={handleRebalanceIndex}
-                isLoading={isRebalancingIndex || isRebalanceIndexConfirming}
+                isLoading={rebalanceIndexTx.isLoading}
+                error={rebalanceIndexPreflight.error}
                 loadingText="Rebalancing..."
                 variant="secondary"
               >
@@ -545,12 +426,13 @@ export default function AdminPage() {
                 <div>
                   <span className="font-medium">Collect Management Fees</span>
                   <p className="mt-1 text-sm text-foreground-muted">
-                    Accrued fees: {formatTokenAmount(indexFundStats.accruedFees)} IDX
+                    Accrued fees: {formatTokenAmount(indexFundStats.accruedFees, indexFundStats.shareDecimals)} IDX
                   </p>
                 </div>
                 <TransactionButton
                   onClick={handleCollectFees}
-                  isLoading={isCollecting || isCollectConfirming}
+                  isLoading={collectTx.isLoading}
+                  error={collectPreflight.error}
                   loadingText="Collecting..."
                   disabled={!indexFundStats.accruedFees || indexFundStats.accruedFees === BigInt(0)}
                 >
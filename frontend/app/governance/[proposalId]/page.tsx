@@ -0,0 +1,314 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useSearchParams } from "next/navigation";
+import { useAccount, useReadContracts } from "wagmi";
+import { isAddress } from "viem";
+import { ArrowLeft, CheckCircle, Circle, Loader2 } from "lucide-react";
+import {
+  ProposalDescription,
+  ProposalDiff,
+  SnapshotPower,
+  StatusBadge,
+  VoteActions,
+  VoterTable,
+  type Proposal,
+} from "@/components/governance";
+import { FUND_GOVERNANCE_ABI, ProposalStatus } from "@/lib/abis";
+import { bps, minAmount, ratioBps, type BPS } from "@/lib/amounts";
+import { PROPOSAL_TYPE_LABELS, decodeProposalData, quorumVotes } from "@/lib/proposals";
+import {
+  useDeployment,
+  useIndexFundStats,
+  useProposalSnapshot,
+  useProposalVotes,
+  useTokenSymbols,
+  formatTokenAmount,
+  formatPercent,
+} from "@/hooks";
+
+const FULL = BigInt(10000);
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+function parseProposalId(value: string | undefined): bigint | undefined {
+  return value && /^\d+$/.test(value) && BigInt(value) > BigInt(0) ? BigInt(value) : undefined;
+}
+
+function TimelineStep({ label, time, done }: { label: string; time?: string; done: boolean }) {
+  return (
+    <div className="flex items-start gap-3">
+      {done ? (
+        <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-success" />
+      ) : (
+        <Circle className="mt-0.5 h-4 w-4 shrink-0 text-foreground-muted" />
+      )}
+      <div>
+        <p className={done ? "font-medium" : "text-foreground-muted"}>{label}</p>
+        {time && <p className="text-sm text-foreground-muted">{time}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default function ProposalPage() {
+  const params = useParams<{ proposalId: string }>();
+  const proposalId = parseProposalId(params.proposalId);
+  const { chainId, contracts } = useDeployment();
+  const { isConnected } = useAccount();
+
+  // Ids are per governance contract; links to proposals on another one carry ?governance=
+  const governanceParam = useSearchParams().get("governance");
+  const governanceAddress =
+    governanceParam && isAddress(governanceParam) ? governanceParam : contracts.FUND_GOVERNANCE;
+
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      {
+        address: governanceAddress as `0x${string}`,
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
+        functionName: "getProposal",
+        args: [proposalId ?? BigInt(0)],
+      },
+      {
+        address: governanceAddress as `0x${string}`,
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
+        functionName: "getProposalStatus",
+        args: [proposalId ?? BigInt(0)],
+      },
+      {
+        address: governanceAddress as `0x${string}`,
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
+        functionName: "quorumPercentage",
+      },
+    ],
+    query: { enabled: proposalId !== undefined },
+  });
+
+  // Unknown ids come back as an empty struct
+  const proposal = data?.[0]?.result as Proposal | undefined;
+  const status = data?.[1]?.result as number | undefined;
+  const quorumPercentage = data?.[2]?.result as BPS | undefined;
+  const exists = !!proposal && proposal.id !== BigInt(0) && status !== undefined;
+
+  const { totalSupply, shareDecimals } = useIndexFundStats(exists ? proposal.targetFund : undefined);
+  const fundLabel = useTokenSymbols(exists ? [proposal.targetFund] : []);
+  const { votes, execution, isLoading: votesLoading } = useProposalVotes(
+    governanceAddress,
+    exists ? proposal.id : undefined,
+    exists ? proposal.targetFund : undefined,
+    // New votes or an execution change these, which refetches the event list
+    exists ? `${proposal.forVotes}-${proposal.againstVotes}-${status}` : undefined
+  );
+
+  const { snapshot } = useProposalSnapshot(
+    governanceAddress,
+    exists ? proposal : undefined,
+    votes.map((vote) => vote.voter)
+  );
+
+  if (proposalId !== undefined && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-accent-purple" />
+      </div>
+    );
+  }
+
+  if (!exists) {
+    return (
+      <div className="space-y-4">
+        <Link
+          href="/governance"
+          className="inline-flex items-center gap-1 text-sm text-foreground-muted hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to governance
+        </Link>
+        <div className="glass-card p-8 text-center text-foreground-muted">
+          Proposal #{params.proposalId} was not found on this network.
+        </div>
+      </div>
+    );
+  }
+
+  const fundSymbol = fundLabel(proposal.targetFund);
+  const totalVotes = proposal.forVotes + proposal.againstVotes;
+  const forShare = ratioBps(proposal.forVotes, totalVotes, "nearest");
+  const againstShare = totalVotes > BigInt(0) ? bps(FULL - forShare) : bps(0);
+
+  // Same formula as the contract, which also uses the fund's current supply
+  const quorum =
+    totalSupply !== undefined && quorumPercentage !== undefined ? quorumVotes(totalSupply, quorumPercentage) : undefined;
+  const quorumProgress =
+    quorum === undefined ? bps(0) : quorum > BigInt(0) ? minAmount(ratioBps(totalVotes, quorum), bps(FULL)) : bps(FULL);
+  const quorumReached = quorum !== undefined && totalVotes >= quorum;
+
+  // Tally with every vote capped at the voter's snapshot power - what the result would be if
+  // shares moved between wallets after creation only counted once
+  const capped = (support: boolean) =>
+    votes
+      .filter((vote) => vote.support === support)
+      .reduce((sum, vote) => {
+        const atSnapshot = snapshot?.power[vote.voter.toLowerCase()];
+        return sum + (atSnapshot !== undefined && atSnapshot < vote.weight ? atSnapshot : vote.weight);
+      }, BigInt(0));
+  const adjustedFor = capped(true);
+  const adjustedAgainst = capped(false);
+  const hasExcessVotes = adjustedFor + adjustedAgainst < totalVotes;
+
+  const now = Math.floor(Date.now() / 1000);
+  const endTime = Number(proposal.endTime);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link
+          href="/governance"
+          className="inline-flex items-center gap-1 text-sm text-foreground-muted hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to governance
+        </Link>
+        <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="text-foreground-muted">Proposal #{proposal.id.toString()}</span>
+              <StatusBadge status={status} />
+            </div>
+            <h1 className="mt-1 text-3xl font-bold gradient-text">
+              {PROPOSAL_TYPE_LABELS[proposal.proposalType] ?? "Unknown Action"}
+            </h1>
+            <p className="mt-2 text-sm text-foreground-muted">
+              Proposed by{" "}
+              <span className="font-mono" title={proposal.proposer}>
+                {proposal.proposer.slice(0, 6)}...{proposal.proposer.slice(-4)}
+              </span>{" "}
+              for <span title={proposal.targetFund}>{fundSymbol}</span>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <section>
+            <h2 className="mb-4 text-lg font-semibold">Description</h2>
+            <ProposalDescription
+              governanceAddress={governanceAddress}
+              proposal={proposal}
+            />
+          </section>
+
+          <section>
+            <h2 className="mb-4 text-lg font-semibold">Action</h2>
+            <ProposalDiff
+              action={decodeProposalData(proposal.proposalType, proposal.proposalData)}
+              targetFund={proposal.targetFund}
+              data={proposal.proposalData}
+              executed={status === ProposalStatus.Executed}
+            />
+          </section>
+        </div>
+
+        <div className="space-y-6">
+          <section className="glass-card space-y-4 p-6">
+            <h2 className="text-lg font-semibold">Results</h2>
+            <div>
+              <div className="mb-2 flex justify-between text-sm">
+                <span className="text-success">For {formatPercent(forShare, 1)}</span>
+                <span className="text-error">Against {formatPercent(againstShare, 1)}</span>
+              </div>
+              <div className="flex h-3 overflow-hidden rounded-full bg-white/10">
+                <div className="bg-success" style={{ width: formatPercent(forShare) }} />
+                <div className="bg-error" style={{ width: formatPercent(againstShare) }} />
+              </div>
+              <div className="mt-2 flex justify-between text-xs text-foreground-muted">
+                <span>{formatTokenAmount(proposal.forVotes, shareDecimals)} {fundSymbol}</span>
+                <span>{formatTokenAmount(proposal.againstVotes, shareDecimals)} {fundSymbol}</span>
+              </div>
+            </div>
+
+            <div>
+              <div className="mb-2 flex justify-between text-sm">
+                <span className="text-foreground-muted">Quorum ({formatPercent(quorumPercentage)} of supply)</span>
+                <span className={quorumReached ? "text-success" : ""}>{formatPercent(quorumProgress, 1)}</span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-white/10">
+                <div
+                  className={quorumReached ? "h-full bg-success" : "h-full bg-accent-blue"}
+                  style={{ width: formatPercent(quorumProgress) }}
+                />
+              </div>
+              <p className="mt-2 text-xs text-foreground-muted">
+                {formatTokenAmount(totalVotes, shareDecimals)} of {formatTokenAmount(quorum, shareDecimals)} {fundSymbol} needed
+              </p>
+            </div>
+
+            {snapshot && hasExcessVotes && (
+              <div className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
+                <p className="font-medium">Some votes exceed their snapshot power</p>
+                <p className="mt-1 text-xs">
+                  Capped at voting power as of block {snapshot.blockNumber.toString()}: For{" "}
+                  {formatTokenAmount(adjustedFor, shareDecimals)} / Against {formatTokenAmount(adjustedAgainst, shareDecimals)} {fundSymbol}.
+                  The contract counts the uncapped totals.
+                </p>
+              </div>
+            )}
+
+            {isConnected && (
+              <div className="space-y-3 border-t border-white/10 pt-4">
+                <SnapshotPower proposal={proposal} governanceAddress={governanceAddress} />
+                <VoteActions proposal={proposal} status={status} governanceAddress={governanceAddress} />
+              </div>
+            )}
+          </section>
+
+          <section className="glass-card space-y-4 p-6">
+            <h2 className="text-lg font-semibold">Timeline</h2>
+            <TimelineStep label="Voting started" time={formatTime(Number(proposal.startTime))} done />
+            <TimelineStep
+              label={endTime <= now ? "Voting ended" : "Voting ends"}
+              time={formatTime(endTime)}
+              done={endTime <= now}
+            />
+            {status === ProposalStatus.Cancelled ? (
+              <TimelineStep label="Cancelled" done />
+            ) : status === ProposalStatus.Defeated ? (
+              <TimelineStep label="Defeated - will not execute" done />
+            ) : (
+              <TimelineStep
+                label={execution || status === ProposalStatus.Executed ? "Executed" : "Execution"}
+                time={
+                  execution
+                    ? formatTime(execution.timestamp)
+                    : status === ProposalStatus.Succeeded
+                      ? "Ready to execute"
+                      : undefined
+                }
+                done={status === ProposalStatus.Executed}
+              />
+            )}
+          </section>
+        </div>
+      </div>
+
+      <section>
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Voters</h2>
+          <span className="text-sm text-foreground-muted">{votes.length} votes</span>
+        </div>
+        {votesLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-accent-purple" />
+          </div>
+        ) : (
+          <VoterTable votes={votes} fundSymbol={fundSymbol} shareDecimals={shareDecimals} snapshot={snapshot} />
+        )}
+      </section>
+    </div>
+  );
+}
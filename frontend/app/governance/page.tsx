@@ -1,30 +1,39 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useAccount, useReadContract, useReadContracts } from "wagmi";
-import { parseAbi } from "viem";
-import { ChevronDown, Loader2 } from "lucide-react";
+import { AlertTriangle, ChevronDown, Loader2 } from "lucide-react";
 import { StatCard } from "@/components/shared";
-import { ProposalList, CreateProposal } from "@/components/governance";
+import { ProposalList, CreateProposal, DelegationPanel, ParameterPanel } from "@/components/governance";
 import {
+  useFundGovernance,
   useGovernanceParams,
   useVotingPower,
   useIndexFundStats,
   formatTokenAmount,
+  formatPercent,
+  useDeployment,
 } from "@/hooks";
-import { CONTRACTS } from "@/lib/contracts";
 import { FUND_FACTORY_ABI, ERC20_ABI } from "@/lib/abis";
+import { ratioBps } from "@/lib/amounts";
 
 export default function GovernancePage() {
-  const [selectedFund, setSelectedFund] = useState<string>(CONTRACTS.INDEX_FUND);
+  const { chainId, contracts } = useDeployment();
+  const [selectedFund, setSelectedFund] = useState<string>(contracts.INDEX_FUND);
+
+  // Fall back to the new chain's initial fund when the network changes
+  useEffect(() => {
+    setSelectedFund(contracts.INDEX_FUND);
+  }, [contracts.INDEX_FUND]);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   const { isConnected } = useAccount();
 
   // Get all funds from factory
   const { data: fundsData, isLoading: fundsLoading } = useReadContract({
-    address: CONTRACTS.FUND_FACTORY as `0x${string}`,
-    abi: parseAbi(FUND_FACTORY_ABI),
+    address: contracts.FUND_FACTORY as `0x${string}`,
+    abi: FUND_FACTORY_ABI,
+    chainId,
     functionName: "getAllFunds",
   });
 
@@ -34,12 +43,14 @@ export default function GovernancePage() {
   const fundInfoContracts = funds.flatMap((fundAddress) => [
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
+      abi: ERC20_ABI,
+      chainId,
       functionName: "name" as const,
     },
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
+      abi: ERC20_ABI,
+      chainId,
       functionName: "symbol" as const,
     },
   ]);
@@ -59,25 +70,26 @@ export default function GovernancePage() {
   const selectedFundName = selectedFundInfo?.name || "Select Fund";
   const selectedFundSymbol = selectedFundInfo?.symbol || "FUND";
 
-  // Use the selected fund's governance address (currently using default governance)
-  // In future, this should query the fund's governance address
-  const governanceAddress = CONTRACTS.FUND_GOVERNANCE;
+  const {
+    governanceAddress,
+    governsFund,
+    fundOwner,
+    isLoading: governanceLoading,
+  } = useFundGovernance(selectedFund);
 
-  const { votingPower, isLoading: votingPowerLoading } = useVotingPower(governanceAddress);
+  const { votingPower } = useVotingPower(selectedFund);
   const {
     votingPeriod,
-    quorumPercent,
+    quorumPercentage,
     proposalThreshold,
     proposalCount,
+    quorumVotes,
     isLoading: paramsLoading,
-  } = useGovernanceParams(governanceAddress);
-  const { totalSupply } = useIndexFundStats(selectedFund);
+  } = useGovernanceParams(selectedFund);
+  const { totalSupply, shareDecimals } = useIndexFundStats(selectedFund);
 
   // Calculate voting power percentage
-  const votingPowerPercent =
-    votingPower && totalSupply && totalSupply > BigInt(0)
-      ? (Number(votingPower) / Number(totalSupply)) * 100
-      : 0;
+  const votingPowerShare = ratioBps(votingPower ?? BigInt(0), totalSupply ?? BigInt(0));
 
   // Format voting period
   const formatDuration = (seconds: bigint | undefined): string => {
@@ -98,7 +110,11 @@ export default function GovernancePage() {
             Participate in protocol decisions with your fund tokens
           </p>
         </div>
-        <CreateProposal governanceAddress={governanceAddress} fundSymbol={selectedFundSymbol} />
+        <CreateProposal
+          governanceAddress={governanceAddress}
+          fundAddress={selectedFund}
+          fundSymbol={selectedFundSymbol}
+        />
       </div>
 
       {/* Fund Selector */}
@@ -158,6 +174,20 @@ export default function GovernancePage() {
         </div>
       </section>
 
+      {!governanceLoading && !governsFund && (
+        <div className="flex items-start gap-3 rounded-xl bg-warning/10 p-4 text-sm text-warning">
+          <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0" />
+          <p>
+            {selectedFundName} is owned by{" "}
+            <span className="font-mono">
+              {fundOwner ? `${fundOwner.slice(0, 6)}...${fundOwner.slice(-4)}` : "an unknown account"}
+            </span>
+            , not a governance contract. Proposals go to the default governance, which can collect votes but
+            can&apos;t execute allocation updates for this fund.
+          </p>
+        </div>
+      )}
+
       {/* User Stats */}
       {isConnected && (
         <section>
@@ -167,10 +197,15 @@ export default function GovernancePage() {
               <div>
                 <p className="text-sm text-foreground-muted">Voting Power</p>
                 <p className="mt-1 text-3xl font-bold">
-                  {formatTokenAmount(votingPower)} {selectedFundSymbol}
+                  {formatTokenAmount(votingPower, shareDecimals)} {selectedFundSymbol}
                 </p>
                 <p className="mt-1 text-sm text-foreground-muted">
-                  {votingPowerPercent.toFixed(2)}% of total supply
+                  {formatPercent(votingPowerShare)} of total supply
+                </p>
+                <p className="mt-2 max-w-md text-xs text-foreground-muted">
+                  Live balance - FundGovernance weighs a vote by the {selectedFundSymbol} you hold when you
+                  cast it. Each proposal also shows your power at its snapshot (the block before it was
+                  created), and votes above that are flagged so shares moved between wallets stand out.
                 </p>
               </div>
               <div className="h-px w-full bg-white/10 sm:h-16 sm:w-px" />
@@ -179,7 +214,7 @@ export default function GovernancePage() {
                   Proposal Threshold
                 </p>
                 <p className="mt-1 text-xl font-bold">
-                  {formatTokenAmount(proposalThreshold)} {selectedFundSymbol}
+                  {formatTokenAmount(proposalThreshold, shareDecimals)} {selectedFundSymbol}
                 </p>
                 <p className="mt-1 text-sm text-foreground-muted">
                   Minimum to create proposals
@@ -187,6 +222,9 @@ export default function GovernancePage() {
               </div>
             </div>
           </div>
+          <div className="mt-4">
+            <DelegationPanel fundAddress={selectedFund} fundSymbol={selectedFundSymbol} />
+          </div>
         </section>
       )}
 
@@ -197,6 +235,7 @@ export default function GovernancePage() {
           <StatCard
             title="Total Proposals"
             value={proposalCount?.toString() || "0"}
+            subtitle="Across all funds"
             isLoading={paramsLoading}
           />
           <StatCard
@@ -206,21 +245,28 @@ export default function GovernancePage() {
           />
           <StatCard
             title="Quorum"
-            value={`${quorumPercent?.toString() || "0"}%`}
-            subtitle="Of total supply"
+            value={formatPercent(quorumPercentage)}
+            subtitle={`${formatTokenAmount(quorumVotes, shareDecimals)} ${selectedFundSymbol} of supply`}
             isLoading={paramsLoading}
           />
           <StatCard
             title="Proposal Threshold"
-            value={formatTokenAmount(proposalThreshold)}
+            value={formatTokenAmount(proposalThreshold, shareDecimals)}
             subtitle={`${selectedFundSymbol} required`}
             isLoading={paramsLoading}
           />
         </div>
+        <div className="mt-4">
+          <ParameterPanel fundAddress={selectedFund} fundSymbol={selectedFundSymbol} />
+        </div>
       </section>
 
       {/* Proposals List */}
-      <ProposalList governanceAddress={governanceAddress} />
+      <ProposalList
+        governanceAddress={governanceAddress}
+        fundAddress={selectedFund}
+        fundSymbol={selectedFundSymbol}
+      />
 
       {/* How it works */}
       <section>
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { Loader2, ChevronLeft, ChevronRight, AlertTriangle } from "lucide-react";
+import { HistoryTable } from "@/components/history";
+import {
+  useAccountHistory,
+  HISTORY_PRODUCTS,
+  HISTORY_TYPES,
+  type HistoryProduct,
+  type HistoryType,
+} from "@/hooks";
+
+const PAGE_SIZE = 20;
+
+function FilterPills<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Record<T, { label: string }>;
+  value: T | undefined;
+  onChange: (value: T | undefined) => void;
+}) {
+  const pillClass = (active: boolean) =>
+    `rounded-lg px-3 py-1.5 text-sm font-medium transition-all ${
+      active ? "bg-accent-purple text-white" : "bg-white/5 text-foreground-muted hover:text-white"
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button onClick={() => onChange(undefined)} className={pillClass(value === undefined)}>
+        All
+      </button>
+      {(Object.keys(options) as T[]).map((key) => (
+        <button key={key} onClick={() => onChange(key)} className={pillClass(value === key)}>
+          {options[key].label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const { isConnected } = useAccount();
+  const [product, setProduct] = useState<HistoryProduct>();
+  const [type, setType] = useState<HistoryType>();
+  const [page, setPage] = useState(0);
+
+  const { events, funds, hasMore, status, isConfigured, isWrongChain, isLoading, error } = useAccountHistory({
+    product,
+    type,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  const notice = !isConfigured
+    ? "Transaction history needs the event indexer. Run it from indexer/ and set NEXT_PUBLIC_INDEXER_URL."
+    : isWrongChain
+      ? `The indexer follows chain ${status?.chainId}. Switch networks to see your history.`
+      : error
+        ? `Could not reach the indexer: ${error.message}`
+        : null;
+
+  return (
+    <div className="space-y-8">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold gradient-text">History</h1>
+        <p className="mt-2 text-foreground-muted">
+          Every mint, redeem, deposit, withdrawal, vote and proposal from your wallet
+        </p>
+      </div>
+
+      {/* Filters */}
+      <section className="space-y-3">
+        <FilterPills
+          options={HISTORY_PRODUCTS}
+          value={product}
+          onChange={(value) => {
+            setProduct(value);
+            setPage(0);
+          }}
+        />
+        <FilterPills
+          options={HISTORY_TYPES}
+          value={type}
+          onChange={(value) => {
+            setType(value);
+            setPage(0);
+          }}
+        />
+      </section>
+
+      {/* Activity */}
+      <section>
+        {!isConnected ? (
+          <div className="glass-card p-8 text-center">
+            <p className="text-foreground-muted">Connect your wallet to view your history</p>
+          </div>
+        ) : notice ? (
+          <div className="glass-card flex items-center gap-3 p-6 text-warning">
+            <AlertTriangle className="h-5 w-5 shrink-0" />
+            <p className="text-sm">{notice}</p>
+          </div>
+        ) : isLoading ? (
+          <div className="glass-card flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-accent-purple" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="glass-card p-8 text-center">
+            <p className="text-foreground-muted">
+              {page === 0 ? "No activity found" : "No more activity"}
+            </p>
+          </div>
+        ) : (
+          <HistoryTable events={events} funds={funds} />
+        )}
+
+        {/* Pagination */}
+        {isConnected && !notice && (page > 0 || hasMore) && (
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="flex items-center gap-1 rounded-lg bg-white/5 px-3 py-2 text-sm font-medium transition-all hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </button>
+            <span className="text-sm text-foreground-muted">Page {page + 1}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!hasMore}
+              className="flex items-center gap-1 rounded-lg bg-white/5 px-3 py-2 text-sm font-medium transition-all hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {status && !isWrongChain && status.head !== null && status.lastBlock !== null && status.head - status.lastBlock > 10 && (
+          <p className="mt-4 text-sm text-foreground-muted">
+            Indexer is catching up: block {status.lastBlock.toLocaleString()} of {status.head.toLocaleString()}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { StatCard } from "@/components/shared";
 import {
   PortfolioAllocation,
@@ -8,32 +8,33 @@ import {
   OwnerControls,
   CreateFund,
   FundList,
+  FundPerformance,
+  FundPositions,
 } from "@/components/index-fund";
-import { useIndexFundStats, formatTokenAmount, formatUSD } from "@/hooks";
-import { CONTRACTS } from "@/lib/contracts";
+import { useIndexFundStats, formatTokenAmount, formatUSD, formatPercent, useDeployment } from "@/hooks";
+import { one, UNITS } from "@/lib/amounts";
 
 export default function IndexFundPage() {
-  const [selectedFund, setSelectedFund] = useState<string | null>(CONTRACTS.INDEX_FUND);
+  const { contracts } = useDeployment();
+  const [selectedFund, setSelectedFund] = useState<string | null>(contracts.INDEX_FUND);
+
+  // Fall back to the new chain's initial fund when the network changes
+  useEffect(() => {
+    setSelectedFund(contracts.INDEX_FUND);
+  }, [contracts.INDEX_FUND]);
   const [refreshKey, setRefreshKey] = useState(0);
 
   const {
     totalAssets,
     totalSupply,
     managementFeeRate,
+    shareDecimals,
     sharePrice,
     isLoading,
   } = useIndexFundStats(selectedFund || undefined);
 
-  // Calculate TVL (assuming assets are in USDC with 6 decimals, normalized to 18)
-  const tvl = totalAssets ? Number(totalAssets) / 1e6 : 0;
-
-  // Share price in USDC
-  const sharePriceUSD = sharePrice ? Number(sharePrice) / 1e18 : 1;
-
-  // Management fee rate (assuming stored as basis points)
-  const feePercent = managementFeeRate
-    ? (Number(managementFeeRate) / 100).toFixed(2)
-    : "0";
+  // Management fee rate in basis points
+  const feePercent = formatPercent(managementFeeRate);
 
   const handleFundCreated = () => {
     setRefreshKey((k) => k + 1);
@@ -67,6 +68,9 @@ export default function IndexFundPage() {
         />
       </section>
 
+      {/* Holdings across funds, redeemable together */}
+      <FundPositions />
+
       {/* Selected Fund Details */}
       {selectedFund && (
         <>
@@ -76,30 +80,36 @@ export default function IndexFundPage() {
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
               <StatCard
                 title="Total TVL"
-                value={formatUSD(tvl)}
+                value={formatUSD(totalAssets)}
                 isLoading={isLoading}
               />
               <StatCard
                 title="Total Supply"
-                value={formatTokenAmount(totalSupply)}
+                value={formatTokenAmount(totalSupply, shareDecimals)}
                 subtitle="shares"
                 isLoading={isLoading}
               />
               <StatCard
                 title="Share Price"
-                value={formatUSD(sharePriceUSD)}
+                value={formatUSD(sharePrice ?? one(UNITS.USDC6))}
                 subtitle="Per share"
                 isLoading={isLoading}
               />
               <StatCard
                 title="Management Fee"
-                value={`${feePercent}%`}
+                value={feePercent}
                 subtitle="Annual"
                 isLoading={isLoading}
               />
             </div>
           </section>
 
+          {/* Performance */}
+          <section>
+            <h2 className="mb-4 text-lg font-semibold">Performance</h2>
+            <FundPerformance fundAddress={selectedFund} />
+          </section>
+
           {/* Main Content */}
           <div className="grid gap-6 lg:grid-cols-2">
             {/* Left Column */}
@@ -167,7 +177,7 @@ export default function IndexFundPage() {
                   <div className="space-y-1 text-sm text-foreground-muted">
                     <div className="flex justify-between">
                       <span>Management Fee</span>
-                      <span>{feePercent}% annually</span>
+                      <span>{feePercent} annually</span>
                     </div>
                     <div className="flex justify-between">
                       <span>Deposit Fee</span>
@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { StatCard } from "@/components/shared";
-import { MintRedeemCard, PositionInfo, RebalanceStatus } from "@/components/leverage";
+import { MintRedeemCard, NavChart, PositionInfo, RebalanceStatus } from "@/components/leverage";
 import {
   useLeveragedTokenStats,
   useETHPrice,
@@ -10,6 +10,7 @@ import {
   formatUSD,
   type LeverageType,
 } from "@/hooks";
+import { bps, formatAmount, UNITS } from "@/lib/amounts";
 import { TrendingUp, TrendingDown } from "lucide-react";
 
 export default function LeveragePage() {
@@ -28,19 +29,11 @@ export default function LeveragePage() {
 
   const isLong = leverageType === "long";
 
-  // Calculate NAV in USD (NAV is stored in 6 decimals for USDC)
-  const navUSD = currentNAV ? Number(currentNAV) / 1e6 : 0;
-
-  // Calculate total market cap
-  const totalMarketCap =
-    totalSupply && currentNAV
-      ? (Number(totalSupply) * Number(currentNAV)) / 1e24
-      : 0;
-
   // Current leverage (stored in basis points, 20000 = 2x)
-  const currentLeverage = leverageRatio
-    ? (Number(leverageRatio) / 10000).toFixed(2)
-    : "2.00";
+  const currentLeverage = formatAmount(leverageRatio ?? bps(20000), UNITS.BPS.decimals, {
+    maxDecimals: 2,
+    minDecimals: 2,
+  });
 
   return (
     <div className="space-y-8">
@@ -115,7 +108,7 @@ export default function LeveragePage() {
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <StatCard
             title="Current NAV"
-            value={formatUSD(navUSD)}
+            value={formatUSD(currentNAV)}
             subtitle={`Per ${tokenSymbol} token`}
             isLoading={isLoading}
           />
@@ -133,12 +126,18 @@ export default function LeveragePage() {
           />
           <StatCard
             title="ETH Price"
-            value={formatUSD(ethPrice)}
+            value={formatUSD(ethPrice, UNITS.PRICE8)}
             isLoading={ethPriceLoading}
           />
         </div>
       </section>
 
+      {/* NAV History */}
+      <section>
+        <h2 className="mb-4 text-lg font-semibold">NAV History</h2>
+        <NavChart type={leverageType} />
+      </section>
+
       {/* Main Content */}
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Mint/Redeem Card */}
@@ -20,12 +20,6 @@ export default function LPVaultPage() {
     isLoading,
   } = useLPVaultStats("long");
 
-  // Calculate TVL in USD (USDC is 1:1 with USD, 6 decimals)
-  const tvlUSD = totalAssets ? Number(totalAssets) / 1e6 : 0;
-
-  // APY calculation (interest rate is in basis points, e.g., 500 = 5%)
-  const apy = interestRate ? Number(interestRate) / 100 : 0;
-
   return (
     <div className="space-y-8">
       {/* Page Header */}
@@ -49,13 +43,13 @@ export default function LPVaultPage() {
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <StatCard
             title="Total TVL"
-            value={formatUSD(tvlUSD)}
+            value={formatUSD(totalAssets)}
             subtitle={`${formatTokenAmount(totalAssets, 6, 2)} USDC`}
             isLoading={isLoading}
           />
           <StatCard
             title="APY"
-            value={`${apy.toFixed(2)}%`}
+            value={formatPercent(interestRate)}
             subtitle="Variable rate"
             isLoading={isLoading}
           />
@@ -113,7 +107,7 @@ export default function LPVaultPage() {
               <div className="mt-3 flex items-center gap-4 text-sm">
                 <div>
                   <span className="text-foreground-muted">Current Rate: </span>
-                  <span className="font-medium text-success">{apy.toFixed(2)}%</span>
+                  <span className="font-medium text-success">{formatPercent(interestRate)}</span>
                 </div>
                 <div>
                   <span className="text-foreground-muted">Utilization: </span>
@@ -11,9 +11,13 @@ import {
   useIndexFundStats,
   useIndexFundUserPosition,
   useETHPrice,
+  useLeveragedTokenPnl,
   formatTokenAmount,
   formatUSD,
+  formatPercent,
+  type PnlReport,
 } from "@/hooks";
+import { UNITS, usdc6, valueAt, type USDC6 } from "@/lib/amounts";
 
 function StatCard({
   title,
@@ -45,6 +49,43 @@ function StatCard({
   );
 }
 
+function PnlRow({
+  token,
+  report,
+  isLoading,
+}: {
+  token: string;
+  report: PnlReport | undefined;
+  isLoading: boolean;
+}) {
+  const signed = (value: USDC6) => (
+    <span className={value > BigInt(0) ? "text-success" : value < BigInt(0) ? "text-error" : ""}>
+      {value > BigInt(0) ? "+" : ""}
+      {formatUSD(value)}
+    </span>
+  );
+
+  return (
+    <tr className="border-b border-white/5 last:border-0">
+      <td className="px-6 py-4">{token}</td>
+      {isLoading || !report ? (
+        <td colSpan={4} className="px-6 py-4 text-right text-foreground-muted">
+          {isLoading ? <Loader2 className="ml-auto h-4 w-4 animate-spin" /> : "-"}
+        </td>
+      ) : (
+        <>
+          <td className="px-6 py-4">{formatUSD(report.costBasis)}</td>
+          <td className="px-6 py-4">{signed(report.unrealized)}</td>
+          <td className="px-6 py-4">{signed(report.realized)}</td>
+          <td className="px-6 py-4 text-right">
+            {report.returnBps === undefined ? "-" : formatPercent(report.returnBps)}
+          </td>
+        </>
+      )}
+    </tr>
+  );
+}
+
 function QuickActionCard({
   title,
   description,
@@ -86,45 +127,23 @@ export default function DashboardPage() {
   const lpVaultPosition = useLPVaultUserPosition();
   const indexFundPosition = useIndexFundUserPosition();
   const eth2xPosition = useETH2XUserPosition();
+  const longPnl = useLeveragedTokenPnl("long");
+  const shortPnl = useLeveragedTokenPnl("short");
 
-  // Calculate TVLs in USD
-  // LP Vault uses WETH (18 decimals)
-  const lpVaultTVL =
-    lpVaultStats.totalAssets && ethPrice
-      ? (Number(lpVaultStats.totalAssets) / 1e18) * ethPrice
-      : 0;
-
-  // Index Fund uses USDC (6 decimals) - totalAssets is in USDC
-  const indexFundTVL = indexFundStats.totalAssets
-    ? Number(indexFundStats.totalAssets) / 1e6
-    : 0;
-
-  const totalTVL = lpVaultTVL + indexFundTVL;
+  // TVLs and position values in USDC: the dashboard's LP vault is the long side's USDC vault,
+  // index funds are USDC-denominated and leveraged token NAV is USDC per share
+  const lpVaultTVL = lpVaultStats.totalAssets ?? usdc6(BigInt(0));
+  const indexFundTVL = indexFundStats.totalAssets ?? usdc6(BigInt(0));
+  const totalTVL = usdc6(lpVaultTVL + indexFundTVL);
 
-  // Calculate user position values
-  // LP Vault uses WETH (18 decimals)
-  const lpVaultValue =
-    lpVaultPosition.assetsValue && ethPrice
-      ? (Number(lpVaultPosition.assetsValue) / 1e18) * ethPrice
-      : 0;
-
-  // Index Fund uses USDC (6 decimals)
-  const indexFundValue = indexFundPosition.assetsValue
-    ? Number(indexFundPosition.assetsValue) / 1e6
-    : 0;
-
-  // ETH2X: balance is 18 decimals, NAV is 6 decimals (USDC)
-  // value = (balance * nav) / 1e18 / 1e6 = (balance * nav) / 1e24
+  const lpVaultValue = lpVaultPosition.assetsValue;
+  const indexFundValue = indexFundPosition.assetsValue;
   const eth2xValue =
-    eth2xPosition.balance && eth2xStats.currentNAV
-      ? (Number(eth2xPosition.balance) * Number(eth2xStats.currentNAV)) / 1e24
-      : 0;
+    eth2xPosition.balance !== undefined && eth2xStats.currentNAV !== undefined
+      ? valueAt(eth2xPosition.balance, UNITS.WAD18.decimals, eth2xStats.currentNAV)
+      : undefined;
 
-  const isLoading =
-    lpVaultStats.isLoading ||
-    indexFundStats.isLoading ||
-    eth2xStats.isLoading ||
-    ethPriceLoading;
+  const isLoading = lpVaultStats.isLoading || indexFundStats.isLoading;
 
   return (
     <div className="space-y-8">
@@ -154,12 +173,12 @@ export default function DashboardPage() {
           <StatCard
             title="LP Vault TVL"
             value={formatUSD(lpVaultTVL)}
-            subtitle={`${formatTokenAmount(lpVaultStats.totalAssets)} WETH`}
-            isLoading={lpVaultStats.isLoading || ethPriceLoading}
+            subtitle={`${formatTokenAmount(lpVaultStats.totalAssets, lpVaultStats.assetDecimals, 2)} USDC`}
+            isLoading={lpVaultStats.isLoading}
           />
           <StatCard
             title="ETH Price"
-            value={formatUSD(ethPrice)}
+            value={formatUSD(ethPrice, UNITS.PRICE8)}
             isLoading={ethPriceLoading}
           />
         </div>
@@ -197,7 +216,7 @@ export default function DashboardPage() {
                     {indexFundPosition.isLoading ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
-                      `${formatTokenAmount(indexFundPosition.shares)} IDX`
+                      `${formatTokenAmount(indexFundPosition.shares, indexFundPosition.shareDecimals)} IDX`
                     )}
                   </td>
                   <td className="px-6 py-4 text-right">
@@ -210,7 +229,7 @@ export default function DashboardPage() {
                     {lpVaultPosition.isLoading ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
-                      `${formatTokenAmount(lpVaultPosition.shares)} lpWETH`
+                      `${formatTokenAmount(lpVaultPosition.shares, lpVaultPosition.assetDecimals)} lpUSDC-L`
                     )}
                   </td>
                   <td className="px-6 py-4 text-right">
@@ -236,6 +255,31 @@ export default function DashboardPage() {
         )}
       </section>
 
+      {/* Leveraged Token PnL */}
+      {isConnected && (
+        <section>
+          <h2 className="mb-4 text-lg font-semibold">Leveraged Token PnL</h2>
+          <div className="glass-card overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-white/10">
+                  <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Token</th>
+                  <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Cost Basis</th>
+                  <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Unrealized</th>
+                  <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Realized</th>
+                  <th className="px-6 py-4 text-right text-sm font-medium text-foreground-muted">Return</th>
+                </tr>
+              </thead>
+              <tbody>
+                <PnlRow token="ETH2X" report={longPnl.report} isLoading={longPnl.isLoading} />
+                <PnlRow token="ETH-2X" report={shortPnl.report} isLoading={shortPnl.isLoading} />
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-foreground-muted">FIFO cost basis from your mint and redeem history</p>
+        </section>
+      )}
+
       {/* Quick Actions */}
       <section>
         <h2 className="mb-4 text-lg font-semibold">Quick Actions</h2>
@@ -248,7 +292,7 @@ export default function DashboardPage() {
           />
           <QuickActionCard
             title="LP Vault"
-            description="Earn yield by providing WETH liquidity"
+            description="Earn yield by providing USDC liquidity"
             href="/lp-vault"
             icon={Vault}
           />
@@ -6,6 +6,7 @@ import { WagmiProvider } from "wagmi";
 import { RainbowKitProvider, darkTheme } from "@rainbow-me/rainbowkit";
 import { Toaster } from "react-hot-toast";
 import { config } from "@/lib/wagmi";
+import { TransactionProvider } from "@/components/transactions";
 
 import "@rainbow-me/rainbowkit/styles.css";
 
@@ -32,7 +33,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
             fontStack: "system",
           })}
         >
-          {children}
+          <TransactionProvider>{children}</TransactionProvider>
           <Toaster
             position="bottom-right"
             toastOptions={{
@@ -0,0 +1,143 @@
+"use client";
+
+import { useChains } from "wagmi";
+import { AlertTriangle, BellRing, CheckCircle, ExternalLink } from "lucide-react";
+import { useDeployment, useMonitorAlerts } from "@/hooks";
+import type { MonitorAlert } from "@/lib/monitor";
+
+const SEVERITY_STYLES = {
+  critical: "bg-error/20 text-error",
+  warning: "bg-warning/20 text-warning",
+} as const;
+
+function timeAgo(ms: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - ms) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+function ContractLink({ address, explorer }: { address: string; explorer?: string }) {
+  const short = `${address.slice(0, 6)}...${address.slice(-4)}`;
+  if (!explorer) return <span className="font-mono">{short}</span>;
+  return (
+    <a
+      href={`${explorer}/address/${address}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 font-mono hover:text-white"
+    >
+      {short}
+      <ExternalLink className="h-3 w-3" />
+    </a>
+  );
+}
+
+function AlertRow({ alert, explorer }: { alert: MonitorAlert; explorer?: string }) {
+  return (
+    <li className="flex flex-col gap-1 border-b border-white/5 py-3 last:border-0 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-3">
+        <span className={`rounded-full px-2 py-0.5 text-xs font-medium uppercase ${SEVERITY_STYLES[alert.severity]}`}>
+          {alert.severity}
+        </span>
+        <span className="text-sm">{alert.message}</span>
+      </div>
+      <div className="flex items-center gap-3 text-xs text-foreground-muted sm:shrink-0">
+        <ContractLink address={alert.contract} explorer={explorer} />
+        <span title={new Date(alert.firstSeenAt).toLocaleString()}>since {timeAgo(alert.firstSeenAt)}</span>
+      </div>
+    </li>
+  );
+}
+
+// Alert state from the health monitor service (keeper/src/monitor)
+export function AlertPanel() {
+  const { chainId } = useDeployment();
+  const explorer = useChains().find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+  const { isConfigured, status, isWrongChain, isLoading, error } = useMonitorAlerts();
+
+  if (!isConfigured) {
+    return (
+      <div className="glass-card p-6 text-sm text-foreground-muted">
+        Set <code className="font-mono">NEXT_PUBLIC_MONITOR_URL</code> to show alerts from the health monitor (
+        <code className="font-mono">cd keeper &amp;&amp; npm run monitor</code>).
+      </div>
+    );
+  }
+
+  const failedRules = Object.entries(status?.ruleErrors ?? {});
+  const resolved = status?.recent.slice(0, 5) ?? [];
+
+  return (
+    <div className="glass-card space-y-4 p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-accent-purple" />
+          <h3 className="font-semibold">Monitor Alerts</h3>
+          {!!status?.active.length && (
+            <span className="rounded-full bg-error/20 px-2 py-0.5 text-xs font-medium text-error">
+              {status.active.length} active
+            </span>
+          )}
+        </div>
+        {status?.checkedAt && (
+          <span className="text-xs text-foreground-muted">Checked {timeAgo(status.checkedAt)}</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-16 animate-pulse rounded-lg bg-white/5" />
+      ) : error ? (
+        <p className="rounded-lg bg-error/10 p-3 text-sm text-error">Monitor unreachable: {error.message}</p>
+      ) : isWrongChain ? (
+        <p className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
+          The monitor watches chain {status?.chainId}, not the connected chain {chainId}.
+        </p>
+      ) : status?.active.length ? (
+        <ul>
+          {[...status.active]
+            .sort((a, b) => (a.severity === b.severity ? a.firstSeenAt - b.firstSeenAt : a.severity === "critical" ? -1 : 1))
+            .map((alert) => (
+              <AlertRow key={alert.key} alert={alert} explorer={explorer} />
+            ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-success">
+          <CheckCircle className="h-4 w-4" />
+          All {status?.rules.length} checks passing
+        </p>
+      )}
+
+      {!isWrongChain && failedRules.length > 0 && (
+        <div className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
+          <p className="flex items-center gap-1.5 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Not evaluated on the last check
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {failedRules.map(([rule, reason]) => (
+              <li key={rule}>
+                {rule}: {reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!isWrongChain && resolved.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs font-medium text-foreground-muted">Recently resolved</p>
+          <ul className="space-y-1 text-xs text-foreground-muted">
+            {resolved.map((event) => (
+              <li key={`${event.alert.key}-${event.at}`} className="flex justify-between gap-3">
+                <span>{event.alert.message}</span>
+                <span className="shrink-0">{timeAgo(event.at)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { AlertPanel } from "./AlertPanel";
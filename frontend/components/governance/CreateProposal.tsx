@@ -1,81 +1,173 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import {
-  useAccount,
-  useWriteContract,
-  useWaitForTransactionReceipt,
-} from "wagmi";
-import { parseAbi, toHex } from "viem";
+import { useState } from "react";
+import { useAccount, useSignTypedData } from "wagmi";
+import { isAddress, parseEventLogs, type Hex, type TransactionReceipt } from "viem";
 import toast from "react-hot-toast";
 import { Plus, X } from "lucide-react";
 import { TransactionButton } from "@/components/shared/TransactionButton";
-import { FUND_GOVERNANCE_ABI } from "@/lib/abis";
-import { useVotingPower, useGovernanceParams, formatTokenAmount, parseError } from "@/hooks";
+import { AllocationEditor, isValidAllocation, type AllocationInput } from "@/components/index-fund";
+import { FUND_GOVERNANCE_ABI, ProposalType } from "@/lib/abis";
+import { bps, parseAmount } from "@/lib/amounts";
+import { Markdown } from "@/components/shared/Markdown";
+import { TokenSelect } from "@/components/shared/TokenSelect";
+import { PROPOSAL_TYPE_LABELS, decodeProposalData, encodeProposalData, type ProposalAction } from "@/lib/proposals";
+import { contentHash, isSharedMetadataStore, metadataStore, metadataTypedData, proposalHash } from "@/lib/metadata";
+import {
+  useVotingPower,
+  useGovernanceParams,
+  useIndexFundStats,
+  useIndexFundAllocations,
+  useFundDirectory,
+  formatTokenAmount,
+  useDeployment,
+  useTransaction,
+  useSimulation,
+  parseError,
+} from "@/hooks";
+import { ProposalDiff } from "./ProposalDiff";
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-foreground-muted/50 focus:border-accent-purple focus:outline-none focus:ring-1 focus:ring-accent-purple";
 
 interface CreateProposalProps {
   governanceAddress: string;
+  fundAddress: string;
   fundSymbol?: string;
 }
 
-export function CreateProposal({ governanceAddress, fundSymbol = "FUND" }: CreateProposalProps) {
+export function CreateProposal({ governanceAddress, fundAddress, fundSymbol = "FUND" }: CreateProposalProps) {
+  const { chainId, contracts } = useDeployment();
   const [isOpen, setIsOpen] = useState(false);
+  const [proposalType, setProposalType] = useState<number>(ProposalType.UpdateAllocations);
   const [description, setDescription] = useState("");
+  const [showPreview, setShowPreview] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // CreateFund form
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [asset, setAsset] = useState<string>(contracts.USDC);
+  const [feeRate, setFeeRate] = useState("200"); // 2% = 200 basis points
+  const [newFundAllocations, setNewFundAllocations] = useState<AllocationInput[]>([
+    { token: contracts.WETH, targetPercentage: bps(5000) },
+    { token: contracts.USDC, targetPercentage: bps(5000) },
+  ]);
+
+  // DelistFund form
+  const { funds } = useFundDirectory();
+  const [delistFund, setDelistFund] = useState("");
+
+  // UpdateAllocations form - starts from the fund's current weights until edited
+  const current = useIndexFundAllocations(fundAddress);
+  const [editedAllocations, setEditedAllocations] = useState<AllocationInput[] | null>(null);
+  const updatedAllocations =
+    editedAllocations ??
+    current.tokens.map((token, i) => ({ token, targetPercentage: current.weights[i] }));
 
   const { isConnected } = useAccount();
-  const { votingPower } = useVotingPower(governanceAddress);
-  const { proposalThreshold } = useGovernanceParams(governanceAddress);
+  // propose() checks the proposer's balance of the target fund against the threshold
+  const { votingPower } = useVotingPower(fundAddress);
+  const { proposalThreshold } = useGovernanceParams(fundAddress);
+  const { shareDecimals } = useIndexFundStats(fundAddress);
 
   const canPropose =
     votingPower &&
     proposalThreshold &&
     votingPower >= proposalThreshold;
 
-  // Create proposal
-  const {
-    writeContract: createProposal,
-    isPending: isCreating,
-    data: createHash,
-    error: createError,
-  } = useWriteContract();
-
-  const { isLoading: isCreateConfirming, isSuccess: isCreateSuccess, error: createReceiptError } = useWaitForTransactionReceipt({
-    hash: createHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (createError) {
-      toast.error(parseError(createError), { duration: 5000 });
-    }
-  }, [createError]);
+  const toParams = (allocations: AllocationInput[]) =>
+    allocations.map((a) => ({ token: a.token as `0x${string}`, targetPercentage: a.targetPercentage }));
 
-  useEffect(() => {
-    if (createReceiptError) {
-      toast.error(parseError(createReceiptError), { duration: 5000 });
+  // The action the current form describes, once it passes the local checks
+  const action: ProposalAction | undefined = (() => {
+    switch (proposalType) {
+      case ProposalType.CreateFund:
+        return name && symbol && isAddress(asset) && isValidAllocation(newFundAllocations)
+          ? {
+              type: ProposalType.CreateFund,
+              name,
+              symbol,
+              asset,
+              allocations: toParams(newFundAllocations),
+              // Whole basis points; anything unparseable counts as no fee
+              managementFee: bps(parseAmount(feeRate, 0) ?? BigInt(0)),
+            }
+          : undefined;
+      case ProposalType.DelistFund:
+        return isAddress(delistFund) ? { type: ProposalType.DelistFund, fund: delistFund } : undefined;
+      case ProposalType.UpdateAllocations:
+        return isValidAllocation(updatedAllocations)
+          ? { type: ProposalType.UpdateAllocations, allocations: toParams(updatedAllocations) }
+          : undefined;
     }
-  }, [createReceiptError]);
-
-  // Handle success
-  useEffect(() => {
-    if (isCreateSuccess) {
-      toast.success("Proposal created successfully!");
-      setDescription("");
-      setIsOpen(false);
+  })();
+
+  const proposalData = action ? encodeProposalData(action) : undefined;
+
+  const createTx = useTransaction();
+
+  const proposeCall = {
+    address: governanceAddress as `0x${string}`,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "propose",
+    args: [fundAddress as `0x${string}`, proposalType, proposalData ?? "0x"],
+  } as const;
+
+  const preflight = useSimulation(isOpen && canPropose && proposalData ? proposeCall : undefined);
+
+  const resetForms = () => {
+    setName("");
+    setSymbol("");
+    setDelistFund("");
+    setEditedAllocations(null);
+    setDescription("");
+    setShowPreview(false);
+  };
+
+  const { signTypedDataAsync } = useSignTypedData();
+
+  // Signed against the id the contract assigned, so it can only be published once propose() lands
+  const publishDescription = async (receipt: TransactionReceipt, text: string, data: Hex) => {
+    const [created] = parseEventLogs({ abi: FUND_GOVERNANCE_ABI, logs: receipt.logs, eventName: "ProposalCreated" });
+    if (!created) return;
+
+    const governance = governanceAddress as `0x${string}`;
+    const metadata = {
+      proposalHash: proposalHash(fundAddress as `0x${string}`, proposalType, data),
+      contentHash: contentHash(text),
+      description: text,
+    };
+
+    setIsPublishing(true);
+    try {
+      const signature = await signTypedDataAsync(
+        metadataTypedData(chainId, governance, created.args.proposalId, metadata)
+      );
+      await metadataStore.put(governance, created.args.proposalId, { ...metadata, signature });
+    } catch (error) {
+      toast.error(`Couldn't publish description: ${error instanceof Error ? parseError(error) : String(error)}`);
+    } finally {
+      setIsPublishing(false);
     }
-  }, [isCreateSuccess]);
+  };
 
   const handleCreate = () => {
-    if (!description.trim()) {
-      toast.error("Please enter a description");
+    if (!proposalData) {
+      toast.error("Complete the proposal form first");
       return;
     }
 
-    createProposal({
-      address: governanceAddress as `0x${string}`,
-      abi: parseAbi(FUND_GOVERNANCE_ABI),
-      functionName: "propose",
-      args: [description, toHex("")],
+    const text = description.trim();
+    createTx.send(proposeCall, {
+      label: `Propose: ${PROPOSAL_TYPE_LABELS[proposalType]}`,
+      successMessage: "Proposal created successfully!",
+      onConfirmed: async (receipt) => {
+        if (text) await publishDescription(receipt, text, proposalData);
+        resetForms();
+        setIsOpen(false);
+      },
     });
   };
 
@@ -109,40 +201,160 @@ export function CreateProposal({ governanceAddress, fundSymbol = "FUND" }: Creat
           <div className="space-y-4">
             <div>
               <label className="mb-2 block text-sm font-medium text-foreground-muted">
-                Proposal Description
+                Proposal Type
               </label>
-              <textarea
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                placeholder="Describe your proposal..."
-                rows={4}
-                className="w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-foreground-muted/50 focus:border-accent-purple focus:outline-none focus:ring-1 focus:ring-accent-purple"
+              <select
+                value={proposalType}
+                onChange={(e) => setProposalType(Number(e.target.value))}
+                className={inputClass}
+              >
+                {Object.values(ProposalType).map((value) => (
+                  <option key={value} value={value}>
+                    {PROPOSAL_TYPE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Create Fund */}
+            {proposalType === ProposalType.CreateFund && (
+              <>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="mb-2 block text-sm text-foreground-muted">Fund Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="My Index Fund"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm text-foreground-muted">Symbol</label>
+                    <input
+                      type="text"
+                      value={symbol}
+                      onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                      placeholder="MIF"
+                      maxLength={10}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="mb-2 block text-sm text-foreground-muted">Deposit Asset</label>
+                    <TokenSelect value={asset} onChange={setAsset} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="mb-2 block text-sm text-foreground-muted">
+                      Management Fee (bps, 100 = 1%)
+                    </label>
+                    <input
+                      type="number"
+                      value={feeRate}
+                      onChange={(e) => setFeeRate(e.target.value)}
+                      min="0"
+                      max="1000"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <AllocationEditor
+                  allocations={newFundAllocations}
+                  onChange={setNewFundAllocations}
+                />
+              </>
+            )}
+
+            {/* Delist Fund */}
+            {proposalType === ProposalType.DelistFund && (
+              <div>
+                <label className="mb-2 block text-sm text-foreground-muted">Fund to Delist</label>
+                <select value={delistFund} onChange={(e) => setDelistFund(e.target.value)} className={inputClass}>
+                  <option value="">Select fund</option>
+                  {funds.map((fund) => (
+                    <option key={fund.address} value={fund.address}>
+                      {fund.name} ({fund.symbol}) - {fund.address.slice(0, 6)}...{fund.address.slice(-4)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Update Allocations */}
+            {proposalType === ProposalType.UpdateAllocations && (
+              <AllocationEditor
+                allocations={updatedAllocations}
+                onChange={setEditedAllocations}
               />
+            )}
+
+            <div>
+              <div className="mb-2 flex items-center justify-between">
+                <label className="text-sm text-foreground-muted">Description (Markdown)</label>
+                <button
+                  onClick={() => setShowPreview(!showPreview)}
+                  disabled={!description.trim()}
+                  className="text-xs text-accent-purple hover:underline disabled:opacity-50"
+                >
+                  {showPreview ? "Edit" : "Preview"}
+                </button>
+              </div>
+              {showPreview && description.trim() ? (
+                <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+                  <Markdown source={description} />
+                </div>
+              ) : (
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={5}
+                  placeholder="Why should this pass? Link any discussion or analysis."
+                  className={inputClass}
+                />
+              )}
+              <p className="mt-1 text-xs text-foreground-muted">
+                {isSharedMetadataStore
+                  ? "Signed by you once the proposal is created and stored off-chain against its id; it can't be edited afterwards."
+                  : "No indexer configured - the description is only saved in this browser."}
+              </p>
             </div>
 
+            {/* Decoded back from the encoded bytes, so this is what the contract will execute */}
+            {proposalData && (
+              <ProposalDiff
+                action={decodeProposalData(proposalType, proposalData)}
+                targetFund={fundAddress}
+                data={proposalData}
+              />
+            )}
+
             <div className="rounded-lg bg-white/5 p-3 text-sm">
               <div className="flex justify-between">
                 <span className="text-foreground-muted">Your voting power</span>
-                <span>{formatTokenAmount(votingPower)} {fundSymbol}</span>
+                <span>{formatTokenAmount(votingPower, shareDecimals)} {fundSymbol}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-foreground-muted">Required threshold</span>
-                <span>{formatTokenAmount(proposalThreshold)} {fundSymbol}</span>
+                <span>{formatTokenAmount(proposalThreshold, shareDecimals)} {fundSymbol}</span>
               </div>
             </div>
 
             {!canPropose && (
               <div className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
-                You need at least {formatTokenAmount(proposalThreshold)} {fundSymbol} to create a proposal.
+                You need at least {formatTokenAmount(proposalThreshold, shareDecimals)} {fundSymbol} to create a proposal.
               </div>
             )}
 
             <div className="flex gap-3">
               <TransactionButton
                 onClick={handleCreate}
-                isLoading={isCreating || isCreateConfirming}
-                loadingText="Creating..."
-                disabled={!canPropose || !description.trim()}
+                isLoading={isPublishing || createTx.isLoading}
+                loadingText={isPublishing ? "Publishing..." : "Creating..."}
+                error={preflight.error}
+                disabled={!canPropose || !proposalData}
               >
                 Submit Proposal
               </TransactionButton>
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { isAddress } from "viem";
+import { TransactionButton } from "@/components/shared/TransactionButton";
+import { VOTES_ABI } from "@/lib/abis";
+import {
+  formatTokenAmount,
+  useDeployment,
+  useFundDelegation,
+  useIndexFundStats,
+  useSimulation,
+  useTransaction,
+} from "@/hooks";
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-foreground-muted/50 focus:border-accent-purple focus:outline-none focus:ring-1 focus:ring-accent-purple";
+
+interface DelegationPanelProps {
+  fundAddress: string;
+  fundSymbol?: string;
+}
+
+// Delegate / self-delegate for funds whose shares are ERC-5805 votes; renders nothing otherwise
+export function DelegationPanel({ fundAddress, fundSymbol = "FUND" }: DelegationPanelProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const { supportsDelegation, delegate, votes, balance } = useFundDelegation(fundAddress);
+  const { shareDecimals } = useIndexFundStats(fundAddress);
+  const [delegatee, setDelegatee] = useState("");
+  const delegateTx = useTransaction();
+
+  const target = isAddress(delegatee) ? delegatee : undefined;
+  const delegateCall = (to: `0x${string}`) =>
+    ({
+      address: fundAddress as `0x${string}`,
+      abi: VOTES_ABI,
+      chainId,
+      functionName: "delegate",
+      args: [to],
+    }) as const;
+
+  const preflight = useSimulation(supportsDelegation && target ? delegateCall(target) : undefined);
+
+  if (!supportsDelegation || !address) return null;
+
+  const isSelf = delegate?.toLowerCase() === address.toLowerCase();
+  // ERC20Votes only counts shares once they're delegated, self-delegation included
+  const delegatedToYou = votes !== undefined && balance !== undefined && isSelf ? votes - balance : votes;
+
+  const handleDelegate = (to: `0x${string}`) => {
+    delegateTx.send(delegateCall(to), {
+      label: `Delegate ${fundSymbol} votes`,
+      successMessage: "Delegation updated!",
+      onConfirmed: () => setDelegatee(""),
+    });
+  };
+
+  return (
+    <div className="glass-card space-y-4 p-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-sm text-foreground-muted">Delegated to</p>
+          <p className="mt-1 font-medium">
+            {!delegate ? "Nobody" : isSelf ? "Yourself" : `${delegate.slice(0, 6)}...${delegate.slice(-4)}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-foreground-muted">Votes you control</p>
+          <p className="mt-1 font-medium">
+            {formatTokenAmount(votes, shareDecimals)} {fundSymbol}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-foreground-muted">Delegated to you by others</p>
+          <p className="mt-1 font-medium">
+            {formatTokenAmount(delegatedToYou, shareDecimals)} {fundSymbol}
+          </p>
+        </div>
+      </div>
+
+      {!delegate && (
+        <p className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
+          Your shares carry no votes until they are delegated. Delegate to yourself to vote directly.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <input
+          type="text"
+          value={delegatee}
+          onChange={(e) => setDelegatee(e.target.value)}
+          placeholder="0x... delegate address"
+          className={inputClass}
+        />
+        <div className="flex gap-3 sm:w-80">
+          <TransactionButton
+            onClick={() => target && handleDelegate(target)}
+            isLoading={delegateTx.isLoading}
+            loadingText="Delegating..."
+            error={preflight.error}
+            disabled={!target}
+          >
+            Delegate
+          </TransactionButton>
+          {!isSelf && (
+            <TransactionButton
+              onClick={() => handleDelegate(address)}
+              isLoading={delegateTx.isLoading}
+              loadingText="Delegating..."
+              variant="secondary"
+            >
+              Self
+            </TransactionButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useBytecode, useChains, useReadContract, useReadContracts } from "wagmi";
+import { useQueryClient } from "@tanstack/react-query";
+import { encodeFunctionData, formatUnits, parseUnits } from "viem";
+import toast from "react-hot-toast";
+import { AlertTriangle, Copy, ExternalLink, Settings } from "lucide-react";
+import { TransactionButton } from "@/components/shared/TransactionButton";
+import { FUND_GOVERNANCE_ABI, INDEX_FUND_ABI, ProposalStatus } from "@/lib/abis";
+import { bps, formatBps, type BPS } from "@/lib/amounts";
+import { quorumVotes, wouldPass } from "@/lib/proposals";
+import {
+  formatTokenAmount,
+  useDeployment,
+  useGovernanceParams,
+  useIndexFundStats,
+  useParameterHistory,
+  useProposals,
+  useSimulation,
+  useTransaction,
+} from "@/hooks";
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-foreground-muted/50 focus:border-accent-purple focus:outline-none focus:ring-1 focus:ring-accent-purple";
+
+const HOUR = 3600;
+const MIN_PERIOD_HOURS = 1;
+const MAX_PERIOD_HOURS = 90 * 24;
+
+interface ParameterForm {
+  periodHours: string;
+  quorumPercent: string;
+  threshold: string;
+}
+
+interface VotingParameters {
+  votingPeriod: bigint;
+  quorumPercentage: BPS;
+  proposalThreshold: bigint;
+}
+
+function formatPeriod(seconds: bigint): string {
+  const hours = Number(seconds) / HOUR;
+  return hours >= 24 && hours % 24 === 0 ? `${hours / 24}d` : `${+hours.toFixed(2)}h`;
+}
+
+// Hard errors mirror the contract's requires plus sane UI bounds; warnings are allowed through
+function validate(form: ParameterForm, fundSupply: bigint | undefined, shareDecimals: number) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const hours = Number(form.periodHours);
+  if (!form.periodHours || !Number.isFinite(hours)) errors.push("Voting period is required");
+  else if (hours < MIN_PERIOD_HOURS || hours > MAX_PERIOD_HOURS) {
+    errors.push(`Voting period must be between ${MIN_PERIOD_HOURS} hour and ${MAX_PERIOD_HOURS / 24} days`);
+  }
+
+  // Percent with 2 decimals is the contract's basis points
+  const quorum = /^\d+(\.\d{1,2})?$/.test(form.quorumPercent) ? bps(parseUnits(form.quorumPercent, 2)) : undefined;
+  if (quorum === undefined) errors.push("Quorum must be a percentage with up to 2 decimals");
+  else if (quorum > BigInt(10000)) errors.push("Quorum can't exceed 100%");
+  else if (quorum === BigInt(0)) warnings.push("A 0% quorum lets a single vote decide a proposal");
+  else if (quorum > BigInt(5000)) warnings.push("Quorum above 50% needs most of the supply to turn out");
+
+  const threshold = new RegExp(`^\\d+(\\.\\d{1,${shareDecimals}})?$`);
+  if (!threshold.test(form.threshold)) errors.push("Proposal threshold must be a token amount");
+
+  if (errors.length > 0) return { errors, warnings };
+
+  const values: VotingParameters = {
+    votingPeriod: BigInt(Math.round(hours * HOUR)),
+    quorumPercentage: quorum!,
+    proposalThreshold: parseUnits(form.threshold, shareDecimals),
+  };
+  if (values.proposalThreshold === BigInt(0)) warnings.push("A zero threshold lets any address create proposals");
+  else if (fundSupply !== undefined && values.proposalThreshold > fundSupply) {
+    warnings.push("The threshold exceeds the fund's total supply - nobody could create proposals");
+  }
+
+  return { values, errors, warnings };
+}
+
+interface ParameterPanelProps {
+  fundAddress: string;
+  fundSymbol?: string;
+}
+
+// Current voting parameters with a what-if editor, the owner's update call and the change log
+export function ParameterPanel({ fundAddress, fundSymbol = "FUND" }: ParameterPanelProps) {
+  const { chainId } = useDeployment();
+  const { address, isConnected } = useAccount();
+  const queryClient = useQueryClient();
+  const explorer = useChains().find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+
+  const { governanceAddress, votingPeriod, quorumPercentage, proposalThreshold } = useGovernanceParams(fundAddress);
+  const { totalSupply: fundSupply, shareDecimals = 18 } = useIndexFundStats(fundAddress);
+  const { proposals } = useProposals(governanceAddress);
+  const { changes } = useParameterHistory(governanceAddress);
+
+  const { data: owner } = useReadContract({
+    address: governanceAddress,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "owner",
+  });
+  const { data: ownerCode } = useBytecode({ address: owner, chainId, query: { enabled: !!owner } });
+  const isOwner = !!owner && !!address && owner.toLowerCase() === address.toLowerCase();
+  // A multisig or timelock owner applies changes through its own proposal flow
+  const ownerIsContract = !!ownerCode && ownerCode !== "0x";
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [edited, setEdited] = useState<ParameterForm | null>(null);
+  const form: ParameterForm = edited ?? {
+    periodHours: votingPeriod !== undefined ? String(Number(votingPeriod) / HOUR) : "",
+    quorumPercent: quorumPercentage !== undefined ? formatUnits(quorumPercentage, 2) : "",
+    threshold: proposalThreshold !== undefined ? formatUnits(proposalThreshold, shareDecimals) : "",
+  };
+  const setField = (field: keyof ParameterForm, value: string) => setEdited({ ...form, [field]: value });
+
+  const { values, errors, warnings } = validate(form, fundSupply, shareDecimals);
+
+  // Quorum is evaluated live by getProposalStatus, so it also moves proposals whose voting
+  // already ended but that haven't been executed. Period and threshold only affect new ones.
+  const openProposals = proposals.filter(
+    ({ status }) =>
+      status === ProposalStatus.Active || status === ProposalStatus.Succeeded || status === ProposalStatus.Defeated
+  );
+  const targetFunds = [...new Set(openProposals.map(({ proposal }) => proposal.targetFund))];
+  const { data: supplies } = useReadContracts({
+    contracts: targetFunds.map((fund) => ({
+      address: fund,
+      abi: INDEX_FUND_ABI,
+      chainId,
+      functionName: "totalSupply" as const,
+    })),
+    query: { enabled: isOpen && targetFunds.length > 0 },
+  });
+  const supplyOf = (fund: string) => supplies?.[targetFunds.indexOf(fund as `0x${string}`)]?.result;
+
+  const effects =
+    values && quorumPercentage !== undefined && values.quorumPercentage !== quorumPercentage
+      ? openProposals.flatMap(({ proposal, status }) => {
+          const supply = supplyOf(proposal.targetFund);
+          if (supply === undefined) return [];
+          const totalVotes = proposal.forVotes + proposal.againstVotes;
+          const before = quorumVotes(supply, quorumPercentage);
+          const after = quorumVotes(supply, values.quorumPercentage);
+          const id = `Proposal #${proposal.id}`;
+          const needed = `${formatTokenAmount(totalVotes, shareDecimals)} of ${formatTokenAmount(after, shareDecimals)} votes`;
+
+          if (status === ProposalStatus.Active) {
+            if (totalVotes >= before && totalVotes < after) return [`${id} would now fail quorum (${needed})`];
+            if (totalVotes < before && totalVotes >= after) return [`${id} would now reach quorum (${needed})`];
+            return [];
+          }
+          const passes = wouldPass(proposal, supply, values.quorumPercentage);
+          if (status === ProposalStatus.Succeeded && !passes) {
+            return [`${id} would flip from Succeeded to Defeated and could no longer be executed (${needed})`];
+          }
+          if (status === ProposalStatus.Defeated && passes) {
+            return [`${id} would flip from Defeated to Succeeded and become executable (${needed})`];
+          }
+          return [];
+        })
+      : [];
+
+  const isUnchanged =
+    !!values &&
+    values.votingPeriod === votingPeriod &&
+    values.quorumPercentage === quorumPercentage &&
+    values.proposalThreshold === proposalThreshold;
+
+  const updateCall = values && {
+    address: governanceAddress,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "updateVotingParameters" as const,
+    args: [values.votingPeriod, values.quorumPercentage, values.proposalThreshold] as const,
+  };
+
+  const updateTx = useTransaction();
+  const preflight = useSimulation(isOpen && isOwner && updateCall && !isUnchanged ? updateCall : undefined);
+
+  const handleApply = () => {
+    if (!updateCall) return;
+    updateTx.send(updateCall, {
+      label: "Update voting parameters",
+      successMessage: "Voting parameters updated!",
+      onConfirmed: () => {
+        setEdited(null);
+        setIsOpen(false);
+        queryClient.invalidateQueries({ queryKey: ["parameterHistory"] });
+      },
+    });
+  };
+
+  const copyCalldata = () => {
+    if (!updateCall) return;
+    navigator.clipboard
+      .writeText(encodeFunctionData(updateCall))
+      .then(() => toast.success("Calldata copied"))
+      .catch(() => toast.error("Couldn't copy calldata"));
+  };
+
+  const history = [...changes].reverse();
+
+  return (
+    <div className="glass-card space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Parameter Changes</h3>
+          <p className="text-sm text-foreground-muted">
+            Owned by{" "}
+            <span className="font-mono" title={owner}>
+              {owner ? `${owner.slice(0, 6)}...${owner.slice(-4)}` : "..."}
+            </span>
+            {isOwner && " (you)"}
+          </p>
+        </div>
+        {isConnected && !isOpen && (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold transition-all hover:bg-white/10"
+          >
+            <Settings className="h-4 w-4" />
+            {isOwner ? "Change parameters" : "Preview a change"}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="space-y-4 rounded-xl border border-white/10 p-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label className="mb-2 block text-sm text-foreground-muted">Voting period (hours)</label>
+              <input
+                type="number"
+                value={form.periodHours}
+                onChange={(e) => setField("periodHours", e.target.value)}
+                min={MIN_PERIOD_HOURS}
+                max={MAX_PERIOD_HOURS}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm text-foreground-muted">Quorum (% of supply)</label>
+              <input
+                type="number"
+                value={form.quorumPercent}
+                onChange={(e) => setField("quorumPercent", e.target.value)}
+                min="0"
+                max="100"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm text-foreground-muted">Proposal threshold ({fundSymbol})</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={form.threshold}
+                onChange={(e) => setField("threshold", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="space-y-1 rounded-lg bg-error/10 p-3 text-sm text-error">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          {warnings.length > 0 && (
+            <ul className="space-y-1 rounded-lg bg-warning/10 p-3 text-sm text-warning">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          {values && !isUnchanged && (
+            <div className="rounded-lg bg-white/5 p-3 text-sm">
+              <p className="mb-2 font-medium">Effect on existing proposals</p>
+              {effects.length === 0 ? (
+                <p className="text-foreground-muted">No open proposal changes outcome.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {effects.map((effect) => (
+                    <li key={effect} className="flex items-start gap-1.5 text-warning">
+                      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                      {effect}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {(values.votingPeriod !== votingPeriod || values.proposalThreshold !== proposalThreshold) && (
+                <p className="mt-2 text-xs text-foreground-muted">
+                  Voting period and threshold changes only apply to proposals created afterwards.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-3 sm:flex-row">
+            {isOwner ? (
+              <TransactionButton
+                onClick={handleApply}
+                isLoading={updateTx.isLoading}
+                loadingText="Updating..."
+                error={preflight.error}
+                disabled={!values || isUnchanged}
+              >
+                Apply parameters
+              </TransactionButton>
+            ) : ownerIsContract ? (
+              <button
+                onClick={copyCalldata}
+                disabled={!values || isUnchanged}
+                className="flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 px-6 py-3 font-semibold text-white transition-all disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Copy className="h-4 w-4" />
+                Copy calldata for the owner contract
+              </button>
+            ) : (
+              <p className="flex-1 self-center text-sm text-foreground-muted">
+                Only the governance owner can apply changes.
+              </p>
+            )}
+            <button
+              onClick={() => {
+                setEdited(null);
+                setIsOpen(false);
+              }}
+              className="rounded-xl border border-white/10 bg-white/5 px-6 py-3 font-semibold transition-all hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          </div>
+          {!isOwner && ownerIsContract && (
+            <p className="text-xs text-foreground-muted">
+              Submit it to {governanceAddress} as a transaction from the owner contract (e.g. a multisig proposal).
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <p className="mb-2 text-sm font-medium">History</p>
+        {history.length === 0 ? (
+          <p className="text-sm text-foreground-muted">No parameter changes recorded since deployment.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-foreground-muted">
+                <th className="pb-2 text-left font-normal">Date</th>
+                <th className="pb-2 text-right font-normal">Voting period</th>
+                <th className="pb-2 text-right font-normal">Quorum</th>
+                <th className="pb-2 text-right font-normal">Threshold</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((change, i) => {
+                const previous = history[i + 1];
+                // Highlight the fields this change actually touched
+                const changed = (field: keyof VotingParameters) =>
+                  previous && previous[field] !== change[field] ? "text-accent-cyan" : "";
+
+                return (
+                  <tr key={change.txHash} className="border-t border-white/5">
+                    <td className="py-2">
+                      <span className="inline-flex items-center gap-1">
+                        {new Date(change.timestamp * 1000).toLocaleString()}
+                        {explorer && (
+                          <a
+                            href={`${explorer}/tx/${change.txHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-foreground-muted hover:text-white"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </span>
+                    </td>
+                    <td className={`py-2 text-right ${changed("votingPeriod")}`}>{formatPeriod(change.votingPeriod)}</td>
+                    <td className={`py-2 text-right ${changed("quorumPercentage")}`}>
+                      {formatBps(change.quorumPercentage)}
+                    </td>
+                    <td className={`py-2 text-right ${changed("proposalThreshold")}`}>
+                      {formatTokenAmount(change.proposalThreshold, shareDecimals)} {fundSymbol}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
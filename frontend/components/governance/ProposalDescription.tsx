@@ -0,0 +1,65 @@
+"use client";
+
+import { AlertTriangle, FileQuestion, Loader2, ShieldCheck } from "lucide-react";
+import { Markdown } from "@/components/shared/Markdown";
+import { useProposalMetadata } from "@/hooks";
+import type { Proposal } from "@/lib/proposals";
+
+interface ProposalDescriptionProps {
+  governanceAddress: string;
+  proposal: Proposal;
+}
+
+// The proposal's off-chain rationale, rendered only once the proposer's signature over it checks out
+export function ProposalDescription({ governanceAddress, proposal }: ProposalDescriptionProps) {
+  const { check, isLoading, error } = useProposalMetadata(governanceAddress as `0x${string}`, proposal);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-foreground-muted">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading description...
+      </div>
+    );
+  }
+
+  if (error || !check) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-white/5 p-3 text-sm text-foreground-muted">
+        <FileQuestion className="h-4 w-4 shrink-0" />
+        Description unavailable - the metadata store could not be reached.
+      </div>
+    );
+  }
+
+  if (check.status === "missing") {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-warning/10 p-3 text-sm text-warning">
+        <FileQuestion className="h-4 w-4 shrink-0" />
+        No description was published for this proposal. Review the changes below before voting.
+      </div>
+    );
+  }
+
+  if (check.status === "mismatch") {
+    return (
+      <div className="flex items-start gap-2 rounded-lg bg-error/10 p-3 text-sm text-error">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+        <div>
+          <p className="font-medium">Description failed verification and is hidden</p>
+          <p className="mt-1 text-error/80">{check.reason}.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-white/5 p-4">
+      <Markdown source={check.description} />
+      <p className="mt-3 flex items-center gap-1 text-xs text-foreground-muted" title={proposal.proposer}>
+        <ShieldCheck className="h-3 w-3 text-success" />
+        Signed by proposer {proposal.proposer.slice(0, 6)}...{proposal.proposer.slice(-4)}
+      </p>
+    </div>
+  );
+}
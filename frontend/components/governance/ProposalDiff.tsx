@@ -0,0 +1,128 @@
+"use client";
+
+import type { Address, Hex } from "viem";
+import { ProposalType } from "@/lib/abis";
+import { bps, formatBps, type BPS } from "@/lib/amounts";
+import type { AllocationParam, ProposalAction } from "@/lib/proposals";
+import { useIndexFundAllocations, useIndexFundStats, useTokens, useTokenSymbols, formatUSD } from "@/hooks";
+import { ProposalPreview } from "./ProposalPreview";
+
+interface ProposalDiffProps {
+  action: ProposalAction | undefined;
+  // Fund the proposal is filed against (the one UpdateAllocations changes)
+  targetFund: string;
+  data?: Hex;
+  // Once executed the fund's weights already are the proposed ones
+  executed?: boolean;
+}
+
+function AllocationDiff({
+  targetFund,
+  proposed,
+  executed,
+}: {
+  targetFund: string;
+  proposed: AllocationParam[];
+  executed?: boolean;
+}) {
+  const current = useIndexFundAllocations(targetFund);
+
+  // Every token on either side, current order first
+  const tokens = [
+    ...current.tokens,
+    ...proposed.map((a) => a.token).filter((t) => !current.tokens.some((c) => c.toLowerCase() === t.toLowerCase())),
+  ];
+  const tokenLabel = useTokenSymbols(tokens);
+
+  const weightOf = (list: { token: string; weight: BPS }[], token: string) =>
+    list.find((a) => a.token.toLowerCase() === token.toLowerCase())?.weight ?? bps(0);
+  const currentWeights = current.tokens.map((token, i) => ({ token, weight: current.weights[i] }));
+  const proposedWeights = proposed.map((a) => ({ token: a.token, weight: bps(a.targetPercentage) }));
+
+  return (
+    <div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-foreground-muted">
+            <th className="pb-1 text-left font-normal">Token</th>
+            <th className="pb-1 text-right font-normal">Current</th>
+            <th className="pb-1 text-right font-normal">Proposed</th>
+            <th className="pb-1 text-right font-normal">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tokens.map((token) => {
+            const before = weightOf(currentWeights, token);
+            const after = weightOf(proposedWeights, token);
+            const change = after - before;
+            const zero = BigInt(0);
+            return (
+              <tr key={token}>
+                <td className="py-0.5" title={token}>
+                  {tokenLabel(token)}
+                </td>
+                <td className="py-0.5 text-right">{formatBps(before)}</td>
+                <td className="py-0.5 text-right">{formatBps(after)}</td>
+                <td
+                  className={`py-0.5 text-right ${change > zero ? "text-success" : change < zero ? "text-error" : "text-foreground-muted"}`}
+                >
+                  {change === zero ? "-" : `${change > zero ? "+" : ""}${formatBps(change)}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {executed && (
+        <p className="mt-2 text-xs text-foreground-muted">Executed - current weights already include this change.</p>
+      )}
+    </div>
+  );
+}
+
+function DelistDetails({ fund }: { fund: Address }) {
+  const { totalAssets } = useIndexFundStats(fund);
+  // Read from the token - a delisted fund no longer appears in getAllFunds
+  const { tokenOf } = useTokens([fund]);
+  const { name, symbol } = tokenOf(fund);
+
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex justify-between">
+        <span className="text-foreground-muted">Fund</span>
+        <span title={fund}>
+          {name} ({symbol})
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-foreground-muted">TVL</span>
+        <span>{formatUSD(totalAssets)}</span>
+      </div>
+    </div>
+  );
+}
+
+// What a proposal changes, in readable form: weight diffs for UpdateAllocations, the fund
+// being removed for DelistFund and the new fund's parameters for CreateFund
+export function ProposalDiff({ action, targetFund, data, executed }: ProposalDiffProps) {
+  if (!action || action.type === ProposalType.CreateFund) {
+    return <ProposalPreview action={action} data={data} />;
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 p-4 text-sm">
+      {action.type === ProposalType.UpdateAllocations ? (
+        <AllocationDiff targetFund={targetFund} proposed={action.allocations} executed={executed} />
+      ) : (
+        <DelistDetails fund={action.fund} />
+      )}
+
+      {data && (
+        <details className="text-xs text-foreground-muted">
+          <summary className="cursor-pointer hover:text-white">Encoded proposal data</summary>
+          <p className="mt-2 break-all font-mono">{data}</p>
+        </details>
+      )}
+    </div>
+  );
+}
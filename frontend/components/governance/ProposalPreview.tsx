@@ -0,0 +1,97 @@
+"use client";
+
+import type { Hex } from "viem";
+import { ProposalType } from "@/lib/abis";
+import { PROPOSAL_TYPE_LABELS, type AllocationParam, type ProposalAction } from "@/lib/proposals";
+import { bps, formatBps } from "@/lib/amounts";
+import { shortAddress } from "@/lib/tokens";
+import { useFundDirectory, useTokenSymbols } from "@/hooks";
+
+interface ProposalPreviewProps {
+  action: ProposalAction | undefined;
+  // Encoded proposalData, shown collapsed below the summary
+  data?: Hex;
+}
+
+function AllocationList({ allocations }: { allocations: AllocationParam[] }) {
+  const tokenLabel = useTokenSymbols(allocations.map((a) => a.token));
+
+  return (
+    <div className="space-y-1">
+      {allocations.map((allocation) => (
+        <div key={allocation.token} className="flex justify-between">
+          <span title={allocation.token}>{tokenLabel(allocation.token)}</span>
+          <span>{formatBps(bps(allocation.targetPercentage))}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ProposalPreview({ action, data }: ProposalPreviewProps) {
+  const tokenLabel = useTokenSymbols(action?.type === ProposalType.CreateFund ? [action.asset] : []);
+  const { funds } = useFundDirectory();
+
+  if (!action) {
+    return (
+      <div className="rounded-lg bg-warning/10 p-3 text-sm text-warning">
+        Proposal data doesn&apos;t match the expected layout for this proposal type.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg bg-white/5 p-4 text-sm">
+      <p className="font-medium">{PROPOSAL_TYPE_LABELS[action.type]}</p>
+
+      {action.type === ProposalType.CreateFund && (
+        <>
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Fund</span>
+              <span>
+                {action.name} ({action.symbol})
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Deposit asset</span>
+              <span title={action.asset}>{tokenLabel(action.asset)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Management fee</span>
+              <span>{formatBps(bps(action.managementFee))} annually</span>
+            </div>
+          </div>
+          <div className="border-t border-white/10 pt-3">
+            <p className="mb-1 text-foreground-muted">Allocations</p>
+            <AllocationList allocations={action.allocations} />
+          </div>
+        </>
+      )}
+
+      {action.type === ProposalType.DelistFund && (
+        <div className="flex justify-between">
+          <span className="text-foreground-muted">Remove from factory</span>
+          <span title={action.fund}>
+            {funds.find((f) => f.address.toLowerCase() === action.fund.toLowerCase())?.name ?? "Unknown fund"} (
+            {shortAddress(action.fund)})
+          </span>
+        </div>
+      )}
+
+      {action.type === ProposalType.UpdateAllocations && (
+        <div>
+          <p className="mb-1 text-foreground-muted">New allocations</p>
+          <AllocationList allocations={action.allocations} />
+        </div>
+      )}
+
+      {data && (
+        <details className="text-xs text-foreground-muted">
+          <summary className="cursor-pointer hover:text-white">Encoded proposal data</summary>
+          <p className="mt-2 break-all font-mono">{data}</p>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useAccount } from "wagmi";
+import { AlertTriangle, Camera } from "lucide-react";
+import { formatTokenAmount, useIndexFundStats, useProposalSnapshot, useTokenSymbols, useVotingPower } from "@/hooks";
+import type { Proposal } from "./VoteCard";
+
+interface SnapshotPowerProps {
+  proposal: Proposal;
+  governanceAddress: string;
+}
+
+// The connected wallet's power at the proposal's snapshot next to what a vote would count now
+export function SnapshotPower({ proposal, governanceAddress }: SnapshotPowerProps) {
+  const { address } = useAccount();
+  const { votingPower: live } = useVotingPower(proposal.targetFund);
+  const fundLabel = useTokenSymbols([proposal.targetFund]);
+  const { shareDecimals } = useIndexFundStats(proposal.targetFund);
+  const { snapshot, createdBlock, powerOf, isLoading } = useProposalSnapshot(
+    governanceAddress,
+    proposal,
+    address ? [address] : []
+  );
+
+  if (!address || isLoading) return null;
+
+  const symbol = fundLabel(proposal.targetFund);
+  const atSnapshot = powerOf(address);
+
+  if (createdBlock === null || (snapshot && atSnapshot === undefined)) {
+    return (
+      <p className="text-xs text-foreground-muted">
+        Snapshot power unavailable - the RPC can&apos;t serve state from the proposal&apos;s creation block.
+      </p>
+    );
+  }
+  if (!snapshot || atSnapshot === undefined) return null;
+
+  const exceeds = live !== undefined && live > atSnapshot;
+
+  return (
+    <div className="rounded-lg bg-white/5 p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-foreground-muted">
+          <Camera className="h-3.5 w-3.5" />
+          Your power at block {snapshot.blockNumber.toString()}
+        </span>
+        <span className="font-medium">
+          {formatTokenAmount(atSnapshot, shareDecimals)} {symbol}
+        </span>
+      </div>
+      {exceeds && (
+        <p className="mt-2 flex items-start gap-1.5 text-xs text-warning">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          The contract would count your live balance of {formatTokenAmount(live, shareDecimals)} {symbol}; only{" "}
+          {formatTokenAmount(atSnapshot, shareDecimals)} counts toward the snapshot-adjusted result.
+        </p>
+      )}
+    </div>
+  );
+}
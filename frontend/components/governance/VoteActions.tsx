@@ -0,0 +1,139 @@
+"use client";
+
+import { useAccount, useReadContract } from "wagmi";
+import { ThumbsUp, ThumbsDown, PlayCircle, AlertCircle } from "lucide-react";
+import { TransactionButton } from "@/components/shared/TransactionButton";
+import { FUND_GOVERNANCE_ABI, ProposalStatus } from "@/lib/abis";
+import { useDeployment, useTransaction, useSimulation } from "@/hooks";
+import type { Proposal } from "./VoteCard";
+
+interface VoteActionsProps {
+  proposal: Proposal;
+  // On-chain getProposalStatus
+  status: number;
+  governanceAddress: string;
+}
+
+// Vote / execute controls for the connected wallet, shared by VoteCard and the proposal page
+export function VoteActions({ proposal, status, governanceAddress }: VoteActionsProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+
+  // Check if user has voted
+  const { data: hasVoted } = useReadContract({
+    address: governanceAddress as `0x${string}`,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "hasVoted",
+    args: address ? [proposal.id, address] : undefined,
+    query: { enabled: !!address },
+  });
+
+  const voteForTx = useTransaction();
+  const voteAgainstTx = useTransaction();
+  const executeTx = useTransaction();
+
+  const voteCall = (support: boolean) =>
+    ({
+      address: governanceAddress as `0x${string}`,
+      abi: FUND_GOVERNANCE_ABI,
+      chainId,
+      functionName: "castVote",
+      args: [proposal.id, support],
+    }) as const;
+
+  const executeCall = {
+    address: governanceAddress as `0x${string}`,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "executeProposal",
+    args: [proposal.id],
+  } as const;
+
+  const handleVote = (support: boolean) => {
+    const tx = support ? voteForTx : voteAgainstTx;
+    tx.send(voteCall(support), {
+      label: `Vote ${support ? "for" : "against"} #${proposal.id}`,
+      successMessage: `Vote ${support ? "for" : "against"} confirmed!`,
+    });
+  };
+
+  const handleExecute = () => {
+    executeTx.send(executeCall, {
+      label: `Execute proposal #${proposal.id}`,
+      successMessage: "Proposal executed successfully!",
+    });
+  };
+
+  const isActive = status === ProposalStatus.Active;
+  const canExecute = status === ProposalStatus.Succeeded;
+
+  // Both vote directions revert for the same reasons, so one dry-run covers the pair
+  const votePreflight = useSimulation(isActive && !hasVoted ? voteCall(true) : undefined);
+  const executePreflight = useSimulation(canExecute ? executeCall : undefined);
+
+  const isVoting = voteForTx.isLoading || voteAgainstTx.isLoading;
+
+  return (
+    <>
+      {isActive ? (
+        hasVoted ? (
+          <div className="rounded-lg bg-white/5 p-3 text-center text-sm text-foreground-muted">
+            You have already voted on this proposal
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-3">
+              <TransactionButton
+                onClick={() => handleVote(true)}
+                isLoading={voteForTx.isLoading}
+                loadingText="Voting..."
+                disabled={isVoting || !!votePreflight.error}
+              >
+                <ThumbsUp className="h-4 w-4" />
+                Vote For
+              </TransactionButton>
+              <TransactionButton
+                onClick={() => handleVote(false)}
+                isLoading={voteAgainstTx.isLoading}
+                loadingText="Voting..."
+                disabled={isVoting || !!votePreflight.error}
+                variant="secondary"
+              >
+                <ThumbsDown className="h-4 w-4" />
+                Vote Against
+              </TransactionButton>
+            </div>
+            {votePreflight.error && !isVoting && (
+              <p className="mt-2 flex items-start gap-1.5 text-sm text-error">
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                {votePreflight.error}
+              </p>
+            )}
+      
+    </>
+    )
+  ) : canExecute ? (
+    <TransactionButton
+      onClick={handleExecute}
+      isLoading={executeTx.isLoading}
+      loadingText="Executing..."
+      error={executePreflight.error}
+    >
+      <PlayCircle className="h-4 w-4" />
+      Execute Proposal
+    </TransactionButton>
+  ) : (
+    <div className="rounded-lg bg-white/5 p-3 text-center text-sm text-foreground-muted">
+      {status === ProposalStatus.Executed
+        ? "This proposal has been executed"
+        : status === ProposalStatus.Cancelled
+          ? "This proposal was canceled"
+          : status === ProposalStatus.Defeated
+            ? "This proposal was defeated"
+            : "Voting has ended"}
+    </div>
+  )}
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useChains } from "wagmi";
+import { AlertTriangle, ArrowDown, ArrowUp, ExternalLink } from "lucide-react";
+import { formatBps, ratioBps } from "@/lib/amounts";
+import { formatTokenAmount, useDeployment, type ProposalVote, type VotingSnapshot } from "@/hooks";
+
+type SortKey = "weight" | "block";
+
+interface VoterTableProps {
+  votes: ProposalVote[];
+  fundSymbol?: string;
+  // Decimals of the fund's shares, which weigh the votes
+  shareDecimals?: number;
+  // Adds each voter's power at the proposal snapshot and flags votes that exceed it
+  snapshot?: VotingSnapshot;
+}
+
+export function VoterTable({ votes, fundSymbol = "votes", shareDecimals = 18, snapshot }: VoterTableProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const explorer = useChains().find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "weight", desc: true });
+
+  const total = votes.reduce((sum, vote) => sum + vote.weight, BigInt(0));
+
+  const sorted = [...votes].sort((a, b) => {
+    const diff = sort.key === "weight" ? a.weight - b.weight : a.blockNumber - b.blockNumber;
+    const order = diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    return sort.desc ? -order : order;
+  });
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, desc: current.key === key ? !current.desc : true }));
+
+  const SortHeader = ({ label, sortKey }: { label: string; sortKey: SortKey }) => (
+    <button onClick={() => toggleSort(sortKey)} className="ml-auto flex items-center gap-1 hover:text-white">
+      {label}
+      {sort.key === sortKey && (sort.desc ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+    </button>
+  );
+
+  if (votes.length === 0) {
+    return <div className="glass-card p-8 text-center text-foreground-muted">No votes cast yet</div>;
+  }
+
+  return (
+    <div className="glass-card overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-white/10 text-foreground-muted">
+            <th className="px-4 py-3 text-left font-normal">Voter</th>
+            <th className="px-4 py-3 text-left font-normal">Vote</th>
+            <th className="px-4 py-3 text-right font-normal">
+              <SortHeader label="Weight" sortKey="weight" />
+            </th>
+            <th className="px-4 py-3 text-right font-normal">Share</th>
+            {snapshot && (
+              <th className="px-4 py-3 text-right font-normal" title={`Block ${snapshot.blockNumber}`}>
+                At snapshot
+              </th>
+            )}
+            <th className="px-4 py-3 text-right font-normal">
+              <SortHeader label="Cast" sortKey="block" />
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((vote) => {
+            const isYou = vote.voter.toLowerCase() === address?.toLowerCase();
+            const share = ratioBps(vote.weight, total, "nearest");
+            const atSnapshot = snapshot?.power[vote.voter.toLowerCase()];
+
+            return (
+              <tr
+                key={vote.txHash + vote.voter}
+                className={`border-b border-white/5 last:border-0 ${isYou ? "bg-accent-purple/10" : ""}`}
+              >
+                <td className="px-4 py-3 font-mono" title={vote.voter}>
+                  {vote.voter.slice(0, 6)}...{vote.voter.slice(-4)}
+                  {isYou && (
+                    <span className="ml-2 rounded-full bg-accent-purple/20 px-2 py-0.5 font-sans text-xs text-accent-purple">
+                      You
+                    </span>
+                  )}
+                </td>
+                <td className={`px-4 py-3 ${vote.support ? "text-success" : "text-error"}`}>
+                  {vote.support ? "For" : "Against"}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {formatTokenAmount(vote.weight, shareDecimals)} {fundSymbol}
+                </td>
+                <td className="px-4 py-3 text-right">{formatBps(share)}</td>
+                {snapshot && (
+                  <td className="px-4 py-3 text-right">
+                    {atSnapshot === undefined ? (
+                      <span className="text-foreground-muted">-</span>
+                    ) : vote.weight > atSnapshot ? (
+                      <span
+                        className="inline-flex items-center gap-1 text-warning"
+                        title="Voted with more shares than the wallet held at the snapshot"
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        {formatTokenAmount(atSnapshot, shareDecimals)}
+                      </span>
+                    ) : (
+                      formatTokenAmount(atSnapshot, shareDecimals)
+                    )}
+                  </td>
+                )}
+                <td className="px-4 py-3 text-right text-foreground-muted">
+                  <span className="inline-flex items-center gap-1">
+                    {vote.timestamp ? new Date(vote.timestamp * 1000).toLocaleString() : `Block ${vote.blockNumber}`}
+                    {explorer && (
+                      <a
+                        href={`${explorer}/tx/${vote.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-white"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
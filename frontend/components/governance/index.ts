@@ -1,3 +1,11 @@
-export { ProposalList } from "./ProposalList";
-export { VoteCard } from "./VoteCard";
+export { ProposalList, StatusBadge } from "./ProposalList";
+export { VoteCard, type Proposal } from "./VoteCard";
 export { CreateProposal } from "./CreateProposal";
+export { ProposalPreview } from "./ProposalPreview";
+export { ProposalDiff } from "./ProposalDiff";
+export { ProposalDescription } from "./ProposalDescription";
+export { VoteActions } from "./VoteActions";
+export { VoterTable } from "./VoterTable";
+export { SnapshotPower } from "./SnapshotPower";
+export { DelegationPanel } from "./DelegationPanel";
+export { ParameterPanel } from "./ParameterPanel";
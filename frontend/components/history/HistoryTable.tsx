@@ -0,0 +1,132 @@
+"use client";
+
+import { useChains } from "wagmi";
+import { ExternalLink } from "lucide-react";
+import { PROPOSAL_TYPE_LABELS } from "@/lib/proposals";
+import { formatTokenAmount, useDeployment, useTokens } from "@/hooks";
+import type { IndexedEvent, IndexedFund } from "@/lib/indexer";
+
+const EVENT_LABELS: Record<string, string> = {
+  Minted: "Mint",
+  Redeemed: "Redeem",
+  Deposit: "Deposit",
+  Withdraw: "Withdraw",
+  VoteCast: "Vote",
+  ProposalCreated: "Proposal",
+};
+
+interface Token {
+  symbol: string;
+  decimals: number;
+}
+
+interface HistoryTableProps {
+  events: IndexedEvent[];
+  funds: IndexedFund[];
+}
+
+export function HistoryTable({ events, funds }: HistoryTableProps) {
+  const { chainId, contracts } = useDeployment();
+  const explorer = useChains().find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+
+  const { tokenOf } = useTokens(funds.map((fund) => fund.asset));
+  const usdc: Token = tokenOf(contracts.USDC);
+
+  // Deposit asset of a fund (USDC unless the fund was created with another asset)
+  const fundAsset = (fund: IndexedFund | undefined): Token => (fund ? tokenOf(fund.asset) : usdc);
+
+  const describe = (event: IndexedEvent): { product: string; details: string } => {
+    const args = event.args;
+    const amount = (key: string, token: Token, display = 4) =>
+      `${formatTokenAmount(BigInt(args[key] as string), token.decimals, display)} ${token.symbol}`;
+
+    switch (event.contractKind) {
+      case "leveragedLong":
+      case "leveragedShort": {
+        const token = tokenOf(event.contractKind === "leveragedLong" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT);
+        const product = event.contractKind === "leveragedLong" ? "ETH2X Long" : "ETH2X Short";
+        return event.eventName === "Minted"
+          ? { product, details: `${amount("stableIn", usdc, 2)} → ${amount("shares", token)}` }
+          : { product, details: `${amount("shares", token)} → ${amount("stableReturned", usdc, 2)}` };
+      }
+      case "lpVault":
+      case "indexFund": {
+        const fund = funds.find((f) => f.address === event.contract);
+        const product = event.contractKind === "lpVault" ? "LP Vault" : (fund?.name ?? "Index Fund");
+        const asset = event.contractKind === "lpVault" ? usdc : fundAsset(fund);
+        // ERC-4626 shares carry the asset's decimals
+        const shares =
+          event.contractKind === "lpVault"
+            ? { symbol: "lpUSDC-L", decimals: usdc.decimals }
+            : { symbol: fund?.symbol ?? "IDX", decimals: asset.decimals };
+        return event.eventName === "Deposit"
+          ? { product, details: `${amount("assets", asset, 2)} → ${amount("shares", shares)}` }
+          : { product, details: `${amount("shares", shares)} → ${amount("assets", asset, 2)}` };
+      }
+      case "governance": {
+        const fund = funds.find((f) => f.address === event.fund);
+        const product = fund ? `Governance · ${fund.symbol}` : "Governance";
+        return event.eventName === "VoteCast"
+          ? {
+              product,
+              details: `${args.support ? "For" : "Against"} #${args.proposalId} with ${amount("weight", { symbol: "votes", decimals: fundAsset(fund).decimals })}`,
+            }
+          : {
+              product,
+              details: `#${args.proposalId} ${PROPOSAL_TYPE_LABELS[Number(args.proposalType)] ?? "Unknown Action"}`,
+            };
+      }
+      default:
+        return { product: event.contractKind, details: "" };
+    }
+  };
+
+  return (
+    <div className="glass-card overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-white/10">
+            <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Date</th>
+            <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Product</th>
+            <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Type</th>
+            <th className="px-6 py-4 text-left text-sm font-medium text-foreground-muted">Details</th>
+            <th className="px-6 py-4 text-right text-sm font-medium text-foreground-muted">Tx</th>
+          </tr>
+        </thead>
+        <tbody>
+          {events.map((event) => {
+            const { product, details } = describe(event);
+
+            return (
+              <tr key={`${event.txHash}-${event.logIndex}`} className="border-b border-white/5 last:border-0">
+                <td className="whitespace-nowrap px-6 py-4 text-sm">
+                  {new Date(event.timestamp * 1000).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 text-sm">{product}</td>
+                <td className="px-6 py-4 text-sm">{EVENT_LABELS[event.eventName] ?? event.eventName}</td>
+                <td className="px-6 py-4 text-sm">{details}</td>
+                <td className="px-6 py-4 text-right text-sm">
+                  {explorer ? (
+                    <a
+                      href={`${explorer}/tx/${event.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-accent-purple hover:text-purple-400"
+                    >
+                      {event.txHash.slice(0, 6)}...{event.txHash.slice(-4)}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : (
+                    <span className="text-foreground-muted">
+                      {event.txHash.slice(0, 6)}...{event.txHash.slice(-4)}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
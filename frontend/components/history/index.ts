@@ -0,0 +1 @@
+export { HistoryTable } from "./HistoryTable";
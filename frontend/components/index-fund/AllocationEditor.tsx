@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { formatUnits, isAddress } from "viem";
+import { Plus, Settings2, Trash2 } from "lucide-react";
+import { TokenManager } from "@/components/shared/TokenManager";
+import { TokenSelect } from "@/components/shared/TokenSelect";
+import { bps, formatBps, parseAmount, type BPS } from "@/lib/amounts";
+
+export interface AllocationInput {
+  token: string;
+  targetPercentage: BPS; // basis points (10000 = 100%)
+}
+
+const FULL_WEIGHT = BigInt(10000);
+
+export const totalWeight = (allocations: AllocationInput[]) =>
+  bps(allocations.reduce((sum, a) => sum + a.targetPercentage, BigInt(0)));
+
+// Weights sum to 100% and every row has a token address
+export function isValidAllocation(allocations: AllocationInput[]) {
+  return (
+    totalWeight(allocations) === FULL_WEIGHT &&
+    allocations.every((a) => isAddress(a.token))
+  );
+}
+
+interface AllocationEditorProps {
+  allocations: AllocationInput[];
+  onChange: (allocations: AllocationInput[]) => void;
+}
+
+export function AllocationEditor({ allocations, onChange }: AllocationEditorProps) {
+  const [showTokenManager, setShowTokenManager] = useState(false);
+  const total = totalWeight(allocations);
+  const isValidWeight = total === FULL_WEIGHT;
+
+  const addAllocation = () => {
+    onChange([...allocations, { token: "", targetPercentage: bps(0) }]);
+  };
+
+  const removeAllocation = (index: number) => {
+    if (allocations.length > 1) {
+      onChange(allocations.filter((_, i) => i !== index));
+    }
+  };
+
+  const updateAllocation = (index: number, field: keyof AllocationInput, value: string | number) => {
+    const updated = allocations.map((a) => ({ ...a }));
+    if (field === "targetPercentage") {
+      // Percentage with up to 2 decimals to basis points (50% -> 5000)
+      updated[index].targetPercentage = bps(parseAmount(String(value), 2) ?? BigInt(0));
+    } else {
+      updated[index].token = value as string;
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <label className="text-sm text-foreground-muted">Token Allocations</label>
+        <span className={`text-sm ${isValidWeight ? "text-success" : "text-error"}`}>
+          Total: {formatBps(total, 0)}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {allocations.map((allocation, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <TokenSelect
+              value={allocation.token}
+              onChange={(token) => updateAllocation(index, "token", token)}
+              placeholder="Select token"
+              className="flex-1 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white focus:border-purple-500 focus:outline-none focus:ring-1 focus:ring-purple-500"
+            />
+
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={formatUnits(allocation.targetPercentage, 2)}
+                onChange={(e) => updateAllocation(index, "targetPercentage", e.target.value)}
+                min="0"
+                max="100"
+                className="w-20 rounded-xl border border-white/10 bg-white/5 px-3 py-3 text-center text-white focus:border-purple-500 focus:outline-none focus:ring-1 focus:ring-purple-500"
+              />
+              <span className="text-foreground-muted">%</span>
+            </div>
+
+            <button
+              onClick={() => removeAllocation(index)}
+              disabled={allocations.length <= 1}
+              className="rounded-lg p-2 text-foreground-muted hover:bg-white/10 hover:text-error disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex items-center justify-between">
+        <button
+          onClick={addAllocation}
+          className="flex items-center gap-2 text-sm text-accent-purple hover:text-purple-400"
+        >
+          <Plus className="h-4 w-4" />
+          Add Token
+        </button>
+        <button
+          onClick={() => setShowTokenManager(!showTokenManager)}
+          className="flex items-center gap-2 text-sm text-foreground-muted hover:text-white"
+        >
+          <Settings2 className="h-4 w-4" />
+          {showTokenManager ? "Hide token settings" : "Token not listed?"}
+        </button>
+      </div>
+
+      {showTokenManager && (
+        <div className="mt-3">
+          <TokenManager />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import {
-  useAccount,
-  useReadContract,
-  useWriteContract,
-  useWaitForTransactionReceipt,
-} from "wagmi";
-import { parseUnits, formatUnits, parseAbi } from "viem";
-import toast from "react-hot-toast";
+import { useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { formatUnits } from "viem";
 import { TokenInput } from "@/components/shared/TokenInput";
 import { TransactionButton } from "@/components/shared/TransactionButton";
-import { CONTRACTS } from "@/lib/contracts";
+import { ApprovalNotice } from "@/components/shared/ApprovalNotice";
 import { INDEX_FUND_ABI, ERC20_ABI } from "@/lib/abis";
-import { useIndexFundUserPosition, useIndexFundStats, formatTokenAmount, parseError } from "@/hooks";
+import {
+  useIndexFundUserPosition,
+  useIndexFundStats,
+  formatTokenAmount,
+  useDeployment,
+  useTransaction,
+  useSimulation,
+  useDepositApproval,
+} from "@/hooks";
+import { parseAmount, quantityAt, UNITS, usdc6, valueAt } from "@/lib/amounts";
+import { isSignatureMethod } from "@/lib/permits";
 
 type Tab = "deposit" | "withdraw";
 
@@ -22,202 +26,139 @@ interface DepositWithdrawProps {
 }
 
 export function DepositWithdraw({ fundAddress }: DepositWithdrawProps) {
+  const { chainId, contracts } = useDeployment();
   const [activeTab, setActiveTab] = useState<Tab>("deposit");
   const [amount, setAmount] = useState("");
 
   const { address, isConnected } = useAccount();
   const { shares, assetsValue } = useIndexFundUserPosition(fundAddress);
-  const { sharePrice } = useIndexFundStats(fundAddress);
+  const { sharePrice, shareDecimals = UNITS.USDC6.decimals } = useIndexFundStats(fundAddress);
 
-  const targetFund = (fundAddress || CONTRACTS.INDEX_FUND) as `0x${string}`;
+  const targetFund = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
 
   // USDC balance (6 decimals) - assuming deposits are in USDC
-  const { data: usdcBalance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
+  const usdcBalanceRead = useReadContract({
+    address: contracts.USDC as `0x${string}`,
+    abi: ERC20_ABI,
+    chainId,
     functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
+  const usdcBalance = usdcBalanceRead.status === "success" ? usdcBalanceRead.data : undefined;
 
-  // USDC allowance
-  const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
-    functionName: "allowance",
-    args: address ? [address, targetFund] : undefined,
-    query: { enabled: !!address },
-  });
-
-  // Approve USDC
-  const {
-    writeContract: approveUsdc,
-    isPending: isApproving,
-    data: approveHash,
-    error: approveError,
-  } = useWriteContract();
-
-  const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess, error: approveReceiptError } = useWaitForTransactionReceipt({
-    hash: approveHash,
-  });
-
-  // Deposit
-  const {
-    writeContract: deposit,
-    isPending: isDepositing,
-    data: depositHash,
-    error: depositError,
-  } = useWriteContract();
-
-  const { isLoading: isDepositConfirming, isSuccess: isDepositSuccess, error: depositReceiptError } = useWaitForTransactionReceipt({
-    hash: depositHash,
-  });
-
-  // Withdraw
-  const {
-    writeContract: withdraw,
-    isPending: isWithdrawing,
-    data: withdrawHash,
-    error: withdrawError,
-  } = useWriteContract();
-
-  const { isLoading: isWithdrawConfirming, isSuccess: isWithdrawSuccess, error: withdrawReceiptError } = useWaitForTransactionReceipt({
-    hash: withdrawHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (approveError) {
-      toast.error(parseError(approveError), { duration: 5000 });
-    }
-  }, [approveError]);
-
-  useEffect(() => {
-    if (approveReceiptError) {
-      toast.error(parseError(approveReceiptError), { duration: 5000 });
-    }
-  }, [approveReceiptError]);
-
-  useEffect(() => {
-    if (depositError) {
-      toast.error(parseError(depositError), { duration: 5000 });
-    }
-  }, [depositError]);
-
-  useEffect(() => {
-    if (depositReceiptError) {
-      toast.error(parseError(depositReceiptError), { duration: 5000 });
-    }
-  }, [depositReceiptError]);
-
-  useEffect(() => {
-    if (withdrawError) {
-      toast.error(parseError(withdrawError), { duration: 5000 });
-    }
-  }, [withdrawError]);
-
-  useEffect(() => {
-    if (withdrawReceiptError) {
-      toast.error(parseError(withdrawReceiptError), { duration: 5000 });
-    }
-  }, [withdrawReceiptError]);
-
-  // Handle success
-  useEffect(() => {
-    if (isApproveSuccess) {
-      toast.success("Approval confirmed!");
-      refetchAllowance();
-    }
-  }, [isApproveSuccess, refetchAllowance]);
+  const approveTx = useTransaction();
+  const depositTx = useTransaction();
+  const withdrawTx = useTransaction();
 
-  useEffect(() => {
-    if (isDepositSuccess) {
-      toast.success("Deposit confirmed!");
-      setAmount("");
-    }
-  }, [isDepositSuccess]);
-
-  useEffect(() => {
-    if (isWithdrawSuccess) {
-      toast.success("Withdrawal confirmed!");
-      setAmount("");
-    }
-  }, [isWithdrawSuccess]);
-
-  // Parse amount based on tab (USDC: 6 decimals, Shares: 18 decimals)
+  // USDC on deposit, fund shares (the asset's decimals) on withdraw
   const parsedAmount =
-    activeTab === "deposit"
-      ? amount
-        ? parseUnits(amount, 6)
-        : BigInt(0)
-      : amount
-        ? parseUnits(amount, 18)
-        : BigInt(0);
-
-  const needsApproval =
-    activeTab === "deposit" &&
-    usdcAllowance !== undefined &&
-    parsedAmount > (usdcAllowance as bigint);
+    (activeTab === "deposit" ? parseAmount(amount, UNITS.USDC6) : parseAmount(amount, shareDecimals)) ?? BigInt(0);
+
+  // Permit, Permit2 or approve - only deposits pull USDC
+  const approval = useDepositApproval(
+    contracts.USDC,
+    targetFund,
+    activeTab === "deposit" ? parsedAmount : BigInt(0),
+    "deposit"
+  );
+  const needsApproval = approval.method === "approve" || approval.method === "permit2-approve";
+  const approveCall = approval.approveCall;
+  // Batched approvals send approve + deposit together, so the approve is what can be dry-run
+  const approvesFirst = needsApproval || (activeTab === "deposit" && approval.method === "batch");
 
-  // Calculate expected shares from deposit
+  // Expected shares from a deposit, at the current share price
   const expectedShares =
-    activeTab === "deposit" && amount && sharePrice && Number(sharePrice) > 0
-      ? (parseFloat(amount) * 1e12 * 1e18) / Number(sharePrice) // 1e12 to convert USDC 6 decimals to 18
-      : 0;
+    activeTab === "deposit" && sharePrice ? quantityAt(usdc6(parsedAmount), sharePrice, shareDecimals) : BigInt(0);
 
-  // Calculate expected USDC from withdraw
+  // Expected USDC from a withdrawal
   const expectedAssets =
-    activeTab === "withdraw" && amount && sharePrice
-      ? (parseFloat(amount) * Number(sharePrice)) / 1e18 / 1e12 // Convert back to USDC decimals
-      : 0;
+    activeTab === "withdraw" && sharePrice ? valueAt(parsedAmount, shareDecimals, sharePrice) : usdc6(BigInt(0));
+
+  const fund = { address: targetFund, abi: INDEX_FUND_ABI, chainId } as const;
+
+  const depositCall = {
+    ...fund,
+    functionName: "deposit",
+    args: [parsedAmount, address as `0x${string}`],
+  } as const;
+
+  const withdrawCall = {
+    ...fund,
+    functionName: "redeem",
+    args: [parsedAmount, address as `0x${string}`, address as `0x${string}`],
+  } as const;
+
+  // Dry-run whichever action the button below will send; a signed deposit can't run before it's signed
+  const preflight = useSimulation(
+    !address || parsedAmount === BigInt(0) || (activeTab === "deposit" && isSignatureMethod(approval.method))
+      ? undefined
+      : approvesFirst
+        ? approveCall
+        : activeTab === "deposit"
+          ? depositCall
+          : withdrawCall
+  );
 
   const handleApprove = () => {
-    approveUsdc({
-      address: CONTRACTS.USDC as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
-      functionName: "approve",
-      args: [targetFund, parsedAmount],
+    approveTx.send(approveCall, {
+      label: approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC",
+      successMessage: "Approval confirmed!",
     });
   };
 
-  const handleDeposit = () => {
+  const handleDeposit = async () => {
     if (!address || !parsedAmount) return;
-
-    deposit({
-      address: targetFund,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "deposit",
-      args: [parsedAmount, address],
-    });
+    const options = { label: "Deposit USDC", successMessage: "Deposit confirmed!", onConfirmed: () => setAmount("") };
+
+    if (approval.method === "batch") {
+      depositTx.sendBatch(
+        [
+          { call: approveCall, label: "Approve USDC" },
+          { call: depositCall, label: "Deposit USDC" },
+        ],
+        options
+      );
+      return;
+    }
+    if (!isSignatureMethod(approval.method)) {
+      depositTx.send(depositCall, options);
+      return;
+    }
+    const signed = await approval.authorize();
+    const signedOptions = { ...options, onFailed: approval.fallBackOnFailure };
+    if (signed?.method === "permit") {
+      const { deadline, v, r, s } = signed;
+      depositTx.send(
+        { ...fund, functionName: "depositWithPermit", args: [parsedAmount, address, deadline, v, r, s] },
+        signedOptions
+      );
+    } else if (signed?.method === "permit2") {
+      depositTx.send(
+        { ...fund, functionName: "depositWithPermit2", args: [parsedAmount, address, signed.permit, signed.signature] },
+        signedOptions
+      );
+    }
   };
 
   const handleWithdraw = () => {
     if (!address || !parsedAmount) return;
 
-    withdraw({
-      address: targetFund,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "redeem",
-      args: [parsedAmount, address, address],
+    withdrawTx.send(withdrawCall, {
+      label: "Withdraw IDX",
+      successMessage: "Withdrawal confirmed!",
+      onConfirmed: () => setAmount(""),
     });
   };
 
   const handleMaxClick = () => {
     if (activeTab === "deposit" && usdcBalance) {
-      setAmount(formatUnits(usdcBalance as bigint, 6));
+      setAmount(formatUnits(usdcBalance, 6));
     } else if (activeTab === "withdraw" && shares) {
-      setAmount(formatUnits(shares, 18));
+      setAmount(formatUnits(shares, shareDecimals));
     }
   };
 
-  const isLoading =
-    isApproving ||
-    isApproveConfirming ||
-    isDepositing ||
-    isDepositConfirming ||
-    isWithdrawing ||
-    isWithdrawConfirming;
-
   return (
     <div className="glass-card p-6">
       {/* Tabs */}
@@ -257,28 +198,37 @@ export function DepositWithdraw({ fundAddress }: DepositWithdrawProps) {
         symbol={activeTab === "deposit" ? "USDC" : "IDX"}
         balance={
           activeTab === "deposit"
-            ? formatTokenAmount(usdcBalance as bigint | undefined, 6, 2)
-            : formatTokenAmount(shares)
+            ? formatTokenAmount(usdcBalance, 6, 2)
+            : formatTokenAmount(shares, shareDecimals)
         }
         onMax={handleMaxClick}
         disabled={!isConnected}
       />
 
       {/* Preview */}
-      {amount && parseFloat(amount) > 0 && (
+      {parsedAmount > BigInt(0) && (
         <div className="mt-4 rounded-lg bg-white/5 p-4">
           <div className="flex justify-between text-sm">
             <span className="text-foreground-muted">You will receive</span>
             <span>
               ~
               {activeTab === "deposit"
-                ? `${expectedShares.toFixed(4)} IDX`
-                : `${expectedAssets.toFixed(2)} USDC`}
+                ? `${formatTokenAmount(expectedShares, shareDecimals)} IDX`
+                : `${formatTokenAmount(expectedAssets, UNITS.USDC6.decimals, 2)} USDC`}
             </span>
           </div>
         </div>
       )}
 
+      {activeTab === "deposit" && isConnected && parsedAmount > BigInt(0) && (
+        <ApprovalNotice
+          method={approval.method}
+          canUseSignature={approval.canUseSignature}
+          preferApprove={approval.preferApprove}
+          onPreferApproveChange={approval.setPreferApprove}
+        />
+      )}
+
       {/* Action Button */}
       <div className="mt-6">
         {!isConnected ? (
@@ -289,28 +239,31 @@ export function DepositWithdraw({ fundAddress }: DepositWithdrawProps) {
           needsApproval ? (
             <TransactionButton
               onClick={handleApprove}
-              isLoading={isApproving || isApproveConfirming}
+              isLoading={approveTx.isLoading}
               loadingText="Approving..."
-              disabled={!amount || parseFloat(amount) <= 0}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Approve USDC
+              {approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC"}
             </TransactionButton>
           ) : (
             <TransactionButton
               onClick={handleDeposit}
-              isLoading={isDepositing || isDepositConfirming}
-              loadingText="Depositing..."
-              disabled={!amount || parseFloat(amount) <= 0}
+              isLoading={approval.isSigning || depositTx.isLoading}
+              loadingText={approval.isSigning ? "Sign in wallet..." : "Depositing..."}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Deposit
+              {approval.method === "batch" ? "Approve & Deposit" : "Deposit"}
             </TransactionButton>
           )
         ) : (
           <TransactionButton
             onClick={handleWithdraw}
-            isLoading={isWithdrawing || isWithdrawConfirming}
+            isLoading={withdrawTx.isLoading}
             loadingText="Withdrawing..."
-            disabled={!amount || parseFloat(amount) <= 0}
+            error={preflight.error}
+            disabled={parsedAmount === BigInt(0)}
             variant="secondary"
           >
             Withdraw
@@ -327,11 +280,11 @@ export function DepositWithdraw({ fundAddress }: DepositWithdrawProps) {
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-foreground-muted">Shares</span>
-              <span>{formatTokenAmount(shares)} IDX</span>
+              <span>{formatTokenAmount(shares, shareDecimals)} IDX</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-foreground-muted">Value</span>
-              <span>{formatTokenAmount(assetsValue, 18, 2)} USDC</span>
+              <span>{formatTokenAmount(assetsValue, UNITS.USDC6.decimals, 2)} USDC</span>
             </div>
           </div>
         </div>
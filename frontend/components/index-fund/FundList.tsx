@@ -1,19 +1,42 @@
 "use client";
 
+import { useState } from "react";
 import { useReadContract, useReadContracts } from "wagmi";
-import { parseAbi, formatUnits } from "viem";
-import { Loader2, ChevronRight, TrendingUp } from "lucide-react";
-import { CONTRACTS } from "@/lib/contracts";
+import { Loader2, ChevronRight, TrendingUp, ArrowUp, ArrowDown } from "lucide-react";
 import { FUND_FACTORY_ABI, INDEX_FUND_ABI, ERC20_ABI } from "@/lib/abis";
+import { toNumber, UNITS, usdc6, type USDC6 } from "@/lib/amounts";
+import {
+  useDeployment,
+  useFundsPerformance,
+  formatPerformance,
+  formatUSD,
+  PERFORMANCE_LABELS,
+  type PerformanceMetrics,
+} from "@/hooks";
 
 interface FundInfo {
   address: string;
   name: string;
   symbol: string;
-  totalAssets: bigint;
+  totalAssets: USDC6;
   totalSupply: bigint;
 }
 
+type SortKey = "tvl" | keyof PerformanceMetrics;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "tvl", label: "TVL" },
+  ...(Object.keys(PERFORMANCE_LABELS) as (keyof PerformanceMetrics)[]).map((key) => ({
+    key,
+    label: PERFORMANCE_LABELS[key],
+  })),
+];
+
+function metricColor(key: SortKey, value: number | undefined) {
+  if (value === undefined || !key.startsWith("return") || value === 0) return "";
+  return value > 0 ? "text-success" : "text-error";
+}
+
 export function FundList({
   selectedFund,
   onSelectFund,
@@ -21,10 +44,13 @@ export function FundList({
   selectedFund: string | null;
   onSelectFund: (address: string) => void;
 }) {
+  const { chainId, contracts } = useDeployment();
+
   // Get all funds from factory
   const { data: fundsData, isLoading: fundsLoading } = useReadContract({
-    address: CONTRACTS.FUND_FACTORY as `0x${string}`,
-    abi: parseAbi(FUND_FACTORY_ABI),
+    address: contracts.FUND_FACTORY as `0x${string}`,
+    abi: FUND_FACTORY_ABI,
+    chainId,
     functionName: "getAllFunds",
   });
 
@@ -34,22 +60,26 @@ export function FundList({
   const fundDetailContracts = funds.flatMap((fundAddress) => [
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
+      abi: ERC20_ABI,
+      chainId,
       functionName: "name" as const,
     },
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
+      abi: ERC20_ABI,
+      chainId,
       functionName: "symbol" as const,
     },
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(INDEX_FUND_ABI),
+      abi: INDEX_FUND_ABI,
+      chainId,
       functionName: "totalAssets" as const,
     },
     {
       address: fundAddress as `0x${string}`,
-      abi: parseAbi(INDEX_FUND_ABI),
+      abi: INDEX_FUND_ABI,
+      chainId,
       functionName: "totalSupply" as const,
     },
   ]);
@@ -66,13 +96,39 @@ export function FundList({
       address,
       name: (detailsData?.[baseIndex]?.result as string) || "Unknown",
       symbol: (detailsData?.[baseIndex + 1]?.result as string) || "???",
-      totalAssets: (detailsData?.[baseIndex + 2]?.result as bigint) || BigInt(0),
+      totalAssets: usdc6((detailsData?.[baseIndex + 2]?.result as bigint) || BigInt(0)),
       totalSupply: (detailsData?.[baseIndex + 3]?.result as bigint) || BigInt(0),
     };
   });
 
   const isLoading = fundsLoading || detailsLoading;
 
+  const [sortKey, setSortKey] = useState<SortKey>("tvl");
+  const [descending, setDescending] = useState(true);
+  const { metrics, isLoading: metricsLoading } = useFundsPerformance(funds);
+
+  // Sort keys only; TVL is displayed from the exact amount
+  const valueOf = (fund: FundInfo, key: SortKey) =>
+    key === "tvl" ? toNumber(fund.totalAssets, UNITS.USDC6.decimals) : metrics[fund.address]?.[key];
+
+  // Funds without enough history for the column sort last either way
+  const sortedFunds = [...fundInfos].sort((a, b) => {
+    const va = valueOf(a, sortKey);
+    const vb = valueOf(b, sortKey);
+    if (va === undefined) return vb === undefined ? 0 : 1;
+    if (vb === undefined) return -1;
+    return descending ? vb - va : va - vb;
+  });
+
+  const onSort = (key: SortKey) => {
+    if (key === sortKey) setDescending(!descending);
+    else {
+      setSortKey(key);
+      // Lower is better for risk columns
+      setDescending(key !== "maxDrawdown" && key !== "volatility");
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -94,45 +150,74 @@ export function FundList({
   }
 
   return (
-    <div className="space-y-3">
-      {fundInfos.map((fund) => {
-        const isSelected = selectedFund === fund.address;
-        const tvl = Number(fund.totalAssets) / 1e6; // Assuming USDC with 6 decimals
-
-        return (
-          <button
-            key={fund.address}
-            onClick={() => onSelectFund(fund.address)}
-            className={`w-full rounded-xl border p-4 text-left transition-all ${
-              isSelected
-                ? "border-accent-purple bg-accent-purple/10"
-                : "border-white/10 bg-white/5 hover:border-white/20 hover:bg-white/10"
-            }`}
-          >
-            <div className="flex items-center justify-between">
-              <div>
+    <div className="overflow-x-auto">
+      <div className="min-w-[760px] space-y-3">
+        {/* Sortable column headers */}
+        <div className="grid grid-cols-[2fr_repeat(7,1fr)_20px] items-center gap-2 px-4 text-xs text-foreground-muted">
+          <span>Fund</span>
+          {COLUMNS.map((column) => (
+            <button
+              key={column.key}
+              onClick={() => onSort(column.key)}
+              className={`flex items-center justify-end gap-1 transition-colors hover:text-white ${
+                sortKey === column.key ? "text-white" : ""
+              }`}
+            >
+              {column.label}
+              {sortKey === column.key &&
+                (descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+            </button>
+          ))}
+          <span />
+        </div>
+
+        {sortedFunds.map((fund) => {
+          const isSelected = selectedFund === fund.address;
+
+          return (
+            <button
+              key={fund.address}
+              onClick={() => onSelectFund(fund.address)}
+              className={`grid w-full grid-cols-[2fr_repeat(7,1fr)_20px] items-center gap-2 rounded-xl border p-4 text-left transition-all ${
+                isSelected
+                  ? "border-accent-purple bg-accent-purple/10"
+                  : "border-white/10 bg-white/5 hover:border-white/20 hover:bg-white/10"
+              }`}
+            >
+              <div className="min-w-0">
                 <div className="flex items-center gap-2">
-                  <span className="font-semibold">{fund.name}</span>
+                  <span className="truncate font-semibold">{fund.name}</span>
                   <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-foreground-muted">
                     {fund.symbol}
                   </span>
                 </div>
-                <p className="mt-1 text-sm text-foreground-muted">
-                  TVL: ${tvl.toLocaleString(undefined, { maximumFractionDigits: 2 })}
-                </p>
                 <p className="mt-0.5 text-xs text-foreground-muted">
                   {fund.address.slice(0, 6)}...{fund.address.slice(-4)}
                 </p>
               </div>
+              {COLUMNS.map((column) => {
+                const value = valueOf(fund, column.key);
+                return (
+                  <span key={column.key} className={`text-right text-sm ${metricColor(column.key, value)}`}>
+                    {column.key === "tvl" ? (
+                      formatUSD(fund.totalAssets)
+                    ) : metricsLoading ? (
+                      <Loader2 className="ml-auto h-3 w-3 animate-spin text-foreground-muted" />
+                    ) : (
+                      formatPerformance(column.key, value)
+                    )}
+                  </span>
+                );
+              })}
               <ChevronRight
                 className={`h-5 w-5 transition-transform ${
                   isSelected ? "text-accent-purple" : "text-foreground-muted"
                 }`}
               />
-            </div>
-          </button>
-        );
-      })}
+            </button>
+          );
+        })}
+      </div>
     </div>
   );
 }
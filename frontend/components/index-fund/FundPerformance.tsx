@@ -0,0 +1,111 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import {
+  useFundPerformance,
+  useIndexFundStats,
+  formatUSD,
+  formatPerformance,
+  PERFORMANCE_LABELS,
+  type PerformanceMetrics,
+} from "@/hooks";
+import { perWholeShare, toNumber, UNITS } from "@/lib/amounts";
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 12, bottom: 24, left: 12 };
+
+export function FundPerformance({ fundAddress }: { fundAddress: string }) {
+  const { history, metrics, isLoading, error } = useFundPerformance(fundAddress);
+  const { shareDecimals = UNITS.WAD18.decimals } = useIndexFundStats(fundAddress);
+
+  // Exact values for the labels, floats only for plotting
+  const latest = history[history.length - 1];
+  const points = history.map((s) => ({
+    timestamp: s.timestamp,
+    price: toNumber(perWholeShare(s.sharePrice, shareDecimals), UNITS.USDC6.decimals),
+    tvl: toNumber(s.totalAssets, UNITS.USDC6.decimals),
+  }));
+  const hasData = points.length > 1;
+
+  const t0 = points[0]?.timestamp ?? 0;
+  const t1 = points[points.length - 1]?.timestamp ?? 1;
+  const prices = points.map((p) => p.price);
+  const priceMin = Math.min(...prices);
+  const priceRange = Math.max(...prices) - priceMin || priceMin * 0.05 || 1;
+  const tvlMax = Math.max(...points.map((p) => p.tvl), 1);
+
+  const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (timestamp: number) =>
+    PAD.left + ((timestamp - t0) / Math.max(t1 - t0, 1)) * (WIDTH - PAD.left - PAD.right);
+  const yPrice = (price: number) => PAD.top + (1 - 0.1 - ((price - priceMin) / priceRange) * 0.8) * innerHeight;
+  const yTvl = (tvl: number) => PAD.top + (1 - (tvl / tvlMax) * 0.5) * innerHeight;
+
+  const pricePath = points.map((p, i) => `${i ? "L" : "M"}${x(p.timestamp).toFixed(1)},${yPrice(p.price).toFixed(1)}`).join(" ");
+  const tvlPath =
+    `M${x(t0)},${PAD.top + innerHeight} ` +
+    points.map((p) => `L${x(p.timestamp).toFixed(1)},${yTvl(p.tvl).toFixed(1)}`).join(" ") +
+    ` L${x(t1)},${PAD.top + innerHeight} Z`;
+
+  return (
+    <div className="glass-card p-6">
+      {isLoading ? (
+        <div className="flex h-48 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-accent-purple" />
+        </div>
+      ) : !hasData ? (
+        <div className="flex h-48 items-center justify-center text-center text-sm text-foreground-muted">
+          {error ? `Could not load fund history: ${error.message}` : "Not enough history yet"}
+        </div>
+      ) : (
+        <>
+          <div className="mb-2 flex flex-wrap items-center gap-4 text-xs">
+            <span className="flex items-center gap-1.5">
+              <span className="h-0.5 w-4 bg-accent-purple" />
+              Share Price
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="h-2 w-4 rounded-sm bg-accent-cyan/20" />
+              TVL
+            </span>
+            <span className="ml-auto text-foreground-muted">
+              {formatUSD(perWholeShare(latest.sharePrice, shareDecimals))} · TVL {formatUSD(latest.totalAssets)}
+            </span>
+          </div>
+
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full">
+            <path d={tvlPath} fill="var(--accent-cyan)" fillOpacity="0.12" />
+            <path d={pricePath} fill="none" stroke="var(--accent-purple)" strokeWidth="2" />
+            <text x={PAD.left} y={HEIGHT - 6} fontSize="10" fill="var(--foreground-muted)">
+              {new Date(t0 * 1000).toLocaleDateString()}
+            </text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="var(--foreground-muted)">
+              {new Date(t1 * 1000).toLocaleDateString()}
+            </text>
+          </svg>
+        </>
+      )}
+
+      <div className="mt-4 grid grid-cols-3 gap-4 border-t border-white/10 pt-4 text-sm sm:grid-cols-6">
+        {(Object.keys(PERFORMANCE_LABELS) as (keyof PerformanceMetrics)[]).map((key) => {
+          const value = metrics?.[key];
+          const color =
+            value === undefined || !key.startsWith("return") || value === 0
+              ? ""
+              : value > 0
+                ? "text-success"
+                : "text-error";
+          return (
+            <div key={key}>
+              <p className="text-foreground-muted">{PERFORMANCE_LABELS[key]}</p>
+              <p className={`font-medium ${color}`}>{formatPerformance(key, value)}</p>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-foreground-muted">
+        Volatility and Sharpe are annualized from sampled share prices; Sharpe assumes a zero risk-free rate.
+      </p>
+    </div>
+  );
+}
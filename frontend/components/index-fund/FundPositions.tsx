@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContracts } from "wagmi";
+import { Layers } from "lucide-react";
+import { TransactionButton } from "@/components/shared/TransactionButton";
+import { INDEX_FUND_ABI, ERC20_ABI } from "@/lib/abis";
+import {
+  useDeployment,
+  useFundDirectory,
+  useTransaction,
+  useAtomicBatching,
+  formatTokenAmount,
+  type FundEntry,
+} from "@/hooks";
+import { UNITS } from "@/lib/amounts";
+import type { BatchStep } from "@/lib/transactions";
+
+interface Position extends FundEntry {
+  shares: bigint;
+  decimals: number;
+}
+
+// The user's holdings across every fund, with a redeem of any subset in one go: a single
+// atomic bundle on wallets that batch calls, one redeem transaction per fund otherwise.
+export function FundPositions() {
+  const { chainId } = useDeployment();
+  const { address, isConnected } = useAccount();
+  const { funds } = useFundDirectory();
+  const canBatch = useAtomicBatching();
+  const redeemTx = useTransaction();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: balancesData } = useReadContracts({
+    contracts: funds.map((fund) => ({
+      address: fund.address,
+      abi: ERC20_ABI,
+      chainId,
+      functionName: "balanceOf" as const,
+      args: [address!],
+    })),
+    query: { enabled: !!address && funds.length > 0 },
+  });
+  const { data: decimalsData } = useReadContracts({
+    contracts: funds.map((fund) => ({ address: fund.address, abi: ERC20_ABI, chainId, functionName: "decimals" as const })),
+    query: { enabled: funds.length > 0 },
+  });
+
+  // Funds whose balance or decimals couldn't be read are left out rather than shown with guesses
+  const positions: Position[] = funds.flatMap((fund, index) => {
+    const balance = balancesData?.[index];
+    const decimals = decimalsData?.[index];
+    if (balance?.status !== "success" || decimals?.status !== "success" || balance.result === BigInt(0)) return [];
+    return [{ ...fund, shares: balance.result, decimals: decimals.result }];
+  });
+
+  const { data: valuesData } = useReadContracts({
+    contracts: positions.map((position) => ({
+      address: position.address,
+      abi: INDEX_FUND_ABI,
+      chainId,
+      functionName: "previewRedeem" as const,
+      args: [position.shares],
+    })),
+    query: { enabled: positions.length > 0 },
+  });
+
+  if (!isConnected || positions.length === 0) return null;
+
+  const redeemValue = (index: number) => {
+    const value = valuesData?.[index];
+    return value?.status === "success" ? value.result : undefined;
+  };
+
+  const chosen = positions.filter((position) => selected.has(position.address));
+
+  const toggle = (fundAddress: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(fundAddress)) next.delete(fundAddress);
+      else next.add(fundAddress);
+      return next;
+    });
+  };
+
+  const handleRedeem = () => {
+    if (!address || chosen.length === 0) return;
+
+    const steps: BatchStep[] = chosen.map((position) => ({
+      call: {
+        address: position.address,
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "redeem",
+        args: [position.shares, address, address],
+      } as const,
+      label: `Redeem ${position.symbol}`,
+    }));
+
+    redeemTx.sendBatch(steps, {
+      label: chosen.length === 1 ? `Redeem ${chosen[0].symbol}` : `Redeem ${chosen.length} funds`,
+      successMessage: "Redemption confirmed!",
+      onConfirmed: () => setSelected(new Set()),
+    });
+  };
+
+  return (
+    <section>
+      <h2 className="mb-4 text-lg font-semibold">Your Positions</h2>
+      <div className="glass-card p-6">
+        <div className="space-y-2">
+          {positions.map((position, index) => (
+            <label
+              key={position.address}
+              className="flex cursor-pointer items-center gap-3 rounded-lg bg-white/5 p-3 text-sm transition-all hover:bg-white/10"
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(position.address)}
+                onChange={() => toggle(position.address)}
+                className="h-4 w-4 accent-accent-purple"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">{position.name}</p>
+                <p className="text-xs text-foreground-muted">
+                  {formatTokenAmount(position.shares, position.decimals)} {position.symbol}
+                </p>
+              </div>
+              <span>
+                {formatTokenAmount(redeemValue(index), UNITS.USDC6.decimals, 2)} USDC
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {chosen.length > 1 && (
+          <p className="mt-4 flex items-center gap-2 text-xs text-foreground-muted">
+            <Layers className="h-4 w-4 text-accent-purple" />
+            {canBatch
+              ? "Your wallet redeems these in one atomic transaction."
+              : `Each fund is redeemed in its own transaction (${chosen.length} in total).`}
+          </p>
+        )}
+
+        <div className="mt-4">
+          <TransactionButton
+            onClick={handleRedeem}
+            isLoading={redeemTx.isLoading}
+            loadingText="Redeeming..."
+            disabled={chosen.length === 0}
+            variant="secondary"
+          >
+            {chosen.length > 1 ? `Redeem ${chosen.length} funds` : "Redeem selected"}
+          </TransactionButton>
+        </div>
+      </div>
+    </section>
+  );
+}
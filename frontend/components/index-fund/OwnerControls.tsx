@@ -1,109 +1,59 @@
 "use client";
 
-import { useEffect } from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
-import { parseAbi } from "viem";
-import toast from "react-hot-toast";
+import { useAccount, useReadContract } from "wagmi";
 import { Settings, RefreshCw, Coins } from "lucide-react";
 import { TransactionButton } from "@/components/shared/TransactionButton";
-import { CONTRACTS } from "@/lib/contracts";
 import { INDEX_FUND_ABI } from "@/lib/abis";
-import { useIndexFundStats, formatTokenAmount, parseError } from "@/hooks";
+import { useIndexFundStats, formatTokenAmount, useDeployment, useTransaction, useSimulation } from "@/hooks";
 
 interface OwnerControlsProps {
   fundAddress?: string;
 }
 
 export function OwnerControls({ fundAddress }: OwnerControlsProps) {
+  const { chainId, contracts } = useDeployment();
   const { address } = useAccount();
-  const targetFund = (fundAddress || CONTRACTS.INDEX_FUND) as `0x${string}`;
-  const { accruedFees, isLoading } = useIndexFundStats(fundAddress);
+  const targetFund = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
+  const { accruedFees, shareDecimals, isLoading } = useIndexFundStats(fundAddress);
 
-  // Check if current user is owner (simple check - in production would read owner() from contract)
+  // Check if current user is owner
   const { data: owner } = useReadContract({
     address: targetFund,
-    abi: parseAbi(["function owner() view returns (address)"]),
+    abi: INDEX_FUND_ABI,
+    chainId,
     functionName: "owner",
   });
 
-  const isOwner = owner && address && owner.toString().toLowerCase() === address.toLowerCase();
+  const isOwner = owner && address && owner.toLowerCase() === address.toLowerCase();
 
-  // Collect Fees
-  const {
-    writeContract: collectFees,
-    isPending: isCollecting,
-    data: collectHash,
-    error: collectError,
-  } = useWriteContract();
+  const collectTx = useTransaction();
+  const rebalanceTx = useTransaction();
 
-  const { isLoading: isCollectConfirming, isSuccess: isCollectSuccess, error: collectReceiptError } = useWaitForTransactionReceipt({
-    hash: collectHash,
-  });
-
-  // Rebalance
-  const {
-    writeContract: rebalance,
-    isPending: isRebalancing,
-    data: rebalanceHash,
-    error: rebalanceError,
-  } = useWriteContract();
-
-  const { isLoading: isRebalanceConfirming, isSuccess: isRebalanceSuccess, error: rebalanceReceiptError } = useWaitForTransactionReceipt({
-    hash: rebalanceHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (collectError) {
-      toast.error(parseError(collectError), { duration: 5000 });
-    }
-  }, [collectError]);
-
-  useEffect(() => {
-    if (collectReceiptError) {
-      toast.error(parseError(collectReceiptError), { duration: 5000 });
-    }
-  }, [collectReceiptError]);
-
-  useEffect(() => {
-    if (rebalanceError) {
-      toast.error(parseError(rebalanceError), { duration: 5000 });
-    }
-  }, [rebalanceError]);
-
-  useEffect(() => {
-    if (rebalanceReceiptError) {
-      toast.error(parseError(rebalanceReceiptError), { duration: 5000 });
-    }
-  }, [rebalanceReceiptError]);
+  const collectCall = {
+    address: targetFund,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "collectFees",
+  } as const;
 
-  // Handle success
-  useEffect(() => {
-    if (isCollectSuccess) {
-      toast.success("Fees collected successfully!");
-    }
-  }, [isCollectSuccess]);
+  const rebalanceCall = {
+    address: targetFund,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "rebalance",
+    // Swap calldata is built off-chain (see script/Rebalance.s.sol); an empty batch skips every swap
+    args: [[]],
+  } as const;
 
-  useEffect(() => {
-    if (isRebalanceSuccess) {
-      toast.success("Rebalance completed!");
-    }
-  }, [isRebalanceSuccess]);
+  const collectPreflight = useSimulation(isOwner ? collectCall : undefined);
+  const rebalancePreflight = useSimulation(isOwner ? rebalanceCall : undefined);
 
   const handleCollectFees = () => {
-    collectFees({
-      address: targetFund,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "collectFees",
-    });
+    collectTx.send(collectCall, { label: "Collect fees", successMessage: "Fees collected successfully!" });
   };
 
   const handleRebalance = () => {
-    rebalance({
-      address: targetFund,
-      abi: parseAbi(INDEX_FUND_ABI),
-      functionName: "rebalance",
-    });
+    rebalanceTx.send(rebalanceCall, { label: "Rebalance fund", successMessage: "Rebalance completed!" });
   };
 
   if (!isOwner) {
@@ -124,13 +74,14 @@ export function OwnerControls({ fundAddress }: OwnerControlsProps) {
             <div>
               <p className="text-sm text-foreground-muted">Accrued Fees</p>
               <p className="mt-1 text-xl font-bold">
-                {formatTokenAmount(accruedFees)} IDX
+                {formatTokenAmount(accruedFees, shareDecimals)} IDX
               </p>
             </div>
             <TransactionButton
               onClick={handleCollectFees}
-              isLoading={isCollecting || isCollectConfirming}
+              isLoading={collectTx.isLoading}
               loadingText="Collecting..."
+              error={collectPreflight.error}
               disabled={!accruedFees || accruedFees === BigInt(0)}
             >
               <Coins className="h-4 w-4" />
@@ -150,8 +101,9 @@ export function OwnerControls({ fundAddress }: OwnerControlsProps) {
             </div>
             <TransactionButton
               onClick={handleRebalance}
-              isLoading={isRebalancing || isRebalanceConfirming}
+              isLoading={rebalanceTx.isLoading}
               loadingText="Rebalancing..."
+              error={rebalancePreflight.error}
               variant="secondary"
             >
               <RefreshCw className="h-4 w-4" />
@@ -1,39 +1,18 @@
 "use client";
 
-import { useIndexFundAllocations } from "@/hooks";
-import { CONTRACTS } from "@/lib/contracts";
+import { useIndexFundAllocations, useTokens } from "@/hooks";
+import { TokenLogo } from "@/components/shared/TokenLogo";
+import { bps, formatBps, ratioBps } from "@/lib/amounts";
+import { tokenColor } from "@/lib/tokens";
 import { Loader2 } from "lucide-react";
 
-// Token metadata mapping
-const TOKEN_INFO: Record<string, { symbol: string; name: string; color: string }> = {
-  [CONTRACTS.WETH.toLowerCase()]: {
-    symbol: "WETH",
-    name: "Wrapped Ether",
-    color: "#627EEA",
-  },
-  [CONTRACTS.USDC.toLowerCase()]: {
-    symbol: "USDC",
-    name: "USD Coin",
-    color: "#2775CA",
-  },
-};
-
-function getTokenInfo(address: string) {
-  return (
-    TOKEN_INFO[address.toLowerCase()] || {
-      symbol: address.slice(0, 6) + "...",
-      name: "Unknown Token",
-      color: "#8b5cf6",
-    }
-  );
-}
-
 interface PortfolioAllocationProps {
   fundAddress?: string;
 }
 
 export function PortfolioAllocation({ fundAddress }: PortfolioAllocationProps) {
   const { tokens, weights, isLoading } = useIndexFundAllocations(fundAddress);
+  const { tokenOf } = useTokens(tokens);
 
   if (isLoading) {
     return (
@@ -47,20 +26,18 @@ export function PortfolioAllocation({ fundAddress }: PortfolioAllocationProps) {
   }
 
   // Calculate total weight
-  const totalWeight = weights.reduce(
-    (sum, w) => sum + Number(w),
-    0
-  );
+  const totalWeight = weights.reduce((sum, w) => sum + w, BigInt(0));
 
-  // Build allocation data
+  // Build allocation data; shares are of the total, in basis points
   const allocations = tokens.map((token, index) => {
-    const info = getTokenInfo(token);
-    const weight = weights[index] ? Number(weights[index]) : 0;
-    const percentage = totalWeight > 0 ? (weight / totalWeight) * 100 : 0;
+    const info = tokenOf(token);
+    const weight = weights[index] ?? bps(0);
+    const percentage = ratioBps(weight, totalWeight, "nearest");
 
     return {
-      address: token,
       ...info,
+      address: token,
+      color: tokenColor(info),
       weight,
       percentage,
     };
@@ -78,23 +55,20 @@ export function PortfolioAllocation({ fundAddress }: PortfolioAllocationProps) {
           {allocations.map((alloc) => (
             <div key={alloc.address}>
               <div className="mb-2 flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <div
-                    className="h-3 w-3 rounded-full"
-                    style={{ backgroundColor: alloc.color }}
-                  />
+                <div className="flex items-center gap-2" title={alloc.address}>
+                  <TokenLogo token={alloc} size={18} />
                   <span className="font-medium">{alloc.symbol}</span>
                   <span className="text-sm text-foreground-muted">
                     {alloc.name}
                   </span>
                 </div>
-                <span className="font-medium">{alloc.percentage.toFixed(1)}%</span>
+                <span className="font-medium">{formatBps(alloc.percentage, 1)}</span>
               </div>
               <div className="h-2 overflow-hidden rounded-full bg-white/10">
                 <div
                   className="h-full rounded-full transition-all"
                   style={{
-                    width: `${alloc.percentage}%`,
+                    width: formatBps(alloc.percentage),
                     backgroundColor: alloc.color,
                   }}
                 />
@@ -111,10 +85,10 @@ export function PortfolioAllocation({ fundAddress }: PortfolioAllocationProps) {
                   key={alloc.address}
                   className="transition-all"
                   style={{
-                    width: `${alloc.percentage}%`,
+                    width: formatBps(alloc.percentage),
                     backgroundColor: alloc.color,
                   }}
-                  title={`${alloc.symbol}: ${alloc.percentage.toFixed(1)}%`}
+                  title={`${alloc.symbol}: ${formatBps(alloc.percentage, 1)}`}
                 />
               ))}
             </div>
@@ -2,4 +2,7 @@ export { PortfolioAllocation } from "./PortfolioAllocation";
 export { DepositWithdraw } from "./DepositWithdraw";
 export { OwnerControls } from "./OwnerControls";
 export { CreateFund } from "./CreateFund";
+export { AllocationEditor, isValidAllocation, type AllocationInput } from "./AllocationEditor";
 export { FundList } from "./FundList";
+export { FundPerformance } from "./FundPerformance";
+export { FundPositions } from "./FundPositions";
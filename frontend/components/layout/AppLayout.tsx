@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { Header } from "./Header";
 import { Sidebar } from "./Sidebar";
+import { WrongNetworkBanner } from "@/components/shared/WrongNetworkBanner";
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -17,7 +18,10 @@ export function AppLayout({ children }: AppLayoutProps) {
       <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
 
       <main className="lg:pl-64">
-        <div className="mx-auto max-w-7xl p-4 lg:p-6">{children}</div>
+        <div className="mx-auto max-w-7xl p-4 lg:p-6">
+          <WrongNetworkBanner />
+          {children}
+        </div>
       </main>
     </div>
   );
@@ -2,6 +2,8 @@
 
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { Menu } from "lucide-react";
+import { ChainSelector } from "@/components/shared/ChainSelector";
+import { TransactionQueue } from "@/components/transactions";
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -28,7 +30,11 @@ export function Header({ onMenuClick }: HeaderProps) {
           </div>
         </div>
 
-        <ConnectButton showBalance={false} />
+        <div className="flex items-center gap-2">
+          <TransactionQueue />
+          <ChainSelector />
+          <ConnectButton showBalance={false} chainStatus="none" />
+        </div>
       </div>
     </header>
   );
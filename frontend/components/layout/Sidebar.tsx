@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useChainId, useChains } from "wagmi";
 import {
   LayoutDashboard,
   PieChart,
@@ -9,6 +10,7 @@ import {
   TrendingUp,
   Vote,
   Settings,
+  History,
   X,
 } from "lucide-react";
 
@@ -18,6 +20,7 @@ const NAV_ITEMS = [
   { name: "LP Vault", href: "/lp-vault", icon: Vault },
   { name: "Leverage", href: "/leverage", icon: TrendingUp },
   { name: "Governance", href: "/governance", icon: Vote },
+  { name: "History", href: "/history", icon: History },
   { name: "Admin", href: "/admin", icon: Settings },
 ];
 
@@ -28,6 +31,8 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const pathname = usePathname();
+  const chainId = useChainId();
+  const activeChain = useChains().find((chain) => chain.id === chainId);
 
   return (
     <>
@@ -63,7 +68,8 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
           {/* Navigation */}
           <nav className="flex-1 space-y-1 px-3 py-4">
             {NAV_ITEMS.map((item) => {
-              const isActive = pathname === item.href;
+              // Nested routes like /governance/3 keep their section highlighted
+              const isActive = item.href === "/" ? pathname === "/" : pathname.startsWith(item.href);
               const Icon = item.icon;
 
               return (
@@ -99,7 +105,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
           <div className="border-t border-white/10 p-4">
             <div className="rounded-xl bg-gradient-to-r from-accent-purple/10 to-accent-cyan/10 p-4">
               <p className="text-xs text-foreground-muted">Network</p>
-              <p className="mt-1 text-sm font-medium">Base Sepolia</p>
+              <p className="mt-1 text-sm font-medium">{activeChain?.name ?? `Chain ${chainId}`}</p>
             </div>
           </div>
         </div>
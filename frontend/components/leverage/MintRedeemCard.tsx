@@ -1,19 +1,25 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import {
-  useAccount,
-  useReadContract,
-  useWriteContract,
-  useWaitForTransactionReceipt,
-} from "wagmi";
-import { parseUnits, formatUnits, parseAbi } from "viem";
-import toast from "react-hot-toast";
+import { useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { formatUnits } from "viem";
 import { TokenInput } from "@/components/shared/TokenInput";
 import { TransactionButton } from "@/components/shared/TransactionButton";
-import { CONTRACTS } from "@/lib/contracts";
+import { ApprovalNotice } from "@/components/shared/ApprovalNotice";
 import { LEVERAGED_LONG_TOKEN_ABI, LEVERAGED_SHORT_TOKEN_ABI, ERC20_ABI } from "@/lib/abis";
-import { useLeveragedTokenUserPosition, useLeveragedTokenStats, formatTokenAmount, parseError, type LeverageType } from "@/hooks";
+import {
+  useLeveragedTokenUserPosition,
+  formatTokenAmount,
+  formatUSD,
+  type LeverageType,
+  useDeployment,
+  useTransaction,
+  useSimulation,
+  useMintRedeemPreview,
+  useDepositApproval,
+} from "@/hooks";
+import { applyBps, bps, formatAmount, formatBps, parseAmount, UNITS, usdc6 } from "@/lib/amounts";
+import { isSignatureMethod } from "@/lib/permits";
 
 type Tab = "mint" | "redeem";
 
@@ -21,222 +27,139 @@ interface MintRedeemCardProps {
   type: LeverageType;
 }
 
-// Format small numbers without scientific notation
-function formatSmallNumber(num: number): string {
-  if (num === 0) return "0";
-  if (num >= 1) {
-    return num.toLocaleString(undefined, { maximumFractionDigits: 4 });
-  }
-  // For small numbers, show enough decimals
-  const log = Math.floor(Math.log10(Math.abs(num)));
-  const decimals = Math.min(Math.abs(log) + 2, 18);
-  return num.toFixed(decimals);
-}
-
 export function MintRedeemCard({ type }: MintRedeemCardProps) {
+  const { chainId, contracts } = useDeployment();
   const [activeTab, setActiveTab] = useState<Tab>("mint");
   const [amount, setAmount] = useState("");
 
   const { address, isConnected } = useAccount();
 
   // Get contract addresses and ABIs based on type
-  const tokenAddress = type === "long" ? CONTRACTS.ETH2X_LONG : CONTRACTS.ETH2X_SHORT;
+  const tokenAddress = type === "long" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT;
   const tokenAbi = type === "long" ? LEVERAGED_LONG_TOKEN_ABI : LEVERAGED_SHORT_TOKEN_ABI;
   const tokenSymbol = type === "long" ? "ETH2X" : "ETH-2X";
 
   const { balance: tokenBalance } = useLeveragedTokenUserPosition(type);
-  const { currentNAV } = useLeveragedTokenStats(type);
 
   // USDC balance (6 decimals) - both long and short use USDC as collateral
-  const { data: usdcBalance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
+  const usdcBalanceRead = useReadContract({
+    address: contracts.USDC as `0x${string}`,
+    abi: ERC20_ABI,
+    chainId,
     functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
+  const usdcBalance = usdcBalanceRead.status === "success" ? usdcBalanceRead.data : undefined;
 
-  // USDC allowance for the specific token contract
-  const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
-    functionName: "allowance",
-    args: address ? [address, tokenAddress as `0x${string}`] : undefined,
-    query: { enabled: !!address },
-  });
-
-  // Approve USDC
-  const {
-    writeContract: approveUsdc,
-    isPending: isApproving,
-    data: approveHash,
-    error: approveError,
-  } = useWriteContract();
-
-  const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess, error: approveReceiptError } = useWaitForTransactionReceipt({
-    hash: approveHash,
-  });
-
-  // Mint token
-  const {
-    writeContract: mint,
-    isPending: isMinting,
-    data: mintHash,
-    error: mintError,
-  } = useWriteContract();
-
-  const { isLoading: isMintConfirming, isSuccess: isMintSuccess, error: mintReceiptError } = useWaitForTransactionReceipt({
-    hash: mintHash,
-  });
-
-  // Redeem token
-  const {
-    writeContract: redeem,
-    isPending: isRedeeming,
-    data: redeemHash,
-    error: redeemError,
-  } = useWriteContract();
-
-  const { isLoading: isRedeemConfirming, isSuccess: isRedeemSuccess, error: redeemReceiptError } = useWaitForTransactionReceipt({
-    hash: redeemHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (approveError) {
-      toast.error(parseError(approveError), { duration: 5000 });
-    }
-  }, [approveError]);
-
-  useEffect(() => {
-    if (approveReceiptError) {
-      toast.error(parseError(approveReceiptError), { duration: 5000 });
-    }
-  }, [approveReceiptError]);
-
-  useEffect(() => {
-    if (mintError) {
-      toast.error(parseError(mintError), { duration: 5000 });
-    }
-  }, [mintError]);
-
-  useEffect(() => {
-    if (mintReceiptError) {
-      toast.error(parseError(mintReceiptError), { duration: 5000 });
-    }
-  }, [mintReceiptError]);
-
-  useEffect(() => {
-    if (redeemError) {
-      toast.error(parseError(redeemError), { duration: 5000 });
-    }
-  }, [redeemError]);
-
-  useEffect(() => {
-    if (redeemReceiptError) {
-      toast.error(parseError(redeemReceiptError), { duration: 5000 });
-    }
-  }, [redeemReceiptError]);
-
-  // Handle success
-  useEffect(() => {
-    if (isApproveSuccess) {
-      toast.success("Approval confirmed!");
-      refetchAllowance();
-    }
-  }, [isApproveSuccess, refetchAllowance]);
-
-  useEffect(() => {
-    if (isMintSuccess) {
-      toast.success("Mint confirmed!");
-      setAmount("");
-    }
-  }, [isMintSuccess]);
-
-  useEffect(() => {
-    if (isRedeemSuccess) {
-      toast.success("Redeem confirmed!");
-      setAmount("");
-    }
-  }, [isRedeemSuccess]);
+  const approveTx = useTransaction();
+  const mintTx = useTransaction();
+  const redeemTx = useTransaction();
 
   // USDC has 6 decimals, tokens have 18 decimals
-  const parsedAmount =
-    activeTab === "mint"
-      ? amount
-        ? parseUnits(amount, 6)
-        : BigInt(0)
-      : amount
-        ? parseUnits(amount, 18)
-        : BigInt(0);
-
-  const needsApproval =
-    activeTab === "mint" &&
-    usdcAllowance !== undefined &&
-    parsedAmount > (usdcAllowance as bigint);
-
-  // Calculate expected tokens from mint
-  // Contract: shares = (stableAmount * PRECISION) / currentNav
-  // stableAmount is in 6 decimals (USDC), nav is in 6 decimals, PRECISION is 1e18
-  const expectedTokens =
-    activeTab === "mint" && amount && currentNAV && Number(currentNAV) > 0
-      ? (parseFloat(amount) * 1e6 * 1e18) / Number(currentNAV) / 1e18
-      : 0;
-
-  // Calculate expected USDC from redeem
-  // Contract: valueInCollateral = (shares * currentNav) / PRECISION
-  const expectedUSDC =
-    activeTab === "redeem" && amount && currentNAV
-      ? (parseFloat(amount) * Number(currentNAV)) / 1e6
-      : 0;
+  const parsedAmount: bigint = parseAmount(amount, activeTab === "mint" ? UNITS.USDC6 : UNITS.WAD18) ?? BigInt(0);
+  // Non-zero input that only rounds to zero at USDC precision
+  const belowUsdcPrecision =
+    activeTab === "mint" && parsedAmount === BigInt(0) && (parseAmount(amount, UNITS.WAD18) ?? BigInt(0)) > BigInt(0);
+
+  // Permit, Permit2 or approve - only mints pull USDC
+  const approval = useDepositApproval(
+    contracts.USDC,
+    tokenAddress,
+    activeTab === "mint" ? parsedAmount : BigInt(0),
+    "mint"
+  );
+  const needsApproval = approval.method === "approve" || approval.method === "permit2-approve";
+  const approveCall = approval.approveCall;
+  // Batched approvals send approve + mint together, so the approve is what can be dry-run
+  const approvesFirst = needsApproval || (activeTab === "mint" && approval.method === "batch");
+
+  const quote = useMintRedeemPreview(type, activeTab, parsedAmount);
+  const { preview } = quote;
+  const formatPrice = (price: bigint) =>
+    `$${formatAmount(price, quote.oracleDecimals ?? UNITS.PRICE8.decimals, { maxDecimals: 2, minDecimals: 2 })}`;
+
+  const token = { address: tokenAddress as `0x${string}`, abi: tokenAbi, chainId } as const;
+
+  const mintCall = {
+    ...token,
+    functionName: "mint",
+    args: [parsedAmount],
+  } as const;
+
+  const redeemCall = {
+    ...token,
+    functionName: "redeem",
+    args: [parsedAmount],
+  } as const;
+
+  // Dry-run whichever action the button below will send; a signed mint can't run before it's signed
+  const preflight = useSimulation(
+    !address || parsedAmount === BigInt(0) || (activeTab === "mint" && isSignatureMethod(approval.method))
+      ? undefined
+      : approvesFirst
+        ? approveCall
+        : activeTab === "mint"
+          ? mintCall
+          : redeemCall
+  );
 
   const handleApprove = () => {
-    approveUsdc({
-      address: CONTRACTS.USDC as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
-      functionName: "approve",
-      args: [tokenAddress as `0x${string}`, parsedAmount],
+    approveTx.send(approveCall, {
+      label: approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC",
+      successMessage: "Approval confirmed!",
     });
   };
 
-  const handleMint = () => {
+  const handleMint = async () => {
     if (!address || !parsedAmount) return;
-
-    mint({
-      address: tokenAddress as `0x${string}`,
-      abi: parseAbi(tokenAbi),
-      functionName: "mint",
-      args: [parsedAmount],
-    });
+    const options = { label: `Mint ${tokenSymbol}`, successMessage: "Mint confirmed!", onConfirmed: () => setAmount("") };
+
+    if (approval.method === "batch") {
+      mintTx.sendBatch(
+        [
+          { call: approveCall, label: "Approve USDC" },
+          { call: mintCall, label: `Mint ${tokenSymbol}` },
+        ],
+        options
+      );
+      return;
+    }
+    if (!isSignatureMethod(approval.method)) {
+      mintTx.send(mintCall, options);
+      return;
+    }
+    const signed = await approval.authorize();
+    const signedOptions = { ...options, onFailed: approval.fallBackOnFailure };
+    if (signed?.method === "permit") {
+      const { deadline, v, r, s } = signed;
+      mintTx.send({ ...token, functionName: "mintWithPermit", args: [parsedAmount, deadline, v, r, s] }, signedOptions);
+    } else if (signed?.method === "permit2") {
+      mintTx.send(
+        { ...token, functionName: "mintWithPermit2", args: [parsedAmount, signed.permit, signed.signature] },
+        signedOptions
+      );
+    }
   };
 
   const handleRedeem = () => {
     if (!address || !parsedAmount) return;
 
-    redeem({
-      address: tokenAddress as `0x${string}`,
-      abi: parseAbi(tokenAbi),
-      functionName: "redeem",
-      args: [parsedAmount],
+    redeemTx.send(redeemCall, {
+      label: `Redeem ${tokenSymbol}`,
+      successMessage: "Redeem confirmed!",
+      onConfirmed: () => setAmount(""),
     });
   };
 
   const handleMaxClick = () => {
     if (activeTab === "mint" && usdcBalance) {
-      setAmount(formatUnits(usdcBalance as bigint, 6));
+      setAmount(formatUnits(usdcBalance, 6));
     } else if (activeTab === "redeem" && tokenBalance) {
       setAmount(formatUnits(tokenBalance, 18));
     }
   };
 
-  const isLoading =
-    isApproving ||
-    isApproveConfirming ||
-    isMinting ||
-    isMintConfirming ||
-    isRedeeming ||
-    isRedeemConfirming;
-
   // Direction label for exposure description
   const exposureDirection = type === "long" ? "long" : "short";
   const exposureColor = type === "long" ? "text-success" : "text-error";
@@ -280,7 +203,7 @@ export function MintRedeemCard({ type }: MintRedeemCardProps) {
         symbol={activeTab === "mint" ? "USDC" : tokenSymbol}
         balance={
           activeTab === "mint"
-            ? formatTokenAmount(usdcBalance as bigint | undefined, 6, 2)
+            ? formatTokenAmount(usdcBalance, 6, 2)
             : formatTokenAmount(tokenBalance)
         }
         onMax={handleMaxClick}
@@ -288,35 +211,95 @@ export function MintRedeemCard({ type }: MintRedeemCardProps) {
       />
 
       {/* Preview */}
-      {amount && parseFloat(amount) > 0 && parsedAmount > BigInt(0) && (
-        <div className="mt-4 rounded-lg bg-white/5 p-4">
-          <div className="flex justify-between text-sm">
+      {parsedAmount > BigInt(0) && preview && (
+        <div className="mt-4 space-y-2 rounded-lg bg-white/5 p-4 text-sm">
+          <div className="flex justify-between">
             <span className="text-foreground-muted">You will receive</span>
             <span className="text-right break-all">
               ~
               {activeTab === "mint"
-                ? `${formatSmallNumber(expectedTokens)} ${tokenSymbol}`
-                : `${formatSmallNumber(expectedUSDC)} USDC`}
+                ? `${formatTokenAmount(preview.received)} ${tokenSymbol}`
+                : `${formatTokenAmount(preview.received, quote.stableDecimals ?? UNITS.USDC6.decimals)} USDC`}
             </span>
           </div>
           {activeTab === "mint" && (
-            <div className="mt-2 flex justify-between text-sm">
+            <div className="flex justify-between">
               <span className="text-foreground-muted">2x {exposureDirection} exposure</span>
               <span className={`text-right break-all ${exposureColor}`}>
-                ${formatSmallNumber(parseFloat(amount) * 2)} worth of ETH
+                {formatUSD(applyBps(usdc6(parsedAmount), quote.leverageRatio ?? bps(20000)))} worth of ETH
+              </span>
+            </div>
+          )}
+          {preview.executionPrice !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">
+                Execution price{quote.source === "oracle" && " (oracle)"}
+              </span>
+              <span>{quote.isQuoting ? "Quoting..." : formatPrice(preview.executionPrice)}</span>
+            </div>
+          )}
+          {quote.oraclePrice !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Chainlink price</span>
+              <span>{formatPrice(quote.oraclePrice)}</span>
+            </div>
+          )}
+          {preview.priceImpactBps !== undefined && quote.source === "quoter" && (
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Price impact</span>
+              <span
+                className={
+                  preview.exceedsSlippage ? "text-error" : preview.priceImpactBps > BigInt(100) ? "text-warning" : ""
+                }
+              >
+                {formatBps(preview.priceImpactBps)}
               </span>
             </div>
           )}
+          {quote.poolFee !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-foreground-muted">Uniswap pool fee</span>
+              {/* Uniswap fees are in hundredths of a basis point */}
+              <span>{formatBps(bps(quote.poolFee / 100))}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Swap warnings */}
+      {parsedAmount > BigInt(0) && preview?.exceedsSlippage && quote.source === "quoter" && (
+        <div className="mt-4 rounded-lg bg-error/10 p-3 text-sm text-error">
+          Price impact of {formatBps(preview.priceImpactBps ?? bps(0))} exceeds the {tokenSymbol} slippage tolerance of{" "}
+          {formatBps(quote.slippageTolerance ?? BigInt(0))}, so the swap will revert. Try a smaller amount.
+        </div>
+      )}
+      {parsedAmount > BigInt(0) && quote.quoteError && (
+        <div className="mt-4 rounded-lg bg-warning/10 p-3 text-sm text-warning">
+          Couldn&apos;t quote the Uniswap swap ({quote.quoteError}). Amounts above use the oracle price.
+        </div>
+      )}
+      {parsedAmount > BigInt(0) && quote.testMode && (
+        <div className="mt-4 rounded-lg bg-white/5 p-3 text-sm text-foreground-muted">
+          Test mode: swaps settle at the oracle price, so there is no price impact.
         </div>
       )}
 
       {/* Minimum amount warning */}
-      {activeTab === "mint" && amount && parseFloat(amount) > 0 && parsedAmount === BigInt(0) && (
+      {belowUsdcPrecision && (
         <div className="mt-4 rounded-lg bg-warning/10 p-3 text-sm text-warning">
           USDC minimum: 0.000001 (6 decimals precision)
         </div>
       )}
 
+      {activeTab === "mint" && isConnected && parsedAmount > BigInt(0) && (
+        <ApprovalNotice
+          method={approval.method}
+          canUseSignature={approval.canUseSignature}
+          preferApprove={approval.preferApprove}
+          onPreferApproveChange={approval.setPreferApprove}
+        />
+      )}
+
       {/* Action Button */}
       <div className="mt-6">
         {!isConnected ? (
@@ -327,28 +310,31 @@ export function MintRedeemCard({ type }: MintRedeemCardProps) {
           needsApproval ? (
             <TransactionButton
               onClick={handleApprove}
-              isLoading={isApproving || isApproveConfirming}
+              isLoading={approveTx.isLoading}
               loadingText="Approving..."
-              disabled={!amount || parseFloat(amount) <= 0 || parsedAmount === BigInt(0)}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Approve USDC
+              {approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC"}
             </TransactionButton>
           ) : (
             <TransactionButton
               onClick={handleMint}
-              isLoading={isMinting || isMintConfirming}
-              loadingText="Minting..."
-              disabled={!amount || parseFloat(amount) <= 0 || parsedAmount === BigInt(0)}
+              isLoading={approval.isSigning || mintTx.isLoading}
+              loadingText={approval.isSigning ? "Sign in wallet..." : "Minting..."}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Mint {tokenSymbol}
+              {approval.method === "batch" ? "Approve & Mint" : "Mint"} {tokenSymbol}
             </TransactionButton>
           )
         ) : (
           <TransactionButton
             onClick={handleRedeem}
-            isLoading={isRedeeming || isRedeemConfirming}
+            isLoading={redeemTx.isLoading}
             loadingText="Redeeming..."
-            disabled={!amount || parseFloat(amount) <= 0 || parsedAmount === BigInt(0)}
+            error={preflight.error}
+            disabled={parsedAmount === BigInt(0)}
             variant="secondary"
           >
             Redeem
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  useNavHistory,
+  NAV_RANGES,
+  formatUSD,
+  type LeverageType,
+  type NavPoint,
+  type NavRange,
+} from "@/hooks";
+import { formatBps, ratioBps, toNumber, UNITS, type BPS } from "@/lib/amounts";
+
+interface NavChartProps {
+  type: LeverageType;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PAD = { top: 16, right: 56, bottom: 28, left: 56 };
+
+function extent(values: number[]): [number, number] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // Flat series still get some vertical room
+  const pad = (max - min) * 0.1 || Math.abs(max) * 0.05 || 1;
+  return [min - pad, max + pad];
+}
+
+function change(points: NavPoint[], key: "nav" | "price"): BPS | undefined {
+  const first = points[0]?.[key];
+  const last = points[points.length - 1]?.[key];
+  return first && last !== undefined ? ratioBps(last - first, first, "nearest") : undefined;
+}
+
+function formatChange(value: BPS | undefined) {
+  if (value === undefined) return "-";
+  return `${value > BigInt(0) ? "+" : ""}${formatBps(value)}`;
+}
+
+function changeColor(value: BPS | undefined) {
+  return value === undefined || value === BigInt(0) ? "" : value > BigInt(0) ? "text-success" : "text-error";
+}
+
+export function NavChart({ type }: NavChartProps) {
+  const [range, setRange] = useState<NavRange>("1W");
+  const [hover, setHover] = useState<number>();
+  const { points, rebalances, decay, isLoading, error } = useNavHistory(type, range);
+
+  const tokenSymbol = type === "long" ? "ETH2X" : "ETH-2X";
+  const hasData = points.length > 1;
+
+  const t0 = points[0]?.timestamp ?? 0;
+  const t1 = points[points.length - 1]?.timestamp ?? 1;
+  const markers = rebalances.filter((r) => r.timestamp >= t0 && r.timestamp <= t1);
+  // Chart coordinates only; labels format the exact values
+  const usd = (value: bigint) => toNumber(value, UNITS.USDC6.decimals);
+  const plotted = points.map((p) => ({
+    timestamp: p.timestamp,
+    nav: usd(p.nav),
+    ideal: usd(p.ideal),
+    price: toNumber(p.price, UNITS.PRICE8.decimals),
+  }));
+  const [navMin, navMax] = hasData
+    ? extent([...plotted.flatMap((p) => [p.nav, p.ideal]), ...markers.map((m) => usd(m.newNav))])
+    : [0, 1];
+  const [priceMin, priceMax] = hasData ? extent(plotted.map((p) => p.price)) : [0, 1];
+
+  const x = (timestamp: number) =>
+    PAD.left + ((timestamp - t0) / Math.max(t1 - t0, 1)) * (WIDTH - PAD.left - PAD.right);
+  const yNav = (value: number) =>
+    PAD.top + (1 - (value - navMin) / (navMax - navMin)) * (HEIGHT - PAD.top - PAD.bottom);
+  const yPrice = (value: number) =>
+    PAD.top + (1 - (value - priceMin) / (priceMax - priceMin)) * (HEIGHT - PAD.top - PAD.bottom);
+  const path = (key: "nav" | "ideal" | "price") =>
+    plotted
+      .map((p, i) => `${i ? "L" : "M"}${x(p.timestamp).toFixed(1)},${(key === "price" ? yPrice(p.price) : yNav(p[key])).toFixed(1)}`)
+      .join(" ");
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleString(undefined, range === "1D" ? { hour: "2-digit", minute: "2-digit" } : { month: "short", day: "numeric" });
+
+  // Nearest sample to the pointer
+  const onMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    let nearest = 0;
+    points.forEach((p, i) => {
+      if (Math.abs(x(p.timestamp) - svgX) < Math.abs(x(points[nearest].timestamp) - svgX)) nearest = i;
+    });
+    setHover(nearest);
+  };
+
+  const active = hover !== undefined ? points[hover] : points[points.length - 1];
+  const navChange = change(points, "nav");
+  const priceChange = change(points, "price");
+
+  return (
+    <div className="glass-card p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-4 text-xs">
+          <span className="flex items-center gap-1.5">
+            <span className="h-0.5 w-4 bg-accent-purple" />
+            {tokenSymbol} NAV
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-0.5 w-4 border-t border-dashed border-accent-cyan" />
+            Ideal 2x
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-0.5 w-4 bg-accent-blue/60" />
+            ETH Price
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-3 w-0 border-l border-dotted border-warning" />
+            Rebalance
+          </span>
+        </div>
+        <div className="inline-flex rounded-lg bg-white/5 p-0.5">
+          {(Object.keys(NAV_RANGES) as NavRange[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => {
+                setRange(key);
+                setHover(undefined);
+              }}
+              className={`rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                range === key ? "bg-accent-purple text-white" : "text-foreground-muted hover:text-white"
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-accent-purple" />
+        </div>
+      ) : !hasData ? (
+        <div className="flex h-64 items-center justify-center text-center text-sm text-foreground-muted">
+          {error ? `Could not load NAV history: ${error.message}` : "Not enough history for this range"}
+        </div>
+      ) : (
+        <>
+          {active && (
+            <div className="mb-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-foreground-muted">
+              <span>{new Date(active.timestamp * 1000).toLocaleString()}</span>
+              <span>
+                NAV <span className="text-white">{formatUSD(active.nav)}</span>
+              </span>
+              <span>
+                Ideal <span className="text-white">{formatUSD(active.ideal)}</span>
+              </span>
+              <span>
+                ETH <span className="text-white">{formatUSD(active.price, UNITS.PRICE8)}</span>
+              </span>
+            </div>
+          )}
+
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="h-auto w-full"
+            onMouseMove={onMove}
+            onMouseLeave={() => setHover(undefined)}
+          >
+            {/* Grid and axis labels */}
+            {[0, 0.5, 1].map((f) => {
+              const y = PAD.top + f * (HEIGHT - PAD.top - PAD.bottom);
+              return (
+                <g key={f}>
+                  <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y} y2={y} stroke="rgba(255,255,255,0.06)" />
+                  <text x={PAD.left - 6} y={y + 3} textAnchor="end" fontSize="10" fill="var(--foreground-muted)">
+                    {(navMax - f * (navMax - navMin)).toFixed(3)}
+                  </text>
+                  <text x={WIDTH - PAD.right + 6} y={y + 3} fontSize="10" fill="var(--foreground-muted)">
+                    {Math.round(priceMax - f * (priceMax - priceMin)).toLocaleString()}
+                  </text>
+                </g>
+              );
+            })}
+            <text x={PAD.left} y={HEIGHT - 8} fontSize="10" fill="var(--foreground-muted)">
+              {formatTime(t0)}
+            </text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" fontSize="10" fill="var(--foreground-muted)">
+              {formatTime(t1)}
+            </text>
+
+            {/* Rebalance markers */}
+            {markers.map((marker) => (
+              <g key={marker.timestamp}>
+                <line
+                  x1={x(marker.timestamp)}
+                  x2={x(marker.timestamp)}
+                  y1={PAD.top}
+                  y2={HEIGHT - PAD.bottom}
+                  stroke="var(--warning)"
+                  strokeOpacity="0.5"
+                  strokeDasharray="2 3"
+                />
+                <circle cx={x(marker.timestamp)} cy={yNav(usd(marker.newNav))} r="3" fill="var(--warning)">
+                  <title>
+                    Rebalanced {new Date(marker.timestamp * 1000).toLocaleString()}: {formatUSD(marker.oldNav)} →{" "}
+                    {formatUSD(marker.newNav)}
+                  </title>
+                </circle>
+              </g>
+            ))}
+
+            <path d={path("price")} fill="none" stroke="var(--accent-blue)" strokeOpacity="0.6" strokeWidth="1.5" />
+            <path d={path("ideal")} fill="none" stroke="var(--accent-cyan)" strokeWidth="1.5" strokeDasharray="5 4" />
+            <path d={path("nav")} fill="none" stroke="var(--accent-purple)" strokeWidth="2" />
+
+            {hover !== undefined && active && (
+              <g>
+                <line
+                  x1={x(active.timestamp)}
+                  x2={x(active.timestamp)}
+                  y1={PAD.top}
+                  y2={HEIGHT - PAD.bottom}
+                  stroke="rgba(255,255,255,0.2)"
+                />
+                <circle cx={x(active.timestamp)} cy={yNav(usd(active.nav))} r="3.5" fill="var(--accent-purple)" />
+              </g>
+            )}
+          </svg>
+
+          <div className="mt-4 grid grid-cols-3 gap-4 border-t border-white/10 pt-4 text-sm">
+            <div>
+              <p className="text-foreground-muted">NAV Change</p>
+              <p className={`font-medium ${changeColor(navChange)}`}>{formatChange(navChange)}</p>
+            </div>
+            <div>
+              <p className="text-foreground-muted">ETH Change</p>
+              <p className={`font-medium ${changeColor(priceChange)}`}>{formatChange(priceChange)}</p>
+            </div>
+            <div>
+              <p className="text-foreground-muted">Decay vs. Ideal 2x</p>
+              <p className={`font-medium ${changeColor(decay)}`}>{formatChange(decay)}</p>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-foreground-muted">
+            Ideal 2x holds {type === "long" ? "2x" : "-2x"} the ETH move from the start of the window without
+            rebalancing; the gap is the path dependence of {markers.length} rebalance
+            {markers.length === 1 ? "" : "s"} in range.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
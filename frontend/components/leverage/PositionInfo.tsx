@@ -1,15 +1,32 @@
 "use client";
 
+import { useState } from "react";
 import { useAccount } from "wagmi";
 import {
   useLeveragedTokenUserPosition,
   useLeveragedTokenStats,
+  useLeveragedTokenPnl,
   useETHPrice,
   formatTokenAmount,
   formatUSD,
+  formatPercent,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
   type LeverageType,
 } from "@/hooks";
-import { TrendingUp, TrendingDown } from "lucide-react";
+import { applyBps, bps, quantityAt, rescale, UNITS, usdc6, valueAt, type USDC6 } from "@/lib/amounts";
+import { TrendingUp, TrendingDown, Loader2 } from "lucide-react";
+
+// Signed USDC amount with a matching color
+function PnlValue({ value, className = "" }: { value: USDC6; className?: string }) {
+  const color = value > BigInt(0) ? "text-success" : value < BigInt(0) ? "text-error" : "";
+  return (
+    <span className={`${color} ${className}`}>
+      {value > BigInt(0) ? "+" : ""}
+      {formatUSD(value)}
+    </span>
+  );
+}
 
 interface PositionInfoProps {
   type: LeverageType;
@@ -18,8 +35,10 @@ interface PositionInfoProps {
 export function PositionInfo({ type }: PositionInfoProps) {
   const { isConnected } = useAccount();
   const { balance, tokenSymbol } = useLeveragedTokenUserPosition(type);
-  const { currentNAV } = useLeveragedTokenStats(type);
+  const { currentNAV, leverageRatio } = useLeveragedTokenStats(type);
   const { price: ethPrice } = useETHPrice();
+  const [method, setMethod] = useState<CostBasisMethod>("fifo");
+  const { report, isLoading: pnlLoading } = useLeveragedTokenPnl(type, method);
 
   const isLong = type === "long";
   const directionLabel = isLong ? "Long" : "Short";
@@ -39,18 +58,16 @@ export function PositionInfo({ type }: PositionInfoProps) {
 
   const hasPosition = balance && balance > BigInt(0);
 
-  // Calculate position value in USDC
-  // NAV is stored in 6 decimals (USDC), balance is 18 decimals
-  const positionValue =
-    balance && currentNAV
-      ? (Number(balance) * Number(currentNAV)) / 1e24
-      : 0;
+  // Shares (18 decimals) at NAV (USDC per share)
+  const positionValue = balance && currentNAV ? valueAt(balance, 18, currentNAV) : usdc6(BigInt(0));
 
-  // Calculate leverage exposure in USD
-  const leverageExposure = positionValue * 2;
+  // Leverage exposure in USD
+  const leverageExposure = applyBps(positionValue, leverageRatio ?? bps(20000));
 
-  // Calculate ETH exposure
-  const ethExposure = ethPrice ? leverageExposure / ethPrice : 0;
+  // ETH exposure, in wei
+  const ethExposure = ethPrice
+    ? quantityAt(rescale(leverageExposure, UNITS.USDC6, UNITS.PRICE8), ethPrice, 18)
+    : BigInt(0);
 
   return (
     <div className="glass-card p-6">
@@ -83,6 +100,79 @@ export function PositionInfo({ type }: PositionInfoProps) {
             <span className="font-medium">{formatUSD(positionValue)}</span>
           </div>
 
+          {/* Cost Basis & PnL */}
+          <div className="space-y-3 rounded-lg bg-white/5 p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Profit &amp; Loss</span>
+              <div className="inline-flex rounded-lg bg-white/5 p-0.5">
+                {(Object.keys(COST_BASIS_METHODS) as CostBasisMethod[]).map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => setMethod(key)}
+                    className={`rounded-md px-2 py-1 text-xs font-medium transition-all ${
+                      method === key ? "bg-accent-purple text-white" : "text-foreground-muted hover:text-white"
+                    }`}
+                  >
+                    {COST_BASIS_METHODS[key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {pnlLoading ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-4 w-4 animate-spin text-accent-purple" />
+              </div>
+            ) : !report ? (
+              <p className="text-sm text-foreground-muted">Trade history unavailable</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground-muted">Cost Basis</span>
+                  <span>{formatUSD(report.costBasis)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground-muted">Unrealized PnL</span>
+                  <PnlValue value={report.unrealized} />
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground-muted">Realized PnL</span>
+                  <PnlValue value={report.realized} />
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground-muted">Redeem Fees &amp; Slippage</span>
+                  <span>{formatUSD(report.fees)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground-muted">Total Return</span>
+                  <span
+                    className={`font-medium ${
+                      (report.returnBps ?? BigInt(0)) > BigInt(0)
+                        ? "text-success"
+                        : (report.returnBps ?? BigInt(0)) < BigInt(0)
+                          ? "text-error"
+                          : ""
+                    }`}
+                  >
+                    {report.returnBps === undefined ? "-" : formatPercent(report.returnBps)}
+                  </span>
+                </div>
+                {report.untrackedShares > BigInt(0) && (
+                  <p className="text-xs text-foreground-muted">
+                    {formatTokenAmount(report.untrackedShares)} {tokenSymbol} received by transfer have no cost basis and are
+                    left out.
+                  </p>
+                )}
+                {report.untrackedRedeemed > BigInt(0) && (
+                  <p className="text-xs text-foreground-muted">
+                    {formatTokenAmount(report.untrackedRedeemed)} {tokenSymbol} redeemed without a matching mint returned{" "}
+                    {formatUSD(report.untrackedProceeds)} and are left out of realized PnL.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
           {/* Divider */}
           <div className="border-t border-white/10" />
 
@@ -98,7 +188,7 @@ export function PositionInfo({ type }: PositionInfoProps) {
             </div>
             <div className="mt-2 flex items-center justify-between text-sm">
               <span className="text-foreground-muted">ETH Equivalent</span>
-              <span>{ethExposure.toFixed(4)} ETH</span>
+              <span>{formatTokenAmount(ethExposure)} ETH</span>
             </div>
           </div>
 
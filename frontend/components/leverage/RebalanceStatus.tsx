@@ -2,6 +2,14 @@
 
 import { CheckCircle, AlertTriangle, Clock } from "lucide-react";
 import { useLeveragedTokenStats, type LeverageType } from "@/hooks";
+import { bps, formatAmount, formatBps, maxAmount, minAmount, UNITS } from "@/lib/amounts";
+
+// Leverage ratios in basis points, 20000 = 2x
+const TARGET_LEVERAGE = bps(20000);
+const WARN_DRIFT = BigInt(1000);
+const MAX_DRIFT = BigInt(2000);
+// The range bar spans 1.5x to 2.5x
+const BAR_START = BigInt(15000);
 
 interface RebalanceStatusProps {
   type: LeverageType;
@@ -38,12 +46,12 @@ export function RebalanceStatus({ type }: RebalanceStatusProps) {
   const rebalanceIntervalSeconds = 72000;
   const nextRebalanceIn = rebalanceIntervalSeconds - timeSinceRebalance;
 
-  // Calculate actual leverage ratio (stored in basis points, 20000 = 2x)
-  const currentLeverage = leverageRatio
-    ? (Number(leverageRatio) / 10000).toFixed(2)
-    : "2.00";
+  const leverage = leverageRatio ?? TARGET_LEVERAGE;
+  const currentLeverage = formatAmount(leverage, UNITS.BPS.decimals, { maxDecimals: 2, minDecimals: 2 });
+  const drift = leverage > TARGET_LEVERAGE ? leverage - TARGET_LEVERAGE : TARGET_LEVERAGE - leverage;
+  const barPosition = bps(minAmount(maxAmount(leverage - BAR_START, BigInt(0)), BigInt(10000)));
 
-  const isHealthy = !needsRebalance && Math.abs(Number(currentLeverage) - 2) < 0.2;
+  const isHealthy = !needsRebalance && drift < MAX_DRIFT;
 
   if (isLoading) {
     return (
@@ -91,9 +99,9 @@ export function RebalanceStatus({ type }: RebalanceStatusProps) {
             <span className="text-foreground-muted">Current Leverage</span>
             <span
               className={`font-medium ${
-                Math.abs(Number(currentLeverage) - 2) < 0.1
+                drift < WARN_DRIFT
                   ? "text-success"
-                  : Math.abs(Number(currentLeverage) - 2) < 0.2
+                  : drift < MAX_DRIFT
                     ? "text-warning"
                     : "text-error"
               }`}
@@ -137,7 +145,7 @@ export function RebalanceStatus({ type }: RebalanceStatusProps) {
             <div
               className="absolute top-1/2 h-3 w-3 -translate-y-1/2 rounded-full border-2 border-white bg-bg-card"
               style={{
-                left: `${Math.min(Math.max(((Number(currentLeverage) - 1.5) / 1) * 100, 0), 100)}%`,
+                left: formatBps(barPosition),
               }}
             />
           </div>
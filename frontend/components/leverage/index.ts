@@ -1,3 +1,4 @@
 export { MintRedeemCard } from "./MintRedeemCard";
 export { PositionInfo } from "./PositionInfo";
 export { RebalanceStatus } from "./RebalanceStatus";
+export { NavChart } from "./NavChart";
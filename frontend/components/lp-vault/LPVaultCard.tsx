@@ -1,179 +1,148 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
-import { parseUnits, formatUnits, parseAbi } from "viem";
-import toast from "react-hot-toast";
+import { useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { formatUnits } from "viem";
 import { TokenInput } from "@/components/shared/TokenInput";
 import { TransactionButton } from "@/components/shared/TransactionButton";
-import { CONTRACTS } from "@/lib/contracts";
+import { ApprovalNotice } from "@/components/shared/ApprovalNotice";
 import { LP_VAULT_ABI, ERC20_ABI } from "@/lib/abis";
-import { useLPVaultUserPosition, formatTokenAmount, parseError } from "@/hooks";
+import {
+  useLPVaultUserPosition,
+  formatTokenAmount,
+  useDeployment,
+  useTransaction,
+  useSimulation,
+  useDepositApproval,
+} from "@/hooks";
+import { parseAmount, quantityAt, UNITS, usdc6 } from "@/lib/amounts";
+import { isSignatureMethod } from "@/lib/permits";
 
 type Tab = "deposit" | "withdraw";
 
 export function LPVaultCard() {
+  const { chainId, contracts } = useDeployment();
   const [activeTab, setActiveTab] = useState<Tab>("deposit");
   const [amount, setAmount] = useState("");
 
   const { address, isConnected } = useAccount();
-  const { shares, assetsValue, vaultAddress } = useLPVaultUserPosition("long");
+  const { shares, sharePrice, assetsValue, vaultAddress } = useLPVaultUserPosition("long");
 
   // USDC balance (6 decimals)
-  const { data: usdcBalance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
+  const usdcBalanceRead = useReadContract({
+    address: contracts.USDC as `0x${string}`,
+    abi: ERC20_ABI,
+    chainId,
     functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
-
-  // USDC allowance for LP Vault
-  const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.USDC as `0x${string}`,
-    abi: parseAbi(ERC20_ABI),
-    functionName: "allowance",
-    args: address ? [address, CONTRACTS.LP_VAULT_LONG as `0x${string}`] : undefined,
-    query: { enabled: !!address },
-  });
-
-  // Approve USDC
-  const {
-    writeContract: approveUsdc,
-    isPending: isApproving,
-    data: approveHash,
-    error: approveError,
-  } = useWriteContract();
-
-  const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess, error: approveReceiptError } = useWaitForTransactionReceipt({
-    hash: approveHash,
-  });
-
-  // Deposit
-  const {
-    writeContract: deposit,
-    isPending: isDepositing,
-    data: depositHash,
-    error: depositError,
-  } = useWriteContract();
-
-  const { isLoading: isDepositConfirming, isSuccess: isDepositSuccess, error: depositReceiptError } = useWaitForTransactionReceipt({
-    hash: depositHash,
-  });
-
-  // Withdraw
-  const {
-    writeContract: withdraw,
-    isPending: isWithdrawing,
-    data: withdrawHash,
-    error: withdrawError,
-  } = useWriteContract();
-
-  const { isLoading: isWithdrawConfirming, isSuccess: isWithdrawSuccess, error: withdrawReceiptError } = useWaitForTransactionReceipt({
-    hash: withdrawHash,
-  });
-
-  // Handle errors
-  useEffect(() => {
-    if (approveError) toast.error(parseError(approveError), { duration: 5000 });
-  }, [approveError]);
-
-  useEffect(() => {
-    if (approveReceiptError) toast.error(parseError(approveReceiptError), { duration: 5000 });
-  }, [approveReceiptError]);
-
-  useEffect(() => {
-    if (depositError) toast.error(parseError(depositError), { duration: 5000 });
-  }, [depositError]);
-
-  useEffect(() => {
-    if (depositReceiptError) toast.error(parseError(depositReceiptError), { duration: 5000 });
-  }, [depositReceiptError]);
-
-  useEffect(() => {
-    if (withdrawError) toast.error(parseError(withdrawError), { duration: 5000 });
-  }, [withdrawError]);
-
-  useEffect(() => {
-    if (withdrawReceiptError) toast.error(parseError(withdrawReceiptError), { duration: 5000 });
-  }, [withdrawReceiptError]);
-
-  // Handle success
-  useEffect(() => {
-    if (isApproveSuccess) {
-      toast.success("Approval confirmed!");
-      refetchAllowance();
-    }
-  }, [isApproveSuccess, refetchAllowance]);
-
-  useEffect(() => {
-    if (isDepositSuccess) {
-      toast.success("Deposit confirmed!");
-      setAmount("");
-    }
-  }, [isDepositSuccess]);
-
-  useEffect(() => {
-    if (isWithdrawSuccess) {
-      toast.success("Withdrawal confirmed!");
-      setAmount("");
-    }
-  }, [isWithdrawSuccess]);
-
-  // USDC has 6 decimals
-  const parsedAmount = amount ? parseUnits(amount, 6) : BigInt(0);
-  const needsApproval =
-    activeTab === "deposit" &&
-    usdcAllowance !== undefined &&
-    parsedAmount > (usdcAllowance as bigint);
+  const usdcBalance = usdcBalanceRead.status === "success" ? usdcBalanceRead.data : undefined;
+
+  const approveTx = useTransaction();
+  const depositTx = useTransaction();
+  const withdrawTx = useTransaction();
+
+  // USDC has 6 decimals; withdrawals are sized in assets too
+  const parsedAmount = parseAmount(amount, UNITS.USDC6) ?? usdc6(BigInt(0));
+  const expectedShares =
+    activeTab === "deposit" && sharePrice ? quantityAt(parsedAmount, sharePrice, UNITS.USDC6.decimals) : undefined;
+  // Permit, Permit2 or approve - only deposits pull USDC
+  const approval = useDepositApproval(
+    contracts.USDC,
+    contracts.LP_VAULT_LONG,
+    activeTab === "deposit" ? parsedAmount : BigInt(0),
+    "deposit"
+  );
+  const needsApproval = approval.method === "approve" || approval.method === "permit2-approve";
+  const approveCall = approval.approveCall;
+  // Batched approvals send approve + deposit together, so the approve is what can be dry-run
+  const approvesFirst = needsApproval || (activeTab === "deposit" && approval.method === "batch");
+
+  const vault = { address: contracts.LP_VAULT_LONG as `0x${string}`, abi: LP_VAULT_ABI, chainId } as const;
+
+  const depositCall = {
+    ...vault,
+    functionName: "deposit",
+    args: [parsedAmount, address as `0x${string}`],
+  } as const;
+
+  const withdrawCall = {
+    ...vault,
+    functionName: "withdraw",
+    args: [parsedAmount, address as `0x${string}`, address as `0x${string}`],
+  } as const;
+
+  // Dry-run whichever action the button below will send; a signed deposit can't run before it's signed
+  const preflight = useSimulation(
+    !address || parsedAmount === BigInt(0) || (activeTab === "deposit" && isSignatureMethod(approval.method))
+      ? undefined
+      : approvesFirst
+        ? approveCall
+        : activeTab === "deposit"
+          ? depositCall
+          : withdrawCall
+  );
 
   const handleApprove = () => {
-    approveUsdc({
-      address: CONTRACTS.USDC as `0x${string}`,
-      abi: parseAbi(ERC20_ABI),
-      functionName: "approve",
-      args: [CONTRACTS.LP_VAULT_LONG as `0x${string}`, parsedAmount],
+    approveTx.send(approveCall, {
+      label: approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC",
+      successMessage: "Approval confirmed!",
     });
   };
 
-  const handleDeposit = () => {
+  const handleDeposit = async () => {
     if (!address || !parsedAmount) return;
-
-    deposit({
-      address: CONTRACTS.LP_VAULT_LONG as `0x${string}`,
-      abi: parseAbi(LP_VAULT_ABI),
-      functionName: "deposit",
-      args: [parsedAmount, address],
-    });
+    const options = { label: "Deposit USDC", successMessage: "Deposit confirmed!", onConfirmed: () => setAmount("") };
+
+    if (approval.method === "batch") {
+      depositTx.sendBatch(
+        [
+          { call: approveCall, label: "Approve USDC" },
+          { call: depositCall, label: "Deposit USDC" },
+        ],
+        options
+      );
+      return;
+    }
+    if (!isSignatureMethod(approval.method)) {
+      depositTx.send(depositCall, options);
+      return;
+    }
+    const signed = await approval.authorize();
+    const signedOptions = { ...options, onFailed: approval.fallBackOnFailure };
+    if (signed?.method === "permit") {
+      const { deadline, v, r, s } = signed;
+      depositTx.send(
+        { ...vault, functionName: "depositWithPermit", args: [parsedAmount, address, deadline, v, r, s] },
+        signedOptions
+      );
+    } else if (signed?.method === "permit2") {
+      depositTx.send(
+        { ...vault, functionName: "depositWithPermit2", args: [parsedAmount, address, signed.permit, signed.signature] },
+        signedOptions
+      );
+    }
   };
 
   const handleWithdraw = () => {
     if (!address || !parsedAmount) return;
 
-    withdraw({
-      address: CONTRACTS.LP_VAULT_LONG as `0x${string}`,
-      abi: parseAbi(LP_VAULT_ABI),
-      functionName: "withdraw",
-      args: [parsedAmount, address, address],
+    withdrawTx.send(withdrawCall, {
+      label: "Withdraw USDC",
+      successMessage: "Withdrawal confirmed!",
+      onConfirmed: () => setAmount(""),
     });
   };
 
   const handleMaxClick = () => {
     if (activeTab === "deposit" && usdcBalance) {
-      setAmount(formatUnits(usdcBalance as bigint, 6));
+      setAmount(formatUnits(usdcBalance, 6));
     } else if (activeTab === "withdraw" && assetsValue) {
       setAmount(formatUnits(assetsValue, 6));
     }
   };
 
-  const isLoading =
-    isApproving ||
-    isApproveConfirming ||
-    isDepositing ||
-    isDepositConfirming ||
-    isWithdrawing ||
-    isWithdrawConfirming;
-
   return (
     <div className="glass-card p-6">
       {/* Tabs */}
@@ -213,7 +182,7 @@ export function LPVaultCard() {
         symbol="USDC"
         balance={
           activeTab === "deposit"
-            ? formatTokenAmount(usdcBalance as bigint | undefined, 6, 2)
+            ? formatTokenAmount(usdcBalance, 6, 2)
             : formatTokenAmount(assetsValue, 6, 2)
         }
         onMax={handleMaxClick}
@@ -221,15 +190,29 @@ export function LPVaultCard() {
       />
 
       {/* Preview */}
-      {amount && parseFloat(amount) > 0 && (
+      {parsedAmount > BigInt(0) && (
         <div className="mt-4 rounded-lg bg-white/5 p-4">
           <div className="flex justify-between text-sm">
             <span className="text-foreground-muted">You will receive</span>
-            <span>~{amount} {activeTab === "deposit" ? "lpUSDC" : "USDC"}</span>
+            <span>
+              ~
+              {activeTab === "deposit"
+                ? `${formatTokenAmount(expectedShares ?? parsedAmount, UNITS.USDC6.decimals)} lpUSDC-L`
+                : `${formatTokenAmount(parsedAmount, UNITS.USDC6.decimals, 2)} USDC`}
+            </span>
           </div>
         </div>
       )}
 
+      {activeTab === "deposit" && isConnected && parsedAmount > BigInt(0) && (
+        <ApprovalNotice
+          method={approval.method}
+          canUseSignature={approval.canUseSignature}
+          preferApprove={approval.preferApprove}
+          onPreferApproveChange={approval.setPreferApprove}
+        />
+      )}
+
       {/* Action Button */}
       <div className="mt-6">
         {!isConnected ? (
@@ -240,28 +223,31 @@ export function LPVaultCard() {
           needsApproval ? (
             <TransactionButton
               onClick={handleApprove}
-              isLoading={isApproving || isApproveConfirming}
+              isLoading={approveTx.isLoading}
               loadingText="Approving..."
-              disabled={!amount || parseFloat(amount) <= 0}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Approve USDC
+              {approval.method === "permit2-approve" ? "Approve USDC for Permit2" : "Approve USDC"}
             </TransactionButton>
           ) : (
             <TransactionButton
               onClick={handleDeposit}
-              isLoading={isDepositing || isDepositConfirming}
-              loadingText="Depositing..."
-              disabled={!amount || parseFloat(amount) <= 0}
+              isLoading={approval.isSigning || depositTx.isLoading}
+              loadingText={approval.isSigning ? "Sign in wallet..." : "Depositing..."}
+              error={preflight.error}
+              disabled={parsedAmount === BigInt(0)}
             >
-              Deposit USDC
+              {approval.method === "batch" ? "Approve & Deposit USDC" : "Deposit USDC"}
             </TransactionButton>
           )
         ) : (
           <TransactionButton
             onClick={handleWithdraw}
-            isLoading={isWithdrawing || isWithdrawConfirming}
+            isLoading={withdrawTx.isLoading}
             loadingText="Withdrawing..."
-            disabled={!amount || parseFloat(amount) <= 0}
+            error={preflight.error}
+            disabled={parsedAmount === BigInt(0)}
             variant="secondary"
           >
             Withdraw USDC
@@ -278,7 +264,7 @@ export function LPVaultCard() {
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-foreground-muted">Shares</span>
-              <span>{formatTokenAmount(shares, 6, 2)} lpUSDC</span>
+              <span>{formatTokenAmount(shares, 6, 2)} lpUSDC-L</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-foreground-muted">Value</span>
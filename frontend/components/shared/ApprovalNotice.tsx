@@ -0,0 +1,39 @@
+"use client";
+
+import { KeyRound } from "lucide-react";
+import { APPROVAL_METHOD_DESCRIPTIONS, APPROVAL_METHOD_LABELS, PERMIT_VALIDITY_SECONDS, isSignatureMethod, type ApprovalMethod } from "@/lib/permits";
+
+interface ApprovalNoticeProps {
+  method: ApprovalMethod;
+  canUseSignature: boolean;
+  preferApprove: boolean;
+  onPreferApproveChange: (preferApprove: boolean) => void;
+}
+
+// Which approval path the deposit below takes, with a switch between signature and approve
+export function ApprovalNotice({ method, canUseSignature, preferApprove, onPreferApproveChange }: ApprovalNoticeProps) {
+  if (method === "allowance") return null;
+
+  return (
+    <div className="mt-4 rounded-lg bg-white/5 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium">
+          <KeyRound className="h-4 w-4 text-accent-purple" />
+          {APPROVAL_METHOD_LABELS[method]}
+        </span>
+        {canUseSignature && (
+          <button
+            onClick={() => onPreferApproveChange(!preferApprove)}
+            className="text-xs text-accent-purple hover:text-accent-cyan"
+          >
+            {preferApprove ? "Use a signature" : "Use approve instead"}
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-foreground-muted">
+        {APPROVAL_METHOD_DESCRIPTIONS[method]}
+        {isSignatureMethod(method) && ` The signature expires after ${PERMIT_VALIDITY_SECONDS / 60} minutes.`}
+      </p>
+    </div>
+  );
+}
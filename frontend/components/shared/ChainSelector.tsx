@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { useChainId, useChains, useSwitchChain } from "wagmi";
+import { ChevronDown, Check, Loader2 } from "lucide-react";
+import { getDeployment } from "@/lib/contracts";
+
+export function ChainSelector() {
+  const [isOpen, setIsOpen] = useState(false);
+  const chainId = useChainId();
+  const chains = useChains();
+  const { switchChain, isPending } = useSwitchChain();
+
+  const activeChain = chains.find((chain) => chain.id === chainId);
+  const isDeployed = !!getDeployment(chainId);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 rounded-xl bg-white/10 px-3 py-2 text-sm font-medium transition-all hover:bg-white/15"
+      >
+        {isPending ? (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        ) : (
+          <div className={`h-2 w-2 rounded-full ${isDeployed ? "bg-success" : "bg-warning"}`} />
+        )}
+        <span className="hidden sm:inline">{activeChain?.name ?? `Chain ${chainId}`}</span>
+        <ChevronDown
+          className={`h-4 w-4 text-foreground-muted transition-transform ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-50 mt-2 w-56 overflow-hidden rounded-xl border border-white/10 bg-bg-card shadow-lg">
+            {chains.map((chain) => {
+              const hasDeployment = !!getDeployment(chain.id);
+
+              return (
+                <button
+                  key={chain.id}
+                  onClick={() => {
+                    switchChain({ chainId: chain.id });
+                    setIsOpen(false);
+                  }}
+                  className={`flex w-full items-center justify-between p-3 text-left transition-all hover:bg-white/5 ${
+                    chain.id === chainId ? "bg-accent-purple/10" : ""
+                  }`}
+                >
+                  <div>
+                    <p className="text-sm font-medium">{chain.name}</p>
+                    <p className="text-xs text-foreground-muted">
+                      {hasDeployment ? "Contracts deployed" : "No deployment"}
+                    </p>
+                  </div>
+                  {chain.id === chainId && <Check className="h-4 w-4 text-accent-purple" />}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
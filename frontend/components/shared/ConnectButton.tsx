@@ -1,30 +1,35 @@
 "use client";
 
 import { useState } from "react";
-import { useAccount, useConnect, useDisconnect, useChainId, useSwitchChain } from "wagmi";
-import { baseSepolia } from "wagmi/chains";
+import { useAccount, useConnect, useDisconnect, useSwitchChain } from "wagmi";
 import { Loader2, Wallet, LogOut, AlertTriangle, X, ChevronRight } from "lucide-react";
+import { useDeployedChains, useIsWrongNetwork } from "@/hooks";
 
 export function ConnectButton() {
   const [showModal, setShowModal] = useState(false);
-  const { address, isConnected, connector: activeConnector } = useAccount();
+  const { address, isConnected, chain, connector: activeConnector } = useAccount();
   const { connect, connectors, isPending, variables } = useConnect();
   const { disconnect } = useDisconnect();
-  const chainId = useChainId();
   const { switchChain } = useSwitchChain();
 
-  const isWrongNetwork = isConnected && chainId !== baseSepolia.id;
+  const isWrongNetwork = useIsWrongNetwork();
+  const deployedChains = useDeployedChains();
 
-  // Connected state - wrong network
+  // Connected state - wrong network: offer every chain with a deployment
   if (isConnected && address && isWrongNetwork) {
     return (
-      <button
-        onClick={() => switchChain({ chainId: baseSepolia.id })}
-        className="flex items-center gap-2 rounded-xl bg-warning/20 px-4 py-2 text-sm font-medium text-warning transition-all hover:bg-warning/30"
-      >
-        <AlertTriangle className="h-4 w-4" />
-        Switch to Base Sepolia
-      </button>
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-warning" />
+        {deployedChains.map((deployedChain) => (
+          <button
+            key={deployedChain.id}
+            onClick={() => switchChain({ chainId: deployedChain.id })}
+            className="rounded-xl bg-warning/20 px-4 py-2 text-sm font-medium text-warning transition-all hover:bg-warning/30"
+          >
+            Switch to {deployedChain.name}
+          </button>
+        ))}
+      </div>
     );
   }
 
@@ -74,7 +79,7 @@ export function ConnectButton() {
                   </p>
                   <div className="mt-2 flex items-center gap-2 text-sm text-gray-400">
                     <div className="h-2 w-2 rounded-full bg-success" />
-                    <span>Base Sepolia</span>
+                    <span>{chain?.name}</span>
                   </div>
                 </div>
 
@@ -0,0 +1,132 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+// Renders a small Markdown subset - headings, paragraphs, lists, quotes, code, emphasis and
+// links - straight to React elements. Nothing goes through innerHTML, so embedded HTML shows
+// up as text, and links are limited to http(s) and mailto.
+
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+function safeHref(href: string): string | undefined {
+  try {
+    const url = new URL(href);
+    return ["http:", "https:", "mailto:"].includes(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function renderInline(text: string, key = ""): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [token, code, bold, italic, link] = match;
+    const k = `${key}${match.index}`;
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+
+    if (code) {
+      nodes.push(
+        <code key={k} className="rounded bg-white/10 px-1 py-0.5 font-mono text-xs">
+          {code.slice(1, -1)}
+        </code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={k}>{renderInline(bold.slice(2, -2), `${k}-`)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={k}>{renderInline(italic.slice(1, -1), `${k}-`)}</em>);
+    } else if (link) {
+      const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+      const url = safeHref(href);
+      nodes.push(
+        url ? (
+          <a key={k} href={url} target="_blank" rel="noopener noreferrer nofollow" className="text-accent-blue underline">
+            {label}
+          </a>
+        ) : (
+          label
+        )
+      );
+    } else {
+      nodes.push(token);
+    }
+    last = match.index + token.length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+const HEADING_CLASSES = ["text-lg font-semibold", "text-base font-semibold", "text-sm font-semibold"];
+
+export function Markdown({ source, className = "" }: { source: string; className?: string }) {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  const collect = (pattern: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length && pattern.test(lines[i])) items.push(lines[i++].replace(pattern, ""));
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = blocks.length;
+
+    if (!line.trim()) {
+      i++;
+    } else if (line.startsWith("```")) {
+      i++;
+      const code: string[] = [];
+      while (i < lines.length && !lines[i].startsWith("```")) code.push(lines[i++]);
+      i++; // closing fence
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded-lg bg-white/5 p-3 font-mono text-xs">
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+    } else if (/^#{1,3}\s/.test(line)) {
+      const [, hashes, text] = line.match(/^(#{1,3})\s+(.*)$/)!;
+      const Tag = `h${hashes.length + 2}` as "h3" | "h4" | "h5";
+      blocks.push(
+        <Tag key={key} className={HEADING_CLASSES[hashes.length - 1]}>
+          {renderInline(text)}
+        </Tag>
+      );
+      i++;
+    } else if (/^\s*[-*]\s+/.test(line)) {
+      blocks.push(
+        <ul key={key} className="list-disc space-y-1 pl-5">
+          {collect(/^\s*[-*]\s+/).map((item, j) => (
+            <li key={j}>{renderInline(item)}</li>
+          ))}
+        </ul>
+      );
+    } else if (/^\s*\d+\.\s+/.test(line)) {
+      blocks.push(
+        <ol key={key} className="list-decimal space-y-1 pl-5">
+          {collect(/^\s*\d+\.\s+/).map((item, j) => (
+            <li key={j}>{renderInline(item)}</li>
+          ))}
+        </ol>
+      );
+    } else if (line.startsWith(">")) {
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-white/20 pl-3 text-foreground-muted">
+          {renderInline(collect(/^>\s?/).join(" "))}
+        </blockquote>
+      );
+    } else {
+      // Paragraph: consecutive lines up to a blank line or another block
+      const text: string[] = [];
+      while (i < lines.length && lines[i].trim() && !/^(```|#{1,3}\s|\s*[-*]\s+|\s*\d+\.\s+|>)/.test(lines[i])) {
+        text.push(lines[i++].trim());
+      }
+      blocks.push(<p key={key}>{renderInline(text.join(" "))}</p>);
+    }
+  }
+
+  return <div className={`space-y-3 break-words text-sm ${className}`}>{blocks}</div>;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState } from "react";
+import { tokenColor, type TokenInfo } from "@/lib/tokens";
+
+interface TokenLogoProps {
+  token: Pick<TokenInfo, "address" | "symbol" | "logoURI">;
+  size?: number;
+}
+
+// The list's logo when there is one (and it loads), otherwise the token's swatch with its initial
+export function TokenLogo({ token, size = 20 }: TokenLogoProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (token.logoURI && !failed) {
+    return (
+      <img
+        src={token.logoURI}
+        alt={token.symbol}
+        width={size}
+        height={size}
+        onError={() => setFailed(true)}
+        className="shrink-0 rounded-full"
+      />
+    );
+  }
+
+  return (
+    <span
+      className="flex shrink-0 items-center justify-center rounded-full text-[10px] font-semibold text-white"
+      style={{ width: size, height: size, backgroundColor: tokenColor(token) }}
+    >
+      {token.symbol.includes("...") ? "?" : token.symbol.charAt(0).toUpperCase()}
+    </span>
+  );
+}
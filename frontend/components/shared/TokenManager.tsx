@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTokenRegistry } from "@/hooks";
+import { parseError } from "@/lib/errors";
+import { TokenLogo } from "./TokenLogo";
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder:text-foreground-muted/50 focus:border-accent-purple focus:outline-none focus:ring-1 focus:ring-accent-purple";
+
+const buttonClass =
+  "flex shrink-0 items-center gap-2 rounded-xl bg-white/10 px-4 py-2 text-sm font-medium hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50";
+
+// Custom tokens and imported token lists, kept in this browser
+export function TokenManager() {
+  const { chainId, lists, customTokens, addToken, removeToken, importList, removeList } = useTokenRegistry();
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [listSource, setListSource] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleAddToken = async () => {
+    setIsAdding(true);
+    try {
+      const token = await addToken(tokenAddress);
+      toast.success(`Added ${token.symbol}`);
+      setTokenAddress("");
+    } catch (error) {
+      toast.error(error instanceof Error ? parseError(error) : String(error));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleImportList = async () => {
+    setIsImporting(true);
+    try {
+      const list = await importList(listSource);
+      const onChain = list.tokens.filter((t) => t.chainId === chainId).length;
+      toast.success(`Imported ${list.name} (${onChain} tokens on this network)`);
+      setListSource("");
+    } catch (error) {
+      toast.error(error instanceof Error ? parseError(error) : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-white/10 bg-white/5 p-4">
+      <div>
+        <p className="mb-2 text-sm text-foreground-muted">Add a token by address</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={tokenAddress}
+            onChange={(e) => setTokenAddress(e.target.value)}
+            placeholder="0x... token address"
+            className={inputClass}
+          />
+          <button onClick={handleAddToken} disabled={!tokenAddress || isAdding} className={buttonClass}>
+            {isAdding && <Loader2 className="h-4 w-4 animate-spin" />}
+            Add
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-sm text-foreground-muted">Import a token list (URL or JSON)</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={listSource}
+            onChange={(e) => setListSource(e.target.value)}
+            placeholder="https://tokens.uniswap.org"
+            className={inputClass}
+          />
+          <button onClick={handleImportList} disabled={!listSource || isImporting} className={buttonClass}>
+            {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Import
+          </button>
+        </div>
+      </div>
+
+      {(customTokens.length > 0 || lists.length > 0) && (
+        <ul className="space-y-2 text-sm">
+          {customTokens.map((token) => (
+            <li key={token.address} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2" title={token.address}>
+                <TokenLogo token={token} size={16} />
+                {token.symbol}
+                <span className="text-foreground-muted">{token.name} · custom</span>
+              </span>
+              <button
+                onClick={() => removeToken(token.address)}
+                className="rounded-lg p-1 text-foreground-muted hover:bg-white/10 hover:text-error"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+          {lists.map((list) => (
+            <li key={list.id} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2" title={list.id}>
+                {list.logoURI && <img src={list.logoURI} alt="" width={16} height={16} className="rounded-full" />}
+                {list.name}
+                <span className="text-foreground-muted">
+                  {list.tokens.filter((t) => t.chainId === chainId).length} tokens on this network
+                </span>
+              </span>
+              <button
+                onClick={() => removeList(list.id)}
+                className="rounded-lg p-1 text-foreground-muted hover:bg-white/10 hover:text-error"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useTokenRegistry, useTokens } from "@/hooks";
+
+interface TokenSelectProps {
+  value: string;
+  onChange: (address: string) => void;
+  className?: string;
+  // Shown as an empty first option; leave out to always have a token selected
+  placeholder?: string;
+}
+
+// Registry tokens for the active chain. A value that isn't in the registry (e.g. loaded from an
+// existing fund) stays selectable, labelled from the token itself.
+export function TokenSelect({ value, onChange, className, placeholder }: TokenSelectProps) {
+  const { tokens } = useTokenRegistry();
+  const { tokenOf } = useTokens(value ? [value] : []);
+
+  const listed = tokens.find((t) => t.address.toLowerCase() === value.toLowerCase());
+  const options = value && !listed ? [...tokens, tokenOf(value)] : tokens;
+
+  return (
+    <select value={listed?.address ?? value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {placeholder !== undefined && <option value="">{placeholder}</option>}
+      {options.map((token) => (
+        <option key={token.address} value={token.address}>
+          {token.symbol} - {token.name}
+        </option>
+      ))}
+    </select>
+  );
+}
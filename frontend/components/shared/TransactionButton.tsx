@@ -1,6 +1,6 @@
 "use client";
 
-import { Loader2 } from "lucide-react";
+import { Loader2, AlertCircle } from "lucide-react";
 
 interface TransactionButtonProps {
   onClick: () => void;
@@ -9,6 +9,8 @@ interface TransactionButtonProps {
   loadingText?: string;
   children: React.ReactNode;
   variant?: "primary" | "secondary";
+  // Revert reason from the pre-flight simulation; disables the button while set
+  error?: string;
 }
 
 export function TransactionButton({
@@ -18,6 +20,7 @@ export function TransactionButton({
   loadingText = "Confirming...",
   children,
   variant = "primary",
+  error,
 }: TransactionButtonProps) {
   const baseClasses =
     "flex w-full items-center justify-center gap-2 rounded-xl px-6 py-3 font-semibold transition-all disabled:cursor-not-allowed disabled:opacity-50";
@@ -27,10 +30,10 @@ export function TransactionButton({
       ? "bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white hover:shadow-[0_0_20px_rgba(139,92,246,0.4)]"
       : "bg-white/10 hover:bg-white/20 border border-white/10 text-white";
 
-  return (
+  const button = (
     <button
       onClick={onClick}
-      disabled={disabled || isLoading}
+      disabled={disabled || isLoading || !!error}
       className={`${baseClasses} ${variantClasses}`}
     >
       {isLoading ? (
@@ -43,4 +46,16 @@ export function TransactionButton({
       )}
     </button>
   );
+
+  if (!error || isLoading) return button;
+
+  return (
+    <div className="w-full">
+      {button}
+      <p className="mt-2 flex items-start gap-1.5 text-sm text-error">
+        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+        {error}
+      </p>
+    </div>
+  );
 }
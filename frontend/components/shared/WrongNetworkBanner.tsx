@@ -0,0 +1,38 @@
+"use client";
+
+import { useAccount, useSwitchChain } from "wagmi";
+import { AlertTriangle } from "lucide-react";
+import { useDeployedChains, useIsWrongNetwork } from "@/hooks";
+
+export function WrongNetworkBanner() {
+  const { chain } = useAccount();
+  const isWrongNetwork = useIsWrongNetwork();
+  const deployedChains = useDeployedChains();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (!isWrongNetwork) return null;
+
+  return (
+    <div className="mb-6 flex flex-col gap-3 rounded-xl border border-warning/30 bg-warning/10 p-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-3 text-sm text-warning">
+        <AlertTriangle className="h-5 w-5 shrink-0" />
+        <span>
+          {chain?.name ?? "This network"} has no protocol deployment. Switch to a supported network to
+          transact.
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {deployedChains.map((deployedChain) => (
+          <button
+            key={deployedChain.id}
+            onClick={() => switchChain({ chainId: deployedChain.id })}
+            disabled={isPending}
+            className="rounded-lg bg-warning/20 px-3 py-1.5 text-sm font-medium text-warning transition-all hover:bg-warning/30 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {deployedChain.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
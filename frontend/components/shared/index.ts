@@ -2,3 +2,10 @@ export { StatCard } from "./StatCard";
 export { TransactionButton } from "./TransactionButton";
 export { TokenInput } from "./TokenInput";
 export { ConnectButton } from "./ConnectButton";
+export { ChainSelector } from "./ChainSelector";
+export { WrongNetworkBanner } from "./WrongNetworkBanner";
+export { Markdown } from "./Markdown";
+export { TokenLogo } from "./TokenLogo";
+export { TokenManager } from "./TokenManager";
+export { TokenSelect } from "./TokenSelect";
+export { ApprovalNotice } from "./ApprovalNotice";
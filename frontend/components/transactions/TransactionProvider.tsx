@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useConfig } from "wagmi";
+import {
+  getCapabilities,
+  getTransactionReceipt,
+  sendCalls,
+  simulateContract,
+  waitForCallsStatus,
+  waitForTransactionReceipt,
+  writeContract,
+} from "wagmi/actions";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { encodeFunctionData, type EncodeFunctionDataParameters, type Hash, type TransactionReceipt } from "viem";
+import { parseError } from "@/lib/errors";
+import {
+  TransactionContext,
+  IN_FLIGHT_STATUSES,
+  createTransactionId,
+  supportsAtomicBatch,
+  type SendBatch,
+  type SendTransaction,
+  type TrackedTransaction,
+} from "@/lib/transactions";
+
+// Finished transactions kept around for the queue dropdown
+const MAX_FINISHED = 10;
+
+// wagmi query keys that hold on-chain reads. A write can move state on contracts
+// other than its target (approve -> allowance, deposit -> token balance), so every
+// read - and every pre-flight simulation - is refreshed once a transaction lands.
+const READ_QUERY_KEYS = new Set(["readContract", "readContracts", "balance", "simulateContract"]);
+
+// How long to poll wallet_getCallsStatus before giving up on a bundle
+const BATCH_STATUS_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function TransactionProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+
+  // One wallet prompt at a time - later sends wait until earlier ones are signed or rejected
+  const signingQueue = useRef<Promise<unknown>>(Promise.resolve());
+
+  const update = useCallback((id: string, patch: Partial<TrackedTransaction>) => {
+    setTransactions((txs) => txs.map((tx) => (tx.id === id ? { ...tx, ...patch } : tx)));
+  }, []);
+
+  // Queue a new transaction behind the in-flight ones, dropping the oldest finished
+  const track = useCallback((tx: TrackedTransaction) => {
+    setTransactions((txs) => {
+      const inFlight = txs.filter((t) => IN_FLIGHT_STATUSES.includes(t.status));
+      const finished = txs.filter((t) => !IN_FLIGHT_STATUSES.includes(t.status)).slice(-MAX_FINISHED);
+      return [...finished, ...inFlight, tx];
+    });
+  }, []);
+
+  const refreshReads = useCallback(() => {
+    queryClient.invalidateQueries({
+      predicate: (query) => READ_QUERY_KEYS.has(query.queryKey[0] as string),
+    });
+  }, [queryClient]);
+
+  const fail = useCallback(
+    (id: string, label: string, error: unknown, onFailed?: (error: unknown) => void) => {
+      const message = error instanceof Error ? parseError(error) : String(error);
+      update(id, { status: "failed", error: message });
+      toast.error(`${label}: ${message}`, { id, duration: 5000 });
+      onFailed?.(error);
+    },
+    [update]
+  );
+
+  const send = useCallback<SendTransaction>(
+    async (call, options) => {
+      const { label, successMessage, onConfirmed } = options;
+      const id = options.id ?? createTransactionId();
+
+      track({ id, label, status: "simulating", chainId: call.chainId, createdAt: Date.now() });
+      toast.loading(`${label}: simulating...`, { id });
+
+      const sign = async (): Promise<Hash> => {
+        const { request } = await simulateContract(config, call as Parameters<typeof simulateContract>[1]);
+        update(id, { status: "awaiting-signature" });
+        toast.loading(`${label}: confirm in your wallet`, { id });
+        return writeContract(config, request);
+      };
+
+      const turn = signingQueue.current.then(sign);
+      signingQueue.current = turn.catch(() => undefined);
+
+      let hash: Hash;
+      try {
+        hash = await turn;
+      } catch (error) {
+        fail(id, label, error, options.onFailed);
+        return undefined;
+      }
+
+      update(id, { status: "pending", hash });
+      toast.loading(`${label}: waiting for confirmation...`, { id });
+
+      let replaced = false;
+      try {
+        const receipt = await waitForTransactionReceipt(config, {
+          hash,
+          chainId: call.chainId,
+          onReplaced: (replacement) => {
+            // A sped-up transaction is still ours; a replaced or cancelled one is not
+            if (replacement.reason === "repriced") {
+              update(id, { hash: replacement.transaction.hash });
+            } else {
+              replaced = true;
+            }
+          },
+        });
+
+        refreshReads();
+
+        if (replaced) {
+          update(id, { status: "replaced", hash: receipt.transactionHash });
+          toast.error(`${label}: replaced by another transaction`, { id, duration: 5000 });
+          return undefined;
+        }
+
+        if (receipt.status === "reverted") {
+          fail(id, label, new Error("Transaction reverted"), options.onFailed);
+          return undefined;
+        }
+
+        update(id, { status: "confirmed", hash: receipt.transactionHash });
+        toast.success(successMessage ?? `${label} confirmed!`, { id });
+        onConfirmed?.(receipt);
+        return receipt;
+      } catch (error) {
+        fail(id, label, error, options.onFailed);
+        return undefined;
+      }
+    },
+    [config, track, refreshReads, update, fail]
+  );
+
+  const sendBatch = useCallback<SendBatch>(
+    async (steps, options) => {
+      const { label, successMessage, onConfirmed } = options;
+      const chainId = steps[0].call.chainId;
+
+      const capabilities = await getCapabilities(config, { chainId }).catch(() => undefined);
+      if (!supportsAtomicBatch(capabilities)) {
+        // EOAs send the same calls one by one; a failed or rejected step stops the rest
+        let receipt: TransactionReceipt | undefined;
+        for (const [index, step] of steps.entries()) {
+          const isLast = index === steps.length - 1;
+          receipt = await send(step.call, isLast ? { ...options, label: step.label } : { label: step.label, onFailed: options.onFailed });
+          if (!receipt) return undefined;
+        }
+        return receipt;
+      }
+
+      const id = options.id ?? createTransactionId();
+      track({ id, label, status: "simulating", chainId, callCount: steps.length, createdAt: Date.now() });
+      toast.loading(`${label}: simulating...`, { id });
+
+      // Later calls usually depend on earlier ones (approve -> deposit), so only the first can be
+      // dry-run here; the wallet simulates the bundle as a whole
+      const sign = async () => {
+        await simulateContract(config, steps[0].call as Parameters<typeof simulateContract>[1]);
+        update(id, { status: "awaiting-signature" });
+        toast.loading(`${label}: confirm in your wallet`, { id });
+        return sendCalls(config, {
+          chainId,
+          forceAtomic: true,
+          calls: steps.map(({ call }) => ({
+            to: call.address,
+            data: encodeFunctionData(call as EncodeFunctionDataParameters),
+            value: call.value,
+          })),
+        });
+      };
+
+      const turn = signingQueue.current.then(sign);
+      signingQueue.current = turn.catch(() => undefined);
+
+      let batchId: string;
+      try {
+        ({ id: batchId } = await turn);
+      } catch (error) {
+        fail(id, label, error, options.onFailed);
+        return undefined;
+      }
+
+      update(id, { status: "pending", batchId });
+      toast.loading(`${label}: waiting for confirmation...`, { id });
+
+      try {
+        const { status, receipts } = await waitForCallsStatus(config, { id: batchId, timeout: BATCH_STATUS_TIMEOUT_MS });
+        refreshReads();
+
+        const hash = receipts?.at(-1)?.transactionHash;
+        if (status !== "success" || !hash) {
+          update(id, { hash });
+          fail(id, label, new Error("Batch reverted"), options.onFailed);
+          return undefined;
+        }
+
+        // Bundle receipts are trimmed down; callers get the full receipt of the transaction that landed it
+        const receipt = await getTransactionReceipt(config, { hash, chainId });
+        update(id, { status: "confirmed", hash });
+        toast.success(successMessage ?? `${label} confirmed!`, { id });
+        onConfirmed?.(receipt);
+        return receipt;
+      } catch (error) {
+        fail(id, label, error, options.onFailed);
+        return undefined;
+      }
+    },
+    [config, send, track, refreshReads, update, fail]
+  );
+
+  const clearFinished = useCallback(() => {
+    setTransactions((txs) => txs.filter((tx) => IN_FLIGHT_STATUSES.includes(tx.status)));
+  }, []);
+
+  const value = useMemo(
+    () => ({ transactions, send, sendBatch, clearFinished }),
+    [transactions, send, sendBatch, clearFinished]
+  );
+
+  return <TransactionContext.Provider value={value}>{children}</TransactionContext.Provider>;
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useChains } from "wagmi";
+import { Loader2, CheckCircle, XCircle, Clock, ExternalLink, ListOrdered } from "lucide-react";
+import { useTransactionManager } from "@/hooks";
+import { IN_FLIGHT_STATUSES, STATUS_LABELS, type TransactionStatus } from "@/lib/transactions";
+
+function StatusIcon({ status }: { status: TransactionStatus }) {
+  if (IN_FLIGHT_STATUSES.includes(status)) {
+    return <Loader2 className="h-4 w-4 animate-spin text-accent-purple" />;
+  }
+  if (status === "confirmed") return <CheckCircle className="h-4 w-4 text-success" />;
+  if (status === "replaced") return <Clock className="h-4 w-4 text-warning" />;
+  return <XCircle className="h-4 w-4 text-error" />;
+}
+
+export function TransactionQueue() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { transactions, clearFinished } = useTransactionManager();
+  const chains = useChains();
+
+  if (transactions.length === 0) return null;
+
+  const inFlightCount = transactions.filter((tx) => IN_FLIGHT_STATUSES.includes(tx.status)).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 rounded-xl bg-white/10 px-3 py-2 text-sm font-medium transition-all hover:bg-white/15"
+      >
+        {inFlightCount > 0 ? (
+          <Loader2 className="h-4 w-4 animate-spin text-accent-purple" />
+        ) : (
+          <ListOrdered className="h-4 w-4" />
+        )}
+        <span className="hidden sm:inline">
+          {inFlightCount > 0 ? `${inFlightCount} pending` : "Transactions"}
+        </span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-50 mt-2 w-80 overflow-hidden rounded-xl border border-white/10 bg-bg-card shadow-lg">
+            <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+              <span className="text-sm font-semibold">Transactions</span>
+              <button
+                onClick={clearFinished}
+                className="text-xs text-foreground-muted hover:text-white"
+              >
+                Clear finished
+              </button>
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              {[...transactions].reverse().map((tx) => {
+                const explorer = chains.find((chain) => chain.id === tx.chainId)?.blockExplorers?.default.url;
+
+                return (
+                  <div key={tx.id} className="flex items-start gap-3 border-b border-white/5 px-4 py-3 last:border-0">
+                    <StatusIcon status={tx.status} />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">{tx.label}</p>
+                      <p className="text-xs text-foreground-muted">
+                        {STATUS_LABELS[tx.status]}
+                        {tx.callCount && ` - ${tx.callCount} calls in one batch`}
+                        {tx.error && ` - ${tx.error}`}
+                      </p>
+                    </div>
+                    {tx.hash && explorer && (
+                      <a
+                        href={`${explorer}/tx/${tx.hash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-foreground-muted hover:text-white"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { TransactionProvider } from "./TransactionProvider";
+export { TransactionQueue } from "./TransactionQueue";
@@ -17,6 +17,7 @@ export {
   // Oracle hooks
   useETHPrice,
   // Governance hooks
+  useFundGovernance,
   useGovernanceParams,
   useVotingPower,
   // Formatters
@@ -25,4 +26,40 @@ export {
   formatPercent,
 } from "./useContracts";
 
-export { useTransactionWithToast, parseError } from "./useTransactionWithToast";
+export { useDeployment, useDeployedChains, useIsWrongNetwork } from "./useDeployment";
+export { useTransaction, useTransactionManager, useAtomicBatching } from "./useTransaction";
+export { useSimulation } from "./useSimulation";
+export { useDepositApproval } from "./useDepositApproval";
+export {
+  useAccountHistory,
+  HISTORY_PRODUCTS,
+  HISTORY_TYPES,
+  type HistoryProduct,
+  type HistoryType,
+} from "./useHistory";
+export { useLeveragedTokenPnl } from "./usePnl";
+export {
+  useNavHistory,
+  NAV_RANGES,
+  type NavRange,
+  type NavPoint,
+  type RebalanceMarker,
+} from "./useNavHistory";
+export { useFundsPerformance, useFundPerformance } from "./useFundHistory";
+export { useFundDirectory, type FundEntry } from "./useFunds";
+export { useTokens, useTokenSymbols, useTokenRegistry } from "./useTokens";
+export { useProposalMetadata } from "./useProposalMetadata";
+export { useProposals, type ProposalWithStatus } from "./useProposals";
+export { useParameterHistory, type ParameterChange } from "./useParameterHistory";
+export { useProposalVotes, type ProposalVote, type ProposalExecution } from "./useProposalVotes";
+export { useProposalSnapshot, useFundDelegation, type VotingSnapshot } from "./useVotingSnapshot";
+export { useMonitorAlerts } from "./useMonitorAlerts";
+export { useMintRedeemPreview } from "./useMintRedeemPreview";
+export { parseError, decodeRevertData } from "@/lib/errors";
+export { COST_BASIS_METHODS, type CostBasisMethod, type PnlReport } from "@/lib/pnl";
+export {
+  PERFORMANCE_LABELS,
+  formatPerformance,
+  type FundSnapshot,
+  type PerformanceMetrics,
+} from "@/lib/performance";
@@ -1,96 +1,136 @@
 "use client";
 
-import { useReadContract, useReadContracts, useAccount } from "wagmi";
-import { formatEther, formatUnits, parseAbi } from "viem";
-import { CONTRACTS } from "@/lib/contracts";
+import { useReadContract, useReadContracts, useAccount, useBytecode, useStorageAt } from "wagmi";
+import {
+  UNITS,
+  bps,
+  formatAmount,
+  formatBps,
+  formatUsdAmount,
+  one,
+  perWholeShare,
+  price8,
+  usdc6,
+  valueAt,
+  type Amount,
+  type BPS,
+  type PRICE8,
+  type USDC6,
+  type Unit,
+  type UnitName,
+  type WAD18,
+} from "@/lib/amounts";
 import {
   LP_VAULT_ABI,
   LEVERAGED_LONG_TOKEN_ABI,
   LEVERAGED_SHORT_TOKEN_ABI,
   INDEX_FUND_ABI,
-  ERC20_ABI,
+  FUND_GOVERNANCE_ABI,
+  CHAINLINK_AGGREGATOR_ABI,
 } from "@/lib/abis";
+import { EIP1967_IMPLEMENTATION_SLOT } from "@/lib/permits";
+import { quorumVotes } from "@/lib/proposals";
+import { useDeployment } from "./useDeployment";
 
 export type LeverageType = "long" | "short";
 
+// The long side's vault lends USDC, the short side's WETH; vault shares share the asset's decimals
+export type VaultUnit<T extends LeverageType> = T extends "long" ? "USDC6" : "WAD18";
+
+const vaultUnit = <T extends LeverageType>(type: T) =>
+  (type === "long" ? UNITS.USDC6 : UNITS.WAD18) as Unit<VaultUnit<T>>;
+
 // LP Vault hooks - supports both Long (USDC) and Short (WETH) vaults
-export function useLPVaultStats(type: LeverageType = "long") {
-  const vaultAddress = type === "long" ? CONTRACTS.LP_VAULT_LONG : CONTRACTS.LP_VAULT_SHORT;
+export function useLPVaultStats<T extends LeverageType = "long">(type: T = "long" as T) {
+  const { chainId, contracts } = useDeployment();
+  const unit = vaultUnit(type);
+  const vaultAddress = type === "long" ? contracts.LP_VAULT_LONG : contracts.LP_VAULT_SHORT;
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "totalAssets",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "totalSupply",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "totalBorrowed",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "availableLiquidity",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "utilizationRate",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
-        functionName: "interestRate",
+        abi: LP_VAULT_ABI,
+        chainId,
+        functionName: "interestRateBps",
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "paused",
       },
     ],
   });
 
   return {
-    totalAssets: data?.[0]?.result as bigint | undefined,
-    totalSupply: data?.[1]?.result as bigint | undefined,
-    totalBorrowed: data?.[2]?.result as bigint | undefined,
-    availableLiquidity: data?.[3]?.result as bigint | undefined,
-    utilizationRate: data?.[4]?.result as bigint | undefined,
-    interestRate: data?.[5]?.result as bigint | undefined,
-    paused: data?.[6]?.result as boolean | undefined,
+    totalAssets: data?.[0]?.result as Amount<VaultUnit<T>> | undefined,
+    totalSupply: data?.[1]?.result as Amount<VaultUnit<T>> | undefined,
+    totalBorrowed: data?.[2]?.result as Amount<VaultUnit<T>> | undefined,
+    availableLiquidity: data?.[3]?.result as Amount<VaultUnit<T>> | undefined,
+    utilizationRate: data?.[4]?.result as BPS | undefined,
+    interestRate: data?.[5]?.result as BPS | undefined,
+    paused: data?.[6]?.result,
     vaultAddress,
     assetSymbol: type === "long" ? "USDC" : "WETH",
-    assetDecimals: type === "long" ? 6 : 18,
+    assetUnit: unit,
+    assetDecimals: unit.decimals,
     isLoading,
     error,
   };
 }
 
-export function useLPVaultUserPosition(type: LeverageType = "long") {
+export function useLPVaultUserPosition<T extends LeverageType = "long">(type: T = "long" as T) {
+  const { chainId, contracts } = useDeployment();
   const { address } = useAccount();
-  const vaultAddress = type === "long" ? CONTRACTS.LP_VAULT_LONG : CONTRACTS.LP_VAULT_SHORT;
-  const decimals = type === "long" ? 6 : 18;
+  const vaultAddress = type === "long" ? contracts.LP_VAULT_LONG : contracts.LP_VAULT_SHORT;
+  const unit = vaultUnit(type);
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "balanceOf",
         args: address ? [address] : undefined,
       },
       {
         address: vaultAddress as `0x${string}`,
-        abi: parseAbi(LP_VAULT_ABI),
+        abi: LP_VAULT_ABI,
+        chainId,
         functionName: "convertToAssets",
-        args: [BigInt(10 ** decimals)], // 1 share worth in asset decimals
+        args: [one(unit)], // 1 whole share
       },
     ],
     query: {
@@ -98,17 +138,18 @@ export function useLPVaultUserPosition(type: LeverageType = "long") {
     },
   });
 
-  const shares = data?.[0]?.result as bigint | undefined;
-  const sharePrice = data?.[1]?.result as bigint | undefined;
+  const shares = data?.[0]?.result as Amount<VaultUnit<T>> | undefined;
+  const sharePrice = data?.[1]?.result as Amount<VaultUnit<T>> | undefined;
   const assetsValue =
-    shares && sharePrice ? (shares * sharePrice) / BigInt(10 ** decimals) : undefined;
+    shares !== undefined && sharePrice !== undefined ? valueAt(shares, unit.decimals, sharePrice) : undefined;
 
   return {
     shares,
     sharePrice,
     assetsValue,
     vaultAddress,
-    assetDecimals: decimals,
+    assetUnit: unit,
+    assetDecimals: unit.decimals,
     isLoading,
     error,
   };
@@ -116,57 +157,66 @@ export function useLPVaultUserPosition(type: LeverageType = "long") {
 
 // Leveraged Token hooks - supports both Long and Short
 export function useLeveragedTokenStats(type: LeverageType = "long") {
-  const tokenAddress = type === "long" ? CONTRACTS.ETH2X_LONG : CONTRACTS.ETH2X_SHORT;
+  const { chainId, contracts } = useDeployment();
+  const tokenAddress = type === "long" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT;
   const abi = type === "long" ? LEVERAGED_LONG_TOKEN_ABI : LEVERAGED_SHORT_TOKEN_ABI;
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "totalSupply",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "getCurrentNav",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "leverageRatio",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "needsRebalance",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "paused",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "lastRebalanceTime",
       },
       {
         address: tokenAddress as `0x${string}`,
-        abi: parseAbi(abi),
+        abi: abi,
+        chainId,
         functionName: "getPrice",
       },
     ],
   });
 
   return {
-    totalSupply: data?.[0]?.result as bigint | undefined,
-    currentNAV: data?.[1]?.result as bigint | undefined,
-    leverageRatio: data?.[2]?.result as bigint | undefined,
-    needsRebalance: data?.[3]?.result as boolean | undefined,
-    paused: data?.[4]?.result as boolean | undefined,
-    lastRebalanceTime: data?.[5]?.result as bigint | undefined,
-    oraclePrice: data?.[6]?.result as bigint | undefined,
+    totalSupply: data?.[0]?.result as WAD18 | undefined,
+    // USDC per whole share
+    currentNAV: data?.[1]?.result as USDC6 | undefined,
+    leverageRatio: data?.[2]?.result as BPS | undefined,
+    needsRebalance: data?.[3]?.result,
+    paused: data?.[4]?.result,
+    lastRebalanceTime: data?.[5]?.result,
+    oraclePrice: data?.[6]?.result as PRICE8 | undefined,
     tokenAddress,
     tokenSymbol: type === "long" ? "ETH2X" : "ETH-2X",
     isLoading,
@@ -175,13 +225,15 @@ export function useLeveragedTokenStats(type: LeverageType = "long") {
 }
 
 export function useLeveragedTokenUserPosition(type: LeverageType = "long") {
+  const { chainId, contracts } = useDeployment();
   const { address } = useAccount();
-  const tokenAddress = type === "long" ? CONTRACTS.ETH2X_LONG : CONTRACTS.ETH2X_SHORT;
+  const tokenAddress = type === "long" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT;
   const abi = type === "long" ? LEVERAGED_LONG_TOKEN_ABI : LEVERAGED_SHORT_TOKEN_ABI;
 
   const { data, isLoading, error } = useReadContract({
     address: tokenAddress as `0x${string}`,
-    abi: parseAbi(abi),
+    abi: abi,
+    chainId,
     functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: {
@@ -190,7 +242,7 @@ export function useLeveragedTokenUserPosition(type: LeverageType = "long") {
   });
 
   return {
-    balance: data as bigint | undefined,
+    balance: data as WAD18 | undefined,
     tokenAddress,
     tokenSymbol: type === "long" ? "ETH2X" : "ETH-2X",
     isLoading,
@@ -207,90 +259,133 @@ export function useETH2XUserPosition() {
   return useLeveragedTokenUserPosition("long");
 }
 
+// Index funds are USDC-denominated; their ERC-4626 shares have the asset's decimals. Share
+// prices are read for 1e18 share units and scaled back to one whole share.
+function sharePriceOf(assetsPerWad: bigint | undefined, shareDecimals: number | undefined) {
+  if (assetsPerWad === undefined || shareDecimals === undefined) return undefined;
+  return perWholeShare(usdc6(assetsPerWad), shareDecimals);
+}
+
 // Index Fund hooks
 export function useIndexFundStats(fundAddress?: string) {
-  const address = (fundAddress || CONTRACTS.INDEX_FUND) as `0x${string}`;
+  const { chainId, contracts } = useDeployment();
+  const address = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address,
-        abi: parseAbi(INDEX_FUND_ABI),
+        abi: INDEX_FUND_ABI,
+        chainId,
         functionName: "totalAssets",
       },
       {
         address,
-        abi: parseAbi(INDEX_FUND_ABI),
+        abi: INDEX_FUND_ABI,
+        chainId,
         functionName: "totalSupply",
       },
       {
         address,
-        abi: parseAbi(INDEX_FUND_ABI),
-        functionName: "managementFeeRate",
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "managementFee",
       },
       {
         address,
-        abi: parseAbi(INDEX_FUND_ABI),
+        abi: INDEX_FUND_ABI,
+        chainId,
         functionName: "convertToAssets",
-        args: [BigInt(1e18)], // 1 share price
+        args: [one(UNITS.WAD18)],
       },
       {
         address,
-        abi: parseAbi(INDEX_FUND_ABI),
-        functionName: "accruedFees",
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "lastFeeCollection",
+      },
+      {
+        address,
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "decimals",
       },
     ],
     query: { enabled: !!address },
   });
 
+  const totalSupply = data?.[1]?.result;
+  const managementFeeRate = data?.[2]?.result as BPS | undefined;
+  const lastFeeCollection = data?.[4]?.result;
+  const shareDecimals = data?.[5]?.result;
+
+  // The fund has no accruedFees() view - mirror the pro-rata math in IndexFund.collectFees()
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const accruedFees =
+    totalSupply !== undefined && managementFeeRate !== undefined && lastFeeCollection !== undefined
+      ? (totalSupply * managementFeeRate * (now - lastFeeCollection)) / (BigInt(365 * 24 * 60 * 60) * BigInt(10000))
+      : undefined;
+
   return {
-    totalAssets: data?.[0]?.result as bigint | undefined,
-    totalSupply: data?.[1]?.result as bigint | undefined,
-    managementFeeRate: data?.[2]?.result as bigint | undefined,
-    sharePrice: data?.[3]?.result as bigint | undefined,
-    accruedFees: data?.[4]?.result as bigint | undefined,
+    totalAssets: data?.[0]?.result as USDC6 | undefined,
+    // In shareDecimals base units, like accruedFees
+    totalSupply,
+    shareDecimals,
+    managementFeeRate,
+    // USDC per whole share
+    sharePrice: sharePriceOf(data?.[3]?.result, shareDecimals),
+    accruedFees,
     isLoading,
     error,
   };
 }
 
 export function useIndexFundAllocations(fundAddress?: string) {
-  const address = (fundAddress || CONTRACTS.INDEX_FUND) as `0x${string}`;
+  const { chainId, contracts } = useDeployment();
+  const address = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
 
   const { data, isLoading, error } = useReadContract({
     address,
-    abi: parseAbi(INDEX_FUND_ABI),
+    abi: INDEX_FUND_ABI,
+    chainId,
     functionName: "getAllocations",
     query: { enabled: !!address },
   });
 
-  const result = data as [string[], bigint[]] | undefined;
-
   return {
-    tokens: result?.[0] || [],
-    weights: result?.[1] || [],
+    tokens: data?.map((allocation) => allocation.token) || [],
+    weights: data?.map((allocation) => bps(allocation.targetPercentage)) || [],
     isLoading,
     error,
   };
 }
 
 export function useIndexFundUserPosition(fundAddress?: string) {
+  const { chainId, contracts } = useDeployment();
   const { address } = useAccount();
-  const fundAddr = (fundAddress || CONTRACTS.INDEX_FUND) as `0x${string}`;
+  const fundAddr = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address: fundAddr,
-        abi: parseAbi(INDEX_FUND_ABI),
+        abi: INDEX_FUND_ABI,
+        chainId,
         functionName: "balanceOf",
         args: address ? [address] : undefined,
       },
       {
         address: fundAddr,
-        abi: parseAbi(INDEX_FUND_ABI),
+        abi: INDEX_FUND_ABI,
+        chainId,
         functionName: "convertToAssets",
-        args: [BigInt(1e18)], // 1 share
+        args: [one(UNITS.WAD18)],
+      },
+      {
+        address: fundAddr,
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "decimals",
       },
     ],
     query: {
@@ -298,13 +393,17 @@ export function useIndexFundUserPosition(fundAddress?: string) {
     },
   });
 
-  const shares = data?.[0]?.result as bigint | undefined;
-  const sharePrice = data?.[1]?.result as bigint | undefined;
+  const shares = data?.[0]?.result;
+  const shareDecimals = data?.[2]?.result;
+  const sharePrice = sharePriceOf(data?.[1]?.result, shareDecimals);
   const assetsValue =
-    shares && sharePrice ? (shares * sharePrice) / BigInt(1e18) : undefined;
+    shares !== undefined && sharePrice !== undefined && shareDecimals !== undefined
+      ? valueAt(shares, shareDecimals, sharePrice)
+      : undefined;
 
   return {
     shares,
+    shareDecimals,
     sharePrice,
     assetsValue,
     isLoading,
@@ -314,156 +413,191 @@ export function useIndexFundUserPosition(fundAddress?: string) {
 
 // ETH Price from Oracle
 export function useETHPrice() {
+  const { chainId, contracts } = useDeployment();
   const { data, isLoading, error } = useReadContract({
-    address: CONTRACTS.ETH_USD_ORACLE as `0x${string}`,
-    abi: parseAbi([
-      "function latestAnswer() view returns (int256)",
-      "function decimals() view returns (uint8)",
-    ]),
+    address: contracts.ETH_USD_ORACLE as `0x${string}`,
+    abi: CHAINLINK_AGGREGATOR_ABI,
+    chainId,
     functionName: "latestAnswer",
   });
 
-  // Chainlink price feeds typically have 8 decimals
-  const price = data ? Number(data) / 1e8 : undefined;
-
   return {
-    price,
+    // Chainlink USD feeds have 8 decimals
+    price: data === undefined ? undefined : price8(data),
     isLoading,
     error,
   };
 }
 
-// Format utilities
+// Format utilities - exact, see lib/amounts
 export function formatTokenAmount(
   amount: bigint | undefined,
   decimals: number = 18,
   displayDecimals: number = 4
 ): string {
-  if (!amount || amount === BigInt(0)) return "0";
-  const formatted = formatUnits(amount, decimals);
-  const num = parseFloat(formatted);
-
-  if (num === 0) return "0";
-
-  // For small amounts, show enough decimals to display the value
-  if (num < 1) {
-    const log = Math.floor(Math.log10(Math.abs(num)));
-    const neededDecimals = Math.abs(log) + 2;
-    // Cap at 18 decimals (max for ETH-like tokens)
-    return num.toFixed(Math.min(neededDecimals, 18));
-  }
-
-  return num.toLocaleString(undefined, {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: displayDecimals,
-  });
+  if (amount === undefined) return "0";
+  return formatAmount(amount, decimals, { maxDecimals: displayDecimals });
 }
 
-export function formatUSD(amount: number | undefined): string {
-  if (amount === undefined || amount === 0) return "$0.00";
-
-  // For very small amounts, show more precision
-  if (amount > 0 && amount < 0.01) {
-    // Find how many decimals we need
-    const log = Math.floor(Math.log10(Math.abs(amount)));
-    const decimals = Math.min(Math.abs(log) + 2, 10);
-    return `$${amount.toFixed(decimals)}`;
-  }
-
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+// USDC6 by default; pass the unit for oracle prices and other USD-valued units
+export function formatUSD(amount: USDC6 | undefined): string;
+export function formatUSD<U extends UnitName>(amount: Amount<U> | undefined, unit: Unit<U>): string;
+export function formatUSD(amount: bigint | undefined, unit: Unit = UNITS.USDC6): string {
+  return formatUsdAmount((amount ?? BigInt(0)) as Amount<UnitName>, unit);
 }
 
-export function formatPercent(
-  bps: bigint | undefined,
-  decimals: number = 2
-): string {
-  if (!bps) return "0%";
-  const percent = Number(bps) / 100; // assuming bps (basis points)
-  return `${percent.toFixed(decimals)}%`;
+export function formatPercent(bps: BPS | undefined, decimals: number = 2): string {
+  if (bps === undefined) return "0%";
+  return formatBps(bps, decimals);
 }
 
 // Governance hooks - supports per-fund governance
-export function useGovernanceParams(governanceAddress?: string) {
-  const govAddr = (governanceAddress || CONTRACTS.FUND_GOVERNANCE) as `0x${string}`;
+
+// The governance contract in charge of a fund: its owner when that owner is a FundGovernance
+// wired to this deployment's factory, otherwise the deployment's default governance. The owner
+// counts as a FundGovernance only if it is the deployment governance or runs the same proxy
+// bytecode over the same implementation; answering factory() correctly is not enough.
+// `governsFund` is false in the fallback case - the default governance can still take votes
+// for the fund but can't execute UpdateAllocations, which is onlyOwner on the fund.
+export function useFundGovernance(fundAddress?: string) {
+  const { chainId, contracts } = useDeployment();
+  const fund = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
+
+  const { data: owner, isLoading: ownerLoading } = useReadContract({
+    address: fund,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "owner",
+  });
+
+  const isDefault = !!owner && owner.toLowerCase() === contracts.FUND_GOVERNANCE.toLowerCase();
+  const probe = !!owner && !isDefault;
+
+  const { data: ownerFactory, isLoading: factoryLoading } = useReadContract({
+    address: owner,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "factory",
+    query: { enabled: probe, retry: false },
+  });
+  const { data: ownerCode, isLoading: codeLoading } = useBytecode({ address: owner, chainId, query: { enabled: probe } });
+  const { data: defaultCode } = useBytecode({ address: contracts.FUND_GOVERNANCE, chainId, query: { enabled: probe } });
+  const { data: ownerImplementation, isLoading: implementationLoading } = useStorageAt({
+    address: owner,
+    slot: EIP1967_IMPLEMENTATION_SLOT,
+    chainId,
+    query: { enabled: probe },
+  });
+  const { data: defaultImplementation } = useStorageAt({
+    address: contracts.FUND_GOVERNANCE,
+    slot: EIP1967_IMPLEMENTATION_SLOT,
+    chainId,
+    query: { enabled: probe },
+  });
+
+  const isFundGovernance =
+    !!ownerCode &&
+    ownerCode !== "0x" &&
+    ownerCode === defaultCode &&
+    !!ownerImplementation &&
+    BigInt(ownerImplementation) !== BigInt(0) &&
+    ownerImplementation === defaultImplementation;
+
+  const governsFund =
+    isDefault ||
+    (isFundGovernance && !!ownerFactory && ownerFactory.toLowerCase() === contracts.FUND_FACTORY.toLowerCase());
+
+  return {
+    governanceAddress: (governsFund ? owner : contracts.FUND_GOVERNANCE) as `0x${string}`,
+    governsFund,
+    fundOwner: owner,
+    fundAddress: fund,
+    isLoading: ownerLoading || (probe && (factoryLoading || codeLoading || implementationLoading)),
+  };
+}
+
+// Voting parameters of the governance resolved for `fundAddress`, plus the votes that fund
+// needs for quorum (quorumPercentage of its current supply, as getProposalStatus computes it)
+export function useGovernanceParams(fundAddress?: string) {
+  const { chainId } = useDeployment();
+  const { governanceAddress: govAddr, governsFund, fundAddress: fund, isLoading: resolving } =
+    useFundGovernance(fundAddress);
 
   const { data, isLoading, error } = useReadContracts({
     contracts: [
       {
         address: govAddr,
-        abi: parseAbi([
-          "function votingPeriod() view returns (uint256)",
-          "function quorumPercent() view returns (uint256)",
-          "function proposalThreshold() view returns (uint256)",
-          "function getProposalCount() view returns (uint256)",
-        ]),
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
         functionName: "votingPeriod",
       },
       {
         address: govAddr,
-        abi: parseAbi([
-          "function votingPeriod() view returns (uint256)",
-          "function quorumPercent() view returns (uint256)",
-          "function proposalThreshold() view returns (uint256)",
-          "function getProposalCount() view returns (uint256)",
-        ]),
-        functionName: "quorumPercent",
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
+        functionName: "quorumPercentage",
       },
       {
         address: govAddr,
-        abi: parseAbi([
-          "function votingPeriod() view returns (uint256)",
-          "function quorumPercent() view returns (uint256)",
-          "function proposalThreshold() view returns (uint256)",
-          "function getProposalCount() view returns (uint256)",
-        ]),
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
         functionName: "proposalThreshold",
       },
       {
         address: govAddr,
-        abi: parseAbi([
-          "function votingPeriod() view returns (uint256)",
-          "function quorumPercent() view returns (uint256)",
-          "function proposalThreshold() view returns (uint256)",
-          "function getProposalCount() view returns (uint256)",
-        ]),
-        functionName: "getProposalCount",
+        abi: FUND_GOVERNANCE_ABI,
+        chainId,
+        functionName: "proposalCount",
+      },
+      {
+        address: fund,
+        abi: INDEX_FUND_ABI,
+        chainId,
+        functionName: "totalSupply",
       },
     ],
+    query: { enabled: !resolving },
   });
 
+  const quorumPercentage = data?.[1]?.result as BPS | undefined;
+  const totalSupply = data?.[4]?.result;
+
   return {
-    votingPeriod: data?.[0]?.result as bigint | undefined,
-    quorumPercent: data?.[1]?.result as bigint | undefined,
-    proposalThreshold: data?.[2]?.result as bigint | undefined,
-    proposalCount: data?.[3]?.result as bigint | undefined,
+    votingPeriod: data?.[0]?.result,
+    quorumPercentage,
+    proposalThreshold: data?.[2]?.result,
+    proposalCount: data?.[3]?.result,
+    quorumVotes:
+      quorumPercentage !== undefined && totalSupply !== undefined
+        ? quorumVotes(totalSupply, quorumPercentage)
+        : undefined,
     governanceAddress: govAddr,
-    isLoading,
+    governsFund,
+    isLoading: resolving || isLoading,
     error,
   };
 }
 
-export function useVotingPower(governanceAddress?: string) {
+// FundGovernance weighs votes (and the proposal threshold) by the voter's share balance in
+// the proposal's target fund, so voting power is simply balanceOf on the selected fund
+export function useVotingPower(fundAddress?: string) {
+  const { chainId, contracts } = useDeployment();
   const { address } = useAccount();
-  const govAddr = (governanceAddress || CONTRACTS.FUND_GOVERNANCE) as `0x${string}`;
+  const fund = (fundAddress || contracts.INDEX_FUND) as `0x${string}`;
+  const { governanceAddress } = useFundGovernance(fund);
 
   const { data, isLoading, error } = useReadContract({
-    address: govAddr,
-    abi: parseAbi([
-      "function getVotingPower(address account) view returns (uint256)",
-    ]),
-    functionName: "getVotingPower",
+    address: fund,
+    abi: INDEX_FUND_ABI,
+    chainId,
+    functionName: "balanceOf",
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
 
   return {
-    votingPower: data as bigint | undefined,
-    governanceAddress: govAddr,
+    votingPower: data,
+    governanceAddress,
     isLoading,
     error,
   };
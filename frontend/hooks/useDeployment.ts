@@ -0,0 +1,22 @@
+"use client";
+
+import { useAccount, useChainId, useChains } from "wagmi";
+import { DEFAULT_DEPLOYMENT, getDeployment, type Deployment } from "@/lib/contracts";
+
+// Contract set for the active chain. Chains without a deployment fall back to the
+// default chain; callers pass `chainId` with every read so it never hits the wrong network.
+export function useDeployment(): Deployment {
+  const chainId = useChainId();
+  return getDeployment(chainId) ?? DEFAULT_DEPLOYMENT;
+}
+
+// Every configured chain that has a deployment to switch to
+export function useDeployedChains() {
+  return useChains().filter((chain) => !!getDeployment(chain.id));
+}
+
+// Connected wallet is on a chain without a deployment
+export function useIsWrongNetwork() {
+  const { isConnected, chainId } = useAccount();
+  return isConnected && (chainId === undefined || !getDeployment(chainId));
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useAccount, useBytecode, usePublicClient, useReadContracts, useSignTypedData } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { BaseError, UserRejectedRequestError, maxUint256, type Address } from "viem";
+import toast from "react-hot-toast";
+import { ERC20_ABI, ERC20_PERMIT_ABI } from "@/lib/abis";
+import { parseError } from "@/lib/errors";
+import {
+  PERMIT2_ADDRESS,
+  PERMIT2_TYPES,
+  PERMIT_TYPES,
+  isSignatureMethod,
+  permit2Domain,
+  permitDeadline,
+  permitDomain,
+  probeSignedEntryPoints,
+  randomPermit2Nonce,
+  splitPermitSignature,
+  type ApprovalMethod,
+  type SignedAction,
+  type SignedApproval,
+} from "@/lib/permits";
+import { useDeployment } from "./useDeployment";
+import { useAtomicBatching } from "./useTransaction";
+
+const isRejection = (error: unknown) =>
+  error instanceof BaseError && !!error.walk((e) => e instanceof UserRejectedRequestError);
+
+// How a deposit of `amount` `token` into `spender` gets its approval: an allowance that already
+// covers it, an approve batched with the deposit, an EIP-2612 permit, a Permit2 signature, or a
+// classic approve. Batching wins when the wallet supports it - smart wallets often can't produce
+// the ECDSA signature a permit needs. Signatures are only offered when `spender` actually has the
+// signed `action` entry points (older proxies don't until upgraded). The user can force the
+// classic path, and a wallet that can't sign, or a signed call that reverts, falls back to it.
+export function useDepositApproval(token: Address, spender: Address, amount: bigint, action: SignedAction) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const client = usePublicClient({ chainId });
+  const { signTypedDataAsync } = useSignTypedData();
+  const [preferApprove, setPreferApprove] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const canBatch = useAtomicBatching();
+
+  const erc20 = { address: token, abi: ERC20_ABI, chainId } as const;
+  const permitToken = { address: token, abi: ERC20_PERMIT_ABI, chainId } as const;
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      { ...erc20, functionName: "allowance", args: [address!, spender] },
+      { ...erc20, functionName: "allowance", args: [address!, PERMIT2_ADDRESS] },
+      { ...erc20, functionName: "name" },
+      { ...permitToken, functionName: "nonces", args: [address!] },
+      { ...permitToken, functionName: "DOMAIN_SEPARATOR" },
+      { ...permitToken, functionName: "version" },
+      { ...permitToken, functionName: "eip712Domain" },
+    ],
+    query: { enabled: !!address },
+  });
+  const { data: permit2Code } = useBytecode({ address: PERMIT2_ADDRESS, chainId });
+
+  const allowance = data?.[0]?.result;
+  const permit2Allowance = data?.[1]?.result;
+  const nonce = data?.[3]?.result;
+  const eip712 = data?.[6]?.result;
+  const domain = permitDomain(token, chainId, {
+    name: data?.[2]?.result,
+    nonce,
+    domainSeparator: data?.[4]?.result,
+    version: data?.[5]?.result,
+    eip712: eip712 ? { name: eip712[1], version: eip712[2] } : undefined,
+  });
+  const hasPermit2 = !!permit2Code && permit2Code !== "0x";
+
+  // Simulated through the proxy, so this reflects whatever implementation it currently runs
+  const { data: entryPoints } = useQuery({
+    queryKey: ["signedEntryPoints", chainId, spender, token, action, address],
+    queryFn: () => probeSignedEntryPoints(client!, action, spender, token, address!),
+    enabled: !!client && !!address,
+    staleTime: Infinity,
+  });
+  const supportsPermit = !!domain && !!entryPoints?.permit;
+  const supportsPermit2 = hasPermit2 && !!entryPoints?.permit2;
+
+  let method: ApprovalMethod;
+  if (allowance !== undefined && amount <= allowance) method = "allowance";
+  // An explicit or fallen-back approve wins even if batching support shows up afterwards
+  else if (preferApprove) method = "approve";
+  else if (canBatch) method = "batch";
+  else if (supportsPermit) method = "permit";
+  else if (supportsPermit2) method = permit2Allowance !== undefined && amount <= permit2Allowance ? "permit2" : "permit2-approve";
+  else method = "approve";
+
+  // Permit2 gets a standing approval; vaults only ever get the exact amount
+  const approveCall = {
+    ...erc20,
+    functionName: "approve",
+    args: method === "permit2-approve" ? ([PERMIT2_ADDRESS, maxUint256] as const) : ([spender, amount] as const),
+  } as const;
+
+  // Asks the wallet for the signature the deposit needs; undefined when it wasn't given
+  const authorize = useCallback(async (): Promise<SignedApproval | undefined> => {
+    if (!address || !client || !isSignatureMethod(method)) return undefined;
+    setIsSigning(true);
+    try {
+      const { timestamp } = await client.getBlock();
+      const deadline = permitDeadline(timestamp);
+
+      if (method === "permit") {
+        const signature = await signTypedDataAsync({
+          domain: domain!,
+          types: PERMIT_TYPES,
+          primaryType: "Permit",
+          message: { owner: address, spender, value: amount, nonce: nonce!, deadline },
+        });
+        return splitPermitSignature(signature, deadline);
+      }
+
+      const permit = { permitted: { token, amount }, nonce: randomPermit2Nonce(), deadline };
+      const signature = await signTypedDataAsync({
+        domain: permit2Domain(chainId),
+        types: PERMIT2_TYPES,
+        primaryType: "PermitTransferFrom",
+        message: { ...permit, spender },
+      });
+      return { method: "permit2", permit, signature };
+    } catch (error) {
+      if (isRejection(error)) {
+        toast.error("Signature rejected");
+      } else {
+        setPreferApprove(true);
+        const reason = error instanceof Error ? parseError(error) : String(error);
+        toast.error(`Couldn't sign the approval (${reason}) - switched to a classic approve`, { duration: 6000 });
+      }
+      return undefined;
+    } finally {
+      setIsSigning(false);
+    }
+  }, [address, client, method, domain, nonce, spender, amount, token, chainId, signTypedDataAsync]);
+
+  // onFailed for the signed deposit: anything but the user declining switches to a classic approve
+  const fallBackOnFailure = useCallback((error: unknown) => {
+    if (isRejection(error)) return;
+    setPreferApprove(true);
+    toast("Switched to a classic approve - try the deposit again", { duration: 6000 });
+  }, []);
+
+  return {
+    method,
+    approveCall,
+    authorize,
+    fallBackOnFailure,
+    isSigning,
+    // Classic approve is always available; switching back only matters if a signature path exists
+    canUseSignature: !canBatch && (supportsPermit || supportsPermit2),
+    preferApprove,
+    setPreferApprove,
+    isLoading,
+  };
+}
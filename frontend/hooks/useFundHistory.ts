@@ -0,0 +1,121 @@
+"use client";
+
+import { useMemo } from "react";
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, ContractFunctionParameters } from "viem";
+import { INDEX_FUND_ABI } from "@/lib/abis";
+import { one, UNITS, usdc6 } from "@/lib/amounts";
+import { computePerformance, startOfYear, type FundSnapshot, type PerformanceMetrics } from "@/lib/performance";
+import { estimateBlockAgo, mergeBlocks, readAtBlock, spreadBlocks } from "@/lib/sampling";
+import { useDeployment } from "./useDeployment";
+
+const DAY = 24 * 60 * 60;
+
+// Samples across the whole window, plus denser ones over the last week for the 7D return
+const WINDOW_SAMPLES = 40;
+const WEEK_SAMPLES = 12;
+
+// Share price, totalAssets and totalSupply of each fund sampled back far enough for 30D and
+// YTD returns, with the metrics derived from them. Reads at each block are shared by all funds.
+export function useFundsPerformance(funds: string[]) {
+  const { chainId, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+
+  const { data: history, isLoading, error } = useQuery({
+    queryKey: ["fundHistory", chainId, funds],
+    queryFn: async () => {
+      const latest = await client!.getBlock();
+      const now = Number(latest.timestamp);
+      // A day of slack so the first sample lands before the period starts
+      const seconds = Math.max(31 * DAY, now - startOfYear(now) + DAY);
+      const deployed = BigInt(startBlock);
+      const [windowStart, weekStart] = await Promise.all([
+        estimateBlockAgo(client!, latest, seconds),
+        estimateBlockAgo(client!, latest, 8 * DAY),
+      ]);
+      const clamp = (block: bigint) => (block > deployed ? block : deployed);
+
+      const blocks = mergeBlocks(
+        spreadBlocks(clamp(windowStart), latest.number, WINDOW_SAMPLES),
+        spreadBlocks(clamp(weekStart), latest.number, WEEK_SAMPLES)
+      );
+
+      const calls = funds.flatMap((fund) =>
+        (["convertToAssets", "totalAssets", "totalSupply"] as const).map(
+          (functionName) =>
+            ({
+              address: fund as Address,
+              abi: INDEX_FUND_ABI,
+              functionName,
+              args: functionName === "convertToAssets" ? [one(UNITS.WAD18)] : undefined,
+            }) as ContractFunctionParameters
+        )
+      );
+
+      const samples = await Promise.all(
+        blocks.map(async (blockNumber) => {
+          try {
+            const [block, results] = await Promise.all([
+              client!.getBlock({ blockNumber }),
+              readAtBlock(client!, calls, blockNumber),
+            ]);
+            return { blockNumber, timestamp: Number(block.timestamp), results };
+          } catch {
+            return undefined;
+          }
+        })
+      );
+
+      // Funds created after a sample simply have no reading there
+      const history: Record<string, FundSnapshot[]> = {};
+      funds.forEach((fund, index) => {
+        history[fund] = samples.flatMap((sample) => {
+          if (!sample) return [];
+          const [sharePrice, totalAssets, totalSupply] = sample.results.slice(index * 3, index * 3 + 3) as (
+            | bigint
+            | undefined
+          )[];
+          if (sharePrice === undefined || totalAssets === undefined || totalSupply === undefined) return [];
+          return [
+            {
+              blockNumber: sample.blockNumber,
+              timestamp: sample.timestamp,
+              sharePrice: usdc6(sharePrice),
+              totalAssets: usdc6(totalAssets),
+              totalSupply,
+            },
+          ];
+        });
+      });
+      return history;
+    },
+    enabled: !!client && funds.length > 0,
+    staleTime: 5 * 60_000,
+  });
+
+  const metrics = useMemo(() => {
+    const metrics: Record<string, PerformanceMetrics> = {};
+    for (const [fund, series] of Object.entries(history ?? {})) metrics[fund] = computePerformance(series);
+    return metrics;
+  }, [history]);
+
+  return {
+    history: history ?? {},
+    metrics,
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+export function useFundPerformance(fund: string | undefined) {
+  const funds = useMemo(() => (fund ? [fund] : []), [fund]);
+  const { history, metrics, isLoading, error } = useFundsPerformance(funds);
+
+  return {
+    history: fund ? (history[fund] ?? []) : [],
+    metrics: fund ? metrics[fund] : undefined,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useReadContract, useReadContracts } from "wagmi";
+import type { Address } from "viem";
+import { ERC20_ABI, FUND_FACTORY_ABI } from "@/lib/abis";
+import { useDeployment } from "./useDeployment";
+
+export interface FundEntry {
+  address: Address;
+  name: string;
+  symbol: string;
+}
+
+// Every fund listed by the factory, with its ERC-20 name and symbol
+export function useFundDirectory() {
+  const { chainId, contracts } = useDeployment();
+
+  const { data: fundsData, isLoading: fundsLoading } = useReadContract({
+    address: contracts.FUND_FACTORY as `0x${string}`,
+    abi: FUND_FACTORY_ABI,
+    chainId,
+    functionName: "getAllFunds",
+  });
+
+  const addresses = fundsData ?? [];
+
+  const { data: infoData, isLoading: infoLoading } = useReadContracts({
+    contracts: addresses.flatMap((address) => [
+      { address, abi: ERC20_ABI, chainId, functionName: "name" as const },
+      { address, abi: ERC20_ABI, chainId, functionName: "symbol" as const },
+    ]),
+    query: { enabled: addresses.length > 0 },
+  });
+
+  const funds: FundEntry[] = addresses.map((address, index) => ({
+    address,
+    name: (infoData?.[index * 2]?.result as string) || "Unknown",
+    symbol: (infoData?.[index * 2 + 1]?.result as string) || "???",
+  }));
+
+  return {
+    funds,
+    isLoading: fundsLoading || infoLoading,
+  };
+}
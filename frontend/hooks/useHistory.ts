@@ -0,0 +1,89 @@
+"use client";
+
+import { useAccount } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import {
+  INDEXER_URL,
+  fetchEvents,
+  fetchIndexedFunds,
+  fetchIndexerStatus,
+  type IndexedContractKind,
+} from "@/lib/indexer";
+import { useDeployment } from "./useDeployment";
+
+export const HISTORY_PRODUCTS = {
+  indexFund: { label: "Index Fund", kinds: ["indexFund"] },
+  lpVault: { label: "LP Vault", kinds: ["lpVault"] },
+  leveragedLong: { label: "ETH2X Long", kinds: ["leveragedLong"] },
+  leveragedShort: { label: "ETH2X Short", kinds: ["leveragedShort"] },
+  governance: { label: "Governance", kinds: ["governance"] },
+} satisfies Record<string, { label: string; kinds: IndexedContractKind[] }>;
+
+export const HISTORY_TYPES = {
+  mint: { label: "Mint", events: ["Minted"] },
+  redeem: { label: "Redeem", events: ["Redeemed"] },
+  deposit: { label: "Deposit", events: ["Deposit"] },
+  withdraw: { label: "Withdraw", events: ["Withdraw"] },
+  vote: { label: "Vote", events: ["VoteCast"] },
+  proposal: { label: "Proposal", events: ["ProposalCreated"] },
+} satisfies Record<string, { label: string; events: string[] }>;
+
+export type HistoryProduct = keyof typeof HISTORY_PRODUCTS;
+export type HistoryType = keyof typeof HISTORY_TYPES;
+
+interface HistoryOptions {
+  product?: HistoryProduct;
+  type?: HistoryType;
+  page: number;
+  pageSize: number;
+}
+
+// The connected account's mints, redeems, deposits, withdrawals, votes and proposals, newest first
+export function useAccountHistory({ product, type, page, pageSize }: HistoryOptions) {
+  const { address } = useAccount();
+  const { chainId } = useDeployment();
+  const isConfigured = !!INDEXER_URL;
+
+  const { data: status } = useQuery({
+    queryKey: ["indexer", "status"],
+    queryFn: fetchIndexerStatus,
+    enabled: isConfigured,
+    refetchInterval: 15_000,
+  });
+
+  // The indexer follows a single chain
+  const isWrongChain = !!status && status.chainId !== chainId;
+
+  const { data: funds } = useQuery({
+    queryKey: ["indexer", "funds", status?.chainId],
+    queryFn: fetchIndexedFunds,
+    enabled: isConfigured && !isWrongChain,
+  });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["indexer", "events", chainId, address, product, type, page, pageSize],
+    queryFn: () =>
+      fetchEvents({
+        account: address,
+        kinds: product ? HISTORY_PRODUCTS[product].kinds : undefined,
+        events: type
+          ? HISTORY_TYPES[type].events
+          : Object.values(HISTORY_TYPES).flatMap((t) => t.events),
+        // One extra row tells us whether there is a next page
+        limit: pageSize + 1,
+        offset: page * pageSize,
+      }),
+    enabled: isConfigured && !!address && !isWrongChain,
+  });
+
+  return {
+    events: data?.slice(0, pageSize) ?? [],
+    hasMore: (data?.length ?? 0) > pageSize,
+    funds: funds ?? [],
+    status,
+    isConfigured,
+    isWrongChain,
+    isLoading: isConfigured && !!address && !isWrongChain && isLoading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { usePublicClient, useReadContract, useReadContracts } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address } from "viem";
+import { ERC20_ABI, LEVERAGED_LONG_TOKEN_ABI, LEVERAGED_SHORT_TOKEN_ABI, UNISWAP_V3_QUOTER_V2_ABI } from "@/lib/abis";
+import { bps } from "@/lib/amounts";
+import { parseError } from "@/lib/errors";
+import {
+  getQuoterAddress,
+  oracleFill,
+  previewMintRedeem,
+  quotedFill,
+  swapLegFor,
+  type LeveragedTokenState,
+} from "@/lib/quotes";
+import type { LeverageType } from "./useContracts";
+import { useDeployment } from "./useDeployment";
+
+// Quotes are refreshed while the form stays open, so the preview tracks the pool
+const QUOTE_REFRESH_MS = 15_000;
+
+// Preview of `mint(amount)` (amount in USDC) or `redeem(amount)` (amount in shares), with the
+// Uniswap leg quoted through QuoterV2 at the token's pool fee
+export function useMintRedeemPreview(type: LeverageType, action: "mint" | "redeem", amount: bigint) {
+  const { chainId, contracts } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const tokenAddress = (type === "long" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT) as Address;
+  const abi = type === "long" ? LEVERAGED_LONG_TOKEN_ABI : LEVERAGED_SHORT_TOKEN_ABI;
+  const token = { address: tokenAddress, abi, chainId } as const;
+  const quoter = getQuoterAddress(chainId);
+
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      { ...token, functionName: "getStats" },
+      { ...token, functionName: "poolFee" },
+      { ...token, functionName: "slippageTolerance" },
+      { ...token, functionName: "testMode" },
+      { ...token, functionName: "leverageRatio" },
+      { ...token, functionName: "underlyingToken" },
+      { ...token, functionName: "stableToken" },
+      { ...token, functionName: "underlyingDecimals" },
+      { ...token, functionName: "stableDecimals" },
+      { ...token, functionName: "oracleDecimals" },
+    ],
+  });
+
+  const stats = data?.[0]?.result;
+  const poolFee = data?.[1]?.result;
+  const slippageTolerance = data?.[2]?.result;
+  const testMode = data?.[3]?.result;
+  const leverageRatio = data?.[4]?.result;
+  const underlyingToken = data?.[5]?.result;
+  const stableToken = data?.[6]?.result;
+  const underlyingDecimals = data?.[7]?.result;
+  const stableDecimals = data?.[8]?.result;
+  const oracleDecimals = data?.[9]?.result;
+
+  // The token's own stable asset, which need not be the deployment's USDC
+  const { data: stableBalance } = useReadContract({
+    address: stableToken,
+    abi: ERC20_ABI,
+    chainId,
+    functionName: "balanceOf",
+    args: [tokenAddress],
+    query: { enabled: !!stableToken },
+  });
+
+  // Failed reads leave a field undefined, which means no preview rather than one built on guesses
+  const state: LeveragedTokenState | undefined =
+    stats &&
+    leverageRatio !== undefined &&
+    underlyingDecimals !== undefined &&
+    stableDecimals !== undefined &&
+    oracleDecimals !== undefined &&
+    stableBalance !== undefined
+      ? {
+          nav: stats[0],
+          price: stats[1],
+          borrowed: stats[3],
+          held: stats[4],
+          supply: stats[5],
+          stableBalance,
+          leverageRatio,
+          underlyingDecimals,
+          stableDecimals,
+          oracleDecimals,
+        }
+      : undefined;
+
+  const leg = state ? swapLegFor(type, action, amount, state) : undefined;
+  const canQuote = !!leg && testMode === false && poolFee !== undefined && !!underlyingToken && !!stableToken;
+
+  const quote = useQuery({
+    queryKey: ["swapQuote", chainId, quoter, tokenAddress, leg?.side, leg?.kind, leg?.amount.toString(), poolFee],
+    queryFn: async () => {
+      if (!quoter) throw new Error(`No Uniswap V3 quoter known for chain ${chainId}`);
+      const [tokenIn, tokenOut] = leg!.side === "buy" ? [stableToken!, underlyingToken!] : [underlyingToken!, stableToken!];
+      const { result } =
+        leg!.kind === "exactInput"
+          ? await client!.simulateContract({
+              address: quoter,
+              abi: UNISWAP_V3_QUOTER_V2_ABI,
+              functionName: "quoteExactInputSingle",
+              args: [{ tokenIn, tokenOut, amountIn: leg!.amount, fee: poolFee!, sqrtPriceLimitX96: BigInt(0) }],
+            })
+          : await client!.simulateContract({
+              address: quoter,
+              abi: UNISWAP_V3_QUOTER_V2_ABI,
+              functionName: "quoteExactOutputSingle",
+              args: [{ tokenIn, tokenOut, amount: leg!.amount, fee: poolFee!, sqrtPriceLimitX96: BigInt(0) }],
+            });
+      return result[0];
+    },
+    enabled: canQuote && !!client,
+    refetchInterval: QUOTE_REFRESH_MS,
+    retry: false,
+  });
+
+  // Test mode fills at the oracle price; a failed quote falls back to it so the card still shows
+  // an estimate, flagged through `quoteError`
+  const quoted = canQuote && quote.data !== undefined && !quote.error;
+  const fill = leg && state ? (quoted ? quotedFill(leg, quote.data!) : oracleFill(leg, state)) : undefined;
+  const preview =
+    state && slippageTolerance !== undefined
+      ? previewMintRedeem(type, action, amount, state, fill, slippageTolerance)
+      : undefined;
+
+  return {
+    preview,
+    oraclePrice: state?.price,
+    leverageRatio: state ? bps(state.leverageRatio) : undefined,
+    oracleDecimals: state?.oracleDecimals,
+    stableDecimals: state?.stableDecimals,
+    poolFee,
+    slippageTolerance,
+    testMode,
+    source: quoted ? ("quoter" as const) : ("oracle" as const),
+    isQuoting: canQuote && quote.isFetching && !quoted,
+    quoteError: canQuote && quote.error ? parseError(quote.error) : undefined,
+    isLoading,
+  };
+}
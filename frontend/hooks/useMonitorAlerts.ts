@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { MONITOR_URL, fetchMonitorStatus } from "@/lib/monitor";
+import { useDeployment } from "./useDeployment";
+
+// Alert state from the health monitor; the monitor follows a single chain like the indexer
+export function useMonitorAlerts() {
+  const { chainId } = useDeployment();
+  const isConfigured = !!MONITOR_URL;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["monitor", "alerts"],
+    queryFn: fetchMonitorStatus,
+    enabled: isConfigured,
+    refetchInterval: 15_000,
+  });
+
+  return {
+    isConfigured,
+    status: data,
+    isWrongChain: !!data && data.chainId !== chainId,
+    isLoading: isConfigured && isLoading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, PublicClient } from "viem";
+import { LEVERAGED_LONG_TOKEN_ABI, LEVERAGED_SHORT_TOKEN_ABI } from "@/lib/abis";
+import {
+  applyBps,
+  bps,
+  maxAmount,
+  mulDiv,
+  price8,
+  ratioBps,
+  usdc6,
+  type BPS,
+  type PRICE8,
+  type USDC6,
+} from "@/lib/amounts";
+import { INDEXER_URL, fetchAllEvents, fetchIndexerStatus } from "@/lib/indexer";
+import { fetchPaged } from "@/lib/logs";
+import { estimateBlockAgo, spreadBlocks } from "@/lib/sampling";
+import type { LeverageType } from "./useContracts";
+import { useDeployment } from "./useDeployment";
+
+// Window length in seconds; All starts at the deployment
+export const NAV_RANGES = {
+  "1D": 86_400,
+  "1W": 7 * 86_400,
+  "1M": 30 * 86_400,
+  All: undefined,
+} satisfies Record<string, number | undefined>;
+
+export type NavRange = keyof typeof NAV_RANGES;
+
+// Blocks sampled across the window
+const SAMPLES = 40;
+
+export interface NavPoint {
+  timestamp: number;
+  // USDC per share
+  nav: USDC6;
+  // ETH/USD oracle price
+  price: PRICE8;
+  // What a static 2x position opened at the window start would be worth
+  ideal: USDC6;
+}
+
+export interface RebalanceMarker {
+  timestamp: number;
+  oldNav: USDC6;
+  newNav: USDC6;
+}
+
+async function rebalancesFromIndexer(chainId: number, token: Address, fromBlock: bigint) {
+  const status = await fetchIndexerStatus();
+  if (status.chainId !== chainId) return undefined;
+
+  const events = await fetchAllEvents({ contract: token, events: ["Rebalanced"], fromBlock: Number(fromBlock) });
+  return events.map((event) => ({
+    timestamp: Number(event.args.timestamp),
+    oldNav: usdc6(BigInt(event.args.oldNav as string)),
+    newNav: usdc6(BigInt(event.args.newNav as string)),
+  }));
+}
+
+async function rebalancesFromChain(client: PublicClient, token: Address, fromBlock: bigint) {
+  const logs = await fetchPaged(client, fromBlock, (page) =>
+    client.getContractEvents({ address: token, abi: LEVERAGED_LONG_TOKEN_ABI, eventName: "Rebalanced", ...page })
+  );
+  return logs.map((log) => ({
+    timestamp: Number(log.args.timestamp),
+    oldNav: usdc6(log.args.oldNav!),
+    newNav: usdc6(log.args.newNav!),
+  }));
+}
+
+// NAV per share and ETH price sampled over `range`, the Rebalanced events inside it and the
+// gap to an ideal static 2x position (volatility decay). Historical reads need an archive
+// node; samples that fail are dropped.
+export function useNavHistory(type: LeverageType, range: NavRange) {
+  const { chainId, contracts, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const token = (type === "long" ? contracts.ETH2X_LONG : contracts.ETH2X_SHORT) as Address;
+  const abi = type === "long" ? LEVERAGED_LONG_TOKEN_ABI : LEVERAGED_SHORT_TOKEN_ABI;
+  const leverage = bps(type === "long" ? 20000 : -20000);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["navHistory", chainId, token, range],
+    queryFn: async () => {
+      const latest = await client!.getBlock();
+      const seconds = NAV_RANGES[range];
+      const deployed = BigInt(startBlock);
+      const estimated = seconds === undefined ? deployed : await estimateBlockAgo(client!, latest, seconds);
+      const fromBlock = estimated > deployed ? estimated : deployed;
+
+      const blocks = spreadBlocks(fromBlock, latest.number, SAMPLES);
+
+      const samples = await Promise.all(
+        blocks.map(async (blockNumber) => {
+          try {
+            const [block, nav, price] = await Promise.all([
+              client!.getBlock({ blockNumber }),
+              client!.readContract({ address: token, abi, functionName: "getCurrentNav", blockNumber }),
+              client!.readContract({ address: token, abi, functionName: "getPrice", blockNumber }),
+            ]);
+            return { timestamp: Number(block.timestamp), nav: usdc6(nav), price: price8(price) };
+          } catch {
+            return undefined;
+          }
+        })
+      );
+
+      const rebalances =
+        (INDEXER_URL ? await rebalancesFromIndexer(chainId, token, fromBlock).catch(() => undefined) : undefined) ??
+        (await rebalancesFromChain(client!, token, fromBlock));
+
+      return { samples: samples.filter((s) => s !== undefined), rebalances };
+    },
+    enabled: !!client,
+    staleTime: 60_000,
+  });
+
+  const samples = data?.samples ?? [];
+  const first = samples[0];
+  const points: NavPoint[] = samples.map((sample) => {
+    if (!first || first.price === BigInt(0)) return { ...sample, ideal: sample.nav };
+    // The starting NAV moved by the leveraged ETH move, floored at zero
+    const move = usdc6(mulDiv(first.nav, sample.price - first.price, first.price));
+    return { ...sample, ideal: maxAmount(usdc6(first.nav + applyBps(move, leverage)), usdc6(BigInt(0))) };
+  });
+
+  const last = points[points.length - 1];
+  // Realized NAV against the ideal 2x path: negative means rebalancing cost the holder
+  const decay: BPS | undefined =
+    last && last.ideal > BigInt(0) ? ratioBps(last.nav - last.ideal, last.ideal, "nearest") : undefined;
+
+  return {
+    points,
+    rebalances: data?.rebalances ?? [],
+    decay,
+    isLoading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, Hash, PublicClient } from "viem";
+import { FUND_GOVERNANCE_ABI } from "@/lib/abis";
+import { bps, type BPS } from "@/lib/amounts";
+import { INDEXER_URL, fetchAllEvents, fetchIndexerStatus } from "@/lib/indexer";
+import { fetchPaged } from "@/lib/logs";
+import { useDeployment } from "./useDeployment";
+
+export interface ParameterChange {
+  votingPeriod: bigint;
+  quorumPercentage: BPS;
+  proposalThreshold: bigint;
+  blockNumber: bigint;
+  txHash: Hash;
+  // Block timestamp in seconds
+  timestamp: number;
+}
+
+async function changesFromIndexer(chainId: number, governance: Address): Promise<ParameterChange[] | undefined> {
+  const status = await fetchIndexerStatus();
+  if (status.chainId !== chainId) return undefined;
+
+  const events = await fetchAllEvents({ contract: governance, events: ["VotingParametersUpdated"] });
+  return events.map((event) => ({
+    votingPeriod: BigInt(event.args.votingPeriod as string),
+    quorumPercentage: bps(BigInt(event.args.quorumPercentage as string)),
+    proposalThreshold: BigInt(event.args.proposalThreshold as string),
+    blockNumber: BigInt(event.blockNumber),
+    txHash: event.txHash,
+    timestamp: event.timestamp,
+  }));
+}
+
+async function changesFromChain(client: PublicClient, governance: Address, fromBlock: bigint) {
+  const logs = await fetchPaged(client, fromBlock, (page) =>
+    client.getContractEvents({ address: governance, abi: FUND_GOVERNANCE_ABI, eventName: "VotingParametersUpdated", ...page })
+  );
+
+  // Parameter changes are rare, so one block lookup each is fine
+  return Promise.all(
+    logs.map(async (log) => ({
+      votingPeriod: log.args.votingPeriod!,
+      quorumPercentage: bps(log.args.quorumPercentage!),
+      proposalThreshold: log.args.proposalThreshold!,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      timestamp: Number((await client.getBlock({ blockNumber: log.blockNumber })).timestamp),
+    }))
+  );
+}
+
+// Every updateVotingParameters call on a governance contract, oldest first. Implementations
+// deployed before VotingParametersUpdated existed have no record of earlier changes.
+export function useParameterHistory(governanceAddress: string) {
+  const { chainId, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const governance = governanceAddress as Address;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["parameterHistory", chainId, governance],
+    queryFn: async () =>
+      (INDEXER_URL ? await changesFromIndexer(chainId, governance).catch(() => undefined) : undefined) ??
+      (await changesFromChain(client!, governance, BigInt(startBlock))),
+    enabled: !!client,
+    staleTime: 60_000,
+  });
+
+  return {
+    changes: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
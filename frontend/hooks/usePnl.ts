@@ -0,0 +1,120 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, PublicClient } from "viem";
+import { LEVERAGED_LONG_TOKEN_ABI } from "@/lib/abis";
+import { usdc6, wad18 } from "@/lib/amounts";
+import { INDEXER_URL, fetchAllEvents, fetchIndexerStatus } from "@/lib/indexer";
+import { fetchPaged } from "@/lib/logs";
+import { computePnl, type CostBasisMethod, type LeveragedTrade } from "@/lib/pnl";
+import {
+  useLeveragedTokenStats,
+  useLeveragedTokenUserPosition,
+  type LeverageType,
+} from "./useContracts";
+import { useDeployment } from "./useDeployment";
+
+// Minted / Redeemed are identical on both tokens apart from the last Minted field
+const abi = LEVERAGED_LONG_TOKEN_ABI;
+
+async function tradesFromIndexer(chainId: number, token: Address, user: Address) {
+  const status = await fetchIndexerStatus();
+  if (status.chainId !== chainId) return undefined;
+
+  const events = await fetchAllEvents({ account: user, contract: token, events: ["Minted", "Redeemed"] });
+  return events.map(
+    (event): LeveragedTrade => ({
+      type: event.eventName === "Minted" ? "mint" : "redeem",
+      blockNumber: BigInt(event.blockNumber),
+      logIndex: event.logIndex,
+      txHash: event.txHash,
+      shares: wad18(BigInt(event.args.shares as string)),
+      stable: usdc6(BigInt((event.eventName === "Minted" ? event.args.stableIn : event.args.stableReturned) as string)),
+    })
+  );
+}
+
+async function tradesFromChain(client: PublicClient, token: Address, user: Address, fromBlock: bigint) {
+  const [mints, redeems] = await Promise.all([
+    fetchPaged(client, fromBlock, (range) =>
+      client.getContractEvents({ address: token, abi, eventName: "Minted", args: { user }, ...range })
+    ),
+    fetchPaged(client, fromBlock, (range) =>
+      client.getContractEvents({ address: token, abi, eventName: "Redeemed", args: { user }, ...range })
+    ),
+  ]);
+
+  return [
+    ...mints.map((log) => ({
+      type: "mint" as const,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      txHash: log.transactionHash,
+      shares: wad18(log.args.shares!),
+      stable: usdc6(log.args.stableIn!),
+    })),
+    ...redeems.map((log) => ({
+      type: "redeem" as const,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      txHash: log.transactionHash,
+      shares: wad18(log.args.shares!),
+      stable: usdc6(log.args.stableReturned!),
+    })),
+  ];
+}
+
+// Realized / unrealized USDC PnL of the connected wallet's ETH2X or ETH-2X position.
+// Trades come from the indexer when it follows this chain, otherwise straight from logs.
+export function useLeveragedTokenPnl(type: LeverageType = "long", method: CostBasisMethod = "fifo") {
+  const { address } = useAccount();
+  const { chainId, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const { balance, tokenAddress, isLoading: balanceLoading } = useLeveragedTokenUserPosition(type);
+  const { currentNAV } = useLeveragedTokenStats(type);
+
+  const { data: trades, isLoading, error } = useQuery({
+    // The balance in the key refetches trades after every mint or redeem
+    queryKey: ["pnl", chainId, tokenAddress, address, balance?.toString()],
+    queryFn: async () => {
+      const token = tokenAddress as Address;
+      const user = address as Address;
+      const trades =
+        (INDEXER_URL ? await tradesFromIndexer(chainId, token, user).catch(() => undefined) : undefined) ??
+        (await tradesFromChain(client!, token, user, BigInt(startBlock)));
+
+      // NAV in each redeem's block prices its execution cost; needs an archive node on
+      // older blocks, so a failed read just leaves that trade out of `fees`
+      return Promise.all(
+        trades.map(async (trade) =>
+          trade.type === "mint"
+            ? trade
+            : {
+                ...trade,
+                nav: await client!
+                  .readContract({ address: token, abi, functionName: "getCurrentNav", blockNumber: trade.blockNumber })
+                  .then(usdc6, () => undefined),
+              }
+        )
+      );
+    },
+    enabled: !!address && !!client && balance !== undefined,
+    staleTime: 60_000,
+  });
+
+  const report = useMemo(
+    () =>
+      trades && balance !== undefined && currentNAV !== undefined
+        ? computePnl(trades, { method, balance, nav: currentNAV })
+        : undefined,
+    [trades, balance, currentNAV, method]
+  );
+
+  return {
+    report,
+    isLoading: balanceLoading || isLoading,
+    error: error as Error | null,
+  };
+}
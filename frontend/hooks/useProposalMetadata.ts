@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { Address } from "viem";
+import { metadataStore, verifyMetadata } from "@/lib/metadata";
+import type { Proposal } from "@/lib/proposals";
+import { useDeployment } from "./useDeployment";
+
+// Off-chain description for a proposal, checked against its on-chain action and proposer
+export function useProposalMetadata(governance: Address, proposal: Proposal) {
+  const { chainId } = useDeployment();
+  const client = usePublicClient({ chainId });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["proposalMetadata", chainId, governance, proposal.id.toString()],
+    queryFn: async () =>
+      verifyMetadata(client!, chainId, governance, proposal, await metadataStore.get(governance, proposal.id)),
+    enabled: !!client,
+    // Published descriptions never change, so only refetch while one is missing
+    staleTime: Infinity,
+    refetchInterval: (query) => (query.state.data?.status === "missing" ? 30_000 : false),
+  });
+
+  return { check: data, isLoading, error };
+}
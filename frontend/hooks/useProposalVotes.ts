@@ -0,0 +1,139 @@
+"use client";
+
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, Hash, PublicClient } from "viem";
+import { FUND_GOVERNANCE_ABI } from "@/lib/abis";
+import { INDEXER_URL, fetchAllEvents, fetchIndexerStatus } from "@/lib/indexer";
+import { fetchPaged } from "@/lib/logs";
+import { useDeployment } from "./useDeployment";
+
+export interface ProposalVote {
+  voter: Address;
+  support: boolean;
+  weight: bigint;
+  blockNumber: bigint;
+  txHash: Hash;
+  // Block timestamp in seconds; only known when read from the indexer
+  timestamp?: number;
+}
+
+export interface ProposalExecution {
+  txHash: Hash;
+  timestamp: number;
+}
+
+interface ProposalActivity {
+  votes: ProposalVote[];
+  execution?: ProposalExecution;
+}
+
+async function activityFromIndexer(
+  chainId: number,
+  governance: Address,
+  targetFund: Address,
+  proposalId: bigint
+): Promise<ProposalActivity | undefined> {
+  const status = await fetchIndexerStatus();
+  if (status.chainId !== chainId) return undefined;
+
+  // Governance events carry the proposal's target fund, which narrows the scan
+  const events = (
+    await fetchAllEvents({ contract: governance, fund: targetFund, events: ["VoteCast", "ProposalExecuted"] })
+  ).filter((event) => event.args.proposalId === proposalId.toString());
+
+  const executed = events.find((event) => event.eventName === "ProposalExecuted");
+  return {
+    votes: events
+      .filter((event) => event.eventName === "VoteCast")
+      .map((event) => ({
+        voter: event.args.voter as Address,
+        support: event.args.support as boolean,
+        weight: BigInt(event.args.weight as string),
+        blockNumber: BigInt(event.blockNumber),
+        txHash: event.txHash,
+        timestamp: event.timestamp,
+      })),
+    execution: executed && { txHash: executed.txHash, timestamp: executed.timestamp },
+  };
+}
+
+async function activityFromChain(
+  client: PublicClient,
+  governance: Address,
+  proposalId: bigint,
+  fromBlock: bigint
+): Promise<ProposalActivity> {
+  const [votes, executions] = await Promise.all([
+    fetchPaged(client, fromBlock, (page) =>
+      client.getContractEvents({
+        address: governance,
+        abi: FUND_GOVERNANCE_ABI,
+        eventName: "VoteCast",
+        args: { proposalId },
+        ...page,
+      })
+    ),
+    fetchPaged(
+      client,
+      fromBlock,
+      (page) =>
+        client.getContractEvents({
+          address: governance,
+          abi: FUND_GOVERNANCE_ABI,
+          eventName: "ProposalExecuted",
+          args: { proposalId },
+          ...page,
+        }),
+      // A proposal executes at most once
+      (found) => found.length > 0
+    ),
+  ]);
+
+  const executed = executions[0];
+  const executedBlock = executed && (await client.getBlock({ blockNumber: executed.blockNumber }));
+
+  return {
+    votes: votes.map((log) => ({
+      voter: log.args.voter!,
+      support: log.args.support!,
+      weight: log.args.weight!,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+    })),
+    execution: executed && { txHash: executed.transactionHash, timestamp: Number(executedBlock!.timestamp) },
+  };
+}
+
+// Every VoteCast for a proposal plus its execution, from the indexer when it follows this
+// chain, otherwise straight from logs. `refreshKey` refetches when the tallies change.
+export function useProposalVotes(
+  governanceAddress: string,
+  proposalId: bigint | undefined,
+  targetFund: string | undefined,
+  refreshKey?: string
+) {
+  const { chainId, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["proposalVotes", chainId, governanceAddress, proposalId?.toString(), refreshKey],
+    queryFn: async () => {
+      const governance = governanceAddress as Address;
+      return (
+        (INDEXER_URL
+          ? await activityFromIndexer(chainId, governance, targetFund as Address, proposalId!).catch(() => undefined)
+          : undefined) ?? (await activityFromChain(client!, governance, proposalId!, BigInt(startBlock)))
+      );
+    },
+    enabled: proposalId !== undefined && !!targetFund && !!client,
+    staleTime: 30_000,
+  });
+
+  return {
+    votes: data?.votes ?? [],
+    execution: data?.execution,
+    isLoading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useReadContract, useReadContracts } from "wagmi";
+import { FUND_GOVERNANCE_ABI } from "@/lib/abis";
+import type { Proposal } from "@/lib/proposals";
+import { useDeployment } from "./useDeployment";
+
+export interface ProposalWithStatus {
+  proposal: Proposal;
+  // On-chain getProposalStatus, which applies quorum and the voting window exactly
+  status: number;
+}
+
+// Every proposal on a governance contract, oldest first
+export function useProposals(governanceAddress: string) {
+  const { chainId } = useDeployment();
+  const governance = governanceAddress as `0x${string}`;
+
+  const { data: proposalCount, isLoading: countLoading } = useReadContract({
+    address: governance,
+    abi: FUND_GOVERNANCE_ABI,
+    chainId,
+    functionName: "proposalCount",
+  });
+
+  // IDs start at 1
+  const proposalIds = proposalCount
+    ? Array.from({ length: Number(proposalCount) }, (_, i) => BigInt(i + 1))
+    : [];
+
+  const { data, isLoading: proposalsLoading } = useReadContracts({
+    contracts: proposalIds.flatMap((id) => [
+      { address: governance, abi: FUND_GOVERNANCE_ABI, chainId, functionName: "getProposal" as const, args: [id] },
+      { address: governance, abi: FUND_GOVERNANCE_ABI, chainId, functionName: "getProposalStatus" as const, args: [id] },
+    ]),
+    query: { enabled: proposalIds.length > 0 },
+  });
+
+  const proposals = proposalIds
+    .map((_, i) => ({
+      proposal: data?.[i * 2]?.result as Proposal | undefined,
+      status: data?.[i * 2 + 1]?.result as number | undefined,
+    }))
+    .filter((p): p is ProposalWithStatus => p.proposal !== undefined && p.status !== undefined);
+
+  return {
+    proposals,
+    proposalCount,
+    isLoading: countLoading || proposalsLoading,
+  };
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useAccount, useSimulateContract, type UseSimulateContractParameters } from "wagmi";
+import { parseError } from "@/lib/errors";
+import type { ContractCall } from "@/lib/transactions";
+
+// Dry-runs a write from the connected account so a card can show the revert reason
+// next to its button before the wallet is ever opened. Pass undefined while the
+// form is incomplete.
+export function useSimulation(call: ContractCall | undefined) {
+  const { address } = useAccount();
+
+  const { error, isFetching } = useSimulateContract({
+    ...call,
+    account: address,
+    query: { enabled: !!call && !!address },
+  } as UseSimulateContractParameters);
+
+  return {
+    error: call && error ? parseError(error) : undefined,
+    isSimulating: isFetching,
+  };
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+import { usePublicClient, useReadContracts } from "wagmi";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getAddress, isAddress, type Address } from "viem";
+import { ERC20_ABI } from "@/lib/abis";
+import {
+  EMPTY_TOKEN_STORE,
+  addCustomToken,
+  addDiscoveredTokens,
+  addTokenList,
+  buildTokenIndex,
+  deploymentTokens,
+  loadTokenList,
+  readTokenStore,
+  removeCustomToken,
+  removeTokenList,
+  tokenKey,
+  unknownToken,
+  writeTokenStore,
+  type TokenInfo,
+  type TokenStore,
+} from "@/lib/tokens";
+import { useDeployment } from "./useDeployment";
+
+const STORE_QUERY_KEY = ["tokenRegistry"];
+
+// localStorage-backed registry state, shared through the query cache so every component
+// sees an added token or list straight away
+function useTokenStore() {
+  const queryClient = useQueryClient();
+  const { data: store = EMPTY_TOKEN_STORE } = useQuery({
+    queryKey: STORE_QUERY_KEY,
+    queryFn: readTokenStore,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+
+  const update = useCallback(
+    (change: (store: TokenStore) => TokenStore) => {
+      const next = change(queryClient.getQueryData<TokenStore>(STORE_QUERY_KEY) ?? readTokenStore());
+      writeTokenStore(next);
+      queryClient.setQueryData(STORE_QUERY_KEY, next);
+    },
+    [queryClient]
+  );
+
+  return { store, update };
+}
+
+function useTokenIndex() {
+  const deployment = useDeployment();
+  const { store, update } = useTokenStore();
+  const index = useMemo(
+    () => buildTokenIndex(deployment.chainId, deploymentTokens(deployment), store),
+    [deployment, store]
+  );
+  return { chainId: deployment.chainId, index, store, update };
+}
+
+// Metadata for `addresses` on the active chain. Addresses the registry doesn't know are read
+// from the token and cached; until then (or if the reads fail) they show as a short address.
+export function useTokens(addresses: string[]) {
+  const { chainId, index, update } = useTokenIndex();
+
+  const unknown = [...new Set(addresses.map((a) => a.toLowerCase()))].filter(
+    (a) => isAddress(a) && !index.has(tokenKey(chainId, a))
+  ) as Address[];
+
+  const { data, isLoading } = useReadContracts({
+    contracts: unknown.flatMap((address) => [
+      { address, abi: ERC20_ABI, chainId, functionName: "symbol" as const },
+      { address, abi: ERC20_ABI, chainId, functionName: "name" as const },
+      { address, abi: ERC20_ABI, chainId, functionName: "decimals" as const },
+    ]),
+    query: { enabled: unknown.length > 0 },
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    const found = unknown.flatMap((address, i): TokenInfo[] => {
+      const [symbol, name, decimals] = data.slice(i * 3, i * 3 + 3).map((r) => r?.result);
+      if (typeof symbol !== "string" || typeof decimals !== "number") return [];
+      const label = typeof name === "string" && name ? name : symbol;
+      return [{ chainId, address: getAddress(address), symbol, name: label, decimals, source: "chain" }];
+    });
+    if (found.length > 0) update((store) => addDiscoveredTokens(store, found));
+    // `unknown` comes from the same render as `data`
+  }, [data, chainId, update]);
+
+  const tokenOf = useCallback(
+    (address: string) => index.get(tokenKey(chainId, address)) ?? unknownToken(chainId, address),
+    [chainId, index]
+  );
+
+  return { tokenOf, isLoading: unknown.length > 0 && isLoading };
+}
+
+// Symbol lookup for `addresses`, falling back to a shortened address
+export function useTokenSymbols(addresses: string[]) {
+  const { tokenOf } = useTokens(addresses);
+  return (address: string) => tokenOf(address).symbol;
+}
+
+// Token pickers and the token manager: everything selectable on the active chain, plus the
+// user's imported lists and custom tokens
+export function useTokenRegistry() {
+  const { chainId, index, store, update } = useTokenIndex();
+  const client = usePublicClient({ chainId });
+
+  // Tokens only seen on-chain (fund shares, history) stay out of the pickers
+  const tokens = [...index.values()].filter((token) => token.source !== "chain");
+  const customTokens = store.custom.filter((token) => token.chainId === chainId);
+
+  const addToken = useCallback(
+    async (input: string): Promise<TokenInfo> => {
+      if (!isAddress(input.trim(), { strict: false })) throw new Error("Not a valid token address");
+      if (!client) throw new Error(`No RPC client for chain ${chainId}`);
+      const address = getAddress(input.trim());
+      const read = <F extends "symbol" | "name" | "decimals">(functionName: F) =>
+        client.readContract({ address, abi: ERC20_ABI, functionName });
+
+      let token: TokenInfo;
+      try {
+        const [symbol, name, decimals] = await Promise.all([read("symbol"), read("name"), read("decimals")]);
+        token = { chainId, address, symbol, name: name || symbol, decimals, source: "custom" };
+      } catch {
+        throw new Error("Address is not an ERC-20 token on this network");
+      }
+      update((s) => addCustomToken(s, token));
+      return token;
+    },
+    [client, chainId, update]
+  );
+
+  const removeToken = useCallback(
+    (address: string) => update((s) => removeCustomToken(s, { chainId, address: address as Address })),
+    [chainId, update]
+  );
+
+  const importList = useCallback(
+    async (source: string) => {
+      const list = await loadTokenList(source);
+      update((s) => addTokenList(s, list));
+      return list;
+    },
+    [update]
+  );
+
+  const removeList = useCallback((id: string) => update((s) => removeTokenList(s, id)), [update]);
+
+  return {
+    chainId,
+    tokens,
+    lists: store.lists,
+    customTokens,
+    addToken,
+    removeToken,
+    importList,
+    removeList,
+  };
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useCallback, useContext, useState } from "react";
+import { useAccount, useCapabilities } from "wagmi";
+import {
+  TransactionContext,
+  IN_FLIGHT_STATUSES,
+  createTransactionId,
+  supportsAtomicBatch,
+  type SendBatch,
+  type SendTransaction,
+} from "@/lib/transactions";
+import { useDeployment } from "./useDeployment";
+
+export function useTransactionManager() {
+  const manager = useContext(TransactionContext);
+  if (!manager) {
+    throw new Error("useTransactionManager must be used inside <TransactionProvider>");
+  }
+  return manager;
+}
+
+// One action on a card (approve, mint, pause...). Tracks the latest transaction it sent.
+export function useTransaction() {
+  const { send: sendTransaction, sendBatch: sendTransactionBatch, transactions } = useTransactionManager();
+  const [id, setId] = useState<string>();
+  // A sequential batch is several transactions; the card stays busy until the last one settles
+  const [isBatching, setIsBatching] = useState(false);
+
+  const send = useCallback<SendTransaction>(
+    (call, options) => {
+      const txId = createTransactionId();
+      setId(txId);
+      return sendTransaction(call, { ...options, id: txId });
+    },
+    [sendTransaction]
+  );
+
+  const sendBatch = useCallback<SendBatch>(
+    async (steps, options) => {
+      const txId = createTransactionId();
+      setId(txId);
+      setIsBatching(true);
+      try {
+        return await sendTransactionBatch(steps, { ...options, id: txId });
+      } finally {
+        setIsBatching(false);
+      }
+    },
+    [sendTransactionBatch]
+  );
+
+  const transaction = transactions.find((tx) => tx.id === id);
+
+  return {
+    send,
+    sendBatch,
+    transaction,
+    status: transaction?.status,
+    hash: transaction?.hash,
+    isLoading: isBatching || (!!transaction && IN_FLIGHT_STATUSES.includes(transaction.status)),
+  };
+}
+
+// Whether the connected wallet can send an atomic EIP-5792 bundle on the deployment's chain
+export function useAtomicBatching() {
+  const { chainId } = useDeployment();
+  const { isConnected } = useAccount();
+  const { data } = useCapabilities({ chainId, query: { enabled: isConnected, retry: false } });
+  return supportsAtomicBatch(data);
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useAccount, usePublicClient, useReadContracts } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { zeroAddress, type Address, type PublicClient } from "viem";
+import { FUND_GOVERNANCE_ABI, INDEX_FUND_ABI, VOTES_ABI } from "@/lib/abis";
+import { INDEXER_URL, fetchAllEvents, fetchIndexerStatus } from "@/lib/indexer";
+import { fetchPaged } from "@/lib/logs";
+import { readAtBlock } from "@/lib/sampling";
+import { useDeployment } from "./useDeployment";
+
+export interface VotingSnapshot {
+  // Proposals snapshot the state at the end of the block before the one that created them,
+  // so shares bought in the proposal's own block don't count
+  blockNumber: bigint;
+  // "votes" = ERC-5805 getPastVotes (delegation aware), "balance" = share balance at the block
+  source: "votes" | "balance";
+  // Keyed by lowercased address; undefined where the historical read failed (no archive node)
+  power: Record<string, bigint | undefined>;
+}
+
+interface SnapshotProposal {
+  id: bigint;
+  targetFund: Address;
+  startTime: bigint;
+}
+
+async function createdBlockFromIndexer(chainId: number, governance: Address, proposal: SnapshotProposal) {
+  const status = await fetchIndexerStatus();
+  if (status.chainId !== chainId) return undefined;
+
+  const events = await fetchAllEvents({ contract: governance, fund: proposal.targetFund, events: ["ProposalCreated"] });
+  const created = events.find((event) => event.args.proposalId === proposal.id.toString());
+  return created && BigInt(created.blockNumber);
+}
+
+async function createdBlockFromChain(client: PublicClient, governance: Address, proposalId: bigint, fromBlock: bigint) {
+  const [created] = await fetchPaged(
+    client,
+    fromBlock,
+    (range) =>
+      client.getContractEvents({
+        address: governance,
+        abi: FUND_GOVERNANCE_ABI,
+        eventName: "ProposalCreated",
+        args: { proposalId },
+        ...range,
+      }),
+    (found) => found.length > 0
+  );
+  return created?.blockNumber;
+}
+
+// Whether the fund's shares are ERC-5805 votes - plain ERC-20s revert on delegates()
+async function supportsVotes(client: PublicClient, fund: Address) {
+  return client
+    .readContract({ address: fund, abi: VOTES_ABI, functionName: "delegates", args: [zeroAddress] })
+    .then(() => true)
+    .catch(() => false);
+}
+
+// Voting power of `accounts` at a proposal's snapshot. FundGovernance itself counts live
+// balances at vote time, so this is what the UI compares votes against to spot shares that
+// moved between wallets after the proposal was created.
+export function useProposalSnapshot(
+  governanceAddress: string,
+  proposal: SnapshotProposal | undefined,
+  accounts: Address[]
+) {
+  const { chainId, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const governance = governanceAddress as Address;
+
+  const { data: createdBlock } = useQuery({
+    queryKey: ["proposalCreatedBlock", chainId, governance, proposal?.id.toString()],
+    queryFn: async () =>
+      (INDEXER_URL
+        ? await createdBlockFromIndexer(chainId, governance, proposal!).catch(() => undefined)
+        : undefined) ?? (await createdBlockFromChain(client!, governance, proposal!.id, BigInt(startBlock))) ?? null,
+    enabled: !!proposal && !!client,
+    staleTime: Infinity,
+  });
+
+  const unique = [...new Set(accounts.map((account) => account.toLowerCase() as Address))].sort();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["proposalSnapshot", chainId, governance, proposal?.id.toString(), createdBlock?.toString(), unique],
+    queryFn: async (): Promise<VotingSnapshot> => {
+      const fund = proposal!.targetFund;
+      const blockNumber = createdBlock! - BigInt(1);
+      const useVotes = await supportsVotes(client!, fund);
+
+      let values: unknown[];
+      if (useVotes) {
+        // ERC-6372: timestamp-clocked tokens take a time, block-clocked ones a block number
+        const mode = await client!
+          .readContract({ address: fund, abi: VOTES_ABI, functionName: "CLOCK_MODE" })
+          .catch(() => "mode=blocknumber&from=default");
+        const timepoint = mode.includes("mode=timestamp") ? proposal!.startTime - BigInt(1) : blockNumber;
+        values = await Promise.all(
+          unique.map((account) =>
+            client!
+              .readContract({ address: fund, abi: VOTES_ABI, functionName: "getPastVotes", args: [account, timepoint] })
+              .catch(() => undefined)
+          )
+        );
+      } else {
+        values = await readAtBlock(
+          client!,
+          unique.map((account) => ({ address: fund, abi: INDEX_FUND_ABI, functionName: "balanceOf", args: [account] })),
+          blockNumber
+        );
+      }
+
+      return {
+        blockNumber,
+        source: useVotes ? "votes" : "balance",
+        power: Object.fromEntries(unique.map((account, i) => [account, values[i] as bigint | undefined])),
+      };
+    },
+    enabled: !!proposal && !!client && !!createdBlock && unique.length > 0,
+    staleTime: Infinity,
+  });
+
+  return {
+    snapshot: data,
+    // Null once we know the creation event couldn't be found
+    createdBlock,
+    powerOf: (account: string | undefined) => (account ? data?.power[account.toLowerCase()] : undefined),
+    isLoading: createdBlock === undefined || isLoading,
+    error: error as Error | null,
+  };
+}
+
+// ERC-5805 delegation state of the connected account on `fundAddress`; `supportsDelegation`
+// is false for plain ERC-20 shares, in which case the other fields stay undefined
+export function useFundDelegation(fundAddress: string) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const fund = fundAddress as Address;
+  const account = address ?? zeroAddress;
+
+  const { data, isLoading } = useReadContracts({
+    contracts: [
+      { address: fund, abi: VOTES_ABI, chainId, functionName: "delegates", args: [account] },
+      { address: fund, abi: VOTES_ABI, chainId, functionName: "getVotes", args: [account] },
+      { address: fund, abi: INDEX_FUND_ABI, chainId, functionName: "balanceOf", args: [account] },
+    ],
+  });
+
+  const supportsDelegation = data?.[0]?.status === "success";
+  const delegate = supportsDelegation ? (data[0].result as Address) : undefined;
+
+  return {
+    supportsDelegation,
+    delegate: delegate === zeroAddress ? undefined : delegate,
+    // Everything delegated to the account, its own shares included once self-delegated
+    votes: supportsDelegation ? (data?.[1]?.result as bigint | undefined) : undefined,
+    balance: data?.[2]?.result as bigint | undefined,
+    isLoading,
+  };
+}
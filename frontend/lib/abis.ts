@@ -1,188 +1,78 @@
-// ============================================
-// INDEX FUND MODULE
-// ============================================
-
-export const INDEX_FUND_ABI = [
-  // ERC-4626 Standard
-  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
-  "function withdraw(uint256 assets, address receiver, address owner) returns (uint256 shares)",
-  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
-  "function mint(uint256 shares, address receiver) returns (uint256 assets)",
-
-  // View functions
-  "function balanceOf(address account) view returns (uint256)",
-  "function totalAssets() view returns (uint256)",
-  "function totalSupply() view returns (uint256)",
-  "function convertToShares(uint256 assets) view returns (uint256)",
-  "function convertToAssets(uint256 shares) view returns (uint256)",
-
-  // Index Fund specific
-  "function getAllocations() view returns (address[] tokens, uint256[] weights)",
-  "function getTokens() view returns (address[])",
-  "function managementFeeRate() view returns (uint256)",
-  "function lastFeeCollection() view returns (uint256)",
-  "function accruedFees() view returns (uint256)",
-
-  // Owner functions
-  "function collectFees() external",
-  "function setAllocations(address[] tokens, uint256[] weights) external",
-  "function rebalance() external",
-] as const;
-
-export const FUND_FACTORY_ABI = [
-  "function getAllFunds() view returns (address[])",
-  "function getFundCount() view returns (uint256)",
-  "function isFund(address) view returns (bool)",
-  "function owner() view returns (address)",
-] as const;
-
-// For createFund - uses struct, need JSON ABI
-export const FUND_FACTORY_CREATE_ABI = [
-  {
-    name: "createFund",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "name", type: "string" },
-      { name: "symbol", type: "string" },
-      { name: "asset", type: "address" },
-      {
-        name: "allocations",
-        type: "tuple[]",
-        components: [
-          { name: "token", type: "address" },
-          { name: "targetPercentage", type: "uint256" },
-        ],
-      },
-      { name: "managementFee", type: "uint256" },
-    ],
-    outputs: [{ name: "fund", type: "address" }],
-  },
-] as const;
-
-export const FUND_GOVERNANCE_ABI = [
-  // Proposal management
-  "function propose(string description, bytes calldata) returns (uint256 proposalId)",
-  "function vote(uint256 proposalId, bool support) external",
-  "function execute(uint256 proposalId) external",
-  "function cancel(uint256 proposalId) external",
-
-  // View functions
-  "function getProposal(uint256 proposalId) view returns (uint256 id, string description, address proposer, uint256 forVotes, uint256 againstVotes, uint256 startTime, uint256 endTime, bool executed, bool canceled)",
-  "function getProposalCount() view returns (uint256)",
-  "function hasVoted(uint256 proposalId, address account) view returns (bool)",
-  "function getVotingPower(address account) view returns (uint256)",
-
-  // Parameters
-  "function votingPeriod() view returns (uint256)",
-  "function quorumPercent() view returns (uint256)",
-  "function proposalThreshold() view returns (uint256)",
-] as const;
+import { parseAbi } from "viem";
 
 // ============================================
-// LEVERAGED ETF MODULE
+// PROTOCOL CONTRACTS
 // ============================================
-
-export const LP_VAULT_ABI = [
-  // ERC-4626 Standard
-  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
-  "function withdraw(uint256 assets, address receiver, address owner) returns (uint256 shares)",
-  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
-
-  // View functions
-  "function balanceOf(address account) view returns (uint256)",
-  "function totalAssets() view returns (uint256)",
-  "function totalSupply() view returns (uint256)",
-  "function convertToShares(uint256 assets) view returns (uint256)",
-  "function convertToAssets(uint256 shares) view returns (uint256)",
-
-  // LP Vault specific
-  "function totalBorrowed() view returns (uint256)",
-  "function availableLiquidity() view returns (uint256)",
-  "function utilizationRate() view returns (uint256)",
-  "function interestRate() view returns (uint256)",
-
-  // Pausable
-  "function paused() view returns (bool)",
-  "function pause() external",
-  "function unpause() external",
-] as const;
-
-export const LEVERAGED_LONG_TOKEN_ABI = [
-  // Core functions
-  "function mint(uint256 stableAmount) returns (uint256 shares)",
-  "function redeem(uint256 shares) returns (uint256 stableReturned)",
-
-  // View functions
-  "function balanceOf(address account) view returns (uint256)",
-  "function totalSupply() view returns (uint256)",
-  "function getCurrentNav() view returns (uint256)",
-  "function getPrice() view returns (uint256)",
-  "function getStats() view returns (uint256 currentNav, uint256 price, uint256 collateral, uint256 borrowed, uint256 underlyingHeld, uint256 supply)",
-
-  // State variables
-  "function leverageRatio() view returns (uint256)",
-  "function totalCollateral() view returns (uint256)",
-  "function totalBorrowed() view returns (uint256)",
-  "function totalUnderlying() view returns (uint256)",
-  "function navPerShare() view returns (uint256)",
-  "function lastRebalanceTime() view returns (uint256)",
-  "function lastRebalancePrice() view returns (uint256)",
-  "function slippageTolerance() view returns (uint256)",
-
-  // Rebalancing
-  "function needsRebalance() view returns (bool)",
-  "function rebalance() external",
-  "function forceRebalance() external",
-
-  // Pausable
-  "function paused() view returns (bool)",
-  "function pause() external",
-  "function unpause() external",
-] as const;
-
-export const LEVERAGED_SHORT_TOKEN_ABI = [
-  // Core functions
-  "function mint(uint256 stableAmount) returns (uint256 shares)",
-  "function redeem(uint256 shares) returns (uint256 stableReturned)",
-
-  // View functions
-  "function balanceOf(address account) view returns (uint256)",
-  "function totalSupply() view returns (uint256)",
-  "function getCurrentNav() view returns (uint256)",
-  "function getPrice() view returns (uint256)",
-  "function getStats() view returns (uint256 currentNav, uint256 price, uint256 collateral, uint256 borrowed, uint256 stableHeld, uint256 supply)",
-
-  // State variables
-  "function leverageRatio() view returns (uint256)",
-  "function totalCollateral() view returns (uint256)",
-  "function totalBorrowed() view returns (uint256)",
-  "function totalStableHeld() view returns (uint256)",
-  "function navPerShare() view returns (uint256)",
-  "function lastRebalanceTime() view returns (uint256)",
-  "function lastRebalancePrice() view returns (uint256)",
-  "function slippageTolerance() view returns (uint256)",
-
-  // Rebalancing
-  "function needsRebalance() view returns (bool)",
-  "function rebalance() external",
-  "function forceRebalance() external",
-
-  // Pausable
-  "function paused() view returns (bool)",
-  "function pause() external",
-  "function unpause() external",
-] as const;
+// Generated from the Foundry artifacts - see scripts/generate-abis.ts
+
+export {
+  INDEX_FUND_ABI,
+  FUND_FACTORY_ABI,
+  FUND_GOVERNANCE_ABI,
+  LP_VAULT_ABI,
+  LEVERAGED_LONG_TOKEN_ABI,
+  LEVERAGED_SHORT_TOKEN_ABI,
+} from "./generated/abis";
+
+// Mirrors IFundGovernance.ProposalType / ProposalStatus (uint8 on the wire)
+export const ProposalType = {
+  CreateFund: 0,
+  DelistFund: 1,
+  UpdateAllocations: 2,
+} as const;
+
+export const ProposalStatus = {
+  Pending: 0,
+  Active: 1,
+  Defeated: 2,
+  Succeeded: 3,
+  Executed: 4,
+  Cancelled: 5,
+} as const;
 
 // ============================================
-// ERC-20 (for approvals)
+// EXTERNAL CONTRACTS
 // ============================================
 
-export const ERC20_ABI = [
+export const ERC20_ABI = parseAbi([
   "function approve(address spender, uint256 amount) returns (bool)",
   "function allowance(address owner, address spender) view returns (uint256)",
   "function balanceOf(address account) view returns (uint256)",
   "function decimals() view returns (uint8)",
   "function symbol() view returns (string)",
   "function name() view returns (string)",
-] as const;
+]);
+
+// EIP-2612 permit plus the getters needed to rebuild the token's EIP-712 domain. version()
+// and eip712Domain() (EIP-5267) are optional - probe them and expect failures.
+export const ERC20_PERMIT_ABI = parseAbi([
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function version() view returns (string)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+]);
+
+// ERC-5805 voting shares (OpenZeppelin ERC20Votes). The current IndexFund doesn't implement it,
+// so delegation features are gated on a probe of delegates().
+export const VOTES_ABI = parseAbi([
+  "function delegates(address account) view returns (address)",
+  "function getVotes(address account) view returns (uint256)",
+  "function getPastVotes(address account, uint256 timepoint) view returns (uint256)",
+  "function delegate(address delegatee)",
+  "function CLOCK_MODE() view returns (string)",
+]);
+
+export const CHAINLINK_AGGREGATOR_ABI = parseAbi([
+  "function latestAnswer() view returns (int256)",
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+]);
+
+// Uniswap V3 QuoterV2. The quote functions aren't view (they revert with the result
+// internally), so they are called through simulateContract.
+export const UNISWAP_V3_QUOTER_V2_ABI = parseAbi([
+  "struct QuoteExactInputSingleParams { address tokenIn; address tokenOut; uint256 amountIn; uint24 fee; uint160 sqrtPriceLimitX96; }",
+  "struct QuoteExactOutputSingleParams { address tokenIn; address tokenOut; uint256 amount; uint24 fee; uint160 sqrtPriceLimitX96; }",
+  "function quoteExactInputSingle(QuoteExactInputSingleParams params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactOutputSingle(QuoteExactOutputSingleParams params) returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+]);
@@ -0,0 +1,192 @@
+import { parseUnits } from "viem";
+
+// Token amounts, prices and rates as bigints in the contracts' own base units. The unit is a
+// compile-time brand only, so mixing a 6-decimal USDC amount with an 18-decimal share count is
+// a type error instead of a silent 1e12 mistake. Convert to a float only to plot a chart.
+
+declare const unitBrand: unique symbol;
+
+export type UnitName = "USDC6" | "WAD18" | "BPS" | "PRICE8";
+
+export type Amount<U extends UnitName> = bigint & { readonly [unitBrand]: U };
+
+// USDC and the leveraged tokens' NAV per share
+export type USDC6 = Amount<"USDC6">;
+// 18-decimal tokens: WETH, leveraged token shares
+export type WAD18 = Amount<"WAD18">;
+// Basis points, 10000 = 100%
+export type BPS = Amount<"BPS">;
+// Chainlink USD price
+export type PRICE8 = Amount<"PRICE8">;
+
+export interface Unit<U extends UnitName = UnitName> {
+  name: U;
+  decimals: number;
+}
+
+export const UNITS: { [U in UnitName]: Unit<U> } = {
+  USDC6: { name: "USDC6", decimals: 6 },
+  WAD18: { name: "WAD18", decimals: 18 },
+  BPS: { name: "BPS", decimals: 4 },
+  PRICE8: { name: "PRICE8", decimals: 8 },
+};
+
+export type Rounding = "down" | "up" | "nearest";
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+const pow10 = (decimals: number) => TEN ** BigInt(decimals);
+
+// ============================================
+// CONSTRUCTORS
+// ============================================
+
+export const usdc6 = (value: bigint) => value as USDC6;
+export const wad18 = (value: bigint) => value as WAD18;
+export const bps = (value: bigint | number) => BigInt(value) as BPS;
+export const price8 = (value: bigint) => value as PRICE8;
+
+// One whole token in base units (1e6 for USDC6, 1e18 for WAD18)
+export const one = <U extends UnitName>(unit: Unit<U>) => pow10(unit.decimals) as Amount<U>;
+
+// User input to base units; undefined for anything that isn't a plain non-negative decimal.
+// Digits past the unit's precision are cut off. Takes plain decimals for tokens whose
+// precision is read on-chain, like index fund shares.
+export function parseAmount<U extends UnitName>(value: string, unit: Unit<U>): Amount<U> | undefined;
+export function parseAmount(value: string, decimals: number): bigint | undefined;
+export function parseAmount(value: string, unit: Unit | number): bigint | undefined {
+  const decimals = typeof unit === "number" ? unit : unit.decimals;
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === "" || trimmed === ".") return undefined;
+  const [whole, fraction = ""] = trimmed.split(".");
+  return parseUnits(`${whole || "0"}.${fraction.slice(0, decimals) || "0"}`, decimals);
+}
+
+// ============================================
+// ARITHMETIC
+// ============================================
+
+// a × b / denominator; "down" truncates toward zero, "up" rounds away from it and "nearest"
+// rounds half away from zero
+export function mulDiv(a: bigint, b: bigint, denominator: bigint, rounding: Rounding = "down"): bigint {
+  if (denominator === ZERO) throw new RangeError("mulDiv by zero");
+  const product = a * b;
+  const quotient = product / denominator;
+  const remainder = product % denominator;
+  if (remainder === ZERO || rounding === "down") return quotient;
+
+  const away = product < ZERO !== denominator < ZERO ? quotient - ONE : quotient + ONE;
+  if (rounding === "up") return away;
+
+  const abs = (value: bigint) => (value < ZERO ? -value : value);
+  return abs(remainder) * TWO >= abs(denominator) ? away : quotient;
+}
+
+// Same value in another unit's precision, e.g. a PRICE8 dollar figure as USDC6
+export function rescale<U extends UnitName, V extends UnitName>(
+  amount: Amount<U>,
+  from: Unit<U>,
+  to: Unit<V>,
+  rounding: Rounding = "down"
+): Amount<V> {
+  if (to.decimals >= from.decimals) return (amount * pow10(to.decimals - from.decimals)) as Amount<V>;
+  return mulDiv(amount, ONE, pow10(from.decimals - to.decimals), rounding) as Amount<V>;
+}
+
+// Value of `quantity` tokens (`decimals` base units each) at `price` per whole token. The result
+// is in the price's unit: shares × NAV gives USDC6, WETH × oracle price gives PRICE8.
+export function valueAt<P extends UnitName>(
+  quantity: bigint,
+  decimals: number,
+  price: Amount<P>,
+  rounding: Rounding = "down"
+): Amount<P> {
+  return mulDiv(quantity, price, pow10(decimals), rounding) as Amount<P>;
+}
+
+// How many whole-token-priced units `value` buys, in `decimals` base units (the inverse of valueAt)
+export function quantityAt<P extends UnitName>(
+  value: Amount<P>,
+  price: Amount<P>,
+  decimals: number,
+  rounding: Rounding = "down"
+): bigint {
+  return price === ZERO ? ZERO : mulDiv(value, pow10(decimals), price, rounding);
+}
+
+// Price of one whole share from a price read for 1e18 share units (convertToAssets(1e18)),
+// which keeps precision for shares with fewer than 18 decimals
+export function perWholeShare<P extends UnitName>(pricePerWad: Amount<P>, shareDecimals: number): Amount<P> {
+  return mulDiv(pricePerWad, pow10(shareDecimals), pow10(UNITS.WAD18.decimals)) as Amount<P>;
+}
+
+export function applyBps<U extends UnitName>(amount: Amount<U>, rate: BPS, rounding: Rounding = "down"): Amount<U> {
+  return mulDiv(amount, rate, pow10(UNITS.BPS.decimals), rounding) as Amount<U>;
+}
+
+// part / whole in basis points; zero when whole is zero
+export function ratioBps(part: bigint, whole: bigint, rounding: Rounding = "down"): BPS {
+  return (whole === ZERO ? ZERO : mulDiv(part, pow10(UNITS.BPS.decimals), whole, rounding)) as BPS;
+}
+
+export const minAmount = <T extends bigint>(a: T, b: T): T => (a < b ? a : b);
+export const maxAmount = <T extends bigint>(a: T, b: T): T => (a > b ? a : b);
+
+// Lossy; for chart coordinates and statistics only, never for amounts that get displayed or sent
+export function toNumber(amount: bigint, decimals: number): number {
+  const scale = pow10(decimals);
+  return Number(amount / scale) + Number(amount % scale) / Number(scale);
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export interface FormatOptions {
+  // Fraction digits shown for values of at least 1 (or of at least 10^-maxDecimals when smaller)
+  maxDecimals?: number;
+  minDecimals?: number;
+  // Values too small to show at maxDecimals get this many significant digits, up to the full precision
+  smallSignificant?: number;
+  rounding?: Rounding;
+}
+
+function groupThousands(digits: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
+
+// Exact decimal string for a base-unit amount, e.g. formatAmount(1234567890n, 6) === "1,234.5679"
+export function formatAmount(amount: bigint, decimals: number, options: FormatOptions = {}): string {
+  const { maxDecimals = 4, minDecimals = 0, smallSignificant = 2, rounding = "nearest" } = options;
+  const negative = amount < ZERO;
+  const absolute = negative ? -amount : amount;
+
+  let shown = Math.min(maxDecimals, decimals);
+  // Extend the precision until a tiny value shows its first significant digits
+  if (absolute > ZERO && absolute < pow10(decimals - shown)) {
+    const leadingZeros = decimals - absolute.toString().length;
+    shown = Math.min(leadingZeros + smallSignificant, decimals);
+  }
+
+  const rounded = mulDiv(absolute, ONE, pow10(decimals - shown), rounding);
+  const digits = rounded.toString().padStart(shown + 1, "0");
+  const whole = digits.slice(0, digits.length - shown);
+  let fraction = shown > 0 ? digits.slice(-shown) : "";
+  while (fraction.length > minDecimals && fraction.endsWith("0")) fraction = fraction.slice(0, -1);
+
+  const sign = negative && rounded > ZERO ? "-" : "";
+  return `${sign}${groupThousands(whole)}${fraction ? `.${fraction}` : ""}`;
+}
+
+// "$1,234.56"; sub-cent values keep two significant digits
+export function formatUsdAmount<U extends UnitName>(amount: Amount<U>, unit: Unit<U>): string {
+  const formatted = formatAmount(amount, unit.decimals, { maxDecimals: 2, minDecimals: 2, smallSignificant: 2 });
+  return formatted.startsWith("-") ? `-$${formatted.slice(1)}` : `$${formatted}`;
+}
+
+// 1234 bps -> "12.34%"
+export function formatBps(rate: BPS | bigint, decimals: number = 2): string {
+  return `${formatAmount(rate, 2, { maxDecimals: decimals, minDecimals: decimals, smallSignificant: 0 })}%`;
+}
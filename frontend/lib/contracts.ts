@@ -1,24 +1,31 @@
-export const CONTRACTS = {
-  // Infrastructure
-  WETH: "0x4200000000000000000000000000000000000006",
-  USDC: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-  UNISWAP_V3_ROUTER: "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4",
-  ETH_USD_ORACLE: "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1",
-
-  // Leveraged ETF Module - Long (ETH2X)
-  // LP Vault holds USDC - lent to long traders
-  LP_VAULT_LONG: "0x2c26Fe218a4D5e1005F3bFcad32d0CD532815541",
-  ETH2X_LONG: "0x033fEEE7b57C933DbC84951B2D4d23Cd56cA7E63",
-
-  // Leveraged ETF Module - Short (ETH-2X)
-  // LP Vault holds WETH - lent to short traders
-  LP_VAULT_SHORT: "0x14e7AEE94cf718e814B198d738130e8d74706Db7",
-  ETH2X_SHORT: "0x19993f40e9FdbA91d131Fc70d29f90208aCBf98a",
-
-  // Index Fund Module (from deployments/base-sepolia.json)
-  INDEX_FUND: "0x3CBD0581E6874881943b83E199eca6E23834EbC8",
-  FUND_FACTORY: "0xdD1420408aB6434c1d18496d473D6832bECf3E3d",
-  FUND_GOVERNANCE: "0x5844B167953b185EE5396a1bE284445071F2EC0D",
-} as const;
-
-export const CHAIN_ID = 84532; // Base Sepolia
+import { DEPLOYMENTS } from "./generated/deployments";
+import type { Deployment } from "./deployments";
+
+export type { Deployment, ContractName } from "./deployments";
+
+// Addresses come from contracts/deployments + contracts/broadcast via
+// scripts/generate-deployments.ts - redeploy, then `npm run deployments:generate`.
+const REGISTRY: Record<number, Deployment> = DEPLOYMENTS;
+
+export const DEFAULT_CHAIN_ID = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID || 84532); // Base Sepolia
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(REGISTRY).map(Number);
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  return REGISTRY[chainId];
+}
+
+function getDefaultDeployment(): Deployment {
+  const deployment = getDeployment(DEFAULT_CHAIN_ID);
+  if (!deployment) {
+    throw new Error(
+      `No deployment for default chain ${DEFAULT_CHAIN_ID} (have: ${SUPPORTED_CHAIN_IDS.join(", ") || "none"})`
+    );
+  }
+  return deployment;
+}
+
+export const DEFAULT_DEPLOYMENT = getDefaultDeployment();
+
+// Addresses on the default chain
+export const CONTRACTS = DEFAULT_DEPLOYMENT.contracts;
@@ -0,0 +1,32 @@
+import type { Address } from "viem";
+
+// Every address the frontend needs for a chain. The generator refuses to emit a
+// deployment that is missing any of these.
+export const CONTRACT_NAMES = [
+  // Infrastructure
+  "WETH",
+  "USDC",
+  "UNISWAP_V3_ROUTER",
+  "ETH_USD_ORACLE",
+
+  // Leveraged ETF Module
+  "LP_VAULT_LONG",
+  "ETH2X_LONG",
+  "LP_VAULT_SHORT",
+  "ETH2X_SHORT",
+
+  // Index Fund Module
+  "INDEX_FUND",
+  "FUND_FACTORY",
+  "FUND_GOVERNANCE",
+] as const;
+
+export type ContractName = (typeof CONTRACT_NAMES)[number];
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  // Earliest block containing one of the deployment transactions (0 when unknown)
+  startBlock: number;
+  contracts: Record<ContractName, Address>;
+}
@@ -0,0 +1,128 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  type Abi,
+  type Hex,
+} from "viem";
+import {
+  INDEX_FUND_ABI,
+  FUND_FACTORY_ABI,
+  FUND_GOVERNANCE_ABI,
+  LP_VAULT_ABI,
+  LEVERAGED_LONG_TOKEN_ABI,
+  LEVERAGED_SHORT_TOKEN_ABI,
+} from "@/lib/abis";
+
+// Every custom error declared by the protocol contracts, deduplicated by signature.
+// A revert often comes from a contract other than the one called (LPVault.borrow
+// inside a mint, the router inside a rebalance), so decoding against the callee's
+// ABI alone is not enough.
+const ERROR_REGISTRY: Abi = Array.from(
+  new Map(
+    [
+      ...INDEX_FUND_ABI,
+      ...FUND_FACTORY_ABI,
+      ...FUND_GOVERNANCE_ABI,
+      ...LP_VAULT_ABI,
+      ...LEVERAGED_LONG_TOKEN_ABI,
+      ...LEVERAGED_SHORT_TOKEN_ABI,
+    ]
+      .filter((item) => item.type === "error")
+      .map((item) => [`${item.name}(${item.inputs.map((input) => input.type).join(",")})`, item])
+  ).values()
+);
+
+// Human readable messages for the errors users actually run into
+const ERROR_MESSAGES: Record<string, (args: readonly unknown[]) => string> = {
+  Error: ([reason]) => `Reverted: ${reason}`,
+  Panic: ([code]) => `Reverted with panic code ${code}`,
+  EnforcedPause: () => "Contract is paused",
+  ExpectedPause: () => "Contract is not paused",
+  OwnableUnauthorizedAccount: () => "Only the contract owner can do this",
+  ERC20InsufficientBalance: () => "Insufficient token balance",
+  ERC20InsufficientAllowance: () => "Insufficient allowance - approve the token first",
+  ERC4626ExceededMaxDeposit: () => "Deposit exceeds the vault limit",
+  ERC4626ExceededMaxMint: () => "Mint exceeds the vault limit",
+  ERC4626ExceededMaxWithdraw: () => "Withdrawal exceeds your available balance",
+  ERC4626ExceededMaxRedeem: () => "Redemption exceeds your share balance",
+  ReentrancyGuardReentrantCall: () => "Reentrant call blocked",
+  SafeERC20FailedOperation: () => "Token transfer failed",
+  FailedCall: () => "External call failed",
+};
+
+function describeError(errorName: string, args: readonly unknown[] = []): string {
+  return ERROR_MESSAGES[errorName]?.(args) ?? `Contract error: ${errorName}`;
+}
+
+// Decodes raw revert data against the registry. Error(string) and Panic(uint256)
+// are handled by viem itself.
+export function decodeRevertData(data: Hex): string | undefined {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: ERROR_REGISTRY, data });
+    return describeError(errorName, args);
+  } catch {
+    return undefined;
+  }
+}
+
+// Turns wallet / RPC / revert errors into a short message for toasts
+export function parseError(error: Error): string {
+  // Viem BaseError
+  if (error instanceof BaseError) {
+    // Contract revert
+    const revertError = error.walk((err) => err instanceof ContractFunctionRevertedError);
+    if (revertError instanceof ContractFunctionRevertedError) {
+      if (revertError.data?.errorName) {
+        return describeError(revertError.data.errorName, revertError.data.args);
+      }
+      const decoded = revertError.raw && decodeRevertData(revertError.raw);
+      if (decoded) return decoded;
+      if (revertError.reason) return `Reverted: ${revertError.reason}`;
+      return revertError.shortMessage || "Contract execution reverted";
+    }
+
+    // User rejected
+    if (error.shortMessage?.includes("User rejected")) {
+      return "Transaction rejected by user";
+    }
+
+    // Insufficient funds
+    if (error.shortMessage?.includes("insufficient funds")) {
+      return "Insufficient funds for transaction";
+    }
+
+    return error.shortMessage || error.message;
+  }
+
+  // Generic error
+  if (error.message) {
+    // Clean up common error messages
+    if (error.message.includes("User rejected")) {
+      return "Transaction rejected by user";
+    }
+    if (error.message.includes("insufficient funds")) {
+      return "Insufficient funds for transaction";
+    }
+    if (error.message.includes("execution reverted")) {
+      // Try to extract revert reason
+      const match = error.message.match(/reason="([^"]+)"/);
+      if (match) {
+        return `Reverted: ${match[1]}`;
+      }
+      const match2 = error.message.match(/reverted with reason string '([^']+)'/);
+      if (match2) {
+        return `Reverted: ${match2[1]}`;
+      }
+      return "Transaction reverted";
+    }
+
+    // Truncate long messages
+    if (error.message.length > 100) {
+      return error.message.slice(0, 100) + "...";
+    }
+    return error.message;
+  }
+
+  return "Transaction failed";
+}
@@ -0,0 +1,25 @@
+// This file is generated by scripts/generate-deployments.ts from contracts/deployments and contracts/broadcast.
+// Do not edit by hand - run `npm run deployments:generate` after a deploy script.
+
+import type { Deployment } from "../deployments";
+
+export const DEPLOYMENTS = {
+  "84532": {
+    "chainId": 84532,
+    "network": "base-sepolia",
+    "startBlock": 34738289,
+    "contracts": {
+      "WETH": "0x4200000000000000000000000000000000000006",
+      "USDC": "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      "UNISWAP_V3_ROUTER": "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4",
+      "ETH_USD_ORACLE": "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1",
+      "LP_VAULT_LONG": "0x2c26Fe218a4D5e1005F3bFcad32d0CD532815541",
+      "ETH2X_LONG": "0x033fEEE7b57C933DbC84951B2D4d23Cd56cA7E63",
+      "LP_VAULT_SHORT": "0x14e7AEE94cf718e814B198d738130e8d74706Db7",
+      "ETH2X_SHORT": "0x19993f40e9FdbA91d131Fc70d29f90208aCBf98a",
+      "INDEX_FUND": "0x3CBD0581E6874881943b83E199eca6E23834EbC8",
+      "FUND_FACTORY": "0xdD1420408aB6434c1d18496d473D6832bECf3E3d",
+      "FUND_GOVERNANCE": "0x5844B167953b185EE5396a1bE284445071F2EC0D"
+    }
+  }
+} as const satisfies Record<number, Deployment>;
@@ -0,0 +1,146 @@
+import type { Address, Hash, Hex } from "viem";
+
+// Base URL of the event indexer in indexer/ - history features are hidden when unset
+export const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL?.replace(/\/$/, "");
+
+// Mirrors the contract kinds the indexer tags every event with
+export type IndexedContractKind =
+  | "factory"
+  | "governance"
+  | "indexFund"
+  | "lpVault"
+  | "leveragedLong"
+  | "leveragedShort";
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: Hash;
+  txHash: Hash;
+  logIndex: number;
+  // Block timestamp in seconds
+  timestamp: number;
+  contract: Address;
+  contractKind: IndexedContractKind;
+  eventName: string;
+  account: Address | null;
+  fund: Address | null;
+  // uint256 values arrive as decimal strings
+  args: Record<string, string | number | boolean>;
+}
+
+export interface IndexedFund {
+  address: Address;
+  name: string;
+  symbol: string;
+  asset: Address;
+  createdBlock: number;
+  removedBlock: number | null;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  head: number | null;
+  lastBlock: number | null;
+  lastError: string | null;
+}
+
+export interface IndexedProposalMetadata {
+  governance: Address;
+  // Decimal proposal id
+  proposalId: string;
+  proposalHash: Hex;
+  contentHash: Hex;
+  description: string;
+  signature: Hex;
+  // Unix seconds
+  createdAt: number;
+}
+
+export interface EventQuery {
+  account?: Address;
+  fund?: Address;
+  contract?: Address;
+  kinds?: IndexedContractKind[];
+  events?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+  offset?: number;
+  order?: "asc" | "desc";
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  if (!INDEXER_URL) throw new Error("NEXT_PUBLIC_INDEXER_URL is not set");
+
+  const res = await fetch(`${INDEXER_URL}${path}`, init);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error ?? `Indexer request failed (${res.status})`);
+  return body as T;
+}
+
+function get<T>(path: string): Promise<T> {
+  return request(path);
+}
+
+export function fetchIndexerStatus(): Promise<IndexerStatus> {
+  return get("/status");
+}
+
+export async function fetchIndexedFunds(): Promise<IndexedFund[]> {
+  return (await get<{ funds: IndexedFund[] }>("/funds")).funds;
+}
+
+export async function fetchEvents(query: EventQuery): Promise<IndexedEvent[]> {
+  const params = new URLSearchParams();
+  if (query.account) params.set("account", query.account);
+  if (query.fund) params.set("fund", query.fund);
+  if (query.contract) params.set("contract", query.contract);
+  if (query.kinds?.length) params.set("kind", query.kinds.join(","));
+  if (query.events?.length) params.set("event", query.events.join(","));
+  if (query.fromBlock !== undefined) params.set("fromBlock", String(query.fromBlock));
+  if (query.toBlock !== undefined) params.set("toBlock", String(query.toBlock));
+  if (query.limit !== undefined) params.set("limit", String(query.limit));
+  if (query.offset !== undefined) params.set("offset", String(query.offset));
+  if (query.order) params.set("order", query.order);
+
+  return (await get<{ events: IndexedEvent[] }>(`/events?${params}`)).events;
+}
+
+// Pages through every matching event, oldest first
+export async function fetchAllEvents(query: Omit<EventQuery, "limit" | "offset" | "order">): Promise<IndexedEvent[]> {
+  const pageSize = 1000;
+  const events: IndexedEvent[] = [];
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await fetchEvents({ ...query, order: "asc", limit: pageSize, offset });
+    events.push(...page);
+    if (page.length < pageSize) return events;
+  }
+}
+
+// Null when nothing has been published for the proposal
+export async function fetchProposalMetadata(
+  governance: Address,
+  proposalId: bigint
+): Promise<IndexedProposalMetadata | null> {
+  if (!INDEXER_URL) throw new Error("NEXT_PUBLIC_INDEXER_URL is not set");
+
+  const res = await fetch(`${INDEXER_URL}/metadata/${governance}/${proposalId}`);
+  if (res.status === 404) return null;
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error ?? `Indexer request failed (${res.status})`);
+  return body.metadata;
+}
+
+export async function publishProposalMetadata(
+  governance: Address,
+  proposalId: bigint,
+  description: string,
+  signature: Hex
+): Promise<IndexedProposalMetadata> {
+  const body = await request<{ metadata: IndexedProposalMetadata }>(`/metadata/${governance}/${proposalId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ description, signature }),
+  });
+  return body.metadata;
+}
@@ -0,0 +1,37 @@
+import type { PublicClient } from "viem";
+import { isRangeLimitError } from "./rpc";
+
+// Public RPCs cap eth_getLogs by block range or result count, so history is read in pages the
+// way the indexer backfills: start at PAGE_BLOCKS, halve on a range-limit error, grow back after.
+const PAGE_BLOCKS = BigInt(2000);
+
+// Runs `fetchPage` over [fromBlock, latest] in consecutive ranges and concatenates the results,
+// stopping early once `done` is satisfied with what has been found so far
+export async function fetchPaged<T>(
+  client: Pick<PublicClient, "getBlockNumber">,
+  fromBlock: bigint,
+  fetchPage: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<T[]>,
+  done?: (results: T[]) => boolean
+): Promise<T[]> {
+  const head = await client.getBlockNumber();
+  const results: T[] = [];
+  let span = PAGE_BLOCKS;
+  let next = fromBlock;
+
+  while (next <= head && !done?.(results)) {
+    const toBlock = next + span - BigInt(1) < head ? next + span - BigInt(1) : head;
+    try {
+      results.push(...(await fetchPage({ fromBlock: next, toBlock })));
+    } catch (error) {
+      if (isRangeLimitError(error) && toBlock > next) {
+        span = span / BigInt(2) || BigInt(1);
+        continue;
+      }
+      throw error;
+    }
+    next = toBlock + BigInt(1);
+    span = span * BigInt(2) < PAGE_BLOCKS ? span * BigInt(2) : PAGE_BLOCKS;
+  }
+
+  return results;
+}
@@ -0,0 +1,126 @@
+import { encodeAbiParameters, keccak256, stringToBytes, type Address, type Hex, type PublicClient } from "viem";
+import { INDEXER_URL, fetchProposalMetadata, publishProposalMetadata } from "./indexer";
+import type { Proposal } from "./proposals";
+
+// Proposals carry no description on-chain. The Markdown rationale lives in a content store keyed
+// by governance contract and proposal id, signed by the proposer over a hash of exactly what the
+// proposal executes. Stores are untrusted, so every read re-checks the signature against the chain.
+
+export interface ProposalMetadata {
+  // keccak256 of the proposal's (targetFund, proposalType, proposalData)
+  proposalHash: Hex;
+  // keccak256 of the UTF-8 description
+  contentHash: Hex;
+  description: string;
+  // Proposer's EIP-712 signature, see metadataTypedData
+  signature: Hex;
+}
+
+export interface MetadataStore {
+  // Null when nothing has been published for the proposal
+  get(governance: Address, proposalId: bigint): Promise<ProposalMetadata | null>;
+  put(governance: Address, proposalId: bigint, metadata: ProposalMetadata): Promise<void>;
+}
+
+export type MetadataCheck =
+  | { status: "verified"; description: string }
+  | { status: "missing" }
+  | { status: "mismatch"; reason: string };
+
+// Binds the description to the target fund, the action type and its parameters, so it can't
+// be reused for a proposal that does something else
+export function proposalHash(targetFund: Address, proposalType: number, proposalData: Hex): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint8" }, { type: "bytes" }],
+      [targetFund, proposalType, proposalData]
+    )
+  );
+}
+
+export function contentHash(description: string): Hex {
+  return keccak256(stringToBytes(description));
+}
+
+// What the proposer signs. The governance contract and chain are in the domain and the id in the
+// message, so a signature only ever covers one proposal. The indexer mirrors this to check posts.
+export function metadataTypedData(
+  chainId: number,
+  governance: Address,
+  proposalId: bigint,
+  metadata: Pick<ProposalMetadata, "proposalHash" | "contentHash">
+) {
+  return {
+    domain: { name: "Proposal Metadata", version: "1", chainId, verifyingContract: governance },
+    types: {
+      ProposalMetadata: [
+        { name: "proposalId", type: "uint256" },
+        { name: "proposalHash", type: "bytes32" },
+        { name: "contentHash", type: "bytes32" },
+      ],
+    },
+    primaryType: "ProposalMetadata",
+    message: { proposalId, proposalHash: metadata.proposalHash, contentHash: metadata.contentHash },
+  } as const;
+}
+
+// Valid only if the description hashes to the signed content hash, the signed action hash is the
+// on-chain proposal's, and the signature is the on-chain proposer's (EOA or ERC-1271 contract)
+export async function verifyMetadata(
+  client: Pick<PublicClient, "verifyTypedData">,
+  chainId: number,
+  governance: Address,
+  proposal: Proposal,
+  metadata: ProposalMetadata | null
+): Promise<MetadataCheck> {
+  if (!metadata) return { status: "missing" };
+  const expectedHash = proposalHash(proposal.targetFund, proposal.proposalType, proposal.proposalData);
+  if (metadata.proposalHash.toLowerCase() !== expectedHash.toLowerCase()) {
+    return { status: "mismatch", reason: "Description was signed for a different action" };
+  }
+  if (metadata.contentHash.toLowerCase() !== contentHash(metadata.description)) {
+    return { status: "mismatch", reason: "Description doesn't match its signed content hash" };
+  }
+  const signedByProposer = await client
+    .verifyTypedData({
+      address: proposal.proposer,
+      ...metadataTypedData(chainId, governance, proposal.id, { proposalHash: expectedHash, contentHash: metadata.contentHash }),
+      signature: metadata.signature,
+    })
+    .catch(() => false);
+  if (!signedByProposer) {
+    return { status: "mismatch", reason: "Description isn't signed by the proposer" };
+  }
+  return { status: "verified", description: metadata.description };
+}
+
+const indexerStore: MetadataStore = {
+  get: fetchProposalMetadata,
+  put: async (governance, proposalId, metadata) => {
+    await publishProposalMetadata(governance, proposalId, metadata.description, metadata.signature);
+  },
+};
+
+const STORAGE_PREFIX = "proposal-metadata:";
+const storageKey = (governance: Address, proposalId: bigint) =>
+  `${STORAGE_PREFIX}${governance.toLowerCase()}:${proposalId}`;
+
+// Browser-only fallback for local development without the indexer
+const localStore: MetadataStore = {
+  get: async (governance, proposalId) => {
+    const stored = window.localStorage.getItem(storageKey(governance, proposalId));
+    return stored ? (JSON.parse(stored) as ProposalMetadata) : null;
+  },
+  put: async (governance, proposalId, metadata) => {
+    const key = storageKey(governance, proposalId);
+    const existing = window.localStorage.getItem(key);
+    if (existing && (JSON.parse(existing) as ProposalMetadata).contentHash !== metadata.contentHash) {
+      throw new Error("A different description is already stored for this proposal");
+    }
+    window.localStorage.setItem(key, JSON.stringify(metadata));
+  },
+};
+
+export const metadataStore: MetadataStore = INDEXER_URL ? indexerStore : localStore;
+
+export const isSharedMetadataStore = !!INDEXER_URL;
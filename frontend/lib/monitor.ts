@@ -0,0 +1,42 @@
+import type { Address } from "viem";
+
+// Base URL of the health monitor in keeper/src/monitor - the admin alert panel is hidden when unset
+export const MONITOR_URL = process.env.NEXT_PUBLIC_MONITOR_URL?.replace(/\/$/, "");
+
+export type MonitorRule = "utilization" | "leverage" | "oracle" | "paused" | "rebalance";
+
+export interface MonitorAlert {
+  key: string;
+  rule: MonitorRule;
+  severity: "warning" | "critical";
+  contract: Address;
+  message: string;
+  // Unix milliseconds
+  firstSeenAt: number;
+  lastSeenAt: number;
+  notifiedAt: number;
+}
+
+export interface MonitorAlertEvent {
+  type: "firing" | "resolved";
+  alert: MonitorAlert;
+  at: number;
+}
+
+export interface MonitorStatus {
+  chainId: number;
+  checkedAt: number | null;
+  rules: MonitorRule[];
+  ruleErrors: Partial<Record<MonitorRule, string>>;
+  active: MonitorAlert[];
+  recent: MonitorAlertEvent[];
+}
+
+export async function fetchMonitorStatus(): Promise<MonitorStatus> {
+  if (!MONITOR_URL) throw new Error("NEXT_PUBLIC_MONITOR_URL is not set");
+
+  const res = await fetch(`${MONITOR_URL}/alerts`);
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error ?? `Monitor request failed (${res.status})`);
+  return body as MonitorStatus;
+}
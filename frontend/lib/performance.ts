@@ -0,0 +1,105 @@
+// Performance metrics over a sampled share-price series. Returns are ratios, so the share
+// price can be in any unit as long as it is consistent across the series.
+
+import type { USDC6 } from "./amounts";
+
+const YEAR = 365 * 24 * 60 * 60;
+const DAY = 24 * 60 * 60;
+
+export interface FundSnapshot {
+  blockNumber: bigint;
+  timestamp: number;
+  // Assets per 1e18 shares
+  sharePrice: USDC6;
+  totalAssets: USDC6;
+  totalSupply: bigint;
+}
+
+// Percentages (5 = 5%); undefined when the history doesn't cover the period
+export interface PerformanceMetrics {
+  return7d: number | undefined;
+  return30d: number | undefined;
+  returnYtd: number | undefined;
+  maxDrawdown: number | undefined;
+  volatility: number | undefined;
+  // Annualized log return over volatility, zero risk-free rate
+  sharpe: number | undefined;
+}
+
+export const PERFORMANCE_LABELS: Record<keyof PerformanceMetrics, string> = {
+  return7d: "7D",
+  return30d: "30D",
+  returnYtd: "YTD",
+  maxDrawdown: "Max Drawdown",
+  volatility: "Volatility",
+  sharpe: "Sharpe",
+};
+
+export function formatPerformance(key: keyof PerformanceMetrics, value: number | undefined): string {
+  if (value === undefined) return "-";
+  if (key === "sharpe") return value.toFixed(2);
+  if (key === "maxDrawdown") return `-${value.toFixed(2)}%`;
+  if (key === "volatility") return `${value.toFixed(2)}%`;
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+// Start of the current year in UTC, in seconds
+export function startOfYear(now: number): number {
+  return Date.UTC(new Date(now * 1000).getUTCFullYear(), 0, 1) / 1000;
+}
+
+// Return since `since`, priced from the last sample at or before it
+function returnSince(series: FundSnapshot[], since: number): number | undefined {
+  const last = series[series.length - 1];
+  const base = series.filter((s) => s.timestamp <= since).pop();
+  if (!last || !base || base.sharePrice === BigInt(0)) return undefined;
+  return (Number(last.sharePrice) / Number(base.sharePrice) - 1) * 100;
+}
+
+function maxDrawdown(series: FundSnapshot[]): number | undefined {
+  if (series.length < 2) return undefined;
+  let peak = 0;
+  let worst = 0;
+  for (const { sharePrice } of series) {
+    const price = Number(sharePrice);
+    peak = Math.max(peak, price);
+    if (peak > 0) worst = Math.max(worst, 1 - price / peak);
+  }
+  return worst * 100;
+}
+
+// Log returns scaled by sqrt(dt) so unevenly spaced samples contribute equally per unit time
+function logReturns(series: FundSnapshot[]) {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const dt = series[i].timestamp - series[i - 1].timestamp;
+    const prev = Number(series[i - 1].sharePrice);
+    const next = Number(series[i].sharePrice);
+    if (dt > 0 && prev > 0 && next > 0) returns.push(Math.log(next / prev) / Math.sqrt(dt));
+  }
+  return returns;
+}
+
+export function computePerformance(series: FundSnapshot[], now = Math.floor(Date.now() / 1000)): PerformanceMetrics {
+  const returns = logReturns(series);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const volatility = returns.length >= 2 ? Math.sqrt(variance * YEAR) : undefined;
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const elapsed = first && last ? last.timestamp - first.timestamp : 0;
+  const drift =
+    elapsed > 0 && first.sharePrice > BigInt(0) && last.sharePrice > BigInt(0)
+      ? (Math.log(Number(last.sharePrice) / Number(first.sharePrice)) / elapsed) * YEAR
+      : undefined;
+
+  return {
+    return7d: returnSince(series, now - 7 * DAY),
+    return30d: returnSince(series, now - 30 * DAY),
+    returnYtd: returnSince(series, startOfYear(now)),
+    maxDrawdown: maxDrawdown(series),
+    volatility: volatility === undefined ? undefined : volatility * 100,
+    sharpe: drift !== undefined && volatility ? drift / volatility : undefined,
+  };
+}
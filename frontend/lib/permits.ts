@@ -0,0 +1,206 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  domainSeparator,
+  parseSignature,
+  toHex,
+  zeroHash,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TypedDataDomain,
+} from "viem";
+import { LEVERAGED_LONG_TOKEN_ABI, LP_VAULT_ABI } from "@/lib/abis";
+
+// Signature approvals for deposits. A token with EIP-2612 signs a permit for the vault itself;
+// anything else goes through Permit2, which needs one standing approval per token and then a
+// signature per deposit. Either way the deposit lands in a single transaction.
+
+// Same address on every chain Permit2 is deployed to
+export const PERMIT2_ADDRESS: Address = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+// How long a signature stays usable, counted from the latest block rather than the local clock
+export const PERMIT_VALIDITY_SECONDS = 30 * 60;
+
+// "allowance": the existing allowance already covers the amount, nothing to sign
+// "batch": the wallet bundles approve + deposit into one atomic EIP-5792 call batch
+// "permit" / "permit2": sign, then deposit in one transaction
+// "permit2-approve": Permit2 needs its one-time approval before the first signature
+// "approve": classic approve transaction, then deposit
+export type ApprovalMethod = "allowance" | "batch" | "permit" | "permit2" | "permit2-approve" | "approve";
+
+export const APPROVAL_METHOD_LABELS: Record<ApprovalMethod, string> = {
+  allowance: "Existing allowance",
+  batch: "Batched approve",
+  permit: "Signature (EIP-2612 permit)",
+  permit2: "Signature (Permit2)",
+  "permit2-approve": "Permit2",
+  approve: "Approve transaction",
+};
+
+export const APPROVAL_METHOD_DESCRIPTIONS: Record<ApprovalMethod, string> = {
+  allowance: "Your current allowance covers this amount, so it goes through in one transaction.",
+  batch: "Your wallet bundles the approve and the deposit, so both land together or not at all.",
+  permit: "You sign an off-chain permit for exactly this amount; the deposit is one transaction.",
+  permit2:
+    "You sign a Permit2 transfer for exactly this amount; the deposit is one transaction.",
+  "permit2-approve":
+    "This token has no permit. Approve Permit2 once, and every deposit after that is a signature plus one transaction.",
+  approve: "Approve the amount in one transaction, then deposit in a second.",
+};
+
+// Signature methods need a wallet that can sign typed data; the rest only send transactions
+export const isSignatureMethod = (method: ApprovalMethod) => method === "permit" || method === "permit2";
+
+// Signed entry points by action. LPVault and IndexFund share the deposit signatures, the long and
+// short tokens the mint ones.
+export type SignedAction = "deposit" | "mint";
+
+// Whether `spender` currently has the signed entry points for `action`, found by simulating them
+// with placeholder arguments through the proxy. A deployed function rejects the call with revert
+// data (expired permit, bad signature, paused...), while a selector the implementation lacks falls
+// through a dispatcher without fallback and reverts with none. Transport failures count as missing.
+export async function probeSignedEntryPoints(
+  client: Pick<PublicClient, "simulateContract">,
+  action: SignedAction,
+  spender: Address,
+  token: Address,
+  account: Address
+): Promise<{ permit: boolean; permit2: boolean }> {
+  const permitData = { permitted: { token, amount: BigInt(1) }, nonce: BigInt(0), deadline: BigInt(0) };
+  const exists = (call: Promise<unknown>) => call.then(() => true, revertedWithData);
+  const [permit, permit2] = await Promise.all(
+    action === "deposit"
+      ? [
+          exists(
+            client.simulateContract({
+              address: spender,
+              abi: LP_VAULT_ABI,
+              functionName: "depositWithPermit",
+              args: [BigInt(1), account, BigInt(0), 27, zeroHash, zeroHash],
+              account,
+            })
+          ),
+          exists(
+            client.simulateContract({
+              address: spender,
+              abi: LP_VAULT_ABI,
+              functionName: "depositWithPermit2",
+              args: [BigInt(1), account, permitData, "0x"],
+              account,
+            })
+          ),
+        ]
+      : [
+          exists(
+            client.simulateContract({
+              address: spender,
+              abi: LEVERAGED_LONG_TOKEN_ABI,
+              functionName: "mintWithPermit",
+              args: [BigInt(1), BigInt(0), 27, zeroHash, zeroHash],
+              account,
+            })
+          ),
+          exists(
+            client.simulateContract({
+              address: spender,
+              abi: LEVERAGED_LONG_TOKEN_ABI,
+              functionName: "mintWithPermit2",
+              args: [BigInt(1), permitData, "0x"],
+              account,
+            })
+          ),
+        ]
+  );
+  return { permit, permit2 };
+}
+
+function revertedWithData(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError && !!revert.raw && revert.raw !== "0x";
+}
+
+// The contracts are UUPS proxies; their implementation address sits in this EIP-1967 slot
+export const EIP1967_IMPLEMENTATION_SLOT: Hex = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// What the token exposes for EIP-2612, as read on-chain
+export interface PermitSupport {
+  name?: string;
+  nonce?: bigint;
+  domainSeparator?: Hex;
+  // eip712Domain() name/version when the token implements EIP-5267
+  eip712?: { name: string; version: string };
+  version?: string;
+}
+
+// The EIP-712 domain a permit must be signed under, or undefined when the token has no permit
+// (no nonces/DOMAIN_SEPARATOR) or none of the candidate domains hashes to its separator
+export function permitDomain(token: Address, chainId: number, support: PermitSupport): TypedDataDomain | undefined {
+  if (support.nonce === undefined || !support.domainSeparator) return undefined;
+
+  const candidates = [
+    support.eip712,
+    support.name !== undefined ? { name: support.name, version: support.version ?? "1" } : undefined,
+    // Tokens that expose neither version() nor EIP-5267 mostly use "1"; USDC uses "2"
+    support.name !== undefined ? { name: support.name, version: "2" } : undefined,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const domain = { ...candidate, chainId, verifyingContract: token };
+    if (domainSeparator({ domain }).toLowerCase() === support.domainSeparator.toLowerCase()) return domain;
+  }
+  return undefined;
+}
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export const PERMIT2_TYPES = {
+  PermitTransferFrom: [
+    { name: "permitted", type: "TokenPermissions" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+} as const;
+
+export const permit2Domain = (chainId: number): TypedDataDomain => ({
+  name: "Permit2",
+  chainId,
+  verifyingContract: PERMIT2_ADDRESS,
+});
+
+// Permit2 nonces are an unordered bitmap, so any unused value works
+export function randomPermit2Nonce(): bigint {
+  return BigInt(toHex(crypto.getRandomValues(new Uint8Array(32))));
+}
+
+export const permitDeadline = (blockTimestamp: bigint) => blockTimestamp + BigInt(PERMIT_VALIDITY_SECONDS);
+
+export interface Permit2Transfer {
+  permitted: { token: Address; amount: bigint };
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// A signed approval, ready to pass to depositWithPermit / depositWithPermit2 (or the mint variants)
+export type SignedApproval =
+  | { method: "permit"; deadline: bigint; v: number; r: Hex; s: Hex }
+  | { method: "permit2"; permit: Permit2Transfer; signature: Hex };
+
+export function splitPermitSignature(signature: Hex, deadline: bigint): SignedApproval {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { method: "permit", deadline, r, s, v: Number(v ?? BigInt(yParity + 27)) };
+}
@@ -0,0 +1,158 @@
+import type { Hash } from "viem";
+import { UNITS, mulDiv, ratioBps, usdc6, valueAt, wad18, type BPS, type USDC6, type WAD18 } from "./amounts";
+
+// Cost-basis accounting for the leveraged tokens. All USDC amounts are 6-decimal
+// base units, shares are 18-decimal, NAV is USDC (6 decimals) per whole share.
+
+const ZERO = BigInt(0);
+
+export type CostBasisMethod = "fifo" | "average";
+
+export const COST_BASIS_METHODS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  average: "Average cost",
+};
+
+// One Minted / Redeemed event from the user's history
+export interface LeveragedTrade {
+  type: "mint" | "redeem";
+  blockNumber: bigint;
+  logIndex: number;
+  txHash: Hash;
+  shares: WAD18;
+  // stableIn for mints, stableReturned for redeems
+  stable: USDC6;
+  // NAV in the trade's block, when it could be read - measures redeem execution cost
+  nav?: USDC6;
+}
+
+export interface Lot {
+  blockNumber: bigint;
+  shares: WAD18;
+  cost: USDC6;
+}
+
+export interface PnlReport {
+  method: CostBasisMethod;
+  // Open lots; average cost keeps a single merged lot
+  lots: Lot[];
+  openShares: WAD18;
+  costBasis: USDC6;
+  marketValue: USDC6;
+  realized: USDC6;
+  unrealized: USDC6;
+  // Shortfall of stableReturned against shares × NAV on redeems (swap fees and slippage)
+  fees: USDC6;
+  invested: USDC6;
+  returned: USDC6;
+  // Shares held without a matching mint, e.g. received by transfer - excluded from PnL
+  untrackedShares: WAD18;
+  // Redeemed shares beyond the tracked lots and their pro-rata share of the proceeds - also
+  // excluded from PnL, since they have no cost basis to realize against
+  untrackedRedeemed: WAD18;
+  untrackedProceeds: USDC6;
+  // Realized plus unrealized over everything invested
+  returnBps: BPS | undefined;
+}
+
+export function shareValue(shares: WAD18, nav: USDC6): USDC6 {
+  return valueAt(shares, UNITS.WAD18.decimals, nav);
+}
+
+// Removes `shares` from the open lots and returns the cost basis taken with them.
+// Shares beyond the tracked lots carry no cost; computePnl never asks for more than it holds.
+function takeFromLots(lots: Lot[], shares: bigint, method: CostBasisMethod): USDC6 {
+  let remaining = shares;
+  let cost = ZERO;
+  // Average cost keeps a single lot, so both methods drain from the front
+  while (remaining > ZERO && lots.length > 0) {
+    const lot = lots[0];
+    const taken = remaining < lot.shares ? remaining : lot.shares;
+    const lotCost = mulDiv(lot.cost, taken, lot.shares);
+    lot.shares = wad18(lot.shares - taken);
+    lot.cost = usdc6(lot.cost - lotCost);
+    cost += lotCost;
+    remaining = method === "average" ? ZERO : remaining - taken;
+    if (lot.shares === ZERO) lots.shift();
+  }
+  return usdc6(cost);
+}
+
+function addLot(lots: Lot[], lot: Lot, method: CostBasisMethod) {
+  if (method === "average" && lots[0]) {
+    lots[0] = {
+      blockNumber: lot.blockNumber,
+      shares: wad18(lots[0].shares + lot.shares),
+      cost: usdc6(lots[0].cost + lot.cost),
+    };
+  } else {
+    lots.push(lot);
+  }
+}
+
+// Replays the user's mints and redeems into lots, then marks what is still held to `nav`.
+// `balance` reconciles the lots with transfers the event history doesn't show.
+export function computePnl(
+  trades: LeveragedTrade[],
+  { method, balance, nav }: { method: CostBasisMethod; balance: WAD18; nav: USDC6 }
+): PnlReport {
+  const ordered = [...trades].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+
+  const lots: Lot[] = [];
+  let realized = ZERO;
+  let fees = ZERO;
+  let invested = ZERO;
+  let returned = ZERO;
+  let untrackedRedeemed = ZERO;
+  let untrackedProceeds = ZERO;
+
+  for (const trade of ordered) {
+    if (trade.type === "mint") {
+      invested += trade.stable;
+      addLot(lots, { blockNumber: trade.blockNumber, shares: trade.shares, cost: trade.stable }, method);
+      continue;
+    }
+
+    returned += trade.stable;
+    const held = lots.reduce((sum, lot) => sum + lot.shares, ZERO);
+    const tracked = trade.shares < held ? trade.shares : held;
+    const trackedProceeds = tracked === trade.shares ? trade.stable : mulDiv(trade.stable, tracked, trade.shares);
+    realized += trackedProceeds - takeFromLots(lots, tracked, method);
+    untrackedRedeemed += trade.shares - tracked;
+    untrackedProceeds += trade.stable - trackedProceeds;
+    if (trade.nav !== undefined) {
+      const fair = shareValue(trade.shares, trade.nav);
+      if (fair > trade.stable) fees += fair - trade.stable;
+    }
+  }
+
+  // Shares sent away by transfer leave without realizing anything
+  let openShares = wad18(lots.reduce((sum, lot) => sum + lot.shares, ZERO));
+  if (balance < openShares) {
+    takeFromLots(lots, openShares - balance, method);
+    openShares = balance;
+  }
+
+  const costBasis = usdc6(lots.reduce((sum, lot) => sum + lot.cost, ZERO));
+  const marketValue = shareValue(openShares, nav);
+  const unrealized = usdc6(marketValue - costBasis);
+
+  return {
+    method,
+    lots,
+    openShares,
+    costBasis,
+    marketValue,
+    realized: usdc6(realized),
+    unrealized,
+    fees: usdc6(fees),
+    invested: usdc6(invested),
+    returned: usdc6(returned),
+    untrackedShares: wad18(balance - openShares),
+    untrackedRedeemed: wad18(untrackedRedeemed),
+    untrackedProceeds: usdc6(untrackedProceeds),
+    returnBps: invested > ZERO ? ratioBps(realized + unrealized, invested, "nearest") : undefined,
+  };
+}
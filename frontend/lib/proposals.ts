@@ -0,0 +1,125 @@
+import {
+  decodeAbiParameters,
+  encodeAbiParameters,
+  type Address,
+  type ContractFunctionReturnType,
+  type Hex,
+} from "viem";
+import { FUND_GOVERNANCE_ABI, ProposalStatus, ProposalType } from "./abis";
+import { mulDiv, one, UNITS, type BPS } from "./amounts";
+
+export type Proposal = ContractFunctionReturnType<typeof FUND_GOVERNANCE_ABI, "view", "getProposal">;
+
+// proposalData layouts, mirroring the abi.decode calls in FundGovernance._execute*
+
+const ALLOCATIONS_PARAM = {
+  type: "tuple[]",
+  components: [
+    { name: "token", type: "address" },
+    { name: "targetPercentage", type: "uint256" },
+  ],
+} as const;
+
+const CREATE_FUND_PARAMS = [
+  { name: "name", type: "string" },
+  { name: "symbol", type: "string" },
+  { name: "asset", type: "address" },
+  { name: "allocations", ...ALLOCATIONS_PARAM },
+  { name: "managementFee", type: "uint256" },
+] as const;
+
+const DELIST_FUND_PARAMS = [{ name: "fund", type: "address" }] as const;
+
+const UPDATE_ALLOCATIONS_PARAMS = [{ name: "allocations", ...ALLOCATIONS_PARAM }] as const;
+
+export interface AllocationParam {
+  token: Address;
+  // Basis points (10000 = 100%)
+  targetPercentage: bigint;
+}
+
+export type ProposalAction =
+  | {
+      type: typeof ProposalType.CreateFund;
+      name: string;
+      symbol: string;
+      asset: Address;
+      allocations: AllocationParam[];
+      // Basis points per year
+      managementFee: bigint;
+    }
+  | { type: typeof ProposalType.DelistFund; fund: Address }
+  | { type: typeof ProposalType.UpdateAllocations; allocations: AllocationParam[] };
+
+export const PROPOSAL_TYPE_LABELS: Record<number, string> = {
+  [ProposalType.CreateFund]: "Create Fund",
+  [ProposalType.DelistFund]: "Delist Fund",
+  [ProposalType.UpdateAllocations]: "Update Allocations",
+};
+
+// Labels for getProposalStatus, which the contract derives from votes, quorum and end time
+export const PROPOSAL_STATUS_LABELS: Record<number, string> = {
+  [ProposalStatus.Pending]: "Pending",
+  [ProposalStatus.Active]: "Active",
+  [ProposalStatus.Defeated]: "Defeated",
+  [ProposalStatus.Succeeded]: "Succeeded",
+  [ProposalStatus.Executed]: "Executed",
+  [ProposalStatus.Cancelled]: "Cancelled",
+};
+
+// Votes a proposal needs, as getProposalStatus computes it from the fund's current supply
+export function quorumVotes(totalSupply: bigint, quorumPercentage: BPS): bigint {
+  return mulDiv(totalSupply, quorumPercentage, one(UNITS.BPS));
+}
+
+// Whether a proposal whose voting has ended would pass with these inputs
+export function wouldPass(proposal: Proposal, totalSupply: bigint, quorumPercentage: BPS): boolean {
+  const totalVotes = proposal.forVotes + proposal.againstVotes;
+  return totalVotes >= quorumVotes(totalSupply, quorumPercentage) && proposal.forVotes > proposal.againstVotes;
+}
+
+// Proposal page link; the governance is only spelled out when it isn't the deployment default
+export function proposalPath(proposalId: bigint, governance?: string, defaultGovernance?: string): string {
+  return governance && governance.toLowerCase() !== defaultGovernance?.toLowerCase()
+    ? `/governance/${proposalId}?governance=${governance}`
+    : `/governance/${proposalId}`;
+}
+
+export function encodeProposalData(action: ProposalAction): Hex {
+  switch (action.type) {
+    case ProposalType.CreateFund:
+      return encodeAbiParameters(CREATE_FUND_PARAMS, [
+        action.name,
+        action.symbol,
+        action.asset,
+        action.allocations,
+        action.managementFee,
+      ]);
+    case ProposalType.DelistFund:
+      return encodeAbiParameters(DELIST_FUND_PARAMS, [action.fund]);
+    case ProposalType.UpdateAllocations:
+      return encodeAbiParameters(UPDATE_ALLOCATIONS_PARAMS, [action.allocations]);
+  }
+}
+
+// Undefined when the bytes don't match the layout for `type` (e.g. proposals created with raw data)
+export function decodeProposalData(type: number, data: Hex): ProposalAction | undefined {
+  try {
+    switch (type) {
+      case ProposalType.CreateFund: {
+        const [name, symbol, asset, allocations, managementFee] = decodeAbiParameters(CREATE_FUND_PARAMS, data);
+        return { type, name, symbol, asset, allocations: [...allocations], managementFee };
+      }
+      case ProposalType.DelistFund: {
+        const [fund] = decodeAbiParameters(DELIST_FUND_PARAMS, data);
+        return { type, fund };
+      }
+      case ProposalType.UpdateAllocations: {
+        const [allocations] = decodeAbiParameters(UPDATE_ALLOCATIONS_PARAMS, data);
+        return { type, allocations: [...allocations] };
+      }
+    }
+  } catch {
+    return undefined;
+  }
+}
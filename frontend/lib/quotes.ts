@@ -0,0 +1,171 @@
+import { getAddress, type Address } from "viem";
+import { ratioBps, type BPS } from "./amounts";
+
+// Mint/redeem previews for the leveraged tokens. The share math mirrors the contracts exactly;
+// the Uniswap leg is whatever the QuoterV2 returns for the token's pool fee, or the oracle
+// conversion the contracts themselves use in test mode.
+
+// Uniswap's QuoterV2 deployments. NEXT_PUBLIC_UNISWAP_QUOTER_ADDRESS covers forks and local pools.
+const QUOTER_V2_ADDRESSES: Record<number, Address> = {
+  8453: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a", // Base
+  84532: "0xC5290058841028F1614F3A6F0F5816cAd0df5E27", // Base Sepolia
+};
+
+export function getQuoterAddress(chainId: number): Address | undefined {
+  const override = process.env.NEXT_PUBLIC_UNISWAP_QUOTER_ADDRESS;
+  return override ? getAddress(override) : QUOTER_V2_ADDRESSES[chainId];
+}
+
+const BPS = BigInt(10000);
+const PRECISION = BigInt(10) ** BigInt(18);
+const ZERO = BigInt(0);
+const ten = (decimals: number) => BigInt(10) ** BigInt(decimals);
+
+// On-chain state a preview needs, as returned by the token's getters
+export interface LeveragedTokenState {
+  nav: bigint;
+  price: bigint;
+  borrowed: bigint;
+  // totalUnderlying on the long token, totalStableHeld on the short
+  held: bigint;
+  supply: bigint;
+  // USDC balance of the token contract (caps short redeems)
+  stableBalance: bigint;
+  leverageRatio: bigint;
+  underlyingDecimals: number;
+  stableDecimals: number;
+  oracleDecimals: number;
+}
+
+// The swap a mint or redeem makes. "buy" spends stable on the underlying, "sell" the reverse.
+// exactInput fixes `amount` going in; exactOutput (short redeem) fixes the underlying coming out.
+export interface SwapLeg {
+  side: "buy" | "sell";
+  kind: "exactInput" | "exactOutput";
+  amount: bigint;
+}
+
+// Both sides of a filled swap
+export interface SwapFill {
+  side: "buy" | "sell";
+  kind: SwapLeg["kind"];
+  underlying: bigint;
+  stable: bigint;
+}
+
+export interface MintRedeemPreview {
+  // Shares on mint, stable on redeem
+  received: bigint;
+  fill?: SwapFill;
+  // Stable per whole underlying, in oracle decimals like the Chainlink price
+  executionPrice?: bigint;
+  // How much worse than the oracle the fill is; negative when better
+  priceImpactBps?: BPS;
+  // Outside the swap bounds the contract sets, so the transaction reverts
+  exceedsSlippage: boolean;
+}
+
+export function stableToUnderlying(stable: bigint, state: LeveragedTokenState): bigint {
+  return (stable * ten(state.underlyingDecimals) * ten(state.oracleDecimals)) / (state.price * ten(state.stableDecimals));
+}
+
+export function underlyingToStable(underlying: bigint, state: LeveragedTokenState): bigint {
+  return (underlying * state.price * ten(state.stableDecimals)) / (ten(state.underlyingDecimals) * ten(state.oracleDecimals));
+}
+
+// The swap `mint(amount)` / `redeem(amount)` will make, following the contracts' own sizing
+export function swapLegFor(
+  type: "long" | "short",
+  action: "mint" | "redeem",
+  amount: bigint,
+  state: LeveragedTokenState
+): SwapLeg | undefined {
+  if (amount === ZERO) return undefined;
+
+  if (action === "mint") {
+    if (type === "long") {
+      // Deposit plus the borrowed stable, all swapped into the underlying
+      const borrow = (amount * (state.leverageRatio - BPS)) / BPS;
+      return { side: "buy", kind: "exactInput", amount: amount + borrow };
+    }
+    // Borrowed underlying worth `leverageRatio` times the deposit, sold for stable
+    const borrow = stableToUnderlying((amount * state.leverageRatio) / BPS, state);
+    return borrow > ZERO ? { side: "sell", kind: "exactInput", amount: borrow } : undefined;
+  }
+
+  if (state.supply === ZERO || amount > state.supply) return undefined;
+  if (type === "long") {
+    const underlying = (state.held * amount) / state.supply;
+    return underlying > ZERO ? { side: "sell", kind: "exactInput", amount: underlying } : undefined;
+  }
+  // The short buys back its share of the borrowed underlying to repay the vault
+  const debt = (state.borrowed * amount) / state.supply;
+  return debt > ZERO ? { side: "buy", kind: "exactOutput", amount: debt } : undefined;
+}
+
+// Fills a leg at the oracle price, as the contracts do in test mode
+export function oracleFill({ side, kind, amount }: SwapLeg, state: LeveragedTokenState): SwapFill {
+  if (side === "sell") return { side, kind, underlying: amount, stable: underlyingToStable(amount, state) };
+  return kind === "exactInput"
+    ? { side, kind, stable: amount, underlying: stableToUnderlying(amount, state) }
+    : { side, kind, underlying: amount, stable: underlyingToStable(amount, state) };
+}
+
+// Turns a quoter result (amountOut for exactInput, amountIn for exactOutput) into a fill
+export function quotedFill({ side, kind, amount }: SwapLeg, quoted: bigint): SwapFill {
+  if (kind === "exactOutput") return { side, kind, underlying: amount, stable: quoted };
+  return side === "buy"
+    ? { side, kind, stable: amount, underlying: quoted }
+    : { side, kind, underlying: amount, stable: quoted };
+}
+
+// The contracts' own bounds: amountOutMinimum / amountInMaximum at the oracle price ± slippageTolerance
+function breaksSlippage(fill: SwapFill, state: LeveragedTokenState, tolerance: bigint): boolean {
+  if (fill.kind === "exactOutput") {
+    return fill.stable > (underlyingToStable(fill.underlying, state) * (BPS + tolerance)) / BPS;
+  }
+  return fill.side === "buy"
+    ? fill.underlying < (stableToUnderlying(fill.stable, state) * (BPS - tolerance)) / BPS
+    : fill.stable < (underlyingToStable(fill.underlying, state) * (BPS - tolerance)) / BPS;
+}
+
+export function previewMintRedeem(
+  type: "long" | "short",
+  action: "mint" | "redeem",
+  amount: bigint,
+  state: LeveragedTokenState,
+  fill: SwapFill | undefined,
+  slippageToleranceBps: bigint
+): MintRedeemPreview {
+  let received: bigint;
+  if (action === "mint") {
+    // Shares are priced off NAV; the swap only decides whether the mint goes through
+    received = state.nav > ZERO ? (amount * PRECISION) / state.nav : ZERO;
+  } else if (type === "long") {
+    // Swap proceeds minus this share of the debt; the contract skips the repay when they fall short
+    const stable = fill?.stable ?? ZERO;
+    const debt = state.supply > ZERO ? (state.borrowed * amount) / state.supply : ZERO;
+    received = stable >= debt ? stable - debt : stable;
+  } else {
+    // NAV value, capped at the stable left after buying back the debt
+    const value = (amount * state.nav) / PRECISION;
+    const spent = fill?.stable ?? ZERO;
+    const available = state.stableBalance > spent ? state.stableBalance - spent : ZERO;
+    received = value < available ? value : available;
+  }
+
+  if (!fill || fill.underlying === ZERO || state.price === ZERO) return { received, fill, exceedsSlippage: false };
+
+  const executionPrice =
+    (fill.stable * ten(state.underlyingDecimals) * ten(state.oracleDecimals)) / (fill.underlying * ten(state.stableDecimals));
+  // Buying above the oracle price or selling below it is the unfavourable direction
+  const worse = fill.side === "buy" ? executionPrice - state.price : state.price - executionPrice;
+
+  return {
+    received,
+    fill,
+    executionPrice,
+    priceImpactBps: ratioBps(worse, state.price),
+    exceedsSlippage: breaksSlippage(fill, state, slippageToleranceBps),
+  };
+}
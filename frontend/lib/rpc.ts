@@ -0,0 +1,14 @@
+// Shared with the indexer, which imports it by path. Matches on shape rather than viem's error
+// classes, since each package resolves its own copy of viem.
+
+// Providers word "too many blocks/results" differently; some use -32005, others only the message
+const RANGE_LIMIT_MESSAGE =
+  /block range|range (is )?too (large|wide)|more than \d+ (results|blocks|logs)|too many (results|blocks|logs)|limit exceeded|response size/i;
+
+// Whether an eth_getLogs failure anywhere in the cause chain means the range was too large
+export function isRangeLimitError(error: unknown): boolean {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    if (("code" in cause && cause.code === -32005) || RANGE_LIMIT_MESSAGE.test(cause.message)) return true;
+  }
+  return false;
+}
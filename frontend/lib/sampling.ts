@@ -0,0 +1,48 @@
+import type { ContractFunctionParameters, PublicClient } from "viem";
+
+// Helpers for building time series out of historical reads. Reads at old blocks need an
+// archive node, so callers drop samples whose reads fail.
+
+interface BlockRef {
+  number: bigint;
+  timestamp: bigint;
+}
+
+// Block at roughly `seconds` before `latest`, estimated from the last 1000 blocks' block time
+export async function estimateBlockAgo(client: PublicClient, latest: BlockRef, seconds: number): Promise<bigint> {
+  const reference = await client.getBlock({
+    blockNumber: latest.number > BigInt(1000) ? latest.number - BigInt(1000) : BigInt(0),
+  });
+  const blocks = Number(latest.number - reference.number);
+  const blockTime = blocks > 0 ? Number(latest.timestamp - reference.timestamp) / blocks : 2;
+  const back = BigInt(Math.ceil(seconds / Math.max(blockTime, 0.1)));
+  return latest.number > back ? latest.number - back : BigInt(0);
+}
+
+// `count` evenly spaced blocks from `from` to `to`, both included; just `to` when there is no
+// room for two
+export function spreadBlocks(from: bigint, to: bigint, count: number): bigint[] {
+  if (to <= from || count <= 1) return [to];
+  const span = to - from;
+  return Array.from({ length: count }, (_, i) => from + (span * BigInt(i)) / BigInt(count - 1));
+}
+
+// Sorted and deduplicated
+export function mergeBlocks(...lists: bigint[][]): bigint[] {
+  return [...new Set(lists.flat())].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+// Reads every call at `blockNumber`, batched through multicall3 where the chain has it at that
+// block (Anvil doesn't). Failed calls come back undefined.
+export async function readAtBlock(
+  client: PublicClient,
+  calls: ContractFunctionParameters[],
+  blockNumber: bigint
+): Promise<unknown[]> {
+  const multicall3 = client.chain?.contracts?.multicall3;
+  if (multicall3 && blockNumber >= BigInt(multicall3.blockCreated ?? 0)) {
+    const results = await client.multicall({ contracts: calls, blockNumber, allowFailure: true });
+    return results.map((result) => (result.status === "success" ? result.result : undefined));
+  }
+  return Promise.all(calls.map((call) => client.readContract({ ...call, blockNumber }).catch(() => undefined)));
+}
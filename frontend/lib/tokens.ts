@@ -0,0 +1,226 @@
+import { getAddress, isAddress, type Address } from "viem";
+import type { Deployment } from "./deployments";
+
+// Token metadata for anything the UI shows by address. Lookups go deployment tokens, then
+// custom tokens, then imported token lists, then whatever was read from the token itself.
+// Everything but the deployment is kept in localStorage per browser.
+
+export type TokenSource = "deployment" | "custom" | "list" | "chain";
+
+export interface TokenInfo {
+  chainId: number;
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  source: TokenSource;
+}
+
+// A Uniswap-format token list (https://tokenlists.org), keeping only what the UI uses
+export interface ImportedTokenList {
+  // The URL it was fetched from, or the list name for pasted JSON
+  id: string;
+  name: string;
+  logoURI?: string;
+  tokens: TokenInfo[];
+}
+
+export interface TokenStore {
+  lists: ImportedTokenList[];
+  custom: TokenInfo[];
+  // Metadata read on-chain; ERC-20 name, symbol and decimals never change
+  discovered: TokenInfo[];
+}
+
+const STORAGE_KEY = "token-registry";
+const FETCH_TIMEOUT_MS = 10_000;
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+
+export const EMPTY_TOKEN_STORE: TokenStore = { lists: [], custom: [], discovered: [] };
+
+export const tokenKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+export const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Shown until (or unless) an address resolves; decimals are a guess
+export function unknownToken(chainId: number, address: string): TokenInfo {
+  return {
+    chainId,
+    address: address as Address,
+    symbol: shortAddress(address),
+    name: "Unknown Token",
+    decimals: 18,
+    source: "chain",
+  };
+}
+
+// Tokens every deployment brings along
+export function deploymentTokens({ chainId, contracts }: Deployment): TokenInfo[] {
+  const token = (address: Address, symbol: string, name: string, decimals: number): TokenInfo => ({
+    chainId,
+    address,
+    symbol,
+    name,
+    decimals,
+    source: "deployment",
+  });
+  return [
+    token(contracts.USDC, "USDC", "USD Coin", 6),
+    token(contracts.WETH, "WETH", "Wrapped Ether", 18),
+    token(contracts.ETH2X_LONG, "ETH2X", "ETH 2x Long", 18),
+    token(contracts.ETH2X_SHORT, "ETH-2X", "ETH 2x Short", 18),
+    token(contracts.LP_VAULT_LONG, "lpUSDC-L", "LP Vault (Long)", 6),
+    token(contracts.LP_VAULT_SHORT, "lpUSDC-S", "LP Vault (Short)", 6),
+  ];
+}
+
+// ipfs:// and ipns:// through a public gateway; anything else that isn't http(s) is dropped
+export function resolveUri(uri: string | undefined): string | undefined {
+  if (!uri) return undefined;
+  if (uri.startsWith("ipfs://")) return IPFS_GATEWAY + uri.slice("ipfs://".length).replace(/^ipfs\//, "");
+  if (uri.startsWith("ipns://")) return IPFS_GATEWAY.replace("/ipfs/", "/ipns/") + uri.slice("ipns://".length);
+  return /^https?:\/\//.test(uri) ? uri : undefined;
+}
+
+// Validates a token list's JSON. Entries that don't fit the schema are skipped rather than
+// failing the whole list, as wallets do.
+export function parseTokenList(json: unknown, id?: string): ImportedTokenList {
+  if (!json || typeof json !== "object") throw new Error("Token list is not a JSON object");
+  const list = json as Record<string, unknown>;
+  if (typeof list.name !== "string" || !list.name) throw new Error("Token list has no name");
+  if (!Array.isArray(list.tokens)) throw new Error("Token list has no tokens array");
+
+  const tokens: TokenInfo[] = [];
+  for (const entry of list.tokens as Record<string, unknown>[]) {
+    const { chainId, address, symbol, name, decimals, logoURI } = entry ?? {};
+    if (
+      typeof chainId !== "number" ||
+      typeof address !== "string" ||
+      !isAddress(address, { strict: false }) ||
+      typeof symbol !== "string" ||
+      typeof name !== "string" ||
+      typeof decimals !== "number" ||
+      !Number.isInteger(decimals) ||
+      decimals < 0 ||
+      decimals > 255
+    ) {
+      continue;
+    }
+    tokens.push({
+      chainId,
+      address: getAddress(address),
+      symbol,
+      name,
+      decimals,
+      logoURI: resolveUri(typeof logoURI === "string" ? logoURI : undefined),
+      source: "list",
+    });
+  }
+  if (tokens.length === 0) throw new Error(`Token list "${list.name}" has no valid tokens`);
+
+  return {
+    id: id ?? list.name,
+    name: list.name,
+    logoURI: resolveUri(typeof list.logoURI === "string" ? list.logoURI : undefined),
+    tokens,
+  };
+}
+
+// A list URL (https or ipfs) or the list JSON itself
+export async function loadTokenList(source: string): Promise<ImportedTokenList> {
+  const trimmed = source.trim();
+  if (trimmed.startsWith("{")) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Token list is not valid JSON");
+    }
+    return parseTokenList(json);
+  }
+
+  const url = resolveUri(trimmed);
+  if (!url) throw new Error("Enter an https:// or ipfs:// URL, or paste the list JSON");
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Token list request failed (${res.status})`);
+  return parseTokenList(await res.json(), trimmed);
+}
+
+// Registry lookup for one chain, in precedence order
+export function buildTokenIndex(chainId: number, deployment: TokenInfo[], store: TokenStore): Map<string, TokenInfo> {
+  const index = new Map<string, TokenInfo>();
+  const add = (tokens: TokenInfo[]) => {
+    for (const token of tokens) {
+      const key = tokenKey(token.chainId, token.address);
+      if (token.chainId === chainId && !index.has(key)) index.set(key, token);
+    }
+  };
+  add(deployment);
+  add(store.custom);
+  store.lists.forEach((list) => add(list.tokens));
+  add(store.discovered);
+  return index;
+}
+
+// Swatch for charts and logo placeholders; stable per address
+const KNOWN_COLORS: Record<string, string> = { WETH: "#627EEA", USDC: "#2775CA" };
+const PALETTE = ["#8b5cf6", "#22c55e", "#f59e0b", "#ec4899", "#06b6d4", "#ef4444", "#84cc16", "#6366f1"];
+
+export function tokenColor(token: Pick<TokenInfo, "address" | "symbol">): string {
+  const known = KNOWN_COLORS[token.symbol];
+  if (known) return known;
+  const hash = parseInt(token.address.slice(-6), 16);
+  return PALETTE[(Number.isNaN(hash) ? 0 : hash) % PALETTE.length];
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+export function readTokenStore(): TokenStore {
+  if (typeof window === "undefined") return EMPTY_TOKEN_STORE;
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (!stored) return EMPTY_TOKEN_STORE;
+  try {
+    return { ...EMPTY_TOKEN_STORE, ...(JSON.parse(stored) as Partial<TokenStore>) };
+  } catch {
+    return EMPTY_TOKEN_STORE;
+  }
+}
+
+export function writeTokenStore(store: TokenStore) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+const withoutToken = (tokens: TokenInfo[], token: Pick<TokenInfo, "chainId" | "address">) =>
+  tokens.filter((t) => tokenKey(t.chainId, t.address) !== tokenKey(token.chainId, token.address));
+
+export const addCustomToken = (store: TokenStore, token: TokenInfo): TokenStore => ({
+  ...store,
+  custom: [...withoutToken(store.custom, token), { ...token, source: "custom" }],
+});
+
+export const removeCustomToken = (store: TokenStore, token: Pick<TokenInfo, "chainId" | "address">): TokenStore => ({
+  ...store,
+  custom: withoutToken(store.custom, token),
+});
+
+// Re-importing a list replaces the previous copy
+export const addTokenList = (store: TokenStore, list: ImportedTokenList): TokenStore => ({
+  ...store,
+  lists: [...store.lists.filter((l) => l.id !== list.id), list],
+});
+
+export const removeTokenList = (store: TokenStore, id: string): TokenStore => ({
+  ...store,
+  lists: store.lists.filter((l) => l.id !== id),
+});
+
+export const addDiscoveredTokens = (store: TokenStore, tokens: TokenInfo[]): TokenStore => ({
+  ...store,
+  discovered: [
+    ...store.discovered.filter((d) => !tokens.some((t) => tokenKey(t.chainId, t.address) === tokenKey(d.chainId, d.address))),
+    ...tokens.map((t) => ({ ...t, source: "chain" as const })),
+  ],
+});
@@ -0,0 +1,107 @@
+import { createContext } from "react";
+import type {
+  Abi,
+  Address,
+  ContractFunctionName,
+  ContractFunctionParameters,
+  Hash,
+  TransactionReceipt,
+} from "viem";
+
+export type TransactionStatus =
+  | "simulating"
+  | "awaiting-signature"
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "replaced";
+
+// Statuses that still need the user or the chain to do something
+export const IN_FLIGHT_STATUSES: TransactionStatus[] = ["simulating", "awaiting-signature", "pending"];
+
+export const STATUS_LABELS: Record<TransactionStatus, string> = {
+  simulating: "Simulating",
+  "awaiting-signature": "Confirm in wallet",
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced",
+};
+
+export interface TrackedTransaction {
+  id: string;
+  label: string;
+  status: TransactionStatus;
+  chainId: number;
+  hash?: Hash;
+  // Set for an EIP-5792 bundle: the wallet's bundle id and how many calls it holds
+  batchId?: string;
+  callCount?: number;
+  error?: string;
+  createdAt: number;
+}
+
+export type ContractCall<
+  abi extends Abi = Abi,
+  functionName extends ContractFunctionName<abi, "nonpayable" | "payable"> = ContractFunctionName<
+    abi,
+    "nonpayable" | "payable"
+  >,
+> = ContractFunctionParameters<abi, "nonpayable" | "payable", functionName> & {
+  address: Address;
+  chainId: number;
+  value?: bigint;
+};
+
+export interface TransactionOptions {
+  // Short name used in toasts and the queue, e.g. "Mint ETH2X"
+  label: string;
+  successMessage?: string;
+  onConfirmed?: (receipt: TransactionReceipt) => void;
+  // Called with the simulation, signing or on-chain error when the transaction doesn't go through
+  onFailed?: (error: unknown) => void;
+  // Set by useTransaction so a card can follow its own transaction
+  id?: string;
+}
+
+export type SendTransaction = <
+  const abi extends Abi,
+  functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+>(
+  call: ContractCall<abi, functionName>,
+  options: TransactionOptions
+) => Promise<TransactionReceipt | undefined>;
+
+// One call in a batch, with the label it gets if the batch falls back to sequential transactions
+export interface BatchStep {
+  call: ContractCall;
+  label: string;
+}
+
+// Sends the steps as one atomic wallet_sendCalls bundle when the wallet supports it, otherwise as
+// sequential transactions that each wait for the one before. Resolves with the last receipt.
+export type SendBatch = (steps: BatchStep[], options: TransactionOptions) => Promise<TransactionReceipt | undefined>;
+
+export interface TransactionManager {
+  transactions: TrackedTransaction[];
+  send: SendTransaction;
+  sendBatch: SendBatch;
+  clearFinished: () => void;
+}
+
+// wallet_getCapabilities for one chain. Only "supported" counts: "ready" means the wallet would
+// first upgrade an EOA to a smart account (EIP-7702), which a deposit shouldn't trigger.
+// `atomicBatch` is the pre-release spelling some wallets still return.
+export function supportsAtomicBatch(
+  capabilities: { atomic?: { status?: string }; atomicBatch?: { supported?: boolean } } | undefined
+) {
+  return capabilities?.atomic?.status === "supported" || capabilities?.atomicBatch?.supported === true;
+}
+
+let nextId = 0;
+export function createTransactionId() {
+  nextId += 1;
+  return `tx-${nextId}`;
+}
+
+export const TransactionContext = createContext<TransactionManager | null>(null);
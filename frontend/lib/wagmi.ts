@@ -1,13 +1,35 @@
 "use client";
 
 import { getDefaultConfig } from "@rainbow-me/rainbowkit";
-import { baseSepolia } from "wagmi/chains";
+import { http, type Chain, type Transport } from "viem";
+import { anvil, base, baseSepolia } from "wagmi/chains";
+import { DEFAULT_CHAIN_ID } from "./contracts";
 
 const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID!;
 
+// Networks the UI can run against - which of them have contracts is decided by the deployment registry
+const SUPPORTED_CHAINS: Chain[] = [baseSepolia, base, anvil];
+
+// Optional RPC overrides (falls back to each chain's public RPC)
+const RPC_URLS: Record<number, string | undefined> = {
+  [anvil.id]: process.env.NEXT_PUBLIC_ANVIL_RPC_URL,
+  [baseSepolia.id]: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL,
+  [base.id]: process.env.NEXT_PUBLIC_BASE_RPC_URL,
+};
+
+// The first chain is what wagmi starts on before a wallet connects
+const defaultChain = SUPPORTED_CHAINS.find((chain) => chain.id === DEFAULT_CHAIN_ID) ?? baseSepolia;
+export const chains: [Chain, ...Chain[]] = [
+  defaultChain,
+  ...SUPPORTED_CHAINS.filter((chain) => chain.id !== defaultChain.id),
+];
+
 export const config = getDefaultConfig({
   appName: "Decipher Protocol",
   projectId,
-  chains: [baseSepolia],
+  chains,
+  transports: Object.fromEntries(
+    chains.map((chain) => [chain.id, http(RPC_URLS[chain.id])])
+  ) as Record<number, Transport>,
   ssr: true,
 });
@@ -0,0 +1,76 @@
+/**
+ * Generates lib/generated/abis.ts from the Foundry build artifacts.
+ *
+ * Usage:
+ *   npm run abis:generate   # after `forge build` in contracts/
+ *   npm run abis:check      # exits non-zero when the committed ABIs are stale
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+
+const FRONTEND_DIR = join(__dirname, "..");
+const ARTIFACTS_DIR = join(FRONTEND_DIR, "..", "contracts", "out");
+const OUTPUT_FILE = join(FRONTEND_DIR, "lib", "generated", "abis.ts");
+
+// Contract name in contracts/src -> exported constant name
+const CONTRACTS: Record<string, string> = {
+  IndexFund: "INDEX_FUND_ABI",
+  FundFactory: "FUND_FACTORY_ABI",
+  FundGovernance: "FUND_GOVERNANCE_ABI",
+  LPVault: "LP_VAULT_ABI",
+  LeveragedLongToken: "LEVERAGED_LONG_TOKEN_ABI",
+  LeveragedShortToken: "LEVERAGED_SHORT_TOKEN_ABI",
+};
+
+function readAbi(contractName: string): unknown[] {
+  const artifactPath = join(ARTIFACTS_DIR, `${contractName}.sol`, `${contractName}.json`);
+  if (!existsSync(artifactPath)) {
+    throw new Error(
+      `Missing artifact ${relative(process.cwd(), artifactPath)} - run \`forge build\` in contracts/ first`
+    );
+  }
+
+  const artifact = JSON.parse(readFileSync(artifactPath, "utf8"));
+  if (!Array.isArray(artifact.abi)) {
+    throw new Error(`Artifact for ${contractName} has no abi array`);
+  }
+  return artifact.abi;
+}
+
+function render(): string {
+  const lines = [
+    "// This file is generated by scripts/generate-abis.ts from contracts/out.",
+    "// Do not edit by hand - run `npm run abis:generate` after `forge build`.",
+    "",
+  ];
+
+  for (const [contractName, exportName] of Object.entries(CONTRACTS)) {
+    const abi = JSON.stringify(readAbi(contractName), null, 2);
+    lines.push(`export const ${exportName} = ${abi} as const;`, "");
+  }
+
+  return lines.join("\n");
+}
+
+function main() {
+  const checkOnly = process.argv.includes("--check");
+  const output = render();
+
+  if (checkOnly) {
+    const committed = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, "utf8") : "";
+    if (committed !== output) {
+      console.error(
+        `${relative(process.cwd(), OUTPUT_FILE)} is stale - run \`npm run abis:generate\` and commit the result`
+      );
+      process.exit(1);
+    }
+    console.log("ABIs are up to date");
+    return;
+  }
+
+  mkdirSync(dirname(OUTPUT_FILE), { recursive: true });
+  writeFileSync(OUTPUT_FILE, output);
+  console.log(`Wrote ${Object.keys(CONTRACTS).length} ABIs to ${relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main();
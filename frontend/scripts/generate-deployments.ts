@@ -0,0 +1,360 @@
+/**
+ * Generates lib/generated/deployments.ts from the deployment manifests in
+ * contracts/deployments and the Foundry broadcast logs in contracts/broadcast.
+ *
+ * Broadcast logs win over manifests when both know an address: the deploy
+ * scripts hardcode the manifest chainId, while a broadcast is always filed
+ * under the chain it actually ran on.
+ *
+ * Broadcasts from local chains (Anvil) are gitignored, so they are skipped
+ * unless --local is passed; otherwise a local deploy would leak into the
+ * committed registry on the next `dev` or `build`.
+ *
+ * Usage:
+ *   npm run deployments:generate   # runs automatically before `dev` and `build`
+ *   npm run deployments:local      # also include local Anvil broadcasts (don't commit the result)
+ *   npm run deployments:check      # exits non-zero when the committed registry is stale
+ */
+import { existsSync, readFileSync, readdirSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { decodeFunctionData, getAddress, isAddress, zeroAddress, type Abi, type Address, type Hex } from "viem";
+import {
+  FUND_FACTORY_ABI,
+  LEVERAGED_LONG_TOKEN_ABI,
+  LEVERAGED_SHORT_TOKEN_ABI,
+} from "../lib/generated/abis";
+import { CONTRACT_NAMES, type ContractName, type Deployment } from "../lib/deployments";
+
+const FRONTEND_DIR = join(__dirname, "..");
+const CONTRACTS_DIR = join(FRONTEND_DIR, "..", "contracts");
+const MANIFESTS_DIR = join(CONTRACTS_DIR, "deployments");
+const BROADCAST_DIR = join(CONTRACTS_DIR, "broadcast");
+const OUTPUT_FILE = join(FRONTEND_DIR, "lib", "generated", "deployments.ts");
+
+// Chains whose broadcasts contracts/.gitignore keeps out of the repo
+const LOCAL_CHAIN_IDS = new Set([31337]);
+
+const NETWORK_NAMES: Record<number, string> = {
+  31337: "anvil",
+  84532: "base-sepolia",
+  8453: "base",
+};
+
+type PartialDeployment = {
+  chainId: number;
+  network?: string;
+  startBlock?: number;
+  contracts: Partial<Record<ContractName, Address>>;
+  sources: Partial<Record<ContractName, string>>;
+};
+
+const registry = new Map<number, PartialDeployment>();
+const errors: string[] = [];
+
+function entry(chainId: number): PartialDeployment {
+  let deployment = registry.get(chainId);
+  if (!deployment) {
+    deployment = { chainId, contracts: {}, sources: {} };
+    registry.set(chainId, deployment);
+  }
+  return deployment;
+}
+
+function setAddress(chainId: number, name: ContractName, value: unknown, source: string) {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    errors.push(`${source}: ${name} is not a valid address (${JSON.stringify(value)})`);
+    return;
+  }
+
+  const address = getAddress(value);
+  if (address === zeroAddress) {
+    errors.push(`${source}: ${name} is the zero address`);
+    return;
+  }
+
+  const deployment = entry(chainId);
+  const previous = deployment.contracts[name];
+  if (previous && previous !== address) {
+    console.warn(
+      `chain ${chainId}: ${name} ${previous} (${deployment.sources[name]}) overridden by ${address} (${source})`
+    );
+  }
+  deployment.contracts[name] = address;
+  deployment.sources[name] = source;
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    errors.push(`${relative(FRONTEND_DIR, path)}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// MANIFESTS (contracts/deployments/*.json)
+// ============================================
+
+function loadManifest(path: string) {
+  const source = relative(FRONTEND_DIR, path);
+  const manifest = readJson(path);
+  if (manifest === undefined) return;
+
+  if (!isObject(manifest) || typeof manifest.chainId !== "number" || !Number.isInteger(manifest.chainId)) {
+    errors.push(`${source}: missing numeric chainId`);
+    return;
+  }
+
+  const chainId = manifest.chainId;
+  const deployment = entry(chainId);
+  if (typeof manifest.network === "string") deployment.network ??= manifest.network;
+
+  const external = isObject(manifest.external) ? manifest.external : {};
+  if (external.WETH) setAddress(chainId, "WETH", external.WETH, source);
+  if (external.USDC) setAddress(chainId, "USDC", external.USDC, source);
+  if (external.SwapRouter) setAddress(chainId, "UNISWAP_V3_ROUTER", external.SwapRouter, source);
+  if (external.ETH_USD_Feed) setAddress(chainId, "ETH_USD_ORACLE", external.ETH_USD_Feed, source);
+
+  // Index fund manifest (Deploy.s.sol)
+  if (isObject(manifest.proxies)) {
+    const { FundFactory, FundGovernance, ...funds } = manifest.proxies;
+    setAddress(chainId, "FUND_FACTORY", FundFactory, source);
+    setAddress(chainId, "FUND_GOVERNANCE", FundGovernance, source);
+
+    // The initial fund is keyed by its name (e.g. "CryptoIndexFund")
+    const [initialFund] = Object.values(funds);
+    if (initialFund) setAddress(chainId, "INDEX_FUND", initialFund, source);
+  }
+
+  // Leveraged ETF manifest (DeployLeveraged.s.sol)
+  if (isObject(manifest.long)) {
+    setAddress(chainId, "LP_VAULT_LONG", manifest.long.lpVault, source);
+    setAddress(chainId, "ETH2X_LONG", manifest.long.token, source);
+  }
+  if (isObject(manifest.short)) {
+    setAddress(chainId, "LP_VAULT_SHORT", manifest.short.lpVault, source);
+    setAddress(chainId, "ETH2X_SHORT", manifest.short.token, source);
+  }
+}
+
+// ============================================
+// BROADCASTS (contracts/broadcast/<script>/<chainId>/run-latest.json)
+// ============================================
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  arguments: string[] | null;
+  additionalContracts?: { transactionType: string; address: string }[];
+}
+
+interface BroadcastRun {
+  chain: number;
+  timestamp: number;
+  transactions: BroadcastTransaction[];
+  receipts: { blockNumber: string }[];
+}
+
+function isBroadcastRun(value: unknown): value is BroadcastRun {
+  return (
+    isObject(value) &&
+    typeof value.chain === "number" &&
+    typeof value.timestamp === "number" &&
+    Array.isArray(value.transactions) &&
+    Array.isArray(value.receipts)
+  );
+}
+
+function decodeInitializer(abi: Abi, data: string | undefined, source: string): readonly unknown[] | undefined {
+  if (!data) return undefined;
+  try {
+    const { functionName, args } = decodeFunctionData({ abi, data: data as Hex });
+    return functionName === "initialize" ? args : undefined;
+  } catch {
+    errors.push(`${source}: could not decode proxy initializer`);
+    return undefined;
+  }
+}
+
+function loadBroadcast(path: string, run: BroadcastRun) {
+  const source = relative(FRONTEND_DIR, path);
+  const chainId = run.chain;
+
+  const namesByAddress = new Map<string, string>();
+  for (const tx of run.transactions) {
+    if (tx.transactionType === "CREATE" && tx.contractName && tx.contractAddress) {
+      namesByAddress.set(tx.contractAddress.toLowerCase(), tx.contractName);
+    }
+  }
+
+  // ERC1967Proxy constructor args are (implementation, initData)
+  for (const tx of run.transactions) {
+    if (tx.transactionType !== "CREATE" || tx.contractName !== "ERC1967Proxy") continue;
+    const [implementation, initData] = tx.arguments ?? [];
+    const proxy = tx.contractAddress;
+    if (!implementation || !proxy) continue;
+
+    switch (namesByAddress.get(implementation.toLowerCase())) {
+      case "FundFactory": {
+        setAddress(chainId, "FUND_FACTORY", proxy, source);
+        const args = decodeInitializer(FUND_FACTORY_ABI, initData, source);
+        if (args) setAddress(chainId, "UNISWAP_V3_ROUTER", args[1], source);
+
+        // Deploy.s.sol creates the initial fund through the factory proxy
+        const createFund = run.transactions.find(
+          (t) =>
+            t.transactionType === "CALL" &&
+            t.contractAddress?.toLowerCase() === proxy.toLowerCase() &&
+            t.additionalContracts?.some((c) => c.transactionType === "CREATE")
+        );
+        const fund = createFund?.additionalContracts?.find((c) => c.transactionType === "CREATE");
+        if (fund) setAddress(chainId, "INDEX_FUND", fund.address, source);
+        break;
+      }
+      case "FundGovernance":
+        setAddress(chainId, "FUND_GOVERNANCE", proxy, source);
+        break;
+      case "LeveragedLongToken": {
+        setAddress(chainId, "ETH2X_LONG", proxy, source);
+        // initialize(name, symbol, lpVault, underlying, swapRouter, oracle, poolFee, leverageRatio)
+        const args = decodeInitializer(LEVERAGED_LONG_TOKEN_ABI, initData, source);
+        if (args) {
+          setAddress(chainId, "LP_VAULT_LONG", args[2], source);
+          setAddress(chainId, "WETH", args[3], source);
+          setAddress(chainId, "UNISWAP_V3_ROUTER", args[4], source);
+          setAddress(chainId, "ETH_USD_ORACLE", args[5], source);
+        }
+        break;
+      }
+      case "LeveragedShortToken": {
+        setAddress(chainId, "ETH2X_SHORT", proxy, source);
+        // initialize(name, symbol, lpVault, stableToken, swapRouter, oracle, poolFee, leverageRatio)
+        const args = decodeInitializer(LEVERAGED_SHORT_TOKEN_ABI, initData, source);
+        if (args) {
+          setAddress(chainId, "LP_VAULT_SHORT", args[2], source);
+          setAddress(chainId, "USDC", args[3], source);
+          setAddress(chainId, "UNISWAP_V3_ROUTER", args[4], source);
+          setAddress(chainId, "ETH_USD_ORACLE", args[5], source);
+        }
+        break;
+      }
+    }
+  }
+
+  const blocks = run.receipts.map((receipt) => Number(receipt.blockNumber)).filter(Number.isFinite);
+  if (blocks.length > 0) {
+    const deployment = entry(chainId);
+    const firstBlock = Math.min(...blocks);
+    deployment.startBlock = Math.min(deployment.startBlock ?? firstBlock, firstBlock);
+  }
+}
+
+function loadBroadcasts(includeLocal: boolean) {
+  if (!existsSync(BROADCAST_DIR)) return;
+
+  const runs: { path: string; run: BroadcastRun }[] = [];
+  for (const script of readdirSync(BROADCAST_DIR)) {
+    const scriptDir = join(BROADCAST_DIR, script);
+    for (const chainDir of readdirSync(scriptDir)) {
+      if (!includeLocal && LOCAL_CHAIN_IDS.has(Number(chainDir))) continue;
+      const path = join(scriptDir, chainDir, "run-latest.json");
+      if (!existsSync(path)) continue;
+
+      const run = readJson(path);
+      if (run === undefined) continue;
+      if (!isBroadcastRun(run)) {
+        errors.push(`${relative(FRONTEND_DIR, path)}: not a Foundry broadcast log`);
+        continue;
+      }
+      if (run.chain !== Number(chainDir)) {
+        errors.push(`${relative(FRONTEND_DIR, path)}: chain ${run.chain} does not match directory ${chainDir}`);
+        continue;
+      }
+      runs.push({ path, run });
+    }
+  }
+
+  // Apply oldest first so the most recent run of any script wins
+  runs.sort((a, b) => a.run.timestamp - b.run.timestamp);
+  for (const { path, run } of runs) loadBroadcast(path, run);
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+function buildRegistry(includeLocal: boolean): Record<number, Deployment> {
+  if (existsSync(MANIFESTS_DIR)) {
+    for (const file of readdirSync(MANIFESTS_DIR).filter((f) => f.endsWith(".json")).sort()) {
+      loadManifest(join(MANIFESTS_DIR, file));
+    }
+  }
+  loadBroadcasts(includeLocal);
+
+  const deployments: Record<number, Deployment> = {};
+  for (const [chainId, partial] of [...registry.entries()].sort(([a], [b]) => a - b)) {
+    const missing = CONTRACT_NAMES.filter((name) => !partial.contracts[name]);
+    if (missing.length > 0) {
+      errors.push(`chain ${chainId}: missing ${missing.join(", ")}`);
+      continue;
+    }
+
+    deployments[chainId] = {
+      chainId,
+      network: partial.network ?? NETWORK_NAMES[chainId] ?? `chain-${chainId}`,
+      startBlock: partial.startBlock ?? 0,
+      contracts: Object.fromEntries(
+        CONTRACT_NAMES.map((name) => [name, partial.contracts[name]!])
+      ) as Record<ContractName, Address>,
+    };
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployments:\n  - ${errors.join("\n  - ")}`);
+  }
+  return deployments;
+}
+
+function render(deployments: Record<number, Deployment>): string {
+  return [
+    "// This file is generated by scripts/generate-deployments.ts from contracts/deployments and contracts/broadcast.",
+    "// Do not edit by hand - run `npm run deployments:generate` after a deploy script.",
+    "",
+    'import type { Deployment } from "../deployments";',
+    "",
+    `export const DEPLOYMENTS = ${JSON.stringify(deployments, null, 2)} as const satisfies Record<number, Deployment>;`,
+    "",
+  ].join("\n");
+}
+
+function main() {
+  const checkOnly = process.argv.includes("--check");
+  const deployments = buildRegistry(process.argv.includes("--local"));
+  const output = render(deployments);
+
+  if (checkOnly) {
+    const committed = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, "utf8") : "";
+    if (committed !== output) {
+      console.error(
+        `${relative(process.cwd(), OUTPUT_FILE)} is stale - run \`npm run deployments:generate\` and commit the result`
+      );
+      process.exit(1);
+    }
+    console.log("Deployments are up to date");
+    return;
+  }
+
+  mkdirSync(dirname(OUTPUT_FILE), { recursive: true });
+  writeFileSync(OUTPUT_FILE, output);
+  console.log(
+    `Wrote deployments for chain(s) ${Object.keys(deployments).join(", ")} to ${relative(process.cwd(), OUTPUT_FILE)}`
+  );
+}
+
+main();
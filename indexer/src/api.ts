@@ -0,0 +1,248 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import {
+  encodeAbiParameters,
+  getAddress,
+  isAddress,
+  isHex,
+  keccak256,
+  parseAbi,
+  stringToBytes,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import type { EventFilter, IndexerDatabase } from "./db";
+import { CONTRACT_KINDS, type ContractKind } from "./events";
+import type { IndexerStatus } from "./indexer";
+
+const MAX_LIMIT = 1000;
+// Proposal descriptions are Markdown prose, not attachments
+const MAX_DESCRIPTION_BYTES = 32 * 1024;
+
+class BadRequestError extends Error {}
+class ForbiddenError extends Error {}
+class ConflictError extends Error {}
+
+const GOVERNANCE_ABI = parseAbi([
+  "struct Proposal { uint256 id; address proposer; address targetFund; uint8 proposalType; uint8 status; uint256 forVotes; uint256 againstVotes; uint256 startTime; uint256 endTime; bytes proposalData; bool executed; }",
+  "function getProposal(uint256 proposalId) view returns (Proposal)",
+]);
+
+// Mirrors metadataTypedData in frontend/lib/metadata.ts
+const METADATA_TYPES = {
+  ProposalMetadata: [
+    { name: "proposalId", type: "uint256" },
+    { name: "proposalHash", type: "bytes32" },
+    { name: "contentHash", type: "bytes32" },
+  ],
+} as const;
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // Public data - any frontend origin may query it
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function addressParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (!isAddress(value, { strict: false })) throw new BadRequestError(`${name} is not an address`);
+  return getAddress(value);
+}
+
+function intParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new BadRequestError(`${name} must be a non-negative integer`);
+  return parsed;
+}
+
+function kindsParam(params: URLSearchParams): ContractKind[] | undefined {
+  const kinds = params.get("kind")?.split(",").filter(Boolean);
+  const unknown = kinds?.find((kind) => !CONTRACT_KINDS.includes(kind as ContractKind));
+  if (unknown) throw new BadRequestError(`kind must be one of ${CONTRACT_KINDS.join(", ")}`);
+  return kinds as ContractKind[] | undefined;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    let tooLarge = false;
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      // Keep draining so the 400 reaches the client, but stop buffering.
+      // The limit leaves headroom for the JSON envelope and escaping.
+      if (tooLarge) return;
+      body += chunk;
+      tooLarge = body.length > MAX_DESCRIPTION_BYTES * 2;
+    });
+    req.on("end", () => (tooLarge ? reject(new BadRequestError("Request body too large")) : resolve(body)));
+    req.on("error", reject);
+  });
+}
+
+// Stores a description for a proposal. Only the on-chain proposer can publish it: the signature
+// must recover to them over the proposal's action hash and the content hash, both computed here
+// from the chain and the body rather than trusted from the client. An existing description is
+// never replaced.
+async function publishMetadata(
+  db: IndexerDatabase,
+  client: PublicClient,
+  chainId: number,
+  governance: Address,
+  proposalId: bigint,
+  req: IncomingMessage
+) {
+  let body: { description?: unknown; signature?: unknown };
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof BadRequestError) throw error;
+    throw new BadRequestError("Body must be JSON");
+  }
+
+  const { description, signature } = body;
+  if (typeof description !== "string" || !description.trim()) throw new BadRequestError("description is required");
+  if (typeof signature !== "string" || !isHex(signature)) throw new BadRequestError("signature is required");
+  const bytes = stringToBytes(description);
+  if (bytes.length > MAX_DESCRIPTION_BYTES) {
+    throw new BadRequestError(`description must be at most ${MAX_DESCRIPTION_BYTES} bytes`);
+  }
+
+  const proposal = await client
+    .readContract({ address: governance, abi: GOVERNANCE_ABI, functionName: "getProposal", args: [proposalId] })
+    .catch(() => undefined);
+  if (!proposal || proposal.proposer === zeroAddress) throw new BadRequestError("No such proposal");
+
+  const proposalHash = keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint8" }, { type: "bytes" }],
+      [proposal.targetFund, proposal.proposalType, proposal.proposalData]
+    )
+  );
+  const contentHash = keccak256(bytes);
+  // Handles contract proposers too (ERC-1271)
+  const signedByProposer = await client.verifyTypedData({
+    address: proposal.proposer,
+    domain: { name: "Proposal Metadata", version: "1", chainId, verifyingContract: governance },
+    types: METADATA_TYPES,
+    primaryType: "ProposalMetadata",
+    message: { proposalId, proposalHash, contentHash },
+    signature: signature as Hex,
+  });
+  if (!signedByProposer) throw new ForbiddenError("signature is not from the proposal's proposer");
+
+  const row = {
+    governance,
+    proposalId: proposalId.toString(),
+    proposalHash,
+    contentHash,
+    description,
+    signature,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  if (db.insertProposalMetadata(row)) return row;
+
+  const existing = db.proposalMetadata(row.governance, row.proposalId)!;
+  // Re-publishing the same text is harmless; different text would rewrite the rationale voters saw
+  if (existing.contentHash !== row.contentHash) throw new ConflictError("A different description is already stored for this proposal");
+  return existing;
+}
+
+function parseEventFilter(params: URLSearchParams): EventFilter {
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") throw new BadRequestError("order must be asc or desc");
+
+  return {
+    account: addressParam(params, "account"),
+    fund: addressParam(params, "fund"),
+    contract: addressParam(params, "contract"),
+    kinds: kindsParam(params),
+    eventNames: params.get("event")?.split(",").filter(Boolean),
+    fromBlock: intParam(params, "fromBlock"),
+    toBlock: intParam(params, "toBlock"),
+    limit: Math.min(intParam(params, "limit") ?? 100, MAX_LIMIT),
+    offset: intParam(params, "offset") ?? 0,
+    order,
+  };
+}
+
+/**
+ * GET /status                    indexer progress and chain head
+ * GET /funds                     funds seen in FundCreated / FundRemoved
+ * GET /events?account=&fund=&contract=&kind=lpVault,indexFund&event=Deposit,Withdraw&fromBlock=&toBlock=&limit=&offset=&order=
+ * GET /metadata/:governance/:proposalId    off-chain proposal description
+ * POST /metadata/:governance/:proposalId   { description, signature } - proposer only, stored once
+ */
+export function createApi(db: IndexerDatabase, status: () => IndexerStatus, client: PublicClient, chainId: number) {
+  return createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const metadataPath = url.pathname.match(/^\/metadata\/([^/]+)\/([^/]+)$/);
+
+    if (req.method !== "GET" && !(req.method === "POST" && metadataPath)) {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      if (metadataPath) {
+        const [, rawGovernance, rawProposalId] = metadataPath;
+        if (!isAddress(rawGovernance, { strict: false })) throw new BadRequestError("governance is not an address");
+        if (!/^\d+$/.test(rawProposalId)) throw new BadRequestError("proposalId must be a non-negative integer");
+        const governance = getAddress(rawGovernance);
+        const proposalId = BigInt(rawProposalId);
+
+        if (req.method === "POST") {
+          send(res, 201, { metadata: await publishMetadata(db, client, chainId, governance, proposalId, req) });
+          return;
+        }
+        const metadata = db.proposalMetadata(governance, proposalId.toString());
+        if (metadata) send(res, 200, { metadata });
+        else send(res, 404, { error: "No metadata for this proposal" });
+        return;
+      }
+
+      switch (url.pathname) {
+        case "/status":
+          send(res, 200, status());
+          return;
+        case "/funds":
+          send(res, 200, { funds: db.funds() });
+          return;
+        case "/events": {
+          const filter = parseEventFilter(url.searchParams);
+          send(res, 200, { events: db.events(filter), limit: filter.limit, offset: filter.offset });
+          return;
+        }
+        default:
+          send(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(res, 400, { error: error.message });
+      } else if (error instanceof ForbiddenError) {
+        send(res, 403, { error: error.message });
+      } else if (error instanceof ConflictError) {
+        send(res, 409, { error: error.message });
+      } else {
+        console.error("[api]", error);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import { getAddress, type Address } from "viem";
+import { DEPLOYMENTS } from "../../frontend/lib/generated/deployments";
+
+// Default RPCs for the chains the frontend supports. Anvil's reorg depth is 0 by
+// default, but `anvil_reorg` and `anvil_revert` can still rewrite the tip, so the
+// indexer keeps checking block hashes there too.
+const DEFAULT_RPC_URLS: Record<number, string> = {
+  31337: "http://127.0.0.1:8545",
+  84532: "https://sepolia.base.org",
+  8453: "https://mainnet.base.org",
+};
+
+export interface IndexerConfig {
+  chainId: number;
+  rpcUrl: string;
+  startBlock: bigint;
+  // Blocks behind the head that may still be reorged away; their hashes are re-checked every poll
+  reorgDepth: number;
+  // Max block span per eth_getLogs request
+  batchSize: bigint;
+  pollIntervalMs: number;
+  databasePath: string;
+  port: number;
+  contracts: {
+    fundFactory: Address;
+    fundGovernance: Address;
+    indexFund: Address;
+    lpVaults: Address[];
+    leveragedLong: Address;
+    leveragedShort: Address;
+  };
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+export function loadConfig(): IndexerConfig {
+  const chainId = numberFromEnv("INDEXER_CHAIN_ID", 31337);
+  const deployment = DEPLOYMENTS[String(chainId) as keyof typeof DEPLOYMENTS];
+  if (!deployment) {
+    throw new Error(
+      `No deployment for chain ${chainId}. Deploy the contracts and run \`npm run deployments:generate\` in frontend/ first.`
+    );
+  }
+
+  const rpcUrl = process.env.INDEXER_RPC_URL || DEFAULT_RPC_URLS[chainId];
+  if (!rpcUrl) {
+    throw new Error(`INDEXER_RPC_URL is required for chain ${chainId}`);
+  }
+
+  const { contracts } = deployment;
+
+  return {
+    chainId,
+    rpcUrl,
+    startBlock: BigInt(numberFromEnv("INDEXER_START_BLOCK", deployment.startBlock)),
+    reorgDepth: numberFromEnv("INDEXER_REORG_DEPTH", chainId === 31337 ? 5 : 64),
+    batchSize: BigInt(numberFromEnv("INDEXER_BATCH_SIZE", 2000)),
+    pollIntervalMs: numberFromEnv("INDEXER_POLL_INTERVAL_MS", chainId === 31337 ? 1000 : 4000),
+    databasePath: process.env.INDEXER_DB_PATH || `data/indexer-${chainId}.db`,
+    port: numberFromEnv("INDEXER_PORT", 4000),
+    contracts: {
+      fundFactory: getAddress(contracts.FUND_FACTORY),
+      fundGovernance: getAddress(contracts.FUND_GOVERNANCE),
+      indexFund: getAddress(contracts.INDEX_FUND),
+      lpVaults: [getAddress(contracts.LP_VAULT_LONG), getAddress(contracts.LP_VAULT_SHORT)],
+      leveragedLong: getAddress(contracts.ETH2X_LONG),
+      leveragedShort: getAddress(contracts.ETH2X_SHORT),
+    },
+  };
+}
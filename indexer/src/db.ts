@@ -0,0 +1,298 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { ContractKind } from "./events";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Hashes of indexed blocks near the head, used to detect reorgs
+  CREATE TABLE IF NOT EXISTS blocks (
+    number    INTEGER PRIMARY KEY,
+    hash      TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id            INTEGER PRIMARY KEY,
+    block_number  INTEGER NOT NULL,
+    block_hash    TEXT NOT NULL,
+    tx_hash       TEXT NOT NULL,
+    log_index     INTEGER NOT NULL,
+    timestamp     INTEGER NOT NULL,
+    contract      TEXT NOT NULL,
+    contract_kind TEXT NOT NULL,
+    event_name    TEXT NOT NULL,
+    account       TEXT,
+    fund          TEXT,
+    args          TEXT NOT NULL,
+    UNIQUE (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_block ON events (block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_fund ON events (fund, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_contract ON events (contract, event_name, block_number);
+
+  CREATE TABLE IF NOT EXISTS funds (
+    address       TEXT PRIMARY KEY,
+    name          TEXT NOT NULL,
+    symbol        TEXT NOT NULL,
+    asset         TEXT NOT NULL,
+    created_block INTEGER NOT NULL,
+    removed_block INTEGER
+  );
+
+  -- Off-chain Markdown rationale for proposals, signed by the proposer and keyed by proposal.
+  -- Not tied to blocks, so reorg rollbacks leave it alone.
+  CREATE TABLE IF NOT EXISTS proposal_descriptions (
+    governance    TEXT NOT NULL,
+    proposal_id   TEXT NOT NULL,
+    proposal_hash TEXT NOT NULL,
+    content_hash  TEXT NOT NULL,
+    description   TEXT NOT NULL,
+    signature     TEXT NOT NULL,
+    created_at    INTEGER NOT NULL,
+    PRIMARY KEY (governance, proposal_id)
+  );
+`;
+
+export interface EventRow {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+  contract: string;
+  contractKind: ContractKind;
+  eventName: string;
+  account: string | null;
+  fund: string | null;
+  // Decoded event arguments; uint256 values are decimal strings
+  args: Record<string, unknown>;
+}
+
+export interface FundRow {
+  address: string;
+  name: string;
+  symbol: string;
+  asset: string;
+  createdBlock: number;
+  removedBlock: number | null;
+}
+
+export interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface ProposalMetadataRow {
+  // Checksummed governance address
+  governance: string;
+  // Decimal proposal id
+  proposalId: string;
+  // keccak256 of the proposal's (targetFund, proposalType, proposalData)
+  proposalHash: string;
+  // keccak256 of the UTF-8 description
+  contentHash: string;
+  description: string;
+  // Proposer's EIP-712 signature over (proposalId, proposalHash, contentHash)
+  signature: string;
+  // Unix seconds
+  createdAt: number;
+}
+
+export interface EventFilter {
+  account?: string;
+  fund?: string;
+  contract?: string;
+  kinds?: ContractKind[];
+  eventNames?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+  limit: number;
+  offset: number;
+  order: "asc" | "desc";
+}
+
+// Everything the indexer learned from one block range, written in a single transaction
+export interface Batch {
+  toBlock: number;
+  blocks: BlockRow[];
+  events: EventRow[];
+  fundsCreated: FundRow[];
+  fundsRemoved: { address: string; block: number }[];
+}
+
+export type IndexerDatabase = ReturnType<typeof openDatabase>;
+
+function serializeArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+export function openDatabase(path: string, chainId: number) {
+  if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const getMeta = db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?");
+  const setMeta = db.prepare<[string, string]>(
+    "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+  );
+
+  // One database per chain - refuse to mix chains if the path is reused
+  const storedChainId = getMeta.get("chain_id")?.value;
+  if (storedChainId && Number(storedChainId) !== chainId) {
+    throw new Error(`${path} holds chain ${storedChainId}, not ${chainId}`);
+  }
+  setMeta.run("chain_id", String(chainId));
+
+  const insertBlock = db.prepare<[number, string, number]>(
+    "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)"
+  );
+  const insertEvent = db.prepare(`
+    INSERT OR IGNORE INTO events
+      (block_number, block_hash, tx_hash, log_index, timestamp, contract, contract_kind, event_name, account, fund, args)
+    VALUES
+      (@blockNumber, @blockHash, @txHash, @logIndex, @timestamp, @contract, @contractKind, @eventName, @account, @fund, @args)
+  `);
+  const insertFund = db.prepare(`
+    INSERT OR REPLACE INTO funds (address, name, symbol, asset, created_block, removed_block)
+    VALUES (@address, @name, @symbol, @asset, @createdBlock, NULL)
+  `);
+  const removeFund = db.prepare<[number, string]>("UPDATE funds SET removed_block = ? WHERE address = ?");
+
+  const writeBatch = db.transaction((batch: Batch) => {
+    for (const block of batch.blocks) insertBlock.run(block.number, block.hash, block.timestamp);
+    for (const fund of batch.fundsCreated) insertFund.run(fund);
+    for (const { address, block } of batch.fundsRemoved) removeFund.run(block, address);
+    for (const event of batch.events) insertEvent.run({ ...event, args: serializeArgs(event.args) });
+    setMeta.run("last_block", String(batch.toBlock));
+  });
+
+  // Drops everything above `block` after a reorg
+  const rollback = db.transaction((block: number) => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+    db.prepare("DELETE FROM funds WHERE created_block > ?").run(block);
+    db.prepare("UPDATE funds SET removed_block = NULL WHERE removed_block > ?").run(block);
+    setMeta.run("last_block", String(block));
+  });
+
+  return {
+    close: () => db.close(),
+
+    lastBlock(): number | undefined {
+      const value = getMeta.get("last_block")?.value;
+      return value === undefined ? undefined : Number(value);
+    },
+
+    writeBatch: (batch: Batch) => writeBatch(batch),
+    rollback: (block: number) => rollback(block),
+
+    // Most recent stored block hashes first, for walking back to a common ancestor
+    recentBlocks(limit: number): BlockRow[] {
+      return db.prepare<[number], BlockRow>("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?").all(limit);
+    },
+
+    pruneBlocks(belowBlock: number) {
+      db.prepare("DELETE FROM blocks WHERE number < ?").run(belowBlock);
+    },
+
+    funds(): FundRow[] {
+      return db
+        .prepare<[], FundRow>(
+          `SELECT address, name, symbol, asset, created_block AS createdBlock, removed_block AS removedBlock
+           FROM funds ORDER BY created_block, address`
+        )
+        .all();
+    },
+
+    // Fund a proposal targets, so votes and executions can be filtered by fund
+    proposalFund(proposalId: string): string | null {
+      const row = db
+        .prepare<[string], { fund: string | null }>(
+          `SELECT fund FROM events
+           WHERE event_name = 'ProposalCreated' AND json_extract(args, '$.proposalId') = ?
+           LIMIT 1`
+        )
+        .get(proposalId);
+      return row?.fund ?? null;
+    },
+
+    proposalMetadata(governance: string, proposalId: string): ProposalMetadataRow | undefined {
+      return db
+        .prepare<[string, string], ProposalMetadataRow>(
+          `SELECT governance, proposal_id AS proposalId, proposal_hash AS proposalHash, content_hash AS contentHash,
+                  description, signature, created_at AS createdAt
+           FROM proposal_descriptions WHERE governance = ? AND proposal_id = ?`
+        )
+        .get(governance, proposalId);
+    },
+
+    // First write wins - returns false when the proposal already has a description
+    insertProposalMetadata(row: ProposalMetadataRow): boolean {
+      const result = db
+        .prepare(
+          `INSERT OR IGNORE INTO proposal_descriptions
+             (governance, proposal_id, proposal_hash, content_hash, description, signature, created_at)
+           VALUES (@governance, @proposalId, @proposalHash, @contentHash, @description, @signature, @createdAt)`
+        )
+        .run(row);
+      return result.changes > 0;
+    },
+
+    events(filter: EventFilter): EventRow[] {
+      const where: string[] = [];
+      const params: Record<string, unknown> = { limit: filter.limit, offset: filter.offset };
+
+      if (filter.account) {
+        where.push("account = @account");
+        params.account = filter.account;
+      }
+      if (filter.fund) {
+        where.push("fund = @fund");
+        params.fund = filter.fund;
+      }
+      if (filter.contract) {
+        where.push("contract = @contract");
+        params.contract = filter.contract;
+      }
+      if (filter.kinds?.length) {
+        where.push(`contract_kind IN (${filter.kinds.map((_, i) => `@kind${i}`).join(", ")})`);
+        filter.kinds.forEach((kind, i) => (params[`kind${i}`] = kind));
+      }
+      if (filter.eventNames?.length) {
+        where.push(`event_name IN (${filter.eventNames.map((_, i) => `@event${i}`).join(", ")})`);
+        filter.eventNames.forEach((name, i) => (params[`event${i}`] = name));
+      }
+      if (filter.fromBlock !== undefined) {
+        where.push("block_number >= @fromBlock");
+        params.fromBlock = filter.fromBlock;
+      }
+      if (filter.toBlock !== undefined) {
+        where.push("block_number <= @toBlock");
+        params.toBlock = filter.toBlock;
+      }
+
+      const order = filter.order === "asc" ? "ASC" : "DESC";
+      const rows = db
+        .prepare(
+          `SELECT block_number AS blockNumber, block_hash AS blockHash, tx_hash AS txHash, log_index AS logIndex,
+                  timestamp, contract, contract_kind AS contractKind, event_name AS eventName, account, fund, args
+           FROM events
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY block_number ${order}, log_index ${order}
+           LIMIT @limit OFFSET @offset`
+        )
+        .all(params) as (Omit<EventRow, "args"> & { args: string })[];
+
+      return rows.map((row) => ({ ...row, args: JSON.parse(row.args) }));
+    },
+  };
+}
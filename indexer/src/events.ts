@@ -0,0 +1,73 @@
+import { parseAbi, type Abi } from "viem";
+
+// Event signatures copied from contracts/src. Only events the UI cares about are
+// decoded; anything else a contract emits (Transfer, Approval, upgrades) is skipped.
+
+const ERC4626_EVENTS = [
+  "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)",
+  "event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)",
+] as const;
+
+export const CONTRACT_KINDS = ["factory", "governance", "indexFund", "lpVault", "leveragedLong", "leveragedShort"] as const;
+export type ContractKind = (typeof CONTRACT_KINDS)[number];
+
+export const EVENT_ABIS: Record<ContractKind, Abi> = {
+  factory: parseAbi([
+    "event FundCreated(address indexed fund, string name, string symbol, address asset)",
+    "event FundRemoved(address indexed fund)",
+  ]),
+  governance: parseAbi([
+    "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, address indexed targetFund, uint8 proposalType)",
+    "event VoteCast(address indexed voter, uint256 indexed proposalId, bool support, uint256 weight)",
+    "event ProposalExecuted(uint256 indexed proposalId)",
+    "event ProposalCancelled(uint256 indexed proposalId)",
+    "event VotingParametersUpdated(uint256 votingPeriod, uint256 quorumPercentage, uint256 proposalThreshold)",
+  ]),
+  indexFund: parseAbi([
+    ...ERC4626_EVENTS,
+    "event Rebalanced(address indexed rebalancer, uint256 timestamp)",
+    "event FeeCollected(uint256 amount, uint256 timestamp)",
+    "event AllocationUpdated(address indexed token, uint256 newPercentage)",
+  ]),
+  lpVault: parseAbi([
+    ...ERC4626_EVENTS,
+    "event Borrowed(address indexed borrower, uint256 amount)",
+    "event Repaid(address indexed borrower, uint256 principal, uint256 interest)",
+    "event InterestAccrued(uint256 interest, uint256 timestamp)",
+  ]),
+  leveragedLong: parseAbi([
+    "event Minted(address indexed user, uint256 stableIn, uint256 shares, uint256 underlyingBought)",
+    "event Redeemed(address indexed user, uint256 shares, uint256 stableReturned)",
+    "event Rebalanced(uint256 timestamp, uint256 oldNav, uint256 newNav)",
+  ]),
+  leveragedShort: parseAbi([
+    "event Minted(address indexed user, uint256 stableIn, uint256 shares, uint256 underlyingBorrowed)",
+    "event Redeemed(address indexed user, uint256 shares, uint256 stableReturned)",
+    "event Rebalanced(uint256 timestamp, uint256 oldNav, uint256 newNav)",
+  ]),
+};
+
+// Argument holding the wallet an event belongs to, so history can be queried per account
+const ACCOUNT_ARGS: Record<string, string> = {
+  Deposit: "owner",
+  Withdraw: "owner",
+  Borrowed: "borrower",
+  Repaid: "borrower",
+  Minted: "user",
+  Redeemed: "user",
+  Rebalanced: "rebalancer",
+  ProposalCreated: "proposer",
+  VoteCast: "voter",
+};
+
+export function accountOf(eventName: string, args: Record<string, unknown>): string | null {
+  const value = args[ACCOUNT_ARGS[eventName]];
+  return typeof value === "string" ? value : null;
+}
+
+// Fund an event is about: the emitting fund itself, or the fund a factory/governance event names
+export function fundOf(kind: ContractKind, contract: string, args: Record<string, unknown>): string | null {
+  if (kind === "indexFund") return contract;
+  const value = args.fund ?? args.targetFund;
+  return typeof value === "string" ? value : null;
+}
@@ -0,0 +1,39 @@
+/**
+ * Standalone event indexer for the protocol contracts.
+ *
+ * Backfills from the deployment's start block, follows new blocks, rolls back
+ * on reorgs and serves the normalized events from SQLite over HTTP.
+ *
+ * Usage:
+ *   npm start                              # Anvil (31337) on http://127.0.0.1:8545
+ *   INDEXER_CHAIN_ID=84532 npm start       # Base Sepolia
+ */
+import { createPublicClient, http } from "viem";
+import { createApi } from "./api";
+import { loadConfig } from "./config";
+import { openDatabase } from "./db";
+import { createIndexer } from "./indexer";
+
+const config = loadConfig();
+const db = openDatabase(config.databasePath, config.chainId);
+const client = createPublicClient({ transport: http(config.rpcUrl) });
+const indexer = createIndexer(config, db, client);
+const server = createApi(db, indexer.status, client, config.chainId);
+
+server.listen(config.port, () => {
+  console.log(`[api] Listening on http://localhost:${config.port}`);
+});
+
+const done = indexer.run();
+
+function shutdown() {
+  indexer.stop();
+  server.close();
+  done.finally(() => {
+    db.close();
+    process.exit(0);
+  });
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
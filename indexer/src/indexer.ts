@@ -0,0 +1,234 @@
+import {
+  BaseError,
+  BlockNotFoundError,
+  decodeEventLog,
+  getAddress,
+  type Address,
+  type Log,
+  type PublicClient,
+} from "viem";
+import { isRangeLimitError } from "../../frontend/lib/rpc";
+import type { IndexerConfig } from "./config";
+import type { Batch, BlockRow, EventRow, FundRow, IndexerDatabase } from "./db";
+import { EVENT_ABIS, accountOf, fundOf, type ContractKind } from "./events";
+
+export interface IndexerStatus {
+  chainId: number;
+  head: number | null;
+  lastBlock: number | null;
+  lastError: string | null;
+}
+
+// The chain moved under a range while it was being fetched; the next poll's reorg check sorts it out
+class BlockChangedError extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createIndexer(config: IndexerConfig, db: IndexerDatabase, client: PublicClient) {
+  let stopped = false;
+  let head: number | null = null;
+  let lastError: string | null = null;
+  // Shrinks when an RPC rejects a getLogs range as too large, grows back after ranges that succeed
+  let span = Number(config.batchSize);
+
+  const firstBlock = Number(config.startBlock);
+
+  // Fixed protocol contracts; funds created through the factory are added as they are indexed
+  const staticContracts = new Map<Address, ContractKind>([
+    [config.contracts.fundGovernance, "governance"],
+    [config.contracts.indexFund, "indexFund"],
+    [config.contracts.leveragedLong, "leveragedLong"],
+    [config.contracts.leveragedShort, "leveragedShort"],
+    ...config.contracts.lpVaults.map((vault) => [vault, "lpVault"] as [Address, ContractKind]),
+  ]);
+
+  function watchedContracts(): Map<Address, ContractKind> {
+    const contracts = new Map(staticContracts);
+    for (const fund of db.funds()) contracts.set(getAddress(fund.address), "indexFund");
+    return contracts;
+  }
+
+  function decode(kind: ContractKind, log: Log) {
+    try {
+      const { eventName, args } = decodeEventLog({ abi: EVENT_ABIS[kind], data: log.data, topics: log.topics, strict: true });
+      if (!eventName) return undefined;
+      return { eventName, args: (args ?? {}) as Record<string, unknown> };
+    } catch {
+      // Not an event we index (Transfer, Approval, Upgraded...)
+      return undefined;
+    }
+  }
+
+  async function fetchBlocks(numbers: Set<number>): Promise<Map<number, BlockRow>> {
+    const blocks = new Map<number, BlockRow>();
+    for (const number of numbers) {
+      const block = await client.getBlock({ blockNumber: BigInt(number) });
+      blocks.set(number, { number, hash: block.hash, timestamp: Number(block.timestamp) });
+    }
+    return blocks;
+  }
+
+  async function indexRange(fromBlock: number, toBlock: number): Promise<void> {
+    const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+
+    // Factory first, so funds created in this range are watched for the rest of it
+    const factoryLogs = await client.getLogs({ address: config.contracts.fundFactory, ...range });
+    const fundsCreated: FundRow[] = [];
+    const fundsRemoved: Batch["fundsRemoved"] = [];
+    const contracts = watchedContracts();
+
+    const decoded: { kind: ContractKind; log: Log; eventName: string; args: Record<string, unknown> }[] = [];
+
+    for (const log of factoryLogs) {
+      const event = decode("factory", log);
+      if (!event) continue;
+      decoded.push({ kind: "factory", log, ...event });
+
+      const fund = getAddress(event.args.fund as string);
+      if (event.eventName === "FundCreated") {
+        contracts.set(fund, "indexFund");
+        fundsCreated.push({
+          address: fund,
+          name: event.args.name as string,
+          symbol: event.args.symbol as string,
+          asset: getAddress(event.args.asset as string),
+          createdBlock: Number(log.blockNumber),
+          removedBlock: null,
+        });
+      } else if (event.eventName === "FundRemoved") {
+        fundsRemoved.push({ address: fund, block: Number(log.blockNumber) });
+      }
+    }
+
+    const logs = await client.getLogs({ address: [...contracts.keys()], ...range });
+    for (const log of logs) {
+      const kind = contracts.get(getAddress(log.address));
+      const event = kind && decode(kind, log);
+      if (kind && event) decoded.push({ kind, log, ...event });
+    }
+
+    // Timestamps for every block with an event, plus the range end as the reorg anchor
+    const blockNumbers = new Set(decoded.map(({ log }) => Number(log.blockNumber)));
+    blockNumbers.add(toBlock);
+    const blocks = await fetchBlocks(blockNumbers);
+
+    // Governance events other than ProposalCreated only carry the proposal id
+    const proposalFunds = new Map<string, string | null>();
+
+    const events: EventRow[] = decoded
+      .sort((a, b) => Number(a.log.blockNumber! - b.log.blockNumber!) || a.log.logIndex! - b.log.logIndex!)
+      .map(({ kind, log, eventName, args }) => {
+        const block = blocks.get(Number(log.blockNumber))!;
+        if (block.hash !== log.blockHash) {
+          throw new BlockChangedError(`Block ${block.number} changed while indexing ${fromBlock}-${toBlock}`);
+        }
+
+        const contract = getAddress(log.address);
+        let fund = fundOf(kind, contract, args);
+        if (kind === "governance") {
+          const proposalId = String(args.proposalId);
+          if (eventName === "ProposalCreated") {
+            proposalFunds.set(proposalId, fund);
+          } else {
+            fund = proposalFunds.get(proposalId) ?? db.proposalFund(proposalId);
+          }
+        }
+
+        return {
+          blockNumber: block.number,
+          blockHash: block.hash,
+          txHash: log.transactionHash!,
+          logIndex: log.logIndex!,
+          timestamp: block.timestamp,
+          contract,
+          contractKind: kind,
+          eventName,
+          account: accountOf(eventName, args),
+          fund: fund && getAddress(fund),
+          args,
+        };
+      });
+
+    db.writeBatch({ toBlock, blocks: [...blocks.values()], events, fundsCreated, fundsRemoved });
+
+    if (events.length > 0) {
+      console.log(`[indexer] ${fromBlock}-${toBlock}: ${events.length} events`);
+    }
+  }
+
+  // Compares stored hashes with the chain, newest first, and rolls back to the
+  // first block both agree on
+  async function handleReorg(): Promise<void> {
+    const stored = db.recentBlocks(config.reorgDepth + 1);
+    if (stored.length === 0) return;
+
+    for (const [i, block] of stored.entries()) {
+      // Only a missing block counts as a mismatch; any other RPC failure aborts the tick and is retried
+      const onChain = await client.getBlock({ blockNumber: BigInt(block.number) }).catch((error) => {
+        if (error instanceof BlockNotFoundError) return null;
+        throw error;
+      });
+      if (onChain?.hash === block.hash) {
+        if (i > 0) {
+          console.warn(`[indexer] Reorg detected, rolling back to block ${block.number}`);
+          db.rollback(block.number);
+        }
+        return;
+      }
+    }
+
+    // Deeper than anything we kept a hash for - start over from just below it
+    const rollbackTo = Math.max(stored[stored.length - 1].number - config.reorgDepth, firstBlock - 1);
+    console.warn(`[indexer] Reorg deeper than ${config.reorgDepth} blocks, rolling back to block ${rollbackTo}`);
+    db.rollback(rollbackTo);
+  }
+
+  async function tick(): Promise<void> {
+    head = Number(await client.getBlockNumber());
+    await handleReorg();
+
+    let next = (db.lastBlock() ?? firstBlock - 1) + 1;
+    while (!stopped && next <= head) {
+      const toBlock = Math.min(next + span - 1, head);
+      try {
+        await indexRange(next, toBlock);
+      } catch (error) {
+        if (isRangeLimitError(error) && toBlock > next) {
+          span = Math.max(1, Math.floor(span / 2));
+          console.warn(`[indexer] ${next}-${toBlock} failed, retrying with ${span} blocks per request`);
+          continue;
+        }
+        throw error;
+      }
+      next = toBlock + 1;
+      span = Math.min(span * 2, Number(config.batchSize));
+    }
+
+    db.pruneBlocks(head - config.reorgDepth);
+  }
+
+  return {
+    status(): IndexerStatus {
+      return { chainId: config.chainId, head, lastBlock: db.lastBlock() ?? null, lastError };
+    },
+
+    async run(): Promise<void> {
+      console.log(`[indexer] Chain ${config.chainId} from block ${firstBlock} via ${config.rpcUrl}`);
+      while (!stopped) {
+        try {
+          await tick();
+          lastError = null;
+        } catch (error) {
+          lastError =
+            error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+          console.error(`[indexer] ${lastError}`);
+        }
+        await sleep(config.pollIntervalMs);
+      }
+    },
+
+    stop() {
+      stopped = true;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { parseAbi } from "viem";
+
+// Slices of the protocol ABIs the keeper touches, copied from contracts/src.
+
+// LeveragedLongToken and LeveragedShortToken share these signatures
+export const LEVERAGED_TOKEN_ABI = parseAbi([
+  "function rebalance()",
+  "function needsRebalance() view returns (bool)",
+  "function paused() view returns (bool)",
+  "function lastRebalanceTime() view returns (uint256)",
+  "function MIN_REBALANCE_INTERVAL() view returns (uint256)",
+  "function leverageRatio() view returns (uint256)",
+  "function oracle() view returns (address)",
+  "function underlyingDecimals() view returns (uint8)",
+  "function stableDecimals() view returns (uint8)",
+  "function oracleDecimals() view returns (uint8)",
+  // Stable owed on the long side, underlying owed on the short side
+  "function totalBorrowed() view returns (uint256)",
+  "event Rebalanced(uint256 timestamp, uint256 oldNav, uint256 newNav)",
+]);
+
+// What each side holds against its debt
+export const LEVERAGED_LONG_TOKEN_ABI = parseAbi(["function totalUnderlying() view returns (uint256)"]);
+export const LEVERAGED_SHORT_TOKEN_ABI = parseAbi(["function totalStableHeld() view returns (uint256)"]);
+
+// The permissionless calls the job runner makes; the function names double as job names
+export const MAINTENANCE_ABI = parseAbi(["function accrueInterest()", "function collectFees()"]);
+
+export const LP_VAULT_ABI = parseAbi([
+  "function asset() view returns (address)",
+  "function totalBorrowed() view returns (uint256)",
+  "function interestRateBps() view returns (uint256)",
+  "function lastAccrualTime() view returns (uint256)",
+  "function utilizationRate() view returns (uint256)",
+  "function maxUtilizationBps() view returns (uint256)",
+  "function paused() view returns (bool)",
+]);
+
+export const INDEX_FUND_ABI = parseAbi([
+  "function asset() view returns (address)",
+  "function totalSupply() view returns (uint256)",
+  "function managementFee() view returns (uint256)",
+  "function lastFeeCollection() view returns (uint256)",
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+  "function paused() view returns (bool)",
+]);
+
+export const FUND_FACTORY_ABI = parseAbi(["function getAllFunds() view returns (address[])"]);
+
+export const ERC20_ABI = parseAbi(["function decimals() view returns (uint8)"]);
+
+export const CHAINLINK_AGGREGATOR_ABI = parseAbi([
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+]);
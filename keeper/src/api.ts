@@ -0,0 +1,52 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { JobName, JobRun, JobStatus } from "./jobs";
+import type { TargetStatus } from "./rebalance";
+
+export interface KeeperStatus {
+  chainId: number;
+  account?: string;
+  dryRun: boolean;
+  rebalance: TargetStatus[];
+  jobs: JobStatus[];
+}
+
+const JOB_NAMES: JobName[] = ["accrueInterest", "collectFees"];
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/**
+ * GET /status           rebalance outcome per leveraged token, schedule and last run per job
+ * GET /runs?job=        recent job runs with per-target outcomes, newest first
+ */
+export function createApi(status: () => KeeperStatus, runs: () => JobRun[]) {
+  return createServer((req, res) => {
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    switch (url.pathname) {
+      case "/status":
+        send(res, 200, status());
+        return;
+      case "/runs": {
+        const job = url.searchParams.get("job");
+        if (job !== null && !JOB_NAMES.includes(job as JobName)) {
+          send(res, 400, { error: `job must be one of ${JOB_NAMES.join(", ")}` });
+          return;
+        }
+        send(res, 200, { runs: runs().filter((run) => job === null || run.job === job) });
+        return;
+      }
+      default:
+        send(res, 404, { error: "Not found" });
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import { getAddress, isHex, type Address, type Hex } from "viem";
+import { DEPLOYMENTS } from "../../frontend/lib/generated/deployments";
+import { parseCron } from "./cron";
+
+export const DEFAULT_RPC_URLS: Record<number, string> = {
+  31337: "http://127.0.0.1:8545",
+  84532: "https://sepolia.base.org",
+  8453: "https://mainnet.base.org",
+};
+
+// Anvil's first default account, so `make anvil` + `npm start` works without any setup
+const ANVIL_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+export type LeveragedKind = "long" | "short";
+
+export interface LeveragedTarget {
+  kind: LeveragedKind;
+  address: Address;
+}
+
+export interface JobSchedules {
+  accrueInterest: string;
+  collectFees: string;
+}
+
+export interface KeeperConfig {
+  chainId: number;
+  rpcUrl: string;
+  // Undefined only in dry-run mode
+  privateKey?: Hex;
+  dryRun: boolean;
+  pollIntervalMs: number;
+  leveragedTokens: LeveragedTarget[];
+  // Percentage added on top of the gas estimate
+  gasBufferPercent: number;
+  // Calls estimating above this are skipped rather than sent
+  maxGasLimit: bigint;
+  // Attempts per call after the first one, for transport and nonce errors
+  maxRetries: number;
+  retryDelayMs: number;
+  receiptTimeoutMs: number;
+  // Cron expressions (UTC) for the maintenance jobs
+  schedules: JobSchedules;
+  port: number;
+  contracts: {
+    fundFactory?: Address;
+    lpVaults: Address[];
+    // Used to price job value in ETH; assets other than these two can't be priced
+    weth?: Address;
+    usdc?: Address;
+    ethUsdOracle?: Address;
+  };
+}
+
+export function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer (got "${raw}")`);
+  }
+  return value;
+}
+
+export function booleanFromEnv(name: string): boolean {
+  const raw = process.env[name];
+  return raw === "1" || raw === "true";
+}
+
+function scheduleFromEnv(name: string, fallback: string): string {
+  const expression = process.env[name] || fallback;
+  parseCron(expression);
+  return expression;
+}
+
+// e.g. KEEPER_LEVERAGED_TOKENS=long:0x...,short:0x..., overriding the deployment's ETH2X pair
+export function leveragedTokensFromEnv(name: string, fallback: LeveragedTarget[]): LeveragedTarget[] {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  return raw.split(",").map((entry) => {
+    const [kind, address] = entry.trim().split(":");
+    if ((kind !== "long" && kind !== "short") || !address) {
+      throw new Error(`${name} entries must look like long:0x... or short:0x... (got "${entry}")`);
+    }
+    return { kind, address: getAddress(address) };
+  });
+}
+
+export function loadConfig(): KeeperConfig {
+  const chainId = numberFromEnv("KEEPER_CHAIN_ID", 31337);
+  const deployment = DEPLOYMENTS[String(chainId) as keyof typeof DEPLOYMENTS];
+  if (!deployment && !process.env.KEEPER_LEVERAGED_TOKENS) {
+    throw new Error(
+      `No deployment for chain ${chainId}. Deploy the contracts and run \`npm run deployments:generate\` in frontend/ first, or set KEEPER_LEVERAGED_TOKENS.`
+    );
+  }
+
+  const rpcUrl = process.env.KEEPER_RPC_URL || DEFAULT_RPC_URLS[chainId];
+  if (!rpcUrl) {
+    throw new Error(`KEEPER_RPC_URL is required for chain ${chainId}`);
+  }
+
+  const dryRun = booleanFromEnv("KEEPER_DRY_RUN");
+  const privateKey = process.env.KEEPER_PRIVATE_KEY || (chainId === 31337 ? ANVIL_PRIVATE_KEY : undefined);
+  if (privateKey !== undefined && !isHex(privateKey)) {
+    throw new Error("KEEPER_PRIVATE_KEY must be a 0x-prefixed hex string");
+  }
+  if (!privateKey && !dryRun) {
+    throw new Error(`KEEPER_PRIVATE_KEY is required on chain ${chainId} unless KEEPER_DRY_RUN=true`);
+  }
+
+  const deployed: LeveragedTarget[] = deployment
+    ? [
+        { kind: "long", address: getAddress(deployment.contracts.ETH2X_LONG) },
+        { kind: "short", address: getAddress(deployment.contracts.ETH2X_SHORT) },
+      ]
+    : [];
+
+  return {
+    chainId,
+    rpcUrl,
+    privateKey,
+    dryRun,
+    pollIntervalMs: numberFromEnv("KEEPER_POLL_INTERVAL_MS", chainId === 31337 ? 5000 : 60_000),
+    leveragedTokens: leveragedTokensFromEnv("KEEPER_LEVERAGED_TOKENS", deployed),
+    gasBufferPercent: numberFromEnv("KEEPER_GAS_BUFFER_PERCENT", 20),
+    maxGasLimit: BigInt(numberFromEnv("KEEPER_MAX_GAS_LIMIT", 500_000)),
+    maxRetries: numberFromEnv("KEEPER_MAX_RETRIES", 3),
+    retryDelayMs: numberFromEnv("KEEPER_RETRY_DELAY_MS", 2000),
+    receiptTimeoutMs: numberFromEnv("KEEPER_RECEIPT_TIMEOUT_MS", 120_000),
+    schedules: {
+      accrueInterest: scheduleFromEnv("KEEPER_ACCRUE_INTEREST_SCHEDULE", "0 * * * *"),
+      collectFees: scheduleFromEnv("KEEPER_COLLECT_FEES_SCHEDULE", "0 0 * * *"),
+    },
+    port: numberFromEnv("KEEPER_PORT", 4100),
+    contracts: deployment
+      ? {
+          fundFactory: getAddress(deployment.contracts.FUND_FACTORY),
+          lpVaults: [getAddress(deployment.contracts.LP_VAULT_LONG), getAddress(deployment.contracts.LP_VAULT_SHORT)],
+          weth: getAddress(deployment.contracts.WETH),
+          usdc: getAddress(deployment.contracts.USDC),
+          ethUsdOracle: getAddress(deployment.contracts.ETH_USD_ORACLE),
+        }
+      : { lpVaults: [] },
+  };
+}
@@ -0,0 +1,108 @@
+// Minimal five-field cron ("minute hour day-of-month month day-of-week"), evaluated in UTC.
+// Supports *, lists, ranges and steps (e.g. "*/15 * * * *", "0 0,12 * * 1-5") plus @hourly,
+// @daily, @weekly and @monthly.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Vixie cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as Sunday
+  { name: "day-of-week", min: 0, max: 7 },
+] as const;
+
+function parseField(raw: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in cron ${name} field "${raw}"`);
+
+    let [from, to] = [min, max] as number[];
+    if (range !== "*") {
+      const [start, end] = range.split("-").map(Number);
+      from = start;
+      to = end ?? (stepRaw === undefined ? start : max);
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Cron ${name} field "${raw}" must be within ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = (ALIASES[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression "${expression}" must have 5 fields`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+// First matching minute strictly after `after`
+export function nextRun(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skips whole months, days and hours at a time, so this is a few hundred steps at most
+  // for any satisfiable expression; "0 0 31 2 *" and friends run out instead of spinning
+  for (let steps = 0; steps < 10_000; steps++) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
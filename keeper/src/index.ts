@@ -0,0 +1,70 @@
+/**
+ * Keeper for the protocol's permissionless maintenance calls.
+ *
+ * - Polls needsRebalance() on every configured ETH2X token and, once one is due and
+ *   not paused, simulates and sends rebalance() with a buffered gas limit.
+ * - Runs LPVault.accrueInterest() and IndexFund.collectFees() (every fund from
+ *   FundFactory.getAllFunds) on cron schedules, skipping calls that cost more gas
+ *   than the value they book.
+ *
+ * Results are logged as JSON lines and served over HTTP.
+ *
+ * Usage:
+ *   npm start                                # Anvil (31337), Anvil's first account
+ *   npm run dry-run                          # Simulate only, never send
+ *   KEEPER_CHAIN_ID=84532 KEEPER_PRIVATE_KEY=0x... npm start
+ */
+import { createPublicClient, createWalletClient, defineChain, http } from "viem";
+import { nonceManager, privateKeyToAccount } from "viem/accounts";
+import { createApi } from "./api";
+import { loadConfig } from "./config";
+import { createJobRunner } from "./jobs";
+import { log } from "./log";
+import { createRebalanceKeeper } from "./rebalance";
+
+const config = loadConfig();
+const chain = defineChain({
+  id: config.chainId,
+  name: `chain-${config.chainId}`,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: [config.rpcUrl] } },
+});
+
+const transport = http(config.rpcUrl);
+const client = createPublicClient({ chain, transport });
+// The rebalance loop and the job runner send from the same account concurrently
+const account = config.privateKey ? privateKeyToAccount(config.privateKey, { nonceManager }) : undefined;
+const wallet = account && !config.dryRun ? createWalletClient({ account, chain, transport }) : undefined;
+
+const keeper = createRebalanceKeeper(config, client, wallet, account);
+const jobs = createJobRunner(config, client, wallet, account);
+const server = createApi(
+  () => ({
+    chainId: config.chainId,
+    account: account?.address,
+    dryRun: config.dryRun,
+    rebalance: keeper.statuses(),
+    jobs: jobs.status(),
+  }),
+  jobs.runs
+);
+
+server.listen(config.port, () => {
+  log("info", "api_listening", { url: `http://localhost:${config.port}` });
+});
+
+const done = Promise.all([keeper.run(), jobs.run()]).catch((error) => {
+  log("error", "keeper_crashed", { reason: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
+
+function shutdown() {
+  log("info", "keeper_stopping");
+  keeper.stop();
+  jobs.stop();
+  server.close();
+  done.finally(() => process.exit());
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,261 @@
+import type { Account, Address, Hash, PublicClient, WalletClient } from "viem";
+import {
+  CHAINLINK_AGGREGATOR_ABI,
+  ERC20_ABI,
+  FUND_FACTORY_ABI,
+  INDEX_FUND_ABI,
+  LP_VAULT_ABI,
+  MAINTENANCE_ABI,
+} from "./abis";
+import type { JobSchedules, KeeperConfig } from "./config";
+import { nextRun, parseCron } from "./cron";
+import { log, type LogLevel } from "./log";
+import { describe, gasLimitFor, revertReason, sleep, withRetries } from "./tx";
+
+export type JobName = keyof JobSchedules;
+
+const SECONDS_PER_YEAR = BigInt(365 * 24 * 3600);
+const BASIS_POINTS = BigInt(10000);
+// Recent runs kept for the status endpoint
+const MAX_RUNS = 50;
+
+export type JobOutcome =
+  | { status: "nothing_due" }
+  | { status: "unprofitable"; valueWei: bigint; gasCostWei: bigint }
+  | { status: "simulation_failed"; reason: string }
+  | { status: "gas_too_high"; gasEstimate: bigint }
+  | { status: "dry_run"; gasLimit: bigint; valueWei?: bigint; gasCostWei: bigint }
+  | { status: "pending"; txHash: Hash }
+  // The send threw, possibly after the node accepted it - not retried so it can't go out twice
+  | { status: "send_failed"; reason: string }
+  | { status: "sent"; txHash: Hash; gasUsed: bigint; valueWei?: bigint }
+  | { status: "reverted"; txHash: Hash; gasUsed: bigint }
+  | { status: "failed"; reason: string; attempts: number };
+
+export interface JobResult {
+  target: Address;
+  outcome: JobOutcome;
+}
+
+export interface JobRun {
+  job: JobName;
+  startedAt: number;
+  finishedAt: number;
+  results: JobResult[];
+  // Set when the targets couldn't be listed at all
+  error?: string;
+}
+
+export interface JobStatus {
+  job: JobName;
+  schedule: string;
+  nextRunAt: number;
+  lastRun?: JobRun;
+}
+
+// What a call would book, in the contract's asset
+interface PendingValue {
+  asset: Address;
+  amount: bigint;
+}
+
+export function createJobRunner(
+  config: KeeperConfig,
+  client: PublicClient,
+  wallet: WalletClient | undefined,
+  account: Account | undefined
+) {
+  const controller = new AbortController();
+  const runs: JobRun[] = [];
+  const jobs = (Object.keys(config.schedules) as JobName[]).map((job) => {
+    const schedule = parseCron(config.schedules[job]);
+    return { job, schedule, nextRunAt: nextRun(schedule, new Date()).getTime() };
+  });
+
+  async function pendingInterest(vault: Address, now: bigint): Promise<PendingValue> {
+    const read = <F extends "asset" | "totalBorrowed" | "interestRateBps" | "lastAccrualTime">(functionName: F) =>
+      client.readContract({ address: vault, abi: LP_VAULT_ABI, functionName });
+    const [asset, borrowed, rate, lastAccrual] = await Promise.all([
+      read("asset"),
+      read("totalBorrowed"),
+      read("interestRateBps"),
+      read("lastAccrualTime"),
+    ]);
+    // Mirrors LPVault._pendingInterest
+    const amount = (borrowed * rate * (now - lastAccrual)) / (SECONDS_PER_YEAR * BASIS_POINTS);
+    return { asset, amount };
+  }
+
+  async function pendingFees(fund: Address, now: bigint): Promise<PendingValue> {
+    const read = <F extends "asset" | "totalSupply" | "managementFee" | "lastFeeCollection">(functionName: F) =>
+      client.readContract({ address: fund, abi: INDEX_FUND_ABI, functionName });
+    const [asset, supply, fee, lastCollection] = await Promise.all([
+      read("asset"),
+      read("totalSupply"),
+      read("managementFee"),
+      read("lastFeeCollection"),
+    ]);
+    // Mirrors IndexFund.collectFees, valued at the fund's share price
+    const feeShares = (supply * fee * (now - lastCollection)) / (SECONDS_PER_YEAR * BASIS_POINTS);
+    if (feeShares === BigInt(0)) return { asset, amount: BigInt(0) };
+
+    const amount = await client.readContract({
+      address: fund,
+      abi: INDEX_FUND_ABI,
+      functionName: "convertToAssets",
+      args: [feeShares],
+    });
+    return { asset, amount };
+  }
+
+  // WETH counts 1:1 and USDC through the ETH/USD oracle; anything else is left unpriced
+  async function valueInWei({ asset, amount }: PendingValue): Promise<bigint | undefined> {
+    const { weth, usdc, ethUsdOracle } = config.contracts;
+    if (asset === weth) return amount;
+    if (asset !== usdc || !ethUsdOracle) return undefined;
+
+    const [assetDecimals, oracleDecimals, [, answer]] = await Promise.all([
+      client.readContract({ address: asset, abi: ERC20_ABI, functionName: "decimals" }),
+      client.readContract({ address: ethUsdOracle, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "decimals" }),
+      client.readContract({ address: ethUsdOracle, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "latestRoundData" }),
+    ]);
+    if (answer <= BigInt(0)) return undefined;
+    return (amount * BigInt(10) ** BigInt(18 + oracleDecimals)) / (BigInt(10) ** BigInt(assetDecimals) * answer);
+  }
+
+  async function targetsFor(job: JobName): Promise<Address[]> {
+    if (job === "accrueInterest") return config.contracts.lpVaults;
+    if (!config.contracts.fundFactory) return [];
+    const funds = await client.readContract({
+      address: config.contracts.fundFactory,
+      abi: FUND_FACTORY_ABI,
+      functionName: "getAllFunds",
+    });
+    return [...funds];
+  }
+
+  async function attempt(job: JobName, target: Address): Promise<JobOutcome> {
+    const { timestamp } = await client.getBlock();
+    const pending = job === "accrueInterest" ? await pendingInterest(target, timestamp) : await pendingFees(target, timestamp);
+    if (pending.amount <= BigInt(0)) return { status: "nothing_due" };
+
+    const call = { address: target, abi: MAINTENANCE_ABI, functionName: job, account };
+
+    try {
+      await client.simulateContract(call);
+    } catch (error) {
+      const reason = revertReason(error);
+      if (reason !== undefined) return { status: "simulation_failed", reason };
+      throw error;
+    }
+
+    const [gasEstimate, gasPrice, valueWei] = await Promise.all([
+      client.estimateContractGas(call),
+      client.getGasPrice(),
+      valueInWei(pending),
+    ]);
+    const gasLimit = gasLimitFor(config, gasEstimate);
+    if (gasLimit === undefined) return { status: "gas_too_high", gasEstimate };
+
+    const gasCostWei = gasEstimate * gasPrice;
+    if (valueWei !== undefined && gasCostWei > valueWei) return { status: "unprofitable", valueWei, gasCostWei };
+    if (config.dryRun || !wallet || !account) return { status: "dry_run", gasLimit, valueWei, gasCostWei };
+
+    // Nothing from here on throws back into withRetries: the next run re-reads the state, so a
+    // send that may have gone through or a slow transaction is never doubled up
+    let txHash: Hash;
+    try {
+      txHash = await wallet.writeContract({ ...call, account, chain: wallet.chain, gas: gasLimit });
+    } catch (error) {
+      return { status: "send_failed", reason: describe(error) };
+    }
+    log("info", "job_sent", { job, target, txHash, gasLimit });
+
+    const receipt = await client
+      .waitForTransactionReceipt({ hash: txHash, timeout: config.receiptTimeoutMs })
+      .catch(() => undefined);
+    if (!receipt) return { status: "pending", txHash };
+    if (receipt.status === "reverted") return { status: "reverted", txHash, gasUsed: receipt.gasUsed };
+    return { status: "sent", txHash, gasUsed: receipt.gasUsed, valueWei };
+  }
+
+  async function runJob(job: JobName): Promise<JobRun> {
+    const run: JobRun = { job, startedAt: Date.now(), finishedAt: 0, results: [] };
+
+    let targets: Address[] = [];
+    try {
+      targets = await targetsFor(job);
+    } catch (error) {
+      run.error = describe(error);
+    }
+
+    for (const target of targets) {
+      if (controller.signal.aborted) break;
+
+      const outcome = await withRetries<JobOutcome>(
+        config,
+        { job, target },
+        () => attempt(job, target),
+        (reason, attempts) => ({ status: "failed", reason, attempts })
+      );
+      run.results.push({ target, outcome });
+
+      const level: LogLevel =
+        outcome.status === "failed" ||
+        outcome.status === "send_failed" ||
+        outcome.status === "reverted" ||
+        outcome.status === "simulation_failed"
+          ? "error"
+          : "info";
+      log(level, "job_result", { job, target, ...outcome });
+    }
+
+    run.finishedAt = Date.now();
+    log(run.error ? "error" : "info", "job_finished", {
+      job,
+      targets: targets.length,
+      durationMs: run.finishedAt - run.startedAt,
+      error: run.error,
+    });
+    return run;
+  }
+
+  return {
+    status: (): JobStatus[] =>
+      jobs.map(({ job, schedule, nextRunAt }) => ({
+        job,
+        schedule: schedule.expression,
+        nextRunAt,
+        lastRun: runs.find((run) => run.job === job),
+      })),
+
+    // Newest first
+    runs: () => [...runs],
+
+    async run(): Promise<void> {
+      log("info", "jobs_started", {
+        schedules: config.schedules,
+        lpVaults: config.contracts.lpVaults,
+        fundFactory: config.contracts.fundFactory,
+      });
+
+      while (!controller.signal.aborted) {
+        for (const entry of jobs) {
+          if (controller.signal.aborted || entry.nextRunAt > Date.now()) continue;
+
+          runs.unshift(await runJob(entry.job));
+          runs.splice(MAX_RUNS);
+          entry.nextRunAt = nextRun(entry.schedule, new Date()).getTime();
+        }
+
+        // Wake at least once a minute so clock adjustments can't stall a schedule
+        const wait = Math.min(...jobs.map(({ nextRunAt }) => nextRunAt)) - Date.now();
+        await sleep(Math.max(0, Math.min(wait, 60_000)), controller.signal);
+      }
+    },
+
+    stop() {
+      controller.abort();
+    },
+  };
+}
@@ -0,0 +1,17 @@
+// One JSON object per line so the output can be shipped to any log collector as-is
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const minLevel = LEVELS.indexOf((process.env.KEEPER_LOG_LEVEL as LogLevel) || "info");
+
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  if (LEVELS.indexOf(level) < minLevel) return;
+
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields }, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
@@ -0,0 +1,68 @@
+import type { RuleName } from "./config";
+import type { Finding } from "./rules";
+
+export interface Alert extends Finding {
+  firstSeenAt: number;
+  lastSeenAt: number;
+  notifiedAt: number;
+}
+
+export interface AlertEvent {
+  type: "firing" | "resolved";
+  alert: Alert;
+  at: number;
+}
+
+// Resolved alerts kept for the API
+const MAX_RECENT = 100;
+
+// Tracks which findings are new, still firing or gone, and returns the events to notify
+export function createAlertState(renotifyMs: number) {
+  const active = new Map<string, Alert>();
+  const recent: AlertEvent[] = [];
+
+  // Rules that failed to evaluate are left out of `results`, so their alerts stay as they were
+  function update(results: Map<RuleName, Finding[]>, now = Date.now()): AlertEvent[] {
+    const events: AlertEvent[] = [];
+
+    for (const [rule, findings] of results) {
+      const seen = new Set<string>();
+
+      for (const found of findings) {
+        seen.add(found.key);
+        const existing = active.get(found.key);
+
+        if (!existing) {
+          const alert: Alert = { ...found, firstSeenAt: now, lastSeenAt: now, notifiedAt: now };
+          active.set(found.key, alert);
+          events.push({ type: "firing", alert, at: now });
+          continue;
+        }
+
+        const escalated = existing.severity === "warning" && found.severity === "critical";
+        Object.assign(existing, found, { lastSeenAt: now });
+        if (escalated || (renotifyMs > 0 && now - existing.notifiedAt >= renotifyMs)) {
+          existing.notifiedAt = now;
+          events.push({ type: "firing", alert: { ...existing }, at: now });
+        }
+      }
+
+      for (const [key, alert] of active) {
+        if (alert.rule !== rule || seen.has(key)) continue;
+        active.delete(key);
+        const event: AlertEvent = { type: "resolved", alert, at: now };
+        events.push(event);
+        recent.unshift(event);
+      }
+    }
+
+    recent.splice(MAX_RECENT);
+    return events;
+  }
+
+  return {
+    update,
+    active: () => [...active.values()],
+    recent: () => [...recent],
+  };
+}
@@ -0,0 +1,20 @@
+import { createServer } from "node:http";
+import type { MonitorStatus } from "./monitor";
+
+/**
+ * GET /alerts    active alerts, recently resolved ones and rules that failed to evaluate
+ */
+export function createApi(status: () => MonitorStatus) {
+  return createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const found = url.pathname === "/alerts";
+    const code = req.method !== "GET" ? 405 : found ? 200 : 404;
+
+    res.writeHead(code, {
+      "Content-Type": "application/json",
+      // Read by the admin page from any origin
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.end(JSON.stringify(code === 200 ? status() : { error: code === 405 ? "Method not allowed" : "Not found" }));
+  });
+}
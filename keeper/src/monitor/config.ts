@@ -0,0 +1,126 @@
+import { getAddress, type Address } from "viem";
+import { DEPLOYMENTS } from "../../../frontend/lib/generated/deployments";
+import { DEFAULT_RPC_URLS, leveragedTokensFromEnv, numberFromEnv, type LeveragedTarget } from "../config";
+
+export const RULES = ["utilization", "leverage", "oracle", "paused", "rebalance"] as const;
+export type RuleName = (typeof RULES)[number];
+
+export const SINKS = ["stdout", "webhook", "email"] as const;
+export type SinkName = (typeof SINKS)[number];
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+export interface MonitorConfig {
+  chainId: number;
+  rpcUrl: string;
+  pollIntervalMs: number;
+  port: number;
+  rules: RuleName[];
+  // Warn above this; the vault's own maxUtilizationBps is critical
+  maxUtilizationBps: number;
+  // Allowed distance between effective and target leverage, in bps of leverage (2500 = 0.25x)
+  leverageToleranceBps: number;
+  oracleMaxAgeSeconds: number;
+  // Slack past MIN_REBALANCE_INTERVAL before a rebalance counts as overdue
+  rebalanceGraceSeconds: number;
+  // Contracts that are paused on purpose
+  expectedPaused: Address[];
+  // Repeat a still-firing alert after this long; 0 only notifies on changes
+  renotifyMs: number;
+  sinks: SinkName[];
+  webhookUrl?: string;
+  smtp?: SmtpConfig;
+  contracts: {
+    fundFactory?: Address;
+    lpVaults: Address[];
+    leveragedTokens: LeveragedTarget[];
+  };
+}
+
+function listFromEnv<T extends string>(name: string, allowed: readonly T[], fallback: readonly T[]): T[] {
+  const raw = process.env[name];
+  if (!raw) return [...fallback];
+
+  const values = raw.split(",").map((value) => value.trim());
+  const unknown = values.find((value) => !allowed.includes(value as T));
+  if (unknown) throw new Error(`${name} must be a comma-separated list of ${allowed.join(", ")} (got "${unknown}")`);
+  return values as T[];
+}
+
+function smtpFromEnv(): SmtpConfig {
+  const { MONITOR_SMTP_HOST: host, MONITOR_SMTP_FROM: from, MONITOR_SMTP_TO: to } = process.env;
+  if (!host || !from || !to) {
+    throw new Error("The email sink needs MONITOR_SMTP_HOST, MONITOR_SMTP_FROM and MONITOR_SMTP_TO");
+  }
+
+  const port = numberFromEnv("MONITOR_SMTP_PORT", 587);
+  return {
+    host,
+    port,
+    secure: process.env.MONITOR_SMTP_SECURE ? process.env.MONITOR_SMTP_SECURE === "true" : port === 465,
+    user: process.env.MONITOR_SMTP_USER || undefined,
+    pass: process.env.MONITOR_SMTP_PASS || undefined,
+    from,
+    to: to.split(",").map((address) => address.trim()),
+  };
+}
+
+export function loadMonitorConfig(): MonitorConfig {
+  const chainId = numberFromEnv("MONITOR_CHAIN_ID", 31337);
+  const deployment = DEPLOYMENTS[String(chainId) as keyof typeof DEPLOYMENTS];
+  if (!deployment) {
+    throw new Error(
+      `No deployment for chain ${chainId}. Deploy the contracts and run \`npm run deployments:generate\` in frontend/ first.`
+    );
+  }
+
+  const rpcUrl = process.env.MONITOR_RPC_URL || DEFAULT_RPC_URLS[chainId];
+  if (!rpcUrl) {
+    throw new Error(`MONITOR_RPC_URL is required for chain ${chainId}`);
+  }
+
+  const sinks = listFromEnv("MONITOR_SINKS", SINKS, ["stdout"]);
+  const webhookUrl = process.env.MONITOR_WEBHOOK_URL || undefined;
+  if (sinks.includes("webhook") && !webhookUrl) {
+    throw new Error("MONITOR_WEBHOOK_URL is required for the webhook sink");
+  }
+
+  const { contracts } = deployment;
+
+  return {
+    chainId,
+    rpcUrl,
+    pollIntervalMs: numberFromEnv("MONITOR_POLL_INTERVAL_MS", chainId === 31337 ? 5000 : 60_000),
+    port: numberFromEnv("MONITOR_PORT", 4200),
+    rules: listFromEnv("MONITOR_RULES", RULES, RULES),
+    maxUtilizationBps: numberFromEnv("MONITOR_MAX_UTILIZATION_BPS", 8000),
+    leverageToleranceBps: numberFromEnv("MONITOR_LEVERAGE_TOLERANCE_BPS", 2500),
+    oracleMaxAgeSeconds: numberFromEnv("MONITOR_ORACLE_MAX_AGE_SECONDS", 3600),
+    rebalanceGraceSeconds: numberFromEnv("MONITOR_REBALANCE_GRACE_SECONDS", 3600),
+    expectedPaused: (process.env.MONITOR_EXPECTED_PAUSED ?? "")
+      .split(",")
+      .filter((address) => address.trim())
+      .map((address) => getAddress(address.trim())),
+    renotifyMs: numberFromEnv("MONITOR_RENOTIFY_MINUTES", 60) * 60_000,
+    sinks,
+    webhookUrl,
+    smtp: sinks.includes("email") ? smtpFromEnv() : undefined,
+    contracts: {
+      fundFactory: getAddress(contracts.FUND_FACTORY),
+      lpVaults: [getAddress(contracts.LP_VAULT_LONG), getAddress(contracts.LP_VAULT_SHORT)],
+      leveragedTokens: leveragedTokensFromEnv("MONITOR_LEVERAGED_TOKENS", [
+        { kind: "long", address: getAddress(contracts.ETH2X_LONG) },
+        { kind: "short", address: getAddress(contracts.ETH2X_SHORT) },
+      ]),
+    },
+  };
+}
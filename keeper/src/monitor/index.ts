@@ -0,0 +1,38 @@
+/**
+ * Health monitor for the LP vaults and leveraged tokens.
+ *
+ * Evaluates the configured rules every poll (utilization, leverage drift, oracle
+ * staleness, unexpected pauses, overdue rebalances), sends alerts to the configured
+ * sinks when they fire, escalate or resolve, and serves the alert state for the
+ * admin page.
+ *
+ * Usage:
+ *   npm run monitor                                              # Anvil (31337)
+ *   MONITOR_CHAIN_ID=84532 MONITOR_SINKS=stdout,webhook MONITOR_WEBHOOK_URL=https://... npm run monitor
+ */
+import { createPublicClient, http } from "viem";
+import { log } from "../log";
+import { createApi } from "./api";
+import { loadMonitorConfig } from "./config";
+import { createMonitor } from "./monitor";
+import { createSinks } from "./sinks";
+
+const config = loadMonitorConfig();
+const client = createPublicClient({ transport: http(config.rpcUrl) });
+const monitor = createMonitor(config, client, createSinks(config));
+const server = createApi(monitor.status);
+
+server.listen(config.port, () => {
+  log("info", "api_listening", { url: `http://localhost:${config.port}` });
+});
+
+const done = monitor.run();
+
+function shutdown() {
+  monitor.stop();
+  server.close();
+  done.finally(() => process.exit());
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,76 @@
+import type { PublicClient } from "viem";
+import { log } from "../log";
+import { describe, sleep } from "../tx";
+import { createAlertState, type Alert, type AlertEvent } from "./alerts";
+import type { MonitorConfig, RuleName } from "./config";
+import { RULE_CHECKS, type Finding } from "./rules";
+import { dispatch, type AlertSink } from "./sinks";
+
+export interface MonitorStatus {
+  chainId: number;
+  // Last completed check, in ms
+  checkedAt: number | null;
+  rules: RuleName[];
+  // Rules that couldn't be evaluated on the last check; their alerts are left as they were
+  ruleErrors: Partial<Record<RuleName, string>>;
+  active: Alert[];
+  recent: AlertEvent[];
+}
+
+export function createMonitor(config: MonitorConfig, client: PublicClient, sinks: AlertSink[]) {
+  const controller = new AbortController();
+  const alerts = createAlertState(config.renotifyMs);
+  const ruleErrors: Partial<Record<RuleName, string>> = {};
+  let checkedAt: number | null = null;
+
+  async function check() {
+    const { timestamp: now } = await client.getBlock();
+    const results = new Map<RuleName, Finding[]>();
+
+    for (const rule of config.rules) {
+      try {
+        results.set(rule, await RULE_CHECKS[rule]({ config, client, now }));
+        delete ruleErrors[rule];
+      } catch (error) {
+        const reason = describe(error);
+        if (ruleErrors[rule] !== reason) log("error", "rule_failed", { rule, reason });
+        ruleErrors[rule] = reason;
+      }
+    }
+
+    checkedAt = Date.now();
+    await dispatch(sinks, alerts.update(results));
+  }
+
+  return {
+    status: (): MonitorStatus => ({
+      chainId: config.chainId,
+      checkedAt,
+      rules: config.rules,
+      ruleErrors: { ...ruleErrors },
+      active: alerts.active(),
+      recent: alerts.recent(),
+    }),
+
+    async run(): Promise<void> {
+      log("info", "monitor_started", {
+        chainId: config.chainId,
+        rpcUrl: config.rpcUrl,
+        rules: config.rules,
+        sinks: config.sinks,
+      });
+      while (!controller.signal.aborted) {
+        try {
+          await check();
+        } catch (error) {
+          log("error", "check_failed", { reason: describe(error) });
+        }
+        await sleep(config.pollIntervalMs, controller.signal);
+      }
+    },
+
+    stop() {
+      controller.abort();
+    },
+  };
+}
@@ -0,0 +1,200 @@
+import type { Address, PublicClient } from "viem";
+import {
+  CHAINLINK_AGGREGATOR_ABI,
+  FUND_FACTORY_ABI,
+  INDEX_FUND_ABI,
+  LEVERAGED_LONG_TOKEN_ABI,
+  LEVERAGED_SHORT_TOKEN_ABI,
+  LEVERAGED_TOKEN_ABI,
+  LP_VAULT_ABI,
+} from "../abis";
+import type { LeveragedTarget } from "../config";
+import type { MonitorConfig, RuleName } from "./config";
+
+export type Severity = "warning" | "critical";
+
+// One unhealthy condition on one contract; `key` stays stable while the condition lasts
+export interface Finding {
+  key: string;
+  rule: RuleName;
+  severity: Severity;
+  contract: Address;
+  message: string;
+}
+
+interface RuleContext {
+  config: MonitorConfig;
+  client: PublicClient;
+  // Latest block timestamp, in seconds
+  now: bigint;
+}
+
+const BPS = BigInt(10000);
+const ZERO = BigInt(0);
+const ten = (decimals: number) => BigInt(10) ** BigInt(decimals);
+const percent = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+const leverage = (bps: bigint) => `${(Number(bps) / 10000).toFixed(2)}x`;
+const hours = (seconds: bigint) => `${(Number(seconds) / 3600).toFixed(1)}h`;
+
+function finding(rule: RuleName, contract: Address, severity: Severity, message: string): Finding {
+  return { key: `${rule}:${contract}`, rule, severity, contract, message };
+}
+
+async function utilization({ config, client }: RuleContext): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  for (const vault of config.contracts.lpVaults) {
+    const [rate, vaultMax] = await Promise.all([
+      client.readContract({ address: vault, abi: LP_VAULT_ABI, functionName: "utilizationRate" }),
+      client.readContract({ address: vault, abi: LP_VAULT_ABI, functionName: "maxUtilizationBps" }),
+    ]);
+    // At the vault's own cap new mints revert and LPs can't withdraw borrowed funds
+    if (rate >= vaultMax) {
+      findings.push(finding("utilization", vault, "critical", `LP vault utilization ${percent(rate)} is at the vault's ${percent(vaultMax)} cap`));
+    } else if (rate > BigInt(config.maxUtilizationBps)) {
+      findings.push(
+        finding("utilization", vault, "warning", `LP vault utilization ${percent(rate)} is above ${percent(BigInt(config.maxUtilizationBps))}`)
+      );
+    }
+  }
+  return findings;
+}
+
+// Exposure over equity, in bps; undefined without an open position
+async function effectiveLeverage(client: PublicClient, { kind, address }: LeveragedTarget): Promise<bigint | undefined> {
+  const read = <F extends "oracle" | "underlyingDecimals" | "stableDecimals" | "oracleDecimals" | "totalBorrowed">(
+    functionName: F
+  ) => client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName });
+  const [oracle, underlyingDecimals, stableDecimals, oracleDecimals, borrowed] = await Promise.all([
+    read("oracle"),
+    read("underlyingDecimals"),
+    read("stableDecimals"),
+    read("oracleDecimals"),
+    read("totalBorrowed"),
+  ]);
+  // Read the feed directly: getPrice() reverts once the price is stale, which the oracle rule reports
+  const [, price] = await client.readContract({ address: oracle, abi: CHAINLINK_AGGREGATOR_ABI, functionName: "latestRoundData" });
+  const toStable = (underlying: bigint) =>
+    (underlying * price * ten(stableDecimals)) / (ten(underlyingDecimals) * ten(oracleDecimals));
+
+  if (kind === "long") {
+    const held = await client.readContract({ address, abi: LEVERAGED_LONG_TOKEN_ABI, functionName: "totalUnderlying" });
+    const exposure = toStable(held);
+    if (exposure === ZERO) return undefined;
+    const equity = exposure - borrowed;
+    return equity > ZERO ? (exposure * BPS) / equity : -BigInt(1);
+  }
+
+  const stableHeld = await client.readContract({ address, abi: LEVERAGED_SHORT_TOKEN_ABI, functionName: "totalStableHeld" });
+  const debt = toStable(borrowed);
+  if (debt === ZERO) return undefined;
+  const equity = stableHeld - debt;
+  return equity > ZERO ? (debt * BPS) / equity : -BigInt(1);
+}
+
+async function leverageDrift({ config, client }: RuleContext): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  const tolerance = BigInt(config.leverageToleranceBps);
+
+  for (const target of config.contracts.leveragedTokens) {
+    const [targetRatio, effective] = await Promise.all([
+      client.readContract({ address: target.address, abi: LEVERAGED_TOKEN_ABI, functionName: "leverageRatio" }),
+      effectiveLeverage(client, target),
+    ]);
+    if (effective === undefined) continue;
+
+    if (effective < ZERO) {
+      findings.push(finding("leverage", target.address, "critical", `ETH2X ${target.kind} position has no equity left`));
+      continue;
+    }
+    const drift = effective > targetRatio ? effective - targetRatio : targetRatio - effective;
+    if (drift > tolerance) {
+      findings.push(
+        finding(
+          "leverage",
+          target.address,
+          drift > tolerance * BigInt(2) ? "critical" : "warning",
+          `ETH2X ${target.kind} effective leverage ${leverage(effective)} is outside ${leverage(targetRatio)} ± ${leverage(tolerance)}`
+        )
+      );
+    }
+  }
+  return findings;
+}
+
+async function oracleStaleness({ config, client, now }: RuleContext): Promise<Finding[]> {
+  const oracles = new Set<Address>();
+  for (const { address } of config.contracts.leveragedTokens) {
+    oracles.add(await client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "oracle" }));
+  }
+
+  // Past the contracts' own limit every mint, redeem and rebalance reverts
+  const hardLimit = BigInt(config.chainId === 1 ? 3600 : 24 * 3600);
+  const findings: Finding[] = [];
+  for (const oracle of oracles) {
+    const [, , , updatedAt] = await client.readContract({
+      address: oracle,
+      abi: CHAINLINK_AGGREGATOR_ABI,
+      functionName: "latestRoundData",
+    });
+    const age = now - updatedAt;
+    if (age > hardLimit) {
+      findings.push(finding("oracle", oracle, "critical", `Oracle price is ${hours(age)} old; leveraged token calls revert`));
+    } else if (age > BigInt(config.oracleMaxAgeSeconds)) {
+      findings.push(finding("oracle", oracle, "warning", `Oracle price is ${hours(age)} old`));
+    }
+  }
+  return findings;
+}
+
+async function unexpectedPause({ config, client }: RuleContext): Promise<Finding[]> {
+  const funds = config.contracts.fundFactory
+    ? await client.readContract({ address: config.contracts.fundFactory, abi: FUND_FACTORY_ABI, functionName: "getAllFunds" })
+    : [];
+  const contracts: [Address, string][] = [
+    ...config.contracts.lpVaults.map((address) => [address, "LP vault"] as [Address, string]),
+    ...config.contracts.leveragedTokens.map(({ address, kind }) => [address, `ETH2X ${kind}`] as [Address, string]),
+    ...funds.map((address) => [address, "Index fund"] as [Address, string]),
+  ];
+
+  const findings: Finding[] = [];
+  for (const [address, label] of contracts) {
+    if (config.expectedPaused.includes(address)) continue;
+    // Every protocol contract shares OpenZeppelin's paused()
+    const paused = await client.readContract({ address, abi: INDEX_FUND_ABI, functionName: "paused" });
+    if (paused) findings.push(finding("paused", address, "critical", `${label} is paused`));
+  }
+  return findings;
+}
+
+async function rebalanceOverdue({ config, client, now }: RuleContext): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  const grace = BigInt(config.rebalanceGraceSeconds);
+
+  for (const { address, kind } of config.contracts.leveragedTokens) {
+    const [lastRebalance, interval] = await Promise.all([
+      client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "lastRebalanceTime" }),
+      client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "MIN_REBALANCE_INTERVAL" }),
+    ]);
+    const overdue = now - lastRebalance - interval;
+    if (overdue > grace) {
+      findings.push(
+        finding(
+          "rebalance",
+          address,
+          // A whole missed interval means holders are compounding off a stale reference price
+          overdue > grace + interval ? "critical" : "warning",
+          `ETH2X ${kind} rebalance is ${hours(overdue)} overdue`
+        )
+      );
+    }
+  }
+  return findings;
+}
+
+export const RULE_CHECKS: Record<RuleName, (context: RuleContext) => Promise<Finding[]>> = {
+  utilization,
+  leverage: leverageDrift,
+  oracle: oracleStaleness,
+  paused: unexpectedPause,
+  rebalance: rebalanceOverdue,
+};
@@ -0,0 +1,86 @@
+import { log } from "../log";
+import type { AlertEvent } from "./alerts";
+import type { MonitorConfig, SinkName } from "./config";
+import { sendMail } from "./smtp";
+
+export interface AlertSink {
+  name: SinkName;
+  send(event: AlertEvent): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function summary({ type, alert }: AlertEvent): string {
+  const label = type === "resolved" ? "RESOLVED" : alert.severity.toUpperCase();
+  return `[${label}] ${alert.message}`;
+}
+
+function stdoutSink(): AlertSink {
+  return {
+    name: "stdout",
+    async send({ type, alert }) {
+      const level = type === "resolved" ? "info" : alert.severity === "critical" ? "error" : "warn";
+      log(level, `alert_${type}`, { ...alert });
+    },
+  };
+}
+
+// Posts the event as JSON; `text` makes it render as-is in Slack-style incoming webhooks
+function webhookSink(url: string, chainId: number): AlertSink {
+  return {
+    name: "webhook",
+    async send(event) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: summary(event), chainId, ...event }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+function emailSink(config: NonNullable<MonitorConfig["smtp"]>, chainId: number): AlertSink {
+  return {
+    name: "email",
+    async send(event) {
+      const { alert } = event;
+      const body = [
+        alert.message,
+        "",
+        `Rule: ${alert.rule}`,
+        `Severity: ${alert.severity}`,
+        `Contract: ${alert.contract}`,
+        `Chain: ${chainId}`,
+        `First seen: ${new Date(alert.firstSeenAt).toISOString()}`,
+        event.type === "resolved" ? `Resolved: ${new Date(event.at).toISOString()}` : `Last seen: ${new Date(alert.lastSeenAt).toISOString()}`,
+      ].join("\n");
+      await sendMail(config, summary(event), body);
+    },
+  };
+}
+
+export function createSinks(config: MonitorConfig): AlertSink[] {
+  return config.sinks.map((name) => {
+    if (name === "webhook") return webhookSink(config.webhookUrl!, config.chainId);
+    if (name === "email") return emailSink(config.smtp!, config.chainId);
+    return stdoutSink();
+  });
+}
+
+// A failing sink is logged and never blocks the others
+export async function dispatch(sinks: AlertSink[], events: AlertEvent[]) {
+  for (const event of events) {
+    const results = await Promise.allSettled(sinks.map((sink) => sink.send(event)));
+    results.forEach((result, i) => {
+      if (result.status === "rejected") {
+        log("error", "alert_sink_failed", {
+          sink: sinks[i].name,
+          key: event.alert.key,
+          reason: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+  }
+}
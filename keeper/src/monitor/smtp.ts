@@ -0,0 +1,159 @@
+import { connect as netConnect, type Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as tlsConnect, TLSSocket } from "node:tls";
+import type { SmtpConfig } from "./config";
+
+// Just enough SMTP for plain-text alert mail: EHLO, STARTTLS, AUTH PLAIN, one message, QUIT
+
+const TIMEOUT_MS = 30_000;
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+// Reads replies off one socket; a new session is started on the TLS socket after STARTTLS
+function session(socket: Socket) {
+  let buffer = "";
+  let pendingLines: string[] = [];
+  const replies: Reply[] = [];
+  let waiter: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | undefined;
+  let failure: Error | undefined;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      pendingLines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] === "-") continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: pendingLines };
+      pendingLines = [];
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+      waiter = undefined;
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    waiter?.reject(error);
+    waiter = undefined;
+  };
+  const onClose = () => onError(new Error("SMTP connection closed"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  function read(): Promise<Reply> {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiter = { resolve, reject };
+    });
+  }
+
+  return {
+    async command(line: string | undefined, expect: number[]): Promise<Reply> {
+      if (line !== undefined) socket.write(`${line}\r\n`);
+      const reply = await read();
+      if (!expect.includes(reply.code)) {
+        // Only the verb, so AUTH credentials never end up in an error message
+        const verb = line === undefined ? "greeting" : line.split(/[ :]/)[0];
+        throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`);
+      }
+      return reply;
+    },
+
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function open({ host, port, secure }: SmtpConfig): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port });
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: Socket, host: string): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tlsConnect({ socket, servername: host }, () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+    secure.once("error", reject);
+  });
+}
+
+// "Alerts <alerts@example.com>" -> "alerts@example.com"
+const envelopeAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+// RFC 2047 for non-ASCII subjects ("±" in leverage alerts)
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+function message(config: SmtpConfig, subject: string, text: string): string {
+  // Base64 bodies need no dot-stuffing and survive servers without 8BITMIME
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n")).toString("base64").match(/.{1,76}/g) ?? [];
+  return [
+    `From: ${config.from}`,
+    `To: ${config.to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...body,
+    ".",
+  ].join("\r\n");
+}
+
+export async function sendMail(config: SmtpConfig, subject: string, text: string): Promise<void> {
+  let socket = await open(config);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP timed out")));
+
+  try {
+    let smtp = session(socket);
+    await smtp.command(undefined, [220]);
+    const ehlo = await smtp.command(`EHLO ${hostname()}`, [250]);
+
+    if (!config.secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await smtp.command("STARTTLS", [220]);
+      smtp.detach();
+      socket = await upgrade(socket, config.host);
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP timed out")));
+      smtp = session(socket);
+      await smtp.command(`EHLO ${hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      if (!(socket instanceof TLSSocket)) {
+        throw new Error("Refusing to send SMTP credentials over an unencrypted connection");
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`).toString("base64");
+      await smtp.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await smtp.command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250]);
+    for (const to of config.to) await smtp.command(`RCPT TO:<${envelopeAddress(to)}>`, [250, 251]);
+    await smtp.command("DATA", [354]);
+    await smtp.command(message(config, subject, text), [250]);
+    await smtp.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
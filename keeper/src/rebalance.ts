@@ -0,0 +1,162 @@
+import { parseEventLogs, type Account, type Address, type Hash, type PublicClient, type WalletClient } from "viem";
+import { LEVERAGED_TOKEN_ABI } from "./abis";
+import type { KeeperConfig, LeveragedTarget } from "./config";
+import { log } from "./log";
+import { describe, gasLimitFor, revertReason, sleep, withRetries } from "./tx";
+
+export type RebalanceOutcome =
+  | { status: "not_due" }
+  | { status: "paused" }
+  | { status: "pending"; txHash: Hash }
+  // The send threw, possibly after the node accepted it - not retried so it can't go out twice
+  | { status: "send_failed"; reason: string }
+  | { status: "simulation_failed"; reason: string }
+  | { status: "gas_too_high"; gasEstimate: bigint }
+  | { status: "dry_run"; gasLimit: bigint }
+  | { status: "rebalanced"; txHash: Hash; gasUsed: bigint; oldNav?: bigint; newNav?: bigint }
+  | { status: "reverted"; txHash: Hash; gasUsed: bigint }
+  | { status: "failed"; reason: string; attempts: number };
+
+export interface TargetStatus extends LeveragedTarget {
+  checkedAt: number;
+  outcome: RebalanceOutcome;
+}
+
+export function createRebalanceKeeper(
+  config: KeeperConfig,
+  client: PublicClient,
+  wallet: WalletClient | undefined,
+  account: Account | undefined
+) {
+  const controller = new AbortController();
+  const statuses = new Map<Address, TargetStatus>();
+  // Sent transactions whose receipt hadn't arrived before the timeout; nothing is resent until they settle
+  const pending = new Map<Address, Hash>();
+
+  async function settlePending(target: LeveragedTarget): Promise<RebalanceOutcome | undefined> {
+    const hash = pending.get(target.address);
+    if (!hash) return undefined;
+
+    const receipt = await client.getTransactionReceipt({ hash }).catch(() => undefined);
+    if (!receipt) return { status: "pending", txHash: hash };
+
+    pending.delete(target.address);
+    log(receipt.status === "success" ? "info" : "warn", "rebalance_settled", {
+      token: target.address,
+      txHash: hash,
+      status: receipt.status,
+    });
+    return undefined;
+  }
+
+  async function attempt(target: LeveragedTarget): Promise<RebalanceOutcome> {
+    const { address } = target;
+    const [paused, due] = await Promise.all([
+      client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "paused" }),
+      client.readContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "needsRebalance" }),
+    ]);
+    if (paused) return { status: "paused" };
+    if (!due) return { status: "not_due" };
+
+    try {
+      await client.simulateContract({ address, abi: LEVERAGED_TOKEN_ABI, functionName: "rebalance", account });
+    } catch (error) {
+      const reason = revertReason(error);
+      if (reason !== undefined) return { status: "simulation_failed", reason };
+      throw error;
+    }
+
+    const gasEstimate = await client.estimateContractGas({
+      address,
+      abi: LEVERAGED_TOKEN_ABI,
+      functionName: "rebalance",
+      account,
+    });
+    const gasLimit = gasLimitFor(config, gasEstimate);
+    if (gasLimit === undefined) return { status: "gas_too_high", gasEstimate };
+    if (config.dryRun || !wallet || !account) return { status: "dry_run", gasLimit };
+
+    let txHash: Hash;
+    try {
+      txHash = await wallet.writeContract({
+        address,
+        abi: LEVERAGED_TOKEN_ABI,
+        functionName: "rebalance",
+        account,
+        chain: wallet.chain,
+        gas: gasLimit,
+      });
+    } catch (error) {
+      return { status: "send_failed", reason: describe(error) };
+    }
+    log("info", "rebalance_sent", { token: address, kind: target.kind, txHash, gasLimit });
+
+    let receipt;
+    try {
+      receipt = await client.waitForTransactionReceipt({ hash: txHash, timeout: config.receiptTimeoutMs });
+    } catch {
+      pending.set(address, txHash);
+      return { status: "pending", txHash };
+    }
+
+    if (receipt.status === "reverted") return { status: "reverted", txHash, gasUsed: receipt.gasUsed };
+
+    const [event] = parseEventLogs({ abi: LEVERAGED_TOKEN_ABI, logs: receipt.logs, eventName: "Rebalanced" });
+    return {
+      status: "rebalanced",
+      txHash,
+      gasUsed: receipt.gasUsed,
+      oldNav: event?.args.oldNav,
+      newNav: event?.args.newNav,
+    };
+  }
+
+  async function rebalance(target: LeveragedTarget): Promise<RebalanceOutcome> {
+    const waiting = await settlePending(target);
+    if (waiting) return waiting;
+
+    return withRetries(
+      config,
+      { job: "rebalance", token: target.address, kind: target.kind },
+      () => attempt(target),
+      (reason, attempts) => ({ status: "failed", reason, attempts })
+    );
+  }
+
+  async function tick() {
+    for (const target of config.leveragedTokens) {
+      if (controller.signal.aborted) return;
+
+      const outcome = await rebalance(target);
+      statuses.set(target.address, { ...target, checkedAt: Date.now(), outcome });
+
+      const fields = { token: target.address, kind: target.kind, ...outcome };
+      if (outcome.status === "not_due" || outcome.status === "pending") log("debug", "rebalance_checked", fields);
+      else if (outcome.status === "rebalanced" || outcome.status === "dry_run") log("info", "rebalance_result", fields);
+      else if (outcome.status === "paused") log("warn", "rebalance_skipped", fields);
+      else log("error", "rebalance_result", fields);
+    }
+  }
+
+  return {
+    statuses: () => [...statuses.values()],
+
+    async run(): Promise<void> {
+      log("info", "keeper_started", {
+        chainId: config.chainId,
+        rpcUrl: config.rpcUrl,
+        account: account?.address,
+        dryRun: config.dryRun,
+        tokens: config.leveragedTokens,
+      });
+      while (!controller.signal.aborted) {
+        await tick();
+        await sleep(config.pollIntervalMs, controller.signal);
+      }
+    },
+
+    stop() {
+      controller.abort();
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { BaseError, ContractFunctionRevertedError } from "viem";
+import type { KeeperConfig } from "./config";
+import { log } from "./log";
+
+// Resolves early when the signal aborts, so loops can stop mid-wait
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+export function describe(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Reverts are deterministic, so they're reported instead of retried
+export function revertReason(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) return undefined;
+  return revert.reason ?? revert.data?.errorName ?? revert.shortMessage;
+}
+
+// Estimate plus the configured buffer, capped at the max; undefined when the estimate alone is over it
+export function gasLimitFor(config: KeeperConfig, gasEstimate: bigint): bigint | undefined {
+  if (gasEstimate > config.maxGasLimit) return undefined;
+  const buffered = (gasEstimate * BigInt(100 + config.gasBufferPercent)) / BigInt(100);
+  return buffered > config.maxGasLimit ? config.maxGasLimit : buffered;
+}
+
+// Retries transport and nonce errors with exponential backoff; `attempt` returns rather than
+// throws for outcomes that shouldn't be retried, including anything after a transaction was sent
+export async function withRetries<T>(
+  config: KeeperConfig,
+  context: Record<string, unknown>,
+  attempt: () => Promise<T>,
+  exhausted: (reason: string, attempts: number) => T
+): Promise<T> {
+  for (let attempts = 1; ; attempts++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const reason = describe(error);
+      if (attempts > config.maxRetries) return exhausted(reason, attempts);
+
+      const delay = config.retryDelayMs * 2 ** (attempts - 1);
+      log("warn", "retry", { ...context, attempts, delay, reason });
+      await sleep(delay);
+    }
+  }
+}